@@ -26,14 +26,8 @@ fi
 
 echo "$(date '+%H:%M:%S') sending to socket" >> "$LOG"
 
-# Determine project name from cwd
-PROJECT=""
-if [ -n "$CWD" ]; then
-  PROJECT="$(basename "$CWD")"
-fi
-
-# Build JSON request
-REQUEST="$(jq -nc --arg prompt "$PROMPT" --arg project "$PROJECT" '{prompt: $prompt, project: $project}')"
+# Build JSON request (the server resolves cwd to the canonical project)
+REQUEST="$(jq -nc --arg prompt "$PROMPT" --arg cwd "$CWD" '{prompt: $prompt, cwd: $cwd}')"
 
 # Send to socket and get response
 RESPONSE="$(echo "$REQUEST" | nc -U "$SOCKET" -w 8 2>/dev/null || echo '{}')"
@@ -14,27 +14,11 @@ fi
 INPUT="$(cat)"
 CWD="$(echo "$INPUT" | jq -r '.cwd // empty')"
 
-PROJECT=""
+# cli.js resuelve el cwd al proyecto canónico y cuenta los auto_capture
+# de las últimas 24h de ese proyecto
+CWD_ARGS=()
 if [ -n "$CWD" ]; then
-  PROJECT="$(basename "$CWD")"
+  CWD_ARGS=(--cwd "$CWD")
 fi
 
-# Contar auto_capture de las últimas 24h para este proyecto
-if [ -n "$PROJECT" ]; then
-  COUNT="$(sqlite3 "$DB" "
-    SELECT COUNT(*) FROM experiences
-    WHERE type = 'auto_capture'
-      AND project = '${PROJECT//\'/\'\'}'
-      AND created_at > datetime('now', '-24 hours')
-      AND deleted_at IS NULL;
-  " 2>/dev/null || echo '0')"
-else
-  COUNT="$(sqlite3 "$DB" "
-    SELECT COUNT(*) FROM experiences
-    WHERE type = 'auto_capture'
-      AND created_at > datetime('now', '-24 hours')
-      AND deleted_at IS NULL;
-  " 2>/dev/null || echo '0')"
-fi
-
-node "$CLI" session_summary --project "$PROJECT" --count "$COUNT" 2>/dev/null || true
+node "$CLI" session_summary ${CWD_ARGS[@]+"${CWD_ARGS[@]}"} 2>/dev/null || true
@@ -12,14 +12,15 @@ INPUT="$(cat)"
 CWD="$(echo "$INPUT" | jq -r '.cwd // empty')"
 SOURCE="$(echo "$INPUT" | jq -r '.source // "startup"')"
 
-PROJECT=""
+# El proyecto canónico se resuelve a partir del cwd (registro de proyectos)
+CWD_ARGS=()
 if [ -n "$CWD" ]; then
-  PROJECT="$(basename "$CWD")"
+  CWD_ARGS=(--cwd "$CWD")
 fi
 
 # Intentar búsqueda híbrida via socket (más rica: vector + FTS5)
 if [ -S "$SOCKET" ]; then
-  REQUEST="$(jq -nc --arg type "session_start" --arg project "$PROJECT" --arg source "$SOURCE" '{type: $type, project: $project, source: $source}')"
+  REQUEST="$(jq -nc --arg type "session_start" --arg cwd "$CWD" --arg source "$SOURCE" '{type: $type, cwd: $cwd, source: $source}')"
   RESPONSE="$(echo "$REQUEST" | nc -U "$SOCKET" -w 8 2>/dev/null || echo '{}')"
 
   # Verificar que la respuesta tiene contenido
@@ -32,7 +33,7 @@ fi
 
 # Fallback: cli.js get_context (solo FTS5 + recientes)
 if [ -f "$CLI" ]; then
-  node "$CLI" get_context --project "$PROJECT" --source "$SOURCE" 2>/dev/null || echo '{}'
+  node "$CLI" get_context ${CWD_ARGS[@]+"${CWD_ARGS[@]}"} --source "$SOURCE" 2>/dev/null || echo '{}'
 else
   echo '{}'
 fi
@@ -0,0 +1,98 @@
+/**
+ * access.ts - Retrieval access tracking.
+ *
+ * Every time a memory actually reaches the agent it is counted:
+ *   - query_memory   results returned by the tool
+ *   - on_prompt      memories injected by the UserPromptSubmit hook
+ *   - get_memory     experiences opened in full
+ *
+ * experiences / preferences carry access_count and last_accessed_at
+ * (migration 7). The counts feed two consumers:
+ *   - hybridSearch   frequently used memories get a small, saturating
+ *                    boost on top of their fused score (scoring.ts)
+ *   - prune_memory   `unused_days` soft-deletes experiences nobody has
+ *                    retrieved in that window (never-used ones included)
+ *
+ * Session-start injection is deliberately not counted: it replays the
+ * same preferences every session, which would make every memory look used.
+ *
+ * Like telemetry, a failed access write never breaks the response it is
+ * recording. Functions take the database handle as a parameter so they
+ * can be tested against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { NOT_PINNED_SQL } from "./pins.js";
+
+export interface AccessHits {
+  experiences?: number[];
+  preferences?: number[];
+}
+
+export type AccessKind = "experience" | "preference";
+
+const TABLES: Record<AccessKind, string> = {
+  experience: "experiences",
+  preference: "preferences",
+};
+
+/** Bump access_count / last_accessed_at for the given memories. */
+export function recordAccess(db: BetterSqlite3.Database, hits: AccessHits): void {
+  try {
+    const bump = (kind: AccessKind, ids: number[] | undefined) => {
+      if (!ids || ids.length === 0) return;
+      db.prepare(
+        `UPDATE ${TABLES[kind]}
+         SET access_count = access_count + 1, last_accessed_at = datetime('now')
+         WHERE id IN (SELECT DISTINCT value FROM json_each(?))`
+      ).run(JSON.stringify(ids));
+    };
+    db.transaction(() => {
+      bump("experience", hits.experiences);
+      bump("preference", hits.preferences);
+    })();
+  } catch {
+    // Access tracking is best-effort
+  }
+}
+
+/** access_count per id; ids without a row are absent from the map. */
+export function loadAccessCounts(db: BetterSqlite3.Database, kind: AccessKind, ids: number[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  if (ids.length === 0) return counts;
+  const rows = db
+    .prepare(`SELECT id, access_count FROM ${TABLES[kind]} WHERE id IN (SELECT value FROM json_each(?))`)
+    .all(JSON.stringify(ids)) as { id: number; access_count: number }[];
+  for (const row of rows) counts.set(row.id, row.access_count);
+  return counts;
+}
+
+// Active, unpinned, created more than @days ago, and not retrieved in that
+// window (or never)
+const UNUSED_WHERE = `
+  deleted_at IS NULL AND ${NOT_PINNED_SQL}
+  AND created_at < datetime('now', '-' || @days || ' days')
+  AND (last_accessed_at IS NULL OR last_accessed_at < datetime('now', '-' || @days || ' days'))`;
+
+/**
+ * Soft-delete experiences nobody retrieved in the last `days` days, under
+ * one deletion batch. Creation age is checked too, so a memory is never
+ * pruned before it had a chance to be used.
+ */
+export function pruneUnusedExperiences(db: BetterSqlite3.Database, days: number, batch: string): number {
+  return db
+    .prepare(
+      `UPDATE experiences SET deleted_at = datetime('now'), deleted_batch = @batch
+       WHERE ${UNUSED_WHERE}`
+    )
+    .run({ days, batch }).changes;
+}
+
+/** Active experiences that have never been retrieved. */
+export function countNeverAccessed(db: BetterSqlite3.Database): number {
+  return (
+    db.prepare(`SELECT COUNT(*) AS n FROM experiences WHERE deleted_at IS NULL AND access_count = 0`).get() as {
+      n: number;
+    }
+  ).n;
+}
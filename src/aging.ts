@@ -0,0 +1,48 @@
+/**
+ * aging.ts - Age signal for experiences in hybrid search.
+ *
+ * The legacy FTS queries (searchExperiences*) mixed a recency_score into
+ * their ORDER BY; hybridSearch fused only vector similarity and FTS
+ * coverage, so a three-year-old workaround ranked like yesterday's fix.
+ * hybridSearch now scales each experience's fused score by an aging
+ * factor (computeAgingFactor, scoring.ts) from the time the experience was
+ * last seen: a duplicate re-insert or topic upsert (last_seen_at) makes it
+ * fresh again, otherwise created_at counts.
+ *
+ * Half-lives come from config.json `aging`, per experience type, so
+ * decisions can age slower than auto-captures. Preferences are not aged
+ * here: they have their own confirmation-based decay (applyDecay).
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { computeAgingFactor, resolveAgingPolicy } from "./scoring.js";
+import { getConfig, type MemoryConfig } from "./config.js";
+
+/**
+ * Aging factor per experience id; ids without a row are absent from the
+ * map. `nowMs` is the reference date (hybridSearch passes asOf, so a
+ * search of the past ages memories as they were then).
+ */
+export function loadAgingFactors(
+  db: BetterSqlite3.Database,
+  ids: number[],
+  options: { nowMs?: number; config?: MemoryConfig } = {}
+): Map<number, number> {
+  const factors = new Map<number, number>();
+  if (ids.length === 0) return factors;
+  const config = options.config ?? getConfig();
+  const nowMs = options.nowMs ?? Date.now();
+  const rows = db
+    .prepare(
+      `SELECT id, type, COALESCE(last_seen_at, created_at) AS seen_at
+       FROM experiences WHERE id IN (SELECT value FROM json_each(?))`
+    )
+    .all(JSON.stringify(ids)) as { id: number; type: string; seen_at: string | null }[];
+  for (const row of rows) {
+    factors.set(row.id, computeAgingFactor(row.seen_at, resolveAgingPolicy(row.type, config), nowMs));
+  }
+  return factors;
+}
@@ -12,29 +12,83 @@
  *
  * Commands:
  *   auto_capture       Records tool usage (post-tool-use hook)
- *   get_context        Returns additionalContext JSON (session-start hook)
+ *   get_context        Returns additionalContext JSON (session-start hook;
+ *                      --package adds a monorepo package preference layer;
+ *                      pinned experiences are always listed first)
  *   session_summary    Records a session summary (session-end hook)
- *   consolidate        Offline maintenance: dedupe preferences, purge old
- *                      soft-deleted rows, clean orphans, VACUUM.
+ *   query              Hybrid search with the query DSL (query-dsl.ts), e.g.
+ *                      --query 'type:gotcha tag:docker since:2w "exact phrase"'
+ *                      [--project P] [--limit N] [--rerank] (cross-encoder
+ *                      pass over the top matches, rerank.ts)
+ *                      [--fusion weighted|rrf|max|learned] [--debug]
+ *                      (fusion strategy and per-channel scores, fusion.ts).
+ *   consolidate        Offline maintenance: dedupe preferences, report
+ *                      conflicting ones, apply retention policies and
+ *                      expires_at, purge old soft-deleted rows, clean
+ *                      orphans, VACUUM.
  *                      Dry-run by default; pass --apply to execute.
+ *   resolve_conflict   Invalidate one of two conflicting preferences in
+ *                      favour of the other (--keep ID --drop ID).
+ *   list_invalidated_preferences
+ *                      List invalidated preferences with their cause and
+ *                      superseded_by chain (--scope, --key, --cause, --limit).
+ *   restore_preference Undo the invalidation of a preference
+ *                      (--key K [--scope S]).
+ *   rollback_topic     Restore a topic_key experience to an earlier revision
+ *                      (--topic_key K [--project P] --revision N).
+ *   rollback_preference Restore an earlier value of a preference
+ *                      (--key K [--scope S] --revision N).
+ *   list_trash         List soft-deleted experiences (--project, --tag, --batch,
+ *                      --deleted_since, --deleted_before, --limit).
+ *   restore_memory     Restore soft-deleted experiences (--ids 1,2, --batch,
+ *                      --project, --tag, --deleted_since, --deleted_before).
+ *   list_tags          List tags in use with counts per project (--project).
+ *   rename_tag         Rename a tag, merging if the target exists (--from --to).
+ *   list_projects      List registered projects with aliases and fingerprints.
+ *   rename_project     Rename a project, merging if the target exists, and
+ *                      rewrite existing project/scope values (--from --to).
+ *   scrub_secrets      Mask secrets already stored in experiences, revisions,
+ *                      preferences, patterns and feedback, refreshing FTS
+ *                      and vectors.
+ *                      Dry-run by default; pass --apply to execute.
+ *   migrate status     Show the schema version and pending migrations.
+ *   migrate up         Apply pending schema migrations.
+ *
+ * Hooks pass --cwd; it is resolved to the canonical project through the
+ * project registry (projects.ts). --project accepts a name or alias.
  */
 
-import db, {
-  insertOrDeduplicate,
-  getMergedPreferences,
-  getRecentExperiences,
-  getExperiencesByType,
-  getPatterns,
-  getStats,
-  checkpoint,
-} from "./database.js";
+import Database from "better-sqlite3";
+import {
+  runMigrations,
+  getMigrationStatus,
+  formatMigrationStatus,
+  DEFAULT_DB_PATH,
+} from "./migrations.js";
 import { recordTelemetry } from "./telemetry.js";
 import {
   formatSessionIndex,
   formatMinimalContext,
+  formatResultScores,
   AUTO_MIN_EFFECTIVE_CONFIDENCE,
 } from "./context-format.js";
 import { runConsolidation, formatConsolidationReport } from "./consolidate.js";
+import { formatTagList } from "./tags.js";
+import { parseQuery } from "./query-dsl.js";
+import { describeSearchFilters } from "./search-filters.js";
+import { shouldRerank, rerankFetchLimit, rerankResults } from "./rerank.js";
+import { FUSION_STRATEGIES } from "./config.js";
+import { describeFusionPolicy, type FusionStrategy } from "./scoring.js";
+import { formatProjectList } from "./projects.js";
+import { normalizeScopeParam } from "./scopes.js";
+import { formatScrubReport, countRedactions } from "./redaction.js";
+import { formatTrashListing, isEmptyTrashFilter, TRASH_DEFAULT_LIMIT, type TrashFilter } from "./trash.js";
+import {
+  formatInvalidatedPreferences,
+  INVALIDATED_DEFAULT_LIMIT,
+  INVALIDATION_CAUSES,
+  type InvalidationCause,
+} from "./invalidated-preferences.js";
 
 // ── CLI argument parsing ────────────────────────────────
 
@@ -71,15 +125,95 @@ async function readStdin(): Promise<Record<string, any>> {
   });
 }
 
+// ── Trash filter from CLI params ────────────────────────
+
+function trashFilterFromParams(params: Record<string, any>): TrashFilter {
+  return {
+    ids: params.ids
+      ? String(params.ids).split(",").map((id) => parseInt(id, 10)).filter((id) => !Number.isNaN(id))
+      : undefined,
+    project: params.project,
+    tag: params.tag,
+    batch: params.batch,
+    deletedSince: params.deleted_since,
+    deletedBefore: params.deleted_before,
+  };
+}
+
+// ── Schema migrations ───────────────────────────────────
+// Runs BEFORE database.js is loaded: importing it opens the production
+// database and applies pending migrations on its own, which would leave
+// nothing for `migrate status` to report.
+
+function runMigrateCommand(action: string) {
+  const db = new Database(DEFAULT_DB_PATH);
+  try {
+    if (action === "up") {
+      const applied = runMigrations(db);
+      const lines = applied.length === 0
+        ? ["Schema already up to date."]
+        : applied.map((m) => `Applied migration ${m.version} (${m.name}).`);
+      console.log([...lines, "", formatMigrationStatus(getMigrationStatus(db))].join("\n"));
+    } else if (action === "status" || !action) {
+      console.log(formatMigrationStatus(getMigrationStatus(db)));
+    } else {
+      console.error(JSON.stringify({ ok: false, error: `Unknown migrate action: ${action} (use status or up)` }));
+      process.exitCode = 1;
+    }
+  } finally {
+    db.close();
+  }
+}
+
 // ── Main ─────────────────────────────────────────────────
 
 async function main() {
   const command = process.argv[2];
+
+  if (command === "migrate") {
+    runMigrateCommand(process.argv[3]);
+    return;
+  }
+
+  const {
+    default: db,
+    insertOrDeduplicate,
+    getMergedPreferences,
+    getRecentExperiences,
+    getExperiencesByType,
+    getPatterns,
+    getStats,
+    checkpoint,
+    rollbackTopicRevision,
+    rollbackPreferenceRevision,
+    resolveConflict,
+    restorePreference,
+    listInvalidatedPreferences,
+    listTrashedExperiences,
+    restoreExperiences,
+    listTags,
+    renameOrMergeTag,
+    resolveProjectForCwd,
+    resolveProjectParam,
+    listProjects,
+    renameOrMergeProject,
+    countRecentAutoCaptures,
+    scrubStoredSecrets,
+    listPinnedExperiences,
+    hybridSearch,
+    getExperienceById,
+    getPreferenceById,
+    getFusionPolicy,
+  } = await import("./database.js");
+
   const cliArgs = parseArgs(process.argv);
   const stdinData = await readStdin();
 
   // CLI args take priority over stdin
   const params: Record<string, any> = { ...stdinData, ...cliArgs };
+  params.project = params.cwd
+    ? resolveProjectForCwd(String(params.cwd))
+    : resolveProjectParam(params.project ? String(params.project) : undefined);
 
   switch (command) {
 
@@ -90,7 +224,7 @@ async function main() {
         console.log(JSON.stringify({ ok: true, skipped: true }));
         break;
       }
-      const { id, deduplicated } = await insertOrDeduplicate({
+      const { id, deduplicated, redacted } = await insertOrDeduplicate({
         type: "auto_capture",
         context,
         action: "tool_use",
@@ -100,7 +234,7 @@ async function main() {
         project: params.project || "",
       });
       checkpoint();
-      console.log(JSON.stringify({ ok: true, id, deduplicated }));
+      console.log(JSON.stringify({ ok: true, id, deduplicated, ...(countRedactions(redacted) > 0 ? { redacted } : {}) }));
       break;
     }
 
@@ -112,7 +246,9 @@ async function main() {
       // Automatic output: apply the effective-confidence floor
       const prefs = getMergedPreferences(project, {
         minEffectiveConfidence: AUTO_MIN_EFFECTIVE_CONFIDENCE,
+        package: params.package,
       });
+      const pinned = listPinnedExperiences(project);
 
       // After compaction or /clear: minimal reminder, not the full dump
       if (source === "compact" || source === "clear") {
@@ -122,8 +258,9 @@ async function main() {
           source,
           prefCount: prefs.length,
           expCount: stats.experiences,
+          pinned,
         });
-        recordTelemetry(db, { channel: "session_start", project, chars: contextText.length, items: 0 });
+        recordTelemetry(db, { channel: "session_start", project, chars: contextText.length, items: pinned.length });
         console.log(JSON.stringify({ additionalContext: contextText }));
         break;
       }
@@ -139,6 +276,7 @@ async function main() {
         project,
         source,
         prefs,
+        pinned,
         experiences: recentExp,
         patterns: topPatterns,
         corrections,
@@ -147,7 +285,7 @@ async function main() {
         channel: "session_start",
         project,
         chars: contextText.length,
-        items: prefs.length + recentExp.length + topPatterns.length + corrections.length,
+        items: pinned.length + prefs.length + recentExp.length + topPatterns.length + corrections.length,
       });
 
       console.log(JSON.stringify({ additionalContext: contextText }));
@@ -157,7 +295,8 @@ async function main() {
     // Used by session-end.sh
     case "session_summary": {
       const project = params.project || "";
-      const count = parseInt(params.count || "0", 10);
+      // Older hooks count the captures themselves and pass --count
+      const count = params.count !== undefined ? parseInt(params.count, 10) || 0 : countRecentAutoCaptures(project);
       if (count > 0) {
         const summary = `Session ended. ${count} tool actions captured for project ${project}.`;
         insertOrDeduplicate({
@@ -175,6 +314,59 @@ async function main() {
       break;
     }
 
+    // Manual: search from the terminal, same DSL as query_memory
+    case "query": {
+      const parsed = parseQuery(String(params.query || ""));
+      if (parsed.errors.length > 0 || !parsed.text) {
+        const error = parsed.errors.length > 0 ? parsed.errors.join("; ") : "query requires --query with search words";
+        console.error(JSON.stringify({ ok: false, error }));
+        process.exit(1);
+      }
+      const project = params.project || (parsed.project ? resolveProjectParam(parsed.project) : "");
+      const limit = parseInt(params.limit || "8", 10);
+      if (params.fusion !== undefined && !(FUSION_STRATEGIES as readonly string[]).includes(params.fusion)) {
+        console.error(JSON.stringify({ ok: false, error: `--fusion must be one of ${FUSION_STRATEGIES.join(", ")}` }));
+        process.exit(1);
+      }
+      const fusion = getFusionPolicy(project || undefined, params.fusion as FusionStrategy | undefined);
+      const debug = params.debug === "true" || params.debug === true;
+      const reranking = shouldRerank(params.rerank === "true" || params.rerank === true ? true : undefined);
+      // Loaded here: the embedding and cross-encoder models are too heavy for the hook commands
+      const { getEmbedding } = await import("./embeddings.js");
+      const searched = hybridSearch({
+        safeQuery: parsed.ftsQuery,
+        ftsTerms: parsed.terms,
+        queryEmbedding: await getEmbedding(parsed.text),
+        project: project || undefined,
+        limit: reranking ? rerankFetchLimit(limit) : limit,
+        filters: parsed.filters,
+        fusion,
+      });
+      let results = searched;
+      if (reranking) {
+        const { crossEncoderScorer } = await import("./cross-encoder.js");
+        results = await rerankResults(db, parsed.text, searched, { scorer: crossEncoderScorer(), limit });
+      }
+      const lines = results.map((r) => {
+        const score = `${r.score.toFixed(2)}${r.rerankScore !== undefined ? ` (cross-encoder ${r.rerankScore.toFixed(2)})` : ""}`;
+        const detail = debug ? `\n      ${formatResultScores(r)}` : "";
+        if (r.source === "preference") {
+          const pref = getPreferenceById.get({ id: r.id }) as any;
+          return `${score}  [preference] ${pref?.key}: "${pref?.value}" [${pref?.scope}]${detail}`;
+        }
+        const exp = getExperienceById.get({ id: r.id }) as any;
+        return `${score}  [id:${r.id}] [${exp?.type}] ${exp?.success ? "OK" : "FAIL"}${exp?.project ? ` (${exp.project})` : ""} | ${(exp?.context || "").substring(0, 80)}${detail}`;
+      });
+      const filters = describeSearchFilters(parsed.filters);
+      const fusionNote = debug ? `Fusion: ${describeFusionPolicy(fusion)}\n` : "";
+      console.log(
+        lines.length > 0
+          ? `${fusionNote}Found ${lines.length} results${filters ? ` (filtered: ${filters})` : ""}:\n\n${lines.join("\n")}`
+          : "No relevant memories found."
+      );
+      break;
+    }
+
     // Manual/cron maintenance: dedupe + purge + orphan cleanup + VACUUM.
     // Dry-run by default; --apply executes the changes.
     case "consolidate": {
@@ -185,6 +377,144 @@ async function main() {
       break;
     }
 
+    // Manual: mask secrets stored before redaction existed (see redaction.ts)
+    case "scrub_secrets": {
+      const apply = params.apply === "true" || params.apply === true;
+      const { report, reembedded } = await scrubStoredSecrets(apply);
+      if (apply) checkpoint();
+      console.log(formatScrubReport(report) + (reembedded > 0 ? `\nRe-embedded ${reembedded} memories.` : ""));
+      break;
+    }
+
+    // Manual: undo a topic_key upsert (see revisions.ts)
+    case "rollback_topic": {
+      const revision = parseInt(params.revision || "", 10);
+      if (!params.topic_key || Number.isNaN(revision)) {
+        console.error(JSON.stringify({ ok: false, error: "rollback_topic requires --topic_key and --revision" }));
+        process.exit(1);
+      }
+      const result = await rollbackTopicRevision({
+        topic_key: params.topic_key,
+        project: params.project || "",
+        revision,
+      });
+      if (result.ok) checkpoint();
+      console.log(JSON.stringify(result));
+      break;
+    }
+
+    // Manual: undo a preference value change (see preference-revisions.ts)
+    case "rollback_preference": {
+      const revision = parseInt(params.revision || "", 10);
+      if (!params.key || Number.isNaN(revision)) {
+        console.error(JSON.stringify({ ok: false, error: "rollback_preference requires --key and --revision" }));
+        process.exit(1);
+      }
+      const result = await rollbackPreferenceRevision({
+        key: params.key,
+        scope: params.scope ? (normalizeScopeParam(params.scope, resolveProjectParam) ?? params.scope) : "global",
+        revision,
+      });
+      if (result.ok) checkpoint();
+      console.log(JSON.stringify(result));
+      break;
+    }
+
+    // Manual: settle a conflict reported by consolidate (see conflicts.ts)
+    case "resolve_conflict": {
+      const keep = parseInt(params.keep || "", 10);
+      const drop = parseInt(params.drop || "", 10);
+      if (Number.isNaN(keep) || Number.isNaN(drop)) {
+        console.error(JSON.stringify({ ok: false, error: "resolve_conflict requires --keep and --drop" }));
+        process.exit(1);
+      }
+      const result = resolveConflict(keep, drop);
+      if (result.ok) checkpoint();
+      console.log(JSON.stringify(result));
+      break;
+    }
+
+    // Manual: review / undo preference invalidations (see invalidated-preferences.ts)
+    case "list_invalidated_preferences": {
+      const limit = parseInt(params.limit || String(INVALIDATED_DEFAULT_LIMIT), 10);
+      if (params.cause !== undefined && !(INVALIDATION_CAUSES as readonly string[]).includes(params.cause)) {
+        console.error(JSON.stringify({ ok: false, error: `--cause must be one of ${INVALIDATION_CAUSES.join(", ")}` }));
+        process.exit(1);
+      }
+      const filter = {
+        scope: params.scope ? (normalizeScopeParam(params.scope, resolveProjectParam) ?? params.scope) : undefined,
+        key: params.key || undefined,
+        cause: (params.cause || undefined) as InvalidationCause | undefined,
+      };
+      console.log(formatInvalidatedPreferences(listInvalidatedPreferences(filter, limit)));
+      break;
+    }
+
+    case "restore_preference": {
+      if (!params.key) {
+        console.error(JSON.stringify({ ok: false, error: "restore_preference requires --key" }));
+        process.exit(1);
+      }
+      const scope = params.scope ? (normalizeScopeParam(params.scope, resolveProjectParam) ?? params.scope) : "global";
+      const restored = restorePreference(params.key, scope);
+      if (restored) checkpoint();
+      console.log(JSON.stringify({ ok: true, restored }));
+      break;
+    }
+
+    // Manual: inspect / undo soft deletes (see trash.ts)
+    case "list_trash": {
+      const limit = parseInt(params.limit || String(TRASH_DEFAULT_LIMIT), 10);
+      console.log(formatTrashListing(listTrashedExperiences(trashFilterFromParams(params), limit)));
+      break;
+    }
+
+    case "restore_memory": {
+      const filter = trashFilterFromParams(params);
+      if (isEmptyTrashFilter(filter)) {
+        console.error(JSON.stringify({ ok: false, error: "restore_memory requires at least one filter" }));
+        process.exit(1);
+      }
+      const { restored, reembedded } = await restoreExperiences(filter);
+      if (restored.length > 0) checkpoint();
+      console.log(JSON.stringify({ ok: true, restored, reembedded }));
+      break;
+    }
+
+    // Manual: tag maintenance (see tags.ts)
+    case "list_tags": {
+      console.log(formatTagList(listTags(params.project || undefined), params.project || undefined));
+      break;
+    }
+
+    case "rename_tag": {
+      if (!params.from || !params.to) {
+        console.error(JSON.stringify({ ok: false, error: "rename_tag requires --from and --to" }));
+        process.exit(1);
+      }
+      const result = renameOrMergeTag(params.from, params.to);
+      if (result.ok) checkpoint();
+      console.log(JSON.stringify(result));
+      break;
+    }
+
+    // Manual: project registry maintenance (see projects.ts)
+    case "list_projects": {
+      console.log(formatProjectList(listProjects()));
+      break;
+    }
+
+    case "rename_project": {
+      if (!params.from || !params.to) {
+        console.error(JSON.stringify({ ok: false, error: "rename_project requires --from and --to" }));
+        process.exit(1);
+      }
+      const result = renameOrMergeProject(String(params.from), String(params.to));
+      if (result.ok) checkpoint();
+      console.log(JSON.stringify(result));
+      break;
+    }
+
     default:
       console.error(JSON.stringify({ ok: false, error: `Unknown command: ${command}` }));
       process.exit(1);
@@ -0,0 +1,264 @@
+/**
+ * config.ts - Optional user configuration (data/config.json).
+ *
+ * The file is optional: without it every setting falls back to its
+ * default, so existing installs behave exactly as before. The location can
+ * be overridden with AGENT_MEMORY_CONFIG (tests, multiple installs).
+ *
+ * Current sections:
+ *   - scopes.layers      ordered intermediate preference layers, most
+ *                        general first (default: org, team, stack). The
+ *                        chain is always global → layers… → project → package.
+ *   - scopes.projects    which layer scopes each project inherits, e.g.
+ *                        { "api": ["org:acme", "team:payments"] }. The "*"
+ *                        entry applies to every project (merged with the
+ *                        project's own entry).
+ *   - redaction.rules    extra secret patterns ({ name, pattern, flags? }),
+ *                        applied before the built-in library (redaction.ts).
+ *                        A named group `secret` masks only that part.
+ *   - redaction.entropy  high-entropy token detection (default: true).
+ *   - retention.rules    how long each experience type is kept, optionally
+ *                        per project ({ type, project?, days }; days: null
+ *                        = forever). Enforced by `consolidate` (retention.ts).
+ *   - decay              how preference confidence fades with time since
+ *                        the last confirmation: model "ladder" (default,
+ *                        step ladder) or "half_life" (half_life_days),
+ *                        overridden per category ({ keys: [...] }, a
+ *                        trailing * matches a prefix) and per key
+ *                        (scoring.ts).
+ *   - aging              how experiences lose search relevance with age
+ *                        (hybridSearch): half_life_days (null = never),
+ *                        floor (the lowest factor), and half-lives per
+ *                        experience type in `types` (scoring.ts).
+ *   - rerank             optional cross-encoder reranking of the top search
+ *                        candidates: enabled (default false), model,
+ *                        candidates, weight of the cross-encoder score
+ *                        against the fused one (rerank.ts).
+ *   - fusion             how hybridSearch combines its vector and FTS
+ *                        channels: strategy "weighted" (default;
+ *                        vector_weight, fts_weight), "rrf" (rrf_k), "max"
+ *                        or "learned" (weights fitted to rate_memory
+ *                        votes), overridden per project in `projects`
+ *                        (scoring.ts, fusion.ts).
+ *   - preferences.types  typed preference keys: { "<key>": { type, ... } }
+ *                        with type boolean, enum (values, aliases?),
+ *                        number (min?, max?, integer?), string_list
+ *                        (values?) or json. learn_preference validates and
+ *                        normalizes their values (preference-types.ts).
+ *
+ * The file is validated with zod; a malformed file raises ConfigError
+ * instead of being silently ignored.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_CONFIG_PATH = path.join(__dirname, "..", "data", "config.json");
+
+/** Intermediate preference layers used when the config does not set any. */
+export const DEFAULT_SCOPE_LAYERS = ["org", "team", "stack"];
+
+const LAYER_NAME = /^[a-z][a-z0-9_-]*$/;
+
+const preferenceTypeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("boolean") }),
+  z
+    .object({
+      type: z.literal("enum"),
+      values: z.array(z.string().min(1)).min(1),
+      aliases: z.record(z.string(), z.string()).default({}),
+    })
+    .refine((t) => Object.values(t.aliases).every((v) => t.values.includes(v)), "aliases must map to one of the values"),
+  z
+    .object({
+      type: z.literal("number"),
+      min: z.number().optional(),
+      max: z.number().optional(),
+      integer: z.boolean().default(false),
+    })
+    .refine((t) => t.min === undefined || t.max === undefined || t.min <= t.max, "min is greater than max"),
+  z.object({ type: z.literal("string_list"), values: z.array(z.string().min(1)).optional() }),
+  z.object({ type: z.literal("json") }),
+]);
+
+/** Half-life used when "half_life" is chosen without half_life_days. */
+export const DEFAULT_HALF_LIFE_DAYS = 180;
+
+const decayOverrideSchema = z.object({
+  model: z.enum(["ladder", "half_life"]).optional(),
+  half_life_days: z.number().positive().optional(),
+});
+
+/**
+ * Aging half-lives (days) per experience type used when the config has no
+ * `aging.types`: hook noise goes stale fast, decisions and corrections
+ * stay relevant for years.
+ */
+export const DEFAULT_AGING_HALF_LIVES: Record<string, number | null> = {
+  auto_capture: 30,
+  session_summary: 90,
+  decision: 1095,
+  correction: 1095,
+};
+
+/** Cross-encoder used for reranking when the config does not name one. */
+export const DEFAULT_RERANK_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+/** Ways hybridSearch can combine its channels (see fuseChannels, scoring.ts). */
+export const FUSION_STRATEGIES = ["weighted", "rrf", "max", "learned"] as const;
+
+const fusionOverrideSchema = z.object({
+  strategy: z.enum(FUSION_STRATEGIES).optional(),
+  vector_weight: z.number().min(0).max(1).optional(),
+  fts_weight: z.number().min(0).max(1).optional(),
+  rrf_k: z.number().positive().optional(),
+});
+
+/** Names that already mean something in the scope grammar. */
+const RESERVED_LAYERS = new Set(["global", "project", "package"]);
+
+const configSchema = z.object({
+  scopes: z
+    .object({
+      layers: z
+        .array(
+          z
+            .string()
+            .regex(LAYER_NAME, "layer names are lowercase identifiers")
+            .refine((l) => !RESERVED_LAYERS.has(l), "global/project/package are built-in layers")
+        )
+        .default(DEFAULT_SCOPE_LAYERS),
+      projects: z.record(z.string(), z.array(z.string())).default({}),
+    })
+    .default({ layers: DEFAULT_SCOPE_LAYERS, projects: {} }),
+  redaction: z
+    .object({
+      entropy: z.boolean().default(true),
+      rules: z
+        .array(
+          z
+            .object({
+              name: z.string().regex(LAYER_NAME, "rule names are lowercase identifiers"),
+              pattern: z.string().min(1),
+              flags: z.string().regex(/^[imsu]*$/, "allowed flags: i, m, s, u").optional(),
+            })
+            .refine((r) => compiles(r.pattern, r.flags), "pattern is not a valid regular expression")
+        )
+        .default([]),
+    })
+    .default({ entropy: true, rules: [] }),
+  retention: z
+    .object({
+      rules: z
+        .array(
+          z.object({
+            type: z.string().min(1),
+            project: z.string().min(1).optional(),
+            days: z.number().int().positive().nullable(),
+          })
+        )
+        .default([]),
+    })
+    .default({ rules: [] }),
+  decay: z
+    .object({
+      model: z.enum(["ladder", "half_life"]).default("ladder"),
+      half_life_days: z.number().positive().default(DEFAULT_HALF_LIFE_DAYS),
+      categories: z
+        .record(z.string().min(1), decayOverrideSchema.extend({ keys: z.array(z.string().min(1)).min(1) }))
+        .default({}),
+      keys: z.record(z.string().min(1), decayOverrideSchema).default({}),
+    })
+    .default({ model: "ladder", half_life_days: DEFAULT_HALF_LIFE_DAYS, categories: {}, keys: {} }),
+  aging: z
+    .object({
+      half_life_days: z.number().positive().nullable().default(365),
+      floor: z.number().min(0).max(1).default(0.5),
+      types: z.record(z.string().min(1), z.number().positive().nullable()).default(DEFAULT_AGING_HALF_LIVES),
+    })
+    .default({ half_life_days: 365, floor: 0.5, types: DEFAULT_AGING_HALF_LIVES }),
+  rerank: z
+    .object({
+      enabled: z.boolean().default(false),
+      model: z.string().min(1).default(DEFAULT_RERANK_MODEL),
+      candidates: z.number().int().positive().default(20),
+      weight: z.number().min(0).max(1).default(0.5),
+    })
+    .default({ enabled: false, model: DEFAULT_RERANK_MODEL, candidates: 20, weight: 0.5 }),
+  fusion: z
+    .object({
+      strategy: z.enum(FUSION_STRATEGIES).default("weighted"),
+      vector_weight: z.number().min(0).max(1).default(0.7),
+      fts_weight: z.number().min(0).max(1).default(0.3),
+      rrf_k: z.number().positive().default(60),
+      projects: z.record(z.string().min(1), fusionOverrideSchema).default({}),
+    })
+    .default({ strategy: "weighted", vector_weight: 0.7, fts_weight: 0.3, rrf_k: 60, projects: {} }),
+  preferences: z
+    .object({
+      types: z.record(z.string().min(1), preferenceTypeSchema).default({}),
+    })
+    .default({ types: {} }),
+});
+
+function compiles(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type MemoryConfig = z.infer<typeof configSchema>;
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly configPath: string,
+    detail: string
+  ) {
+    super(`Invalid config file ${configPath}: ${detail}`);
+    this.name = "ConfigError";
+  }
+}
+
+/** Validate an already-parsed config object (defaults filled in). */
+export function parseConfig(raw: unknown, configPath = "<inline>"): MemoryConfig {
+  const parsed = configSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ConfigError(configPath, `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/** Read and validate a config file. A missing file yields the defaults. */
+export function loadConfig(configPath: string = process.env.AGENT_MEMORY_CONFIG || DEFAULT_CONFIG_PATH): MemoryConfig {
+  let text: string;
+  try {
+    text = fs.readFileSync(configPath, "utf8");
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return parseConfig({}, configPath);
+    throw new ConfigError(configPath, err?.message ?? String(err));
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err: any) {
+    throw new ConfigError(configPath, `not valid JSON (${err?.message ?? err})`);
+  }
+  return parseConfig(raw, configPath);
+}
+
+let cached: MemoryConfig | undefined;
+
+/** Process-wide config, loaded once on first use. */
+export function getConfig(): MemoryConfig {
+  if (!cached) cached = loadConfig();
+  return cached;
+}
@@ -0,0 +1,169 @@
+/**
+ * conflicts.ts - Contradicting preferences.
+ *
+ * Near-duplicate detection (preference-dedupe.ts) finds preferences that
+ * say the same thing. A contradiction is the opposite case: two active
+ * preferences about the same subject whose values disagree, e.g.
+ * `indent: tabs` vs `code_style: 2 spaces`. The rule is cheap, like the
+ * dedupe one (embeddings, no LLM):
+ *   - the scopes overlap: some project inherits both (scopes.ts), so the
+ *     two values can reach the agent together;
+ *   - the embeddings are related (cosine similarity at least
+ *     CONFLICT_SIMILARITY_MIN) but not near-duplicates (at most
+ *     PREF_SIMILARITY_THRESHOLD, those are consolidate's job);
+ *   - the values share few words (overlap below CONFLICT_VALUE_OVERLAP_MAX).
+ * The same key in two scopes is an intentional override, never a conflict.
+ *
+ * Conflicts are only reported (consolidate, memory_stats): which value is
+ * right is the user's call. resolve_conflict invalidates the loser with
+ * superseded_by pointing at the winner, recorded as a preference revision.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { NOT_EXPIRED_SQL } from "./expiry.js";
+import {
+  loadPreferenceVectors,
+  cosineSimilarity,
+  pickSurvivor,
+  PREF_SIMILARITY_THRESHOLD,
+  type PreferencePairMember,
+} from "./preference-dedupe.js";
+import { invalidatePreferenceById } from "./preference-revisions.js";
+import { scopesOverlap } from "./scopes.js";
+import type { MemoryConfig } from "./config.js";
+
+/** Cosine similarity from which two preferences are about the same subject. */
+export const CONFLICT_SIMILARITY_MIN = 0.6;
+/** Word overlap (Jaccard) of the values below which they disagree. */
+export const CONFLICT_VALUE_OVERLAP_MAX = 0.5;
+/** Conflicts listed in memory_stats. */
+export const STATS_MAX_CONFLICTS = 5;
+
+export interface ConflictMember extends PreferencePairMember {
+  value: string;
+  scope: string;
+}
+
+export interface PreferenceConflict {
+  similarity: number;
+  /** Suggested winner (higher confidence / more recently confirmed). */
+  keep: ConflictMember;
+  drop: ConflictMember;
+}
+
+interface PreferenceRow {
+  id: number;
+  key: string;
+  value: string;
+  scope: string;
+  confidence: number;
+  last_confirmed_at: string | null;
+}
+
+const MEMBER_COLUMNS = "id, key, value, scope, confidence, last_confirmed_at";
+
+function toMember(row: PreferenceRow): ConflictMember {
+  return {
+    id: row.id,
+    key: row.key,
+    value: row.value,
+    scope: row.scope,
+    confidence: row.confidence,
+    lastConfirmedAt: row.last_confirmed_at,
+  };
+}
+
+function words(value: string): Set<string> {
+  return new Set(value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/** Jaccard overlap of the words of two values, in [0, 1]. */
+export function valueOverlap(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 && wb.size === 0) return 1;
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+}
+
+/**
+ * Pairs of active, unexpired preferences that look contradictory, most
+ * similar first. Preferences without a stored vector are skipped.
+ */
+export function findPreferenceConflicts(
+  db: BetterSqlite3.Database,
+  options: { minSimilarity?: number; maxSimilarity?: number; config?: MemoryConfig } = {}
+): PreferenceConflict[] {
+  const minSimilarity = options.minSimilarity ?? CONFLICT_SIMILARITY_MIN;
+  const maxSimilarity = options.maxSimilarity ?? PREF_SIMILARITY_THRESHOLD;
+
+  const vectors = loadPreferenceVectors(db);
+  if (vectors.size === 0) return [];
+
+  const rows = db
+    .prepare(
+      `SELECT ${MEMBER_COLUMNS} FROM preferences
+       WHERE invalidated_at IS NULL AND ${NOT_EXPIRED_SQL} ORDER BY id ASC`
+    )
+    .all() as PreferenceRow[];
+  const prefs = rows.filter((p) => vectors.has(p.id)).map(toMember);
+
+  const conflicts: PreferenceConflict[] = [];
+  for (let i = 0; i < prefs.length; i++) {
+    for (let j = i + 1; j < prefs.length; j++) {
+      const a = prefs[i];
+      const b = prefs[j];
+      if (a.key === b.key) continue;
+      const similarity = cosineSimilarity(vectors.get(a.id)!, vectors.get(b.id)!);
+      if (similarity < minSimilarity || similarity > maxSimilarity) continue;
+      if (valueOverlap(a.value, b.value) >= CONFLICT_VALUE_OVERLAP_MAX) continue;
+      if (!scopesOverlap(a.scope, b.scope, options.config)) continue;
+      const [keep, drop] = pickSurvivor(a, b);
+      conflicts.push({ similarity, keep, drop });
+    }
+  }
+
+  return conflicts.sort((a, b) => b.similarity - a.similarity);
+}
+
+export type ResolveConflictResult =
+  | { ok: true; keep: ConflictMember; drop: ConflictMember }
+  | { ok: false; reason: "same_preference" | "not_found" };
+
+/**
+ * Invalidate `dropId` in favour of `keepId` (superseded_by = the winner's
+ * key). Both must be active; reversible like any invalidation.
+ */
+export function resolvePreferenceConflict(
+  db: BetterSqlite3.Database,
+  params: { keepId: number; dropId: number }
+): ResolveConflictResult {
+  if (params.keepId === params.dropId) return { ok: false, reason: "same_preference" };
+
+  const load = (id: number) => {
+    const row = db
+      .prepare(`SELECT ${MEMBER_COLUMNS} FROM preferences WHERE id = ? AND invalidated_at IS NULL`)
+      .get(id) as PreferenceRow | undefined;
+    return row && toMember(row);
+  };
+  const keep = load(params.keepId);
+  const drop = load(params.dropId);
+  if (!keep || !drop) return { ok: false, reason: "not_found" };
+
+  invalidatePreferenceById(db, drop.id, { change: "conflict", supersededBy: keep.key });
+  return { ok: true, keep, drop };
+}
+
+/** `[global] 'indent' = "tabs" <> [api] 'code_style' = "2 spaces"` plus similarity and suggestion. */
+export function formatConflict(conflict: PreferenceConflict): string {
+  const side = (m: ConflictMember) => `[${m.scope}] '${m.key}' = "${m.value.substring(0, 60)}" (pref #${m.id})`;
+  return (
+    `${side(conflict.keep)} <> ${side(conflict.drop)}` +
+    ` | similarity ${conflict.similarity.toFixed(2)}` +
+    ` | suggested: resolve_conflict keep=${conflict.keep.id} drop=${conflict.drop.id}`
+  );
+}
@@ -6,13 +6,20 @@
  *      similarity above PREF_SIMILARITY_THRESHOLD) and, in apply mode,
  *      invalidates the weaker one (reversible: invalidated_at +
  *      superseded_by pointing at the survivor's key, never DELETE).
- *   2. Purges experiences that were soft-deleted more than
+ *      Related preferences whose values disagree (conflicts.ts) are
+ *      reported but never resolved here: that is resolve_conflict's job.
+ *   2. Applies the retention policies from config.json (retention.ts):
+ *      active experiences older than their type's retention are
+ *      soft-deleted in one deletion batch (undo with restore_memory).
+ *      Experiences past their own expires_at (expiry.ts) go to the same
+ *      batch, and expired preferences are invalidated (reversible).
+ *   3. Purges experiences that were soft-deleted more than
  *      PURGE_SOFT_DELETED_DAYS days ago (definitive DELETE of rows already
  *      marked as deleted; the FTS delete trigger keeps the index in sync).
- *   3. Removes orphaned vector rows (vec_experiences / vec_preferences
+ *   4. Removes orphaned vector rows (vec_experiences / vec_preferences
  *      entries whose parent row no longer exists) and rebuilds the FTS
  *      index from the content table.
- *   4. Runs VACUUM and reports the bytes reclaimed.
+ *   5. Runs VACUUM and reports the bytes reclaimed.
  *
  * Meant for manual or cron execution through the CLI (`consolidate`
  * subcommand) — NEVER called from the request hot path. Functions take the
@@ -26,6 +33,18 @@ import {
   PREF_SIMILARITY_THRESHOLD,
   type SimilarPreferencePair,
 } from "./preference-dedupe.js";
+import { getConfig } from "./config.js";
+import { newDeletionBatch } from "./trash.js";
+import {
+  findExpiredExperiences,
+  softDeleteExpired,
+  formatRetentionRule,
+  type RetentionOutcome,
+  type RetentionRule,
+} from "./retention.js";
+import { findPastExpiry, invalidateExpiredPreferences } from "./expiry.js";
+import { invalidatePreferenceById } from "./preference-revisions.js";
+import { findPreferenceConflicts, formatConflict, type PreferenceConflict } from "./conflicts.js";
 
 /** Soft-deleted experiences older than this many days are purged for real. */
 export const PURGE_SOFT_DELETED_DAYS = 90;
@@ -37,6 +56,20 @@ export interface ConsolidationReport {
   pairs: SimilarPreferencePair[];
   /** Preferences actually invalidated (0 in dry-run). */
   invalidated: number;
+  /** Contradicting preference pairs left for resolve_conflict (after step 1 in apply mode). */
+  conflicts: PreferenceConflict[];
+  /** Expired experiences per retention rule (dry-run and apply). */
+  retention: RetentionOutcome[];
+  /** Experiences soft-deleted by retention (0 in dry-run). */
+  expiredSoftDeleted: number;
+  /** Active experiences / preferences past their expires_at (dry-run and apply). */
+  pastExpiry: { experiences: number; preferences: number };
+  /** Experiences past expires_at soft-deleted (0 in dry-run). */
+  pastExpirySoftDeleted: number;
+  /** Preferences past expires_at invalidated (0 in dry-run). */
+  pastExpiryInvalidated: number;
+  /** Deletion batch of the retention and expiry soft-deletes (null when none). */
+  retentionBatch: string | null;
   /** Soft-deleted experiences eligible for purge. */
   purgeable: number;
   /** Rows actually purged (0 in dry-run). */
@@ -91,12 +124,14 @@ function deleteOrphans(db: BetterSqlite3.Database, vecTable: string, idColumn: s
  */
 export function runConsolidation(
   db: BetterSqlite3.Database,
-  options: { apply: boolean; similarityThreshold?: number; purgeDays?: number }
+  options: { apply: boolean; similarityThreshold?: number; purgeDays?: number; retention?: RetentionRule[] }
 ): ConsolidationReport {
   const threshold = options.similarityThreshold ?? PREF_SIMILARITY_THRESHOLD;
   const purgeDays = options.purgeDays ?? PURGE_SOFT_DELETED_DAYS;
 
   const pairs = findSimilarPreferencePairs(db, threshold);
+  const expired = findExpiredExperiences(db, options.retention ?? getConfig().retention.rules);
+  const pastExpiry = findPastExpiry(db);
 
   const purgeable = (
     db
@@ -113,6 +148,13 @@ export function runConsolidation(
     similarityThreshold: threshold,
     pairs,
     invalidated: 0,
+    conflicts: [],
+    retention: expired.outcomes,
+    expiredSoftDeleted: 0,
+    pastExpiry: { experiences: pastExpiry.experiences.length, preferences: pastExpiry.preferences.length },
+    pastExpirySoftDeleted: 0,
+    pastExpiryInvalidated: 0,
+    retentionBatch: null,
     purgeable,
     purged: 0,
     orphanExperienceVectors: 0,
@@ -122,6 +164,7 @@ export function runConsolidation(
   };
 
   if (!options.apply) {
+    report.conflicts = findPreferenceConflicts(db, { maxSimilarity: threshold });
     // Dry-run still reports orphan counts so the user knows what --apply would do
     report.orphanExperienceVectors = countOrphans(db, "vec_experiences", "experience_id", "experiences");
     report.orphanPreferenceVectors = countOrphans(db, "vec_preferences", "preference_id", "preferences");
@@ -131,24 +174,31 @@ export function runConsolidation(
   // 1. Invalidate the loser of each near-duplicate pair (reversible).
   //    Pairs are sorted by similarity; in chains (A~B~C) a preference
   //    already invalidated in this run is skipped, and survivors of earlier
-  //    pairs are never invalidated by later ones.
-  const invalidateById = db.prepare(
-    `UPDATE preferences
-     SET invalidated_at = datetime('now'), superseded_by = @superseded_by
-     WHERE id = @id AND invalidated_at IS NULL`
-  );
+  //    pairs are never invalidated by later ones. Each invalidation is
+  //    recorded as a preference revision.
   const touched = new Set<number>();
   for (const pair of pairs) {
     if (touched.has(pair.loser.id) || touched.has(pair.survivor.id)) continue;
-    const result = invalidateById.run({ id: pair.loser.id, superseded_by: pair.survivor.key });
-    if (result.changes > 0) {
+    if (invalidatePreferenceById(db, pair.loser.id, { change: "consolidate", supersededBy: pair.survivor.key })) {
       report.invalidated++;
       touched.add(pair.loser.id);
       touched.add(pair.survivor.id);
     }
   }
+  report.conflicts = findPreferenceConflicts(db, { maxSimilarity: threshold });
+
+  // 2. Retention and expires_at: soft-delete expired experiences as one
+  //    restorable batch. They just got deleted_at = now, so step 3 does not
+  //    purge them. Expired preferences are invalidated instead.
+  if (expired.ids.length > 0 || pastExpiry.experiences.length > 0) {
+    const batch = newDeletionBatch();
+    report.pastExpirySoftDeleted = softDeleteExpired(db, pastExpiry.experiences, batch);
+    report.expiredSoftDeleted = softDeleteExpired(db, expired.ids, batch);
+    report.retentionBatch = batch;
+  }
+  report.pastExpiryInvalidated = invalidateExpiredPreferences(db, pastExpiry.preferences);
 
-  // 2. Purge soft-deleted experiences older than the cutoff. Their vectors
+  // 3. Purge soft-deleted experiences older than the cutoff. Their vectors
   //    are removed first (no trigger covers vec_experiences); the FTS
   //    delete trigger fires on each row DELETE.
   const purgeIds = (
@@ -178,7 +228,7 @@ export function runConsolidation(
     report.purged = result.changes;
   }
 
-  // 3. Orphan cleanup + FTS rebuild from the content table.
+  // 4. Orphan cleanup + FTS rebuild from the content table.
   report.orphanExperienceVectors = deleteOrphans(db, "vec_experiences", "experience_id", "experiences");
   report.orphanPreferenceVectors = deleteOrphans(db, "vec_preferences", "preference_id", "preferences");
   try {
@@ -188,7 +238,7 @@ export function runConsolidation(
     report.ftsRebuilt = false;
   }
 
-  // 4. VACUUM and measure the space reclaimed.
+  // 5. VACUUM and measure the space reclaimed.
   try {
     db.pragma("wal_checkpoint(TRUNCATE)");
   } catch {
@@ -224,6 +274,30 @@ export function formatConsolidationReport(report: ConsolidationReport): string {
   );
   lines.push("");
 
+  lines.push(`Conflicting preferences (related, diverging values): ${report.conflicts.length}`);
+  for (const conflict of report.conflicts) lines.push(`  - ${formatConflict(conflict)}`);
+  if (report.conflicts.length > 0) lines.push(`  Never resolved automatically: pick the right value with resolve_conflict.`);
+  lines.push("");
+
+  lines.push(`Retention policies:`);
+  if (report.retention.length === 0) lines.push(`  (none configured: experiences are kept until deleted)`);
+  for (const outcome of report.retention) {
+    const expired = outcome.rule.days === null ? "" : ` | ${outcome.expired} expired`;
+    lines.push(`  - ${formatRetentionRule(outcome.rule)}${expired}`);
+  }
+  lines.push(
+    report.applied
+      ? `Experiences soft-deleted by retention: ${report.expiredSoftDeleted}` +
+          (report.retentionBatch ? ` (batch ${report.retentionBatch}, undo with restore_memory --batch ${report.retentionBatch})` : "")
+      : `Experiences that would be soft-deleted by retention with --apply: ${report.retention.reduce((n, o) => n + o.expired, 0)}`
+  );
+  lines.push(
+    report.applied
+      ? `Past expires_at: ${report.pastExpirySoftDeleted} experiences soft-deleted, ${report.pastExpiryInvalidated} preferences invalidated`
+      : `Past expires_at (soft-deleted / invalidated with --apply): ${report.pastExpiry.experiences} experiences, ${report.pastExpiry.preferences} preferences`
+  );
+  lines.push("");
+
   lines.push(
     report.applied
       ? `Soft-deleted experiences purged (older than ${PURGE_SOFT_DELETED_DAYS} days): ${report.purged}`
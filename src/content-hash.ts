@@ -0,0 +1,20 @@
+/**
+ * content-hash.ts - The dedupe hash of an experience's content.
+ *
+ * experiences.normalized_hash is a SHA-256 of context, action and result,
+ * lowercased with whitespace collapsed, so re-recording the same thing is
+ * counted as a duplicate instead of stored again. Kept apart from
+ * database.ts so code that rewrites content outside the write path
+ * (scrubSecrets, redaction.ts) can keep the hash in step.
+ */
+
+import { createHash } from "crypto";
+
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function computeHash(context: string, action: string, result: string): string {
+  const normalized = normalizeText(`${context}|${action}|${result}`);
+  return createHash("sha256").update(normalized).digest("hex");
+}
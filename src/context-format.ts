@@ -9,6 +9,10 @@
  * Pure module (no database imports) so it can be unit-tested in isolation.
  */
 
+import { formatExpiry } from "./expiry.js";
+import { formatValidity } from "./validity.js";
+import { projectDecayBelow, type ChannelScores, type DecayPolicy } from "./scoring.js";
+
 // ── Budgets and limits ───────────────────────────────────
 
 /** Hard character budget for the session_start context. */
@@ -29,6 +33,9 @@ export const SESSION_PREF_VALUE_MAX = 120;
 /** Max words per index line (experiences, patterns, corrections). */
 export const LINE_MAX_WORDS = 15;
 
+/** Max words per pinned experience line: pins are kept close to full text. */
+export const PINNED_LINE_MAX_WORDS = 40;
+
 /** Hard character budget for the get_preferences tool output. */
 export const PREFS_OUTPUT_BUDGET = 6000;
 
@@ -57,7 +64,8 @@ export interface PrefEntry {
   confidence?: number;
   effective_confidence?: number;
   scope?: string;
-  _origin?: string;
+  _origin?: string; // layer that supplied the value (global, org, team, project, ...)
+  _scope?: string; // exact scope of that layer (e.g. "team:payments")
 }
 
 export interface ExpEntry {
@@ -101,6 +109,17 @@ function effectiveConfidence(pref: PrefEntry): number {
   return pref.effective_confidence ?? pref.confidence ?? 0;
 }
 
+/**
+ * Origin suffix for a merged preference: nothing for global, " [project]"
+ * for the project itself, and the exact scope for every other layer
+ * (" [team:payments]", " [package:api:billing]").
+ */
+export function formatPreferenceOrigin(pref: PrefEntry): string {
+  if (!pref._origin || pref._origin === "global") return "";
+  if (pref._origin === "project") return " [project]";
+  return ` [${pref._scope ?? pref._origin}]`;
+}
+
 /** Apply limit / minimum effective confidence to a sorted preference list. */
 export function applyPreferenceOptions<T extends PrefEntry>(
   prefs: T[],
@@ -123,6 +142,7 @@ export interface SessionIndexParams {
   project: string;
   source: string;
   prefs: PrefEntry[]; // already merged + decayed + sorted by effective confidence
+  pinned?: ExpEntry[]; // pinned experiences (pins.ts), listed before everything else
   experiences: ExpEntry[];
   patterns: PatternEntry[];
   corrections: CorrectionEntry[];
@@ -131,7 +151,8 @@ export interface SessionIndexParams {
 /**
  * Compact index for session start. One line per item, hard budget of
  * SESSION_CONTEXT_BUDGET chars; items that do not fit are summarized as
- * "(+N more via query_memory)".
+ * "(+N more via query_memory)". Pinned experiences come first so they are
+ * the last thing the budget cuts, and are not repeated under Experiences.
  */
 export function formatSessionIndex(params: SessionIndexParams): string {
   const header = [
@@ -142,6 +163,13 @@ export function formatSessionIndex(params: SessionIndexParams): string {
   ];
 
   const body: string[] = [];
+  const pinned = params.pinned ?? [];
+
+  if (pinned.length > 0) {
+    body.push(`### Pinned`);
+    for (const e of pinned) body.push(formatPinnedLine(e));
+    body.push(``);
+  }
 
   if (params.prefs.length > 0) {
     const top = params.prefs.slice(0, SESSION_MAX_PREFS);
@@ -152,14 +180,16 @@ export function formatSessionIndex(params: SessionIndexParams): string {
       const pinned = eff >= PINNED_CONFIDENCE && pinnedUsed < SESSION_MAX_PINNED;
       if (pinned) pinnedUsed++;
       const value = pinned ? p.value : truncateText(p.value, SESSION_PREF_VALUE_MAX);
-      body.push(`- ${p.key}: ${value} (${eff.toFixed(1)})`);
+      body.push(`- ${p.key}: ${value} (${eff.toFixed(1)})${formatPreferenceOrigin(p)}`);
     }
     body.push(``);
   }
 
-  if (params.experiences.length > 0) {
+  const pinnedIds = new Set(pinned.map((e) => e.id));
+  const experiences = params.experiences.filter((e) => !pinnedIds.has(e.id));
+  if (experiences.length > 0) {
     body.push(`### Experiences`);
-    for (const e of params.experiences) {
+    for (const e of experiences) {
       const summary = limitWords(`${e.context || ""} -> ${e.result || ""}`);
       body.push(`- [${e.type}] ${summary} (#${e.id})`);
     }
@@ -211,12 +241,23 @@ export function formatMinimalContext(params: {
   source: string;
   prefCount: number;
   expCount: number;
+  pinned?: ExpEntry[];
 }): string {
-  return [
+  const lines = [
     `## Agent Memory (${params.source})`,
     `Persistent memory active for project ${params.project || "(unknown)"}: ${params.prefCount} preferences, ${params.expCount} experiences stored.`,
     `Use get_preferences / query_memory to retrieve details if the summary above is missing something.`,
-  ].join("\n");
+  ];
+  // Pinned facts must survive compaction too: the summary may have dropped them
+  if (params.pinned && params.pinned.length > 0) {
+    lines.push(``, `### Pinned`, ...params.pinned.map(formatPinnedLine));
+  }
+  return lines.join("\n");
+}
+
+/** One index line for a pinned experience. */
+function formatPinnedLine(e: ExpEntry): string {
+  return `- [${e.type}] ${limitWords(`${e.context || ""} -> ${e.result || ""}`, PINNED_LINE_MAX_WORDS)} (#${e.id})`;
 }
 
 // ── get_memory output (batch experience detail) ──────────
@@ -234,14 +275,69 @@ export interface ExperienceDetail {
   topic_key?: string;
   revision_count?: number;
   duplicate_count?: number;
+  access_count?: number;
+  last_accessed_at?: string | null;
+  pinned_at?: string | null;
+  expires_at?: string | null;
+  valid_from?: string | null;
+  valid_to?: string | null;
   context?: string;
   action?: string;
   result?: string;
 }
 
+/** "3 times (last 2026-06-01 10:00:00)" / "never" (retrievals before this one). */
+export function formatAccess(count: number, lastAccessedAt?: string | null): string {
+  if (count <= 0) return "never";
+  return `${count} time${count === 1 ? "" : "s"}${lastAccessedAt ? ` (last ${lastAccessedAt})` : ""}`;
+}
+
+/**
+ * When decay takes a preference out of automatic outputs:
+ * "drops below 0.3 on 2027-03-14" / "below 0.3 since 2026-08-02" / "" when
+ * it never will (or its confirmation date is unknown). `pref` carries the
+ * applyDecay fields.
+ */
+export function formatDecayProjection(
+  pref: { confidence: number; last_confirmed_at?: string | null; contradiction_factor?: number },
+  policy: DecayPolicy,
+  nowMs: number = Date.now()
+): string {
+  const date = projectDecayBelow(
+    pref.last_confirmed_at ?? null,
+    pref.confidence * (pref.contradiction_factor ?? 1),
+    AUTO_MIN_EFFECTIVE_CONFIDENCE,
+    policy
+  );
+  if (!date) return "";
+  const day = date.toISOString().slice(0, 10);
+  return date.getTime() <= nowMs
+    ? `below ${AUTO_MIN_EFFECTIVE_CONFIDENCE} since ${day}`
+    : `drops below ${AUTO_MIN_EFFECTIVE_CONFIDENCE} on ${day}`;
+}
+
+/**
+ * Debug line for one search result: "vector 0.71, fts 0.40, cross-encoder
+ * 0.93 → 0.62". Linked results have no channel scores of their own.
+ */
+export function formatResultScores(result: { score: number; channels?: ChannelScores; rerankScore?: number }): string {
+  const parts: string[] = [];
+  if (result.channels) parts.push(`vector ${result.channels.vector.toFixed(2)}`, `fts ${result.channels.fts.toFixed(2)}`);
+  else parts.push("via link");
+  if (result.rerankScore !== undefined) parts.push(`cross-encoder ${result.rerankScore.toFixed(2)}`);
+  return `${parts.join(", ")} → ${result.score.toFixed(2)}`;
+}
+
 /** Full detail block for one experience. */
 export function formatExperienceDetail(exp: ExperienceDetail): string {
+  // Validity is only worth a line once it differs from "true since created"
+  const validFrom = exp.valid_from || exp.created_at || "";
+  const showValidity = !!exp.valid_to || validFrom !== (exp.created_at || "");
   const extra =
+    `${showValidity ? `Valid:      ${formatValidity(validFrom, exp.valid_to ?? null)}\n` : ""}` +
+    `${exp.pinned_at ? `Pinned:     since ${exp.pinned_at}\n` : ""}` +
+    `${exp.expires_at ? `Expires:    ${formatExpiry(exp.expires_at)}\n` : ""}` +
+    `${exp.access_count !== undefined ? `Accessed:   ${formatAccess(exp.access_count, exp.last_accessed_at)}\n` : ""}` +
     `${exp.topic_key ? `Topic:      ${exp.topic_key}\n` : ""}` +
     `${(exp.revision_count ?? 1) > 1 ? `Revisions:  ${exp.revision_count}\n` : ""}` +
     `${(exp.duplicate_count ?? 1) > 1 ? `Duplicates: ${exp.duplicate_count}\n` : ""}`;
@@ -275,6 +371,157 @@ export function formatTimeline(rows: TimelineRow[], aroundId: number): string {
   return `--- Timeline around #${aroundId} (+-1 hour) ---\n${lines.join("\n")}`;
 }
 
+export interface RevisionRow {
+  revision: number;
+  context?: string | null;
+  action?: string | null;
+  result?: string | null;
+  success?: number | null;
+  tags?: string | null;
+  replaced_at?: string | null;
+}
+
+/** Max chars per side of a field diff in the revision history. */
+export const REVISION_DIFF_VALUE_MAX = 200;
+
+const REVISION_FIELDS = ["context", "action", "result", "tags", "success"] as const;
+
+/**
+ * Revision history block for get_memory(revisions=true): one entry per
+ * known revision (oldest first, the last one is the live row), each with a
+ * field-level diff against the previous known revision.
+ */
+export function formatRevisionHistory(rows: RevisionRow[], experienceId: number): string {
+  if (rows.length === 0) return "";
+  const lines = [`--- Revisions of #${experienceId} ---`];
+  if (rows[0].revision > 1) {
+    lines.push(`(revisions 1-${rows[0].revision - 1} predate revision history)`);
+  }
+
+  rows.forEach((row, i) => {
+    const when = row.replaced_at ? `replaced ${row.replaced_at}` : "current";
+    lines.push(`r${row.revision} (${when})`);
+    const prev = rows[i - 1];
+    if (!prev) {
+      lines.push(`  context: ${truncateText(row.context || "", REVISION_DIFF_VALUE_MAX)}`);
+      return;
+    }
+    let changed = 0;
+    for (const field of REVISION_FIELDS) {
+      const before = String(prev[field] ?? "");
+      const after = String(row[field] ?? "");
+      if (before === after) continue;
+      changed++;
+      lines.push(`  ${field}:`);
+      lines.push(`    - ${truncateText(before, REVISION_DIFF_VALUE_MAX)}`);
+      lines.push(`    + ${truncateText(after, REVISION_DIFF_VALUE_MAX)}`);
+    }
+    if (changed === 0) lines.push(`  (no content change)`);
+  });
+
+  return lines.join("\n");
+}
+
+export interface PreferenceRevisionRow {
+  revision: number;
+  value?: string | null;
+  invalidated_at?: string | null;
+  superseded_by?: string | null;
+  change?: string | null;
+  replaced_at?: string | null;
+}
+
+function preferenceStatus(row: PreferenceRevisionRow): string {
+  if (!row.invalidated_at) return "active";
+  return `invalidated${row.superseded_by ? ` (superseded by '${row.superseded_by}')` : ""}`;
+}
+
+/**
+ * History block for get_preferences(key, history=true): one entry per
+ * known revision (oldest first, the last one is the live row) with the
+ * change that replaced it and a value / status diff against the previous one.
+ */
+export function formatPreferenceHistory(rows: PreferenceRevisionRow[], label: string): string {
+  const lines = [`--- History of ${label} ---`];
+  if (rows.length <= 1) {
+    lines.push("(no changes recorded)");
+    return lines.join("\n");
+  }
+
+  rows.forEach((row, i) => {
+    const when = row.replaced_at ? `replaced ${row.replaced_at} by ${row.change}` : "current";
+    lines.push(`r${row.revision} (${when})`);
+    const prev = rows[i - 1];
+    if (!prev) {
+      lines.push(`  value: ${truncateText(row.value || "", REVISION_DIFF_VALUE_MAX)}`);
+      if (row.invalidated_at) lines.push(`  status: ${preferenceStatus(row)}`);
+      return;
+    }
+    let changed = 0;
+    if ((prev.value ?? "") !== (row.value ?? "")) {
+      changed++;
+      lines.push(`  value:`);
+      lines.push(`    - ${truncateText(prev.value || "", REVISION_DIFF_VALUE_MAX)}`);
+      lines.push(`    + ${truncateText(row.value || "", REVISION_DIFF_VALUE_MAX)}`);
+    }
+    if (preferenceStatus(prev) !== preferenceStatus(row)) {
+      changed++;
+      lines.push(`  status: ${preferenceStatus(prev)} -> ${preferenceStatus(row)}`);
+    }
+    if (changed === 0) lines.push(`  (no value change)`);
+  });
+
+  return lines.join("\n");
+}
+
+export interface LinkGraphRow {
+  neighbour: { kind: "experience" | "preference"; id: number };
+  via: { kind: "experience" | "preference"; id: number };
+  relation: string;
+  /** "out" = via -relation-> neighbour, "in" = neighbour -relation-> via. */
+  direction: "out" | "in";
+  weight: number;
+  depth: number;
+  label: string;
+  note?: string | null;
+}
+
+function linkRefLabel(ref: { kind: string; id: number }): string {
+  return ref.kind === "preference" ? `pref #${ref.id}` : `#${ref.id}`;
+}
+
+/**
+ * Linked-memories block for get_memory(links=N): a tree rooted at the
+ * experience, one line per neighbour under the memory it was reached from.
+ * `inverseLabels` maps a relation to how it reads from the target's side.
+ */
+export function formatLinkGraph(
+  rows: LinkGraphRow[],
+  experienceId: number,
+  hops: number,
+  inverseLabels: Record<string, string>
+): string {
+  if (rows.length === 0) return "";
+  const children = new Map<string, LinkGraphRow[]>();
+  for (const row of rows) {
+    const key = linkRefLabel(row.via);
+    children.set(key, [...(children.get(key) || []), row]);
+  }
+
+  const lines = [`--- Links of #${experienceId} (up to ${hops} hop${hops === 1 ? "" : "s"}) ---`];
+  const walk = (parent: string) => {
+    for (const row of children.get(parent) || []) {
+      const relation = row.direction === "out" ? row.relation : inverseLabels[row.relation] || row.relation;
+      const weight = row.weight < 1 ? ` (weight ${row.weight})` : "";
+      const note = row.note ? ` — ${truncateText(row.note, 80)}` : "";
+      lines.push(`${"  ".repeat(row.depth - 1)}- ${relation} ${linkRefLabel(row.neighbour)}${weight}: ${row.label}${note}`);
+      walk(linkRefLabel(row.neighbour));
+    }
+  };
+  walk(`#${experienceId}`);
+  return lines.join("\n");
+}
+
 /**
  * Assemble the get_memory batch output: one detail block per found
  * experience (each optionally followed by its timeline) plus a note for
@@ -283,12 +530,18 @@ export function formatTimeline(rows: TimelineRow[], aroundId: number): string {
 export function formatMemoryBatch(params: {
   blocks: string[];
   missingIds: number[];
+  /** Set for get_memory as_of: header plus a matching not-found note. */
+  asOf?: string;
 }): string {
   const parts = [...params.blocks];
   if (params.missingIds.length > 0) {
-    parts.push(`Not found (deleted or invalid ids): ${params.missingIds.map((id) => `#${id}`).join(", ")}`);
+    const reason = params.asOf ? "not recorded yet, deleted or not valid at that date" : "deleted or invalid ids";
+    parts.push(`Not found (${reason}): ${params.missingIds.map((id) => `#${id}`).join(", ")}`);
+  }
+  if (parts.length === 0) {
+    return params.asOf ? `No memories found for the requested ids as of ${params.asOf} UTC.` : "No memories found for the requested ids.";
   }
-  if (parts.length === 0) return "No memories found for the requested ids.";
+  if (params.asOf) parts.unshift(`Memory as of ${params.asOf} UTC:`);
   return parts.join("\n\n");
 }
 
@@ -312,8 +565,7 @@ export function formatPreferencesOutput(params: {
 
   for (const p of params.prefs) {
     const eff = effectiveConfidence(p);
-    const origin = p._origin === "project" ? " [project]" : "";
-    const line = `- ${p.key}: "${truncateText(p.value, PREF_VALUE_MAX)}" (${eff.toFixed(1)})${origin}`;
+    const line = `- ${p.key}: "${truncateText(p.value, PREF_VALUE_MAX)}" (${eff.toFixed(1)})${formatPreferenceOrigin(p)}`;
     if (used + line.length + 1 > PREFS_OUTPUT_BUDGET - reserve) break;
     lines.push(line);
     used += line.length + 1;
@@ -0,0 +1,106 @@
+/**
+ * contradictions.ts - Negative reinforcement for preferences.
+ *
+ * Confirmations raise a preference's confidence and forget_memory
+ * invalidates it outright; nothing sat in between. When the user only
+ * partly disagrees ("not always, only in tests"), contradict_preference:
+ *   - lowers confidence by CONTRADICTION_PENALTY (never below
+ *     MIN_CONTRADICTED_CONFIDENCE, so the preference stays listable);
+ *   - bumps contradiction_count (migration 13), which applyDecay
+ *     (scoring.ts) weighs against confirmed_count, so the preference keeps
+ *     paying for it after re-confirmations recompute its confidence;
+ *   - stores the counter-example in preference_contradictions, shown by
+ *     get_preferences key=... next to the value.
+ *
+ * Value and validity are unchanged, so this is not a preference revision.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+
+/** Confidence removed by one contradiction. */
+export const CONTRADICTION_PENALTY = 0.15;
+/** Floor for contradicted preferences (invalidation is the way to zero). */
+export const MIN_CONTRADICTED_CONFIDENCE = 0.05;
+/** Counter-examples shown by get_preferences key=. */
+export const COUNTER_EXAMPLES_SHOWN = 5;
+
+export interface CounterExample {
+  id: number;
+  note: string;
+  source: string | null;
+  created_at: string;
+}
+
+export type ContradictResult =
+  | { ok: true; confidenceBefore: number; confidence: number; contradictionCount: number }
+  | { ok: false; reason: "not_found" | "invalidated" };
+
+/** Record a counter-example against a preference and lower its confidence. */
+export function contradictPreference(
+  db: BetterSqlite3.Database,
+  params: { preferenceId: number; note: string; source?: string | null }
+): ContradictResult {
+  const pref = db
+    .prepare(`SELECT confidence, contradiction_count, invalidated_at FROM preferences WHERE id = ?`)
+    .get(params.preferenceId) as
+    | { confidence: number; contradiction_count: number; invalidated_at: string | null }
+    | undefined;
+  if (!pref) return { ok: false, reason: "not_found" };
+  if (pref.invalidated_at) return { ok: false, reason: "invalidated" };
+
+  const confidence =
+    Math.round(Math.max(MIN_CONTRADICTED_CONFIDENCE, pref.confidence - CONTRADICTION_PENALTY) * 100) / 100;
+  db.transaction(() => {
+    db.prepare(`INSERT INTO preference_contradictions (preference_id, note, source) VALUES (?, ?, ?)`).run(
+      params.preferenceId,
+      params.note,
+      params.source ?? null
+    );
+    db.prepare(
+      `UPDATE preferences
+       SET confidence = @confidence, contradiction_count = contradiction_count + 1,
+           last_contradicted_at = datetime('now')
+       WHERE id = @id`
+    ).run({ id: params.preferenceId, confidence });
+  })();
+
+  return {
+    ok: true,
+    confidenceBefore: pref.confidence,
+    confidence,
+    contradictionCount: pref.contradiction_count + 1,
+  };
+}
+
+/** Counter-examples of a preference, newest first. */
+export function listCounterExamples(
+  db: BetterSqlite3.Database,
+  preferenceId: number,
+  limit: number = COUNTER_EXAMPLES_SHOWN
+): CounterExample[] {
+  return db
+    .prepare(
+      `SELECT id, note, source, created_at FROM preference_contradictions
+       WHERE preference_id = ? ORDER BY created_at DESC, id DESC LIMIT ?`
+    )
+    .all(preferenceId, limit) as CounterExample[];
+}
+
+/** "  Contradicted 2x (evidence factor 0.33):\n  - only in tests (2026-10-19 ...)". */
+export function formatCounterExamples(
+  pref: { contradiction_count?: number; contradiction_factor?: number },
+  examples: CounterExample[]
+): string {
+  const count = pref.contradiction_count ?? 0;
+  if (count === 0) return "";
+  const factor = pref.contradiction_factor !== undefined ? ` (evidence factor ${pref.contradiction_factor})` : "";
+  const lines = [`  Contradicted ${count}x${factor}:`];
+  for (const e of examples) {
+    lines.push(`  - ${e.note} (${e.created_at}${e.source ? `, ${e.source}` : ""})`);
+  }
+  if (count > examples.length) lines.push(`  (+${count - examples.length} older)`);
+  return lines.join("\n");
+}
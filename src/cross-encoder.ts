@@ -0,0 +1,59 @@
+import { AutoTokenizer, AutoModelForSequenceClassification, env } from "@huggingface/transformers";
+import { MODELS_CACHE_DIR } from "./embeddings.js";
+import { getConfig } from "./config.js";
+import type { RerankScorer } from "./rerank.js";
+
+// ── Configuration ────────────────────────────────────────
+const DTYPE = "q8" as const;
+/** Characters of a memory passed to the cross-encoder (it truncates to 512 tokens anyway). */
+const MAX_DOC_CHARS = 2000;
+
+// Same cache as the embedding model (data/models/)
+env.cacheDir = MODELS_CACHE_DIR;
+
+// ── Singletons (one per model name) ──────────────────────
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const loaded = new Map<string, Promise<{ tokenizer: any; model: any }>>();
+
+function getCrossEncoder(modelName: string) {
+  let entry = loaded.get(modelName);
+  if (!entry) {
+    entry = Promise.all([
+      AutoTokenizer.from_pretrained(modelName),
+      AutoModelForSequenceClassification.from_pretrained(modelName, { dtype: DTYPE } as any),
+    ]).then(([tokenizer, model]) => ({ tokenizer, model }));
+    // A failed load is retried on the next call instead of cached
+    entry.catch(() => loaded.delete(modelName));
+    loaded.set(modelName, entry);
+  }
+  return entry;
+}
+
+// ── Public API ───────────────────────────────────────────
+
+/**
+ * Relevance logits of (query, doc) pairs from a cross-encoder, one per
+ * doc, or null if the model cannot be loaded or run.
+ */
+export async function crossEncoderScores(modelName: string, query: string, docs: string[]): Promise<number[] | null> {
+  if (docs.length === 0) return [];
+  try {
+    const { tokenizer, model } = await getCrossEncoder(modelName);
+    const inputs = tokenizer(new Array(docs.length).fill(query), {
+      text_pair: docs.map((d) => d.substring(0, MAX_DOC_CHARS)),
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return Array.from(logits.data as Float32Array).map(Number);
+  } catch (err) {
+    console.error("Cross-encoder failed:", err);
+    return null;
+  }
+}
+
+/** rerankResults scorer backed by the configured cross-encoder (config.json `rerank.model`). */
+export function crossEncoderScorer(modelName: string = getConfig().rerank.model): RerankScorer {
+  return (query, docs) => crossEncoderScores(modelName, query, docs);
+}
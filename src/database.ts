@@ -1,20 +1,118 @@
 import Database from "better-sqlite3";
 import * as sqliteVec from "sqlite-vec";
-import path from "path";
-import { fileURLToPath } from "url";
-import { createHash } from "crypto";
 import { EMBEDDING_DIMS } from "./embeddings.js";
 import { normalizeTextPaths } from "./paths.js";
-import { ensureTelemetryTable } from "./telemetry.js";
+import { redactSecrets, scrubSecrets, type RedactionCounts, type ScrubReport } from "./redaction.js";
+import { computeHash } from "./content-hash.js";
+import { preferenceEmbeddingText } from "./preference-dedupe.js";
+import { runMigrations, DEFAULT_DB_PATH } from "./migrations.js";
 import { applyPreferenceOptions, type PreferenceOptions } from "./context-format.js";
-import { clampSimilarity, computeFtsScore, fuseScores, applyDecay } from "./scoring.js";
+import {
+  listTrash,
+  restoreFromTrash,
+  findExperiencesWithoutVector,
+  type TrashFilter,
+} from "./trash.js";
+import {
+  EXPERIENCES_WITH_TAG_SQL,
+  parseTags,
+  formatTags,
+  syncExperienceTags,
+  listTagCounts,
+  renameTag,
+  type RenameTagResult,
+} from "./tags.js";
+import {
+  linkMemories as linkMemoriesIn,
+  unlinkMemories as unlinkMemoriesIn,
+  traverseLinks,
+  expandWithLinks,
+  type MemoryRef,
+  type LinkRelation,
+  type LinkResult,
+  type ScoredMemory,
+} from "./links.js";
+import {
+  resolveProject,
+  resolveProjectParam as resolveProjectParamIn,
+  listProjects as listProjectsIn,
+  renameProject,
+  type RenameProjectResult,
+} from "./projects.js";
+import { scopeChain, mergeScopedPreferences, lookupScopedPreference } from "./scopes.js";
+import { snapshotExperience, listRevisions, rollbackExperience, type RollbackResult } from "./revisions.js";
+import {
+  snapshotPreference,
+  invalidatePreferenceById,
+  restorePreferenceById,
+  listPreferenceRevisions,
+  rollbackPreference,
+  type PreferenceRollbackResult,
+} from "./preference-revisions.js";
+import {
+  clampSimilarity,
+  computeFtsScore,
+  fuseChannels,
+  applyUsageBoost,
+  applyFeedback,
+  applyAging,
+  applyDecay,
+  type ChannelScores,
+  type FusionPolicy,
+  type FusionStrategy,
+} from "./scoring.js";
+import { loadAgingFactors } from "./aging.js";
+import { loadFusionPolicy, scoreMemoryChannels } from "./fusion.js";
+import {
+  hasSearchFilters,
+  searchFtsFiltered,
+  searchVectorsFiltered,
+  filterExperienceIds,
+  type SearchFilters,
+} from "./search-filters.js";
+import {
+  recordAccess as recordAccessIn,
+  loadAccessCounts,
+  pruneUnusedExperiences as pruneUnusedExperiencesIn,
+  countNeverAccessed,
+  type AccessHits,
+} from "./access.js";
+import { NOT_EXPIRED_SQL, findExpiredIds } from "./expiry.js";
+import {
+  CURRENTLY_VALID_SQL,
+  AS_OF_SQL,
+  findHiddenExperienceIds,
+  endValidity,
+  reopenValidity,
+  getExperienceAsOf as getExperienceAsOfIn,
+  type ValidityResult,
+} from "./validity.js";
+import { setPinned, listPinnedExperiences as listPinnedIn, NOT_PINNED_SQL, type PinResult } from "./pins.js";
+import {
+  recordFeedback,
+  loadFeedback,
+  listFlaggedMemories as listFlaggedMemoriesIn,
+  type FeedbackInput,
+  type FeedbackResult,
+} from "./feedback.js";
+import {
+  contradictPreference as contradictPreferenceIn,
+  listCounterExamples as listCounterExamplesIn,
+  type ContradictResult,
+} from "./contradictions.js";
+import {
+  listInvalidatedPreferences as listInvalidatedIn,
+  type InvalidatedPreferenceFilter,
+} from "./invalidated-preferences.js";
+import {
+  findPreferenceConflicts,
+  resolvePreferenceConflict,
+  type ResolveConflictResult,
+} from "./conflicts.js";
 
 // Temporal decay moved to scoring.ts (pure module); re-exported here so
 // existing importers keep working.
-export { computeDecayFactor, applyDecay } from "./scoring.js";
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DB_PATH = path.join(__dirname, "..", "data", "memory.db");
+export { computeDecayFactor, applyDecay, resolveDecayPolicy } from "./scoring.js";
 
 // ── Database initialization ──────────────────────────────
 
@@ -22,7 +120,7 @@ const DB_PATH = path.join(__dirname, "..", "data", "memory.db");
 export let vectorsAvailable = false;
 
 export function initDatabase(dbPath?: string) {
-  const db = new Database(dbPath || DB_PATH);
+  const db = new Database(dbPath || DEFAULT_DB_PATH);
 
   // Intentar cargar sqlite-vec; si falla, continuar sin vectores
   try {
@@ -38,141 +136,20 @@ export function initDatabase(dbPath?: string) {
     db.pragma("journal_mode = WAL");
   }
 
-  // ── Schema ─────────────────────────────────────────────
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS experiences (
-      id          INTEGER PRIMARY KEY AUTOINCREMENT,
-      type        TEXT NOT NULL,       -- 'experience' | 'correction' | 'insight'
-      context     TEXT,                -- what was happening
-      action      TEXT,                -- what was done
-      result      TEXT,                -- what happened
-      success     INTEGER DEFAULT 1,   -- 1 = success, 0 = failure
-      tags        TEXT DEFAULT '',     -- comma-separated tags
-      project     TEXT DEFAULT '',     -- related project
-      created_at  TEXT DEFAULT (datetime('now')),
-      -- Phase 1: Soft Delete
-      deleted_at  TEXT DEFAULT NULL,
-      -- Phase 2: Deduplication
-      normalized_hash  TEXT,
-      duplicate_count  INTEGER DEFAULT 1,
-      last_seen_at     TEXT,
-      -- Phase 3: Topic Upserts
-      topic_key       TEXT,
-      revision_count  INTEGER DEFAULT 1
-    );
-
-    CREATE TABLE IF NOT EXISTS patterns (
-      id          INTEGER PRIMARY KEY AUTOINCREMENT,
-      description TEXT NOT NULL,
-      category    TEXT DEFAULT '',      -- 'error', 'success', 'workflow', etc.
-      frequency   INTEGER DEFAULT 1,
-      examples    TEXT DEFAULT '[]',    -- JSON array of examples
-      last_seen   TEXT DEFAULT (datetime('now'))
-    );
-  `);
-
-  // ── Migration: preferences with scope ───────────────────
-
-  const tableInfo = db.prepare(`PRAGMA table_info(preferences)`).all() as any[];
-  const hasScope = tableInfo.some((col: any) => col.name === "scope");
-
-  if (tableInfo.length === 0) {
-    db.exec(`
-      CREATE TABLE preferences (
-        id          INTEGER PRIMARY KEY AUTOINCREMENT,
-        key         TEXT NOT NULL,
-        value       TEXT NOT NULL,
-        confidence  REAL DEFAULT 0.3,
-        source      TEXT DEFAULT '',
-        scope       TEXT DEFAULT 'global',
-        updated_at  TEXT DEFAULT (datetime('now')),
-        -- Phase 6: Temporal decay
-        confirmed_count   INTEGER DEFAULT 1,
-        last_confirmed_at TEXT DEFAULT (datetime('now')),
-        -- Retrieval v3: reversible invalidation
-        invalidated_at    TEXT DEFAULT NULL,
-        superseded_by     TEXT DEFAULT NULL,
-        UNIQUE(key, scope)
-      );
-    `);
-  } else if (!hasScope) {
-    db.exec(`
-      ALTER TABLE preferences ADD COLUMN scope TEXT DEFAULT 'global';
-    `);
-    db.exec(`
-      CREATE TABLE preferences_new (
-        id          INTEGER PRIMARY KEY AUTOINCREMENT,
-        key         TEXT NOT NULL,
-        value       TEXT NOT NULL,
-        confidence  REAL DEFAULT 0.3,
-        source      TEXT DEFAULT '',
-        scope       TEXT DEFAULT 'global',
-        updated_at  TEXT DEFAULT (datetime('now')),
-        confirmed_count   INTEGER DEFAULT 1,
-        last_confirmed_at TEXT DEFAULT (datetime('now')),
-        UNIQUE(key, scope)
-      );
-      INSERT INTO preferences_new (id, key, value, confidence, source, scope, updated_at)
-        SELECT id, key, value, confidence, source, COALESCE(scope, 'global'), updated_at FROM preferences;
-      DROP TABLE preferences;
-      ALTER TABLE preferences_new RENAME TO preferences;
-    `);
-  }
-
-  // ── Migrations for existing databases ──────────────────
+  // ── Schema (versioned migrations, see migrations.ts) ────
+  // Refuses databases newer than this build; otherwise applies every
+  // pending migration, each in its own transaction.
 
-  // Phase 1: Soft Delete migration
-  const expCols = db.prepare(`PRAGMA table_info(experiences)`).all() as any[];
-  const hasDeletedAt = expCols.some((col: any) => col.name === "deleted_at");
-  if (!hasDeletedAt) {
-    db.exec(`ALTER TABLE experiences ADD COLUMN deleted_at TEXT DEFAULT NULL`);
-  }
-
-  // Phase 2: Deduplication migration
-  const hasNormalizedHash = expCols.some((col: any) => col.name === "normalized_hash");
-  if (!hasNormalizedHash) {
-    db.exec(`ALTER TABLE experiences ADD COLUMN normalized_hash TEXT`);
-    db.exec(`ALTER TABLE experiences ADD COLUMN duplicate_count INTEGER DEFAULT 1`);
-    db.exec(`ALTER TABLE experiences ADD COLUMN last_seen_at TEXT`);
-  }
-
-  // Phase 3: Topic Upserts migration
-  const hasTopicKey = expCols.some((col: any) => col.name === "topic_key");
-  if (!hasTopicKey) {
-    db.exec(`ALTER TABLE experiences ADD COLUMN topic_key TEXT`);
-    db.exec(`ALTER TABLE experiences ADD COLUMN revision_count INTEGER DEFAULT 1`);
-  }
-
-  // Phase 6: Temporal decay migration for preferences
-  const prefCols = db.prepare(`PRAGMA table_info(preferences)`).all() as any[];
-  const hasConfirmedCount = prefCols.some((col: any) => col.name === "confirmed_count");
-  if (!hasConfirmedCount) {
-    db.exec(`ALTER TABLE preferences ADD COLUMN confirmed_count INTEGER DEFAULT 1`);
-    db.exec(`ALTER TABLE preferences ADD COLUMN last_confirmed_at TEXT DEFAULT (datetime('now'))`);
-  }
-
-  // Retrieval v3: reversible invalidation for preferences (Zep-style).
-  // Invalidated rows are hidden from automatic retrieval but kept in the
-  // table so they can be restored or inspected via explicit key lookup.
-  const hasInvalidatedAt = prefCols.some((col: any) => col.name === "invalidated_at");
-  if (!hasInvalidatedAt) {
-    db.exec(`ALTER TABLE preferences ADD COLUMN invalidated_at TEXT DEFAULT NULL`);
-    db.exec(`ALTER TABLE preferences ADD COLUMN superseded_by TEXT DEFAULT NULL`);
+  try {
+    runMigrations(db);
+  } catch (err) {
+    db.close();
+    throw err;
   }
 
-  // Retrieval v3: output-size telemetry (see telemetry.ts)
-  ensureTelemetryTable(db);
-
-  // ── Indexes ────────────────────────────────────────────
-
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_experiences_deleted_at ON experiences(deleted_at);
-    CREATE INDEX IF NOT EXISTS idx_experiences_normalized_hash ON experiences(normalized_hash, project, created_at);
-    CREATE INDEX IF NOT EXISTS idx_experiences_topic_key ON experiences(topic_key, project);
-  `);
-
   // ── Vector search (sqlite-vec) ─────────────────────────
+  // Outside the versioned migrations: these tables depend on the extension
+  // being loadable on this machine, not on the schema version.
 
   if (vectorsAvailable) {
     db.exec(`
@@ -190,33 +167,6 @@ export function initDatabase(dbPath?: string) {
     `);
   }
 
-  // ── FTS5: Full-text search ──────────────────────────────
-
-  db.exec(`
-    CREATE VIRTUAL TABLE IF NOT EXISTS experiences_fts USING fts5(
-      context, action, result, tags,
-      content=experiences,
-      content_rowid=id
-    );
-
-    CREATE TRIGGER IF NOT EXISTS experiences_ai AFTER INSERT ON experiences BEGIN
-      INSERT INTO experiences_fts(rowid, context, action, result, tags)
-      VALUES (new.id, new.context, new.action, new.result, new.tags);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS experiences_ad AFTER DELETE ON experiences BEGIN
-      INSERT INTO experiences_fts(experiences_fts, rowid, context, action, result, tags)
-      VALUES ('delete', old.id, old.context, old.action, old.result, old.tags);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS experiences_au AFTER UPDATE ON experiences BEGIN
-      INSERT INTO experiences_fts(experiences_fts, rowid, context, action, result, tags)
-      VALUES ('delete', old.id, old.context, old.action, old.result, old.tags);
-      INSERT INTO experiences_fts(rowid, context, action, result, tags)
-      VALUES (new.id, new.context, new.action, new.result, new.tags);
-    END;
-  `);
-
   return db;
 }
 
@@ -226,17 +176,13 @@ const db = initDatabase();
 
 // ── Helper: normalize text for deduplication ────────────
 
-export function normalizeText(text: string): string {
-  return text.toLowerCase().replace(/\s+/g, " ").trim();
-}
-
-export function computeHash(context: string, action: string, result: string): string {
-  const normalized = normalizeText(`${context}|${action}|${result}`);
-  return createHash("sha256").update(normalized).digest("hex");
-}
+export { normalizeText, computeHash } from "./content-hash.js";
 
 // ── Prepared queries ────────────────────────────────────
-// All SELECT queries include WHERE deleted_at IS NULL (Phase 1)
+// All SELECT queries include WHERE deleted_at IS NULL (Phase 1); search and
+// automatic-retrieval queries also skip expired rows (NOT_EXPIRED_SQL,
+// expiry.ts) and experiences that are no longer true (CURRENTLY_VALID_SQL,
+// validity.ts). Lookups by id still return both.
 
 export const insertExperience = db.prepare(`
   INSERT INTO experiences (type, context, action, result, success, tags, project, normalized_hash, last_seen_at)
@@ -254,10 +200,12 @@ export const findDuplicate = db.prepare(`
 `);
 
 // Phase 2: Increment duplicate count
+// A repeat that carries an expiry moves it; one without keeps the old one.
 export const incrementDuplicate = db.prepare(`
   UPDATE experiences
   SET duplicate_count = duplicate_count + 1,
-      last_seen_at = datetime('now')
+      last_seen_at = datetime('now'),
+      expires_at = COALESCE(@expires_at, expires_at)
   WHERE id = @id
 `);
 
@@ -271,15 +219,22 @@ export async function insertOrDeduplicate(params: {
   tags: string;
   project: string;
   topic_key?: string;
-}): Promise<{ id: number; deduplicated: boolean; upserted?: boolean }> {
+  /** UTC expiry (expiry.ts resolveExpiry); null/undefined = never expires. */
+  expires_at?: string | null;
+  /** Since when the fact holds (validity.ts); null/undefined = now. */
+  valid_from?: string | null;
+}): Promise<{ id: number; deduplicated: boolean; upserted?: boolean; redacted: RedactionCounts }> {
   // Normalizar paths absolutos del sandbox a `$SANDBOX_ROOT` antes de guardar
   // para que las experiencias sean portables entre máquinas con distintos
   // paths de sandbox (~/.sandbox, ~/sandbox, ...).
+  // Secrets are masked before anything is stored, hashed or embedded.
+  const redacted: RedactionCounts = {};
   params = {
     ...params,
-    context: normalizeTextPaths(params.context),
-    action: normalizeTextPaths(params.action),
-    result: normalizeTextPaths(params.result),
+    context: redactSecrets(normalizeTextPaths(params.context), redacted),
+    action: redactSecrets(normalizeTextPaths(params.action), redacted),
+    result: redactSecrets(normalizeTextPaths(params.result), redacted),
+    tags: formatTags(parseTags(redactSecrets(params.tags, redacted))),
   };
 
   const hash = computeHash(params.context, params.action, params.result);
@@ -293,45 +248,52 @@ export async function insertOrDeduplicate(params: {
     }) as any;
 
     if (existing) {
-      updateByTopicKey.run({
-        context: params.context,
-        action: params.action,
-        result: params.result,
-        success: params.success,
-        tags: params.tags,
-        normalized_hash: hash,
-        id: existing.id,
-      });
+      // Snapshot the previous content before overwriting it (revisions.ts)
+      db.transaction(() => {
+        snapshotExperience(db, existing.id);
+        updateByTopicKey.run({
+          context: params.context,
+          action: params.action,
+          result: params.result,
+          success: params.success,
+          tags: params.tags,
+          normalized_hash: hash,
+          expires_at: params.expires_at ?? null,
+          valid_from: params.valid_from ?? null,
+          id: existing.id,
+        });
+        syncExperienceTags(db, existing.id, params.tags);
+      })();
       // Regenerar embedding para el registro actualizado
-      if (vectorsAvailable) {
-        try {
-          const { getEmbedding } = await import("./embeddings.js");
-          const embedding = await getEmbedding(embeddingText);
-          if (embedding) upsertVector(existing.id, embedding);
-        } catch { /* fallo de embedding, continuar sin él */ }
-      }
-      return { id: existing.id, deduplicated: false, upserted: true };
+      await refreshExperienceVector(existing.id, embeddingText);
+      return { id: existing.id, deduplicated: false, upserted: true, redacted };
     }
   }
 
   // Phase 2: Check for duplicate
   const dup = findDuplicate.get({ hash, project: params.project }) as any;
   if (dup) {
-    incrementDuplicate.run({ id: dup.id });
-    return { id: dup.id, deduplicated: true };
+    incrementDuplicate.run({ id: dup.id, expires_at: params.expires_at ?? null });
+    return { id: dup.id, deduplicated: true, redacted };
   }
 
   // Insert new
-  const info = db.prepare(`
-    INSERT INTO experiences (type, context, action, result, success, tags, project, normalized_hash, last_seen_at, topic_key)
-    VALUES (@type, @context, @action, @result, @success, @tags, @project, @normalized_hash, datetime('now'), @topic_key)
-  `).run({
-    ...params,
-    normalized_hash: hash,
-    topic_key: params.topic_key || null,
-  });
-
-  const newId = Number(info.lastInsertRowid);
+  const newId = db.transaction(() => {
+    const info = db.prepare(`
+      INSERT INTO experiences (type, context, action, result, success, tags, project, normalized_hash, last_seen_at, topic_key, expires_at, valid_from)
+      VALUES (@type, @context, @action, @result, @success, @tags, @project, @normalized_hash, datetime('now'), @topic_key, @expires_at,
+              COALESCE(@valid_from, datetime('now')))
+    `).run({
+      ...params,
+      normalized_hash: hash,
+      topic_key: params.topic_key || null,
+      expires_at: params.expires_at ?? null,
+      valid_from: params.valid_from ?? null,
+    });
+    const id = Number(info.lastInsertRowid);
+    syncExperienceTags(db, id, params.tags);
+    return id;
+  })();
 
   // Generar y almacenar embedding del nuevo registro
   if (vectorsAvailable && insertVector) {
@@ -342,7 +304,17 @@ export async function insertOrDeduplicate(params: {
     } catch { /* fallo de embedding, continuar sin él */ }
   }
 
-  return { id: newId, deduplicated: false };
+  return { id: newId, deduplicated: false, redacted };
+}
+
+// Regenera el embedding de una experiencia cuyo contenido cambió
+async function refreshExperienceVector(id: number, text: string): Promise<void> {
+  if (!vectorsAvailable) return;
+  try {
+    const { getEmbedding } = await import("./embeddings.js");
+    const embedding = await getEmbedding(text);
+    if (embedding) upsertVector(id, embedding);
+  } catch { /* fallo de embedding, continuar sin él */ }
 }
 
 // Phase 3: Find by topic key
@@ -354,7 +326,9 @@ export const findByTopicKey = db.prepare(`
   LIMIT 1
 `);
 
-// Phase 3: Update by topic key
+// Phase 3: Update by topic key (the new content brings its own expiry).
+// Recording a topic again asserts it is true now, so an ended validity is
+// reopened; the old content stays reachable through as_of (revisions).
 export const updateByTopicKey = db.prepare(`
   UPDATE experiences
   SET context = @context,
@@ -363,11 +337,36 @@ export const updateByTopicKey = db.prepare(`
       success = @success,
       tags = @tags,
       normalized_hash = @normalized_hash,
+      expires_at = @expires_at,
+      valid_from = COALESCE(@valid_from, valid_from),
+      valid_to = NULL,
       revision_count = revision_count + 1,
       last_seen_at = datetime('now')
   WHERE id = @id
 `);
 
+// Topic revision history: restore an earlier revision of a topic_key
+// experience as a new revision (see revisions.ts) and refresh its vector.
+export async function rollbackTopicRevision(params: {
+  topic_key: string;
+  project: string;
+  revision: number;
+}): Promise<RollbackResult> {
+  const existing = findByTopicKey.get({ topic_key: params.topic_key, project: params.project }) as any;
+  if (!existing) return { ok: false, reason: "not_found" };
+
+  const result = rollbackExperience(db, { experienceId: existing.id, revision: params.revision });
+  if (result.ok) {
+    const row = getExperienceById.get({ id: existing.id }) as any;
+    await refreshExperienceVector(existing.id, `${row.context} ${row.action} ${row.result}`);
+  }
+  return result;
+}
+
+export function getExperienceRevisions(experienceId: number) {
+  return listRevisions(db, experienceId);
+}
+
 // ── Search queries (Phase 1: exclude soft-deleted) ──────
 
 export const searchExperiences = db.prepare(`
@@ -378,7 +377,7 @@ export const searchExperiences = db.prepare(`
   FROM experiences e
   JOIN experiences_fts fts ON e.id = fts.rowid
   WHERE experiences_fts MATCH @query
-    AND e.deleted_at IS NULL
+    AND e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY (bm25(experiences_fts) * -1.0) * 0.5 + recency_score * 0.3 + success_score * 0.2 DESC
   LIMIT @limit
 `);
@@ -392,7 +391,7 @@ export const searchExperiencesByProject = db.prepare(`
   FROM experiences e
   JOIN experiences_fts fts ON e.id = fts.rowid
   WHERE experiences_fts MATCH @query AND (e.project = @project OR e.project = '')
-    AND e.deleted_at IS NULL
+    AND e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY (bm25(experiences_fts) * -1.0) * 0.5 + recency_score * 0.3 + success_score * 0.2 + project_bonus DESC
   LIMIT @limit
 `);
@@ -405,7 +404,7 @@ export const searchExperiencesCompact = db.prepare(`
   FROM experiences e
   JOIN experiences_fts fts ON e.id = fts.rowid
   WHERE experiences_fts MATCH @query
-    AND e.deleted_at IS NULL
+    AND e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY (bm25(experiences_fts) * -1.0) * 0.5
     + (1.0 / (1.0 + julianday('now') - julianday(e.created_at))) * 0.3
     + (CASE WHEN e.success = 1 THEN 1.0 ELSE 0.5 END) * 0.2
@@ -420,7 +419,7 @@ export const searchExperiencesCompactByProject = db.prepare(`
   FROM experiences e
   JOIN experiences_fts fts ON e.id = fts.rowid
   WHERE experiences_fts MATCH @query AND (e.project = @project OR e.project = '')
-    AND e.deleted_at IS NULL
+    AND e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY (bm25(experiences_fts) * -1.0) * 0.5
     + (1.0 / (1.0 + julianday('now') - julianday(e.created_at))) * 0.3
     + (CASE WHEN e.success = 1 THEN 1.0 ELSE 0.5 END) * 0.2
@@ -451,14 +450,14 @@ export const getExperienceTimeline = db.prepare(`
 
 export const getRecentExperiences = db.prepare(`
   SELECT * FROM experiences
-  WHERE deleted_at IS NULL
+  WHERE deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY created_at DESC
   LIMIT @limit
 `);
 
 export const getExperiencesByType = db.prepare(`
   SELECT * FROM experiences
-  WHERE type = @type AND deleted_at IS NULL
+  WHERE type = @type AND deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY created_at DESC
   LIMIT @limit
 `);
@@ -466,10 +465,11 @@ export const getExperiencesByType = db.prepare(`
 // ── Preferences with scope ──────────────────────────────
 // Phase 6: Base confidence 0.3, confirmed_count tracking
 
-// Re-learning a preference explicitly revalidates it (clears invalidation).
+// Re-learning a preference explicitly revalidates it (clears invalidation)
+// and replaces its expiry (@expires_at null = permanent again).
 export const upsertPreference = db.prepare(`
-  INSERT INTO preferences (key, value, confidence, source, scope, confirmed_count, last_confirmed_at)
-  VALUES (@key, @value, @confidence, @source, @scope, 1, datetime('now'))
+  INSERT INTO preferences (key, value, confidence, source, scope, confirmed_count, last_confirmed_at, expires_at)
+  VALUES (@key, @value, @confidence, @source, @scope, 1, datetime('now'), @expires_at)
   ON CONFLICT(key, scope) DO UPDATE SET
     value = @value,
     confidence = MIN(1.0, 0.3 + (confirmed_count + 1) * 0.1),
@@ -478,20 +478,39 @@ export const upsertPreference = db.prepare(`
     confirmed_count = confirmed_count + 1,
     last_confirmed_at = datetime('now'),
     invalidated_at = NULL,
-    superseded_by = NULL
+    superseded_by = NULL,
+    expires_at = @expires_at
 `);
 
-// Returns global preferences (automatic retrieval: invalidated rows hidden)
+// learn_preference write path: the upsert, plus a revision when it changes
+// the value or brings back an invalidated preference (preference-revisions.ts)
+export function learnPreference(params: {
+  key: string;
+  value: string;
+  confidence: number;
+  source: string;
+  scope: string;
+  expires_at: string | null;
+}): void {
+  db.transaction(() => {
+    const existing = getPreference.get({ key: params.key, scope: params.scope }) as any;
+    if (existing && existing.value !== params.value) snapshotPreference(db, existing.id, "relearn");
+    else if (existing?.invalidated_at) snapshotPreference(db, existing.id, "restore");
+    upsertPreference.run(params);
+  })();
+}
+
+// Returns global preferences (automatic retrieval: invalidated and expired rows hidden)
 export const getGlobalPreferences = db.prepare(`
   SELECT * FROM preferences
-  WHERE scope = 'global' AND invalidated_at IS NULL
+  WHERE scope = 'global' AND invalidated_at IS NULL AND ${NOT_EXPIRED_SQL}
   ORDER BY confidence DESC
 `);
 
-// Returns preferences for a specific project (invalidated rows hidden)
+// Returns preferences for a specific project (invalidated and expired rows hidden)
 export const getProjectPreferences = db.prepare(`
   SELECT * FROM preferences
-  WHERE scope = @scope AND invalidated_at IS NULL
+  WHERE scope = @scope AND invalidated_at IS NULL AND ${NOT_EXPIRED_SQL}
   ORDER BY confidence DESC
 `);
 
@@ -499,62 +518,103 @@ export const getProjectPreferences = db.prepare(`
 // Invalidation hides a preference from every automatic retrieval path
 // (getGlobalPreferences, getMergedPreferences, session_start, on-prompt)
 // without deleting the row, so it can always be restored. superseded_by
-// optionally records the key of the preference that replaced it.
-
-const invalidatePreferenceStmt = db.prepare(`
-  UPDATE preferences
-  SET invalidated_at = datetime('now'), superseded_by = @superseded_by
-  WHERE key = @key AND scope = @scope AND invalidated_at IS NULL
-`);
+// optionally records the key of the preference that replaced it. Both
+// directions are recorded as preference revisions.
 
 export function invalidatePreference(key: string, scope: string, supersededBy?: string): boolean {
-  return invalidatePreferenceStmt.run({ key, scope, superseded_by: supersededBy ?? null }).changes > 0;
+  const pref = getPreference.get({ key, scope }) as { id: number } | undefined;
+  return !!pref && invalidatePreferenceById(db, pref.id, { change: "invalidate", supersededBy });
 }
 
-const restorePreferenceStmt = db.prepare(`
-  UPDATE preferences
-  SET invalidated_at = NULL, superseded_by = NULL
-  WHERE key = @key AND scope = @scope AND invalidated_at IS NOT NULL
-`);
-
 export function restorePreference(key: string, scope: string): boolean {
-  return restorePreferenceStmt.run({ key, scope }).changes > 0;
+  const pref = getPreference.get({ key, scope }) as { id: number } | undefined;
+  return !!pref && restorePreferenceById(db, pref.id);
+}
+
+export function listInvalidatedPreferences(filter?: InvalidatedPreferenceFilter, limit?: number) {
+  return listInvalidatedIn(db, filter, limit);
+}
+
+// ── Counter-examples (contradictions.ts) ─────────────────
+
+export function contradictPreference(params: { key: string; scope: string; note: string; source?: string }): ContradictResult {
+  const pref = getPreference.get({ key: params.key, scope: params.scope }) as { id: number } | undefined;
+  if (!pref) return { ok: false, reason: "not_found" };
+  return contradictPreferenceIn(db, { preferenceId: pref.id, note: params.note, source: params.source });
+}
+
+export function listCounterExamples(preferenceId: number) {
+  return listCounterExamplesIn(db, preferenceId);
+}
+
+// ── Preference history (preference-revisions.ts) ────────
+
+export function getPreferenceRevisions(preferenceId: number) {
+  return listPreferenceRevisions(db, preferenceId);
+}
+
+// Restore an earlier value as a new revision and refresh its vector
+export async function rollbackPreferenceRevision(params: {
+  key: string;
+  scope: string;
+  revision: number;
+}): Promise<PreferenceRollbackResult> {
+  const pref = getPreference.get({ key: params.key, scope: params.scope }) as { id: number } | undefined;
+  if (!pref) return { ok: false, reason: "not_found" };
+
+  const result = rollbackPreference(db, { preferenceId: pref.id, revision: params.revision });
+  if (result.ok && vectorsAvailable) {
+    try {
+      const { getEmbedding } = await import("./embeddings.js");
+      const embedding = await getEmbedding(preferenceEmbeddingText(params.key, result.value));
+      if (embedding) upsertPrefVector(pref.id, embedding);
+    } catch { /* fallo de embedding, continuar sin él */ }
+  }
+  return result;
 }
 
-// Returns merged preferences: project + global (project takes priority)
+// ── Contradicting preferences (conflicts.ts) ─────────────
+
+export function getPreferenceConflicts() {
+  return findPreferenceConflicts(db);
+}
+
+export function resolveConflict(keepId: number, dropId: number): ResolveConflictResult {
+  return resolvePreferenceConflict(db, { keepId, dropId });
+}
+
+// Returns merged preferences along the scope chain of the project
+// (global → configured layers → project → package, see scopes.ts); the most
+// specific scope wins and each row carries _origin/_scope.
 // Phase 6: Applies temporal decay
 // Optional limit / minEffectiveConfidence applied after merge+decay+sort;
 // without options the full merged list is returned (backwards compatible).
-export function getMergedPreferences(project: string, options?: PreferenceOptions) {
-  const global = getGlobalPreferences.all() as any[];
-  const projectPrefs = getProjectPreferences.all({ scope: project }) as any[];
-
-  // Project overrides global
-  const merged = new Map<string, any>();
-  for (const pref of global) {
-    merged.set(pref.key, { ...pref, _origin: "global" });
-  }
-  for (const pref of projectPrefs) {
-    merged.set(pref.key, { ...pref, _origin: "project" });
-  }
+export function getMergedPreferences(project: string, options?: PreferenceOptions & { package?: string }) {
+  const merged = mergeScopedPreferences(db, scopeChain(project, { package: options?.package }));
 
-  const sorted = Array.from(merged.values())
+  const sorted = merged
     .map(applyDecay)
     .sort((a, b) => b.effective_confidence - a.effective_confidence);
 
   return applyPreferenceOptions(sorted, options);
 }
 
+/** Every row for one key along the project's scope chain, most specific first. */
+export function lookupPreference(key: string, project?: string, pkg?: string) {
+  return lookupScopedPreference(db, key, scopeChain(project || "", { package: pkg }));
+}
+
 export const getPreference = db.prepare(`
   SELECT * FROM preferences WHERE key = @key AND scope = @scope
 `);
 
 // ── Patterns ────────────────────────────────────────────
 
-export function recordPattern(description: string, category: string, example: string) {
+export function recordPattern(description: string, category: string, example: string): RedactionCounts {
   // Normalizar paths absolutos del sandbox para portabilidad entre máquinas.
-  description = normalizeTextPaths(description);
-  example = normalizeTextPaths(example);
+  const redacted: RedactionCounts = {};
+  description = redactSecrets(normalizeTextPaths(description), redacted);
+  example = redactSecrets(normalizeTextPaths(example), redacted);
 
   const existing = db.prepare(`SELECT * FROM patterns WHERE description = ?`).get(description) as any;
 
@@ -574,6 +634,7 @@ export function recordPattern(description: string, category: string, example: st
       VALUES (?, ?, ?)
     `).run(description, category, JSON.stringify([example]));
   }
+  return redacted;
 }
 
 export const getPatterns = db.prepare(`
@@ -583,32 +644,210 @@ export const getPatterns = db.prepare(`
 `);
 
 // ── Soft Delete (Phase 1) ───────────────────────────────
-// DELETE operations become UPDATE SET deleted_at
+// DELETE operations become UPDATE SET deleted_at. Each operation stamps its
+// rows with a deletion batch (trash.ts newDeletionBatch) so it can be
+// listed and restored as a unit.
 
 export const softDeleteExperienceById = db.prepare(`
-  UPDATE experiences SET deleted_at = datetime('now')
+  UPDATE experiences SET deleted_at = datetime('now'), deleted_batch = @batch
   WHERE id = @id AND deleted_at IS NULL
 `);
 
+// Exact tag match through experience_tags (tags.ts); @tag must be normalized
 export const softDeleteExperiencesByTag = db.prepare(`
-  UPDATE experiences SET deleted_at = datetime('now')
-  WHERE tags LIKE '%' || @tag || '%' AND deleted_at IS NULL
+  UPDATE experiences SET deleted_at = datetime('now'), deleted_batch = @batch
+  WHERE id IN (${EXPERIENCES_WITH_TAG_SQL}) AND deleted_at IS NULL
 `);
 
 export const softDeleteExperiencesByProject = db.prepare(`
-  UPDATE experiences SET deleted_at = datetime('now')
+  UPDATE experiences SET deleted_at = datetime('now'), deleted_batch = @batch
   WHERE project = @project AND deleted_at IS NULL
 `);
 
 // ── Prune (Phase 1: soft delete) ────────────────────────
 
 export const pruneOldExperiences = db.prepare(`
-  UPDATE experiences SET deleted_at = datetime('now')
+  UPDATE experiences SET deleted_at = datetime('now'), deleted_batch = @batch
   WHERE created_at < datetime('now', '-' || @days || ' days')
     AND (@only_failures = 0 OR success = 0)
     AND deleted_at IS NULL
+    AND ${NOT_PINNED_SQL}
 `);
 
+// Experiences not retrieved in the last N days (access.ts)
+export function pruneUnusedExperiences(days: number, batch: string): number {
+  return pruneUnusedExperiencesIn(db, days, batch);
+}
+
+// ── Validity (validity.ts) ──────────────────────────────
+
+export function endExperienceValidity(params: {
+  id: number;
+  validTo?: string;
+  supersededBy?: number;
+  note?: string;
+}): ValidityResult {
+  return endValidity(db, params);
+}
+
+export function reopenExperienceValidity(id: number): ValidityResult {
+  return reopenValidity(db, id);
+}
+
+export function getExperienceAsOf(id: number, asOf: string) {
+  return getExperienceAsOfIn(db, id, asOf);
+}
+
+// ── Access tracking (access.ts) ─────────────────────────
+
+export function recordAccess(hits: AccessHits): void {
+  recordAccessIn(db, hits);
+}
+
+// ── Pins (pins.ts) ──────────────────────────────────────
+
+export function pinExperience(id: number, pinned: boolean): PinResult {
+  return setPinned(db, id, pinned);
+}
+
+export function listPinnedExperiences(project: string) {
+  return listPinnedIn(db, project);
+}
+
+// ── Feedback (feedback.ts) ──────────────────────────────
+
+export function rateMemory(input: FeedbackInput): FeedbackResult {
+  return recordFeedback(db, input);
+}
+
+// ── Fusion (fusion.ts) ──────────────────────────────────
+
+export function getFusionPolicy(project?: string, strategy?: FusionStrategy): FusionPolicy {
+  return loadFusionPolicy(db, { project, strategy });
+}
+
+export function scoreChannelsForRating(
+  ref: MemoryRef,
+  query: { ftsQuery: string | null; terms: string[]; embedding: Float32Array | null }
+): ChannelScores | null {
+  return scoreMemoryChannels(db, ref, query);
+}
+
+export function listFlaggedMemories(limit?: number) {
+  return listFlaggedMemoriesIn(db, limit);
+}
+
+// ── Tags ────────────────────────────────────────────────
+
+export function listTags(project?: string) {
+  return listTagCounts(db, project);
+}
+
+export function renameOrMergeTag(from: string, to: string): RenameTagResult {
+  return renameTag(db, { from, to });
+}
+
+// ── Project registry (projects.ts) ──────────────────────
+
+// Canonical project for a hook's working directory (registers it on first sight)
+export function resolveProjectForCwd(cwd: string, name?: string): string {
+  return resolveProject(db, { cwd, name });
+}
+
+export function resolveProjectParam(value: string | undefined): string {
+  return resolveProjectParamIn(db, value);
+}
+
+export function listProjects() {
+  return listProjectsIn(db);
+}
+
+export function renameOrMergeProject(from: string, to: string): RenameProjectResult {
+  return renameProject(db, { from, to });
+}
+
+// auto_capture rows of the last 24h (session-end summary)
+export function countRecentAutoCaptures(project: string): number {
+  return (
+    db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM experiences
+         WHERE type = 'auto_capture'
+           AND (@project = '' OR project = @project)
+           AND created_at > datetime('now', '-24 hours')
+           AND deleted_at IS NULL`
+      )
+      .get({ project }) as { count: number }
+  ).count;
+}
+
+// ── Memory graph (links.ts) ─────────────────────────────
+
+export function linkMemories(params: {
+  from: MemoryRef;
+  to: MemoryRef;
+  relation: LinkRelation;
+  weight?: number;
+  note?: string;
+}): LinkResult {
+  return linkMemoriesIn(db, params);
+}
+
+export function unlinkMemories(params: { from: MemoryRef; to: MemoryRef; relation?: LinkRelation }): number {
+  return unlinkMemoriesIn(db, params);
+}
+
+export function getLinkedMemories(experienceId: number, hops: number) {
+  return traverseLinks(db, { kind: "experience", id: experienceId }, hops);
+}
+
+// ── Trash (undelete) ────────────────────────────────────
+
+export function listTrashedExperiences(filter: TrashFilter, limit?: number) {
+  return listTrash(db, filter, limit);
+}
+
+// Restore soft-deleted experiences. The UPDATE re-indexes FTS through the
+// experiences_au trigger; rows without a vector get one regenerated.
+export async function restoreExperiences(filter: TrashFilter): Promise<{ restored: number[]; reembedded: number }> {
+  const restored = restoreFromTrash(db, filter);
+  let reembedded = 0;
+  for (const id of findExperiencesWithoutVector(db, restored)) {
+    const row = getExperienceById.get({ id }) as any;
+    if (!row) continue;
+    await refreshExperienceVector(id, `${row.context} ${row.action} ${row.result}`);
+    reembedded++;
+  }
+  return { restored, reembedded };
+}
+
+// Secret scrub of existing rows (redaction.ts). With apply, vectors of the
+// rewritten experiences/preferences were dropped; regenerate them from the
+// redacted text.
+export async function scrubStoredSecrets(apply: boolean): Promise<{ report: ScrubReport; reembedded: number }> {
+  const report = scrubSecrets(db, { apply });
+  let reembedded = 0;
+  if (!apply || !vectorsAvailable) return { report, reembedded };
+
+  for (const id of report.reembedExperiences) {
+    const row = getExperienceById.get({ id }) as any;
+    if (!row) continue;
+    await refreshExperienceVector(id, `${row.context} ${row.action} ${row.result}`);
+    reembedded++;
+  }
+  for (const id of report.reembedPreferences) {
+    const pref = getPreferenceById.get({ id }) as any;
+    if (!pref) continue;
+    try {
+      const { getEmbedding } = await import("./embeddings.js");
+      const embedding = await getEmbedding(preferenceEmbeddingText(pref.key, pref.value));
+      if (embedding) upsertPrefVector(id, embedding);
+      reembedded++;
+    } catch { /* fallo de embedding, continuar sin él */ }
+  }
+  return { report, reembedded };
+}
+
 export const pruneLowConfidencePreferences = db.prepare(`
   DELETE FROM preferences WHERE confidence < @min_confidence
 `);
@@ -622,8 +861,9 @@ export const getStats = () => {
   const globalPrefs = (db.prepare(`SELECT COUNT(*) as count FROM preferences WHERE scope = 'global'`).get() as any).count;
   const projectPrefs = (db.prepare(`SELECT COUNT(*) as count FROM preferences WHERE scope != 'global'`).get() as any).count;
   const patterns = (db.prepare(`SELECT COUNT(*) as count FROM patterns`).get() as any).count;
+  const neverAccessed = countNeverAccessed(db);
 
-  return { experiences, corrections, softDeleted, globalPrefs, projectPrefs, patterns };
+  return { experiences, corrections, softDeleted, globalPrefs, projectPrefs, patterns, neverAccessed };
 };
 
 // ── Vector operations (experiences) ──────────────────────
@@ -712,7 +952,7 @@ export const searchExperiencesScored = db.prepare(`
   FROM experiences e
   JOIN experiences_fts fts ON e.id = fts.rowid
   WHERE experiences_fts MATCH @query
-    AND e.deleted_at IS NULL
+    AND e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
   ORDER BY bm25(experiences_fts)
   LIMIT @limit
 `);
@@ -724,48 +964,121 @@ export const searchExperiencesScoredByProject = db.prepare(`
   FROM experiences e
   JOIN experiences_fts fts ON e.id = fts.rowid
   WHERE experiences_fts MATCH @query AND (e.project = @project OR e.project = '')
-    AND e.deleted_at IS NULL
+    AND e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
+  ORDER BY bm25(experiences_fts)
+  LIMIT @limit
+`);
+
+// as_of variants (validity.ts): what was visible at @as_of, including
+// experiences deleted or ended since
+export const searchExperiencesScoredAsOf = db.prepare(`
+  SELECT e.id, bm25(experiences_fts) AS bm25_score,
+    lower(coalesce(e.context, '') || ' ' || coalesce(e.action, '') || ' ' ||
+          coalesce(e.result, '') || ' ' || coalesce(e.tags, '')) AS haystack
+  FROM experiences e
+  JOIN experiences_fts fts ON e.id = fts.rowid
+  WHERE experiences_fts MATCH @query
+    AND ${AS_OF_SQL}
+  ORDER BY bm25(experiences_fts)
+  LIMIT @limit
+`);
+
+export const searchExperiencesScoredAsOfByProject = db.prepare(`
+  SELECT e.id, bm25(experiences_fts) AS bm25_score,
+    lower(coalesce(e.context, '') || ' ' || coalesce(e.action, '') || ' ' ||
+          coalesce(e.result, '') || ' ' || coalesce(e.tags, '')) AS haystack
+  FROM experiences e
+  JOIN experiences_fts fts ON e.id = fts.rowid
+  WHERE experiences_fts MATCH @query AND (e.project = @project OR e.project = '')
+    AND ${AS_OF_SQL}
   ORDER BY bm25(experiences_fts)
   LIMIT @limit
 `);
 
-export type HybridResult = { id: number; score: number; source: "experience" | "preference" };
+// linkedFrom is set on results added by link expansion (links.ts)
+export type HybridResult = ScoredMemory;
 
-// Score fusion formula (absolute, thresholdable, range [0, 1]):
+// Score fusion (range [0, 1]) follows the fusion policy (fusion.ts): by
+// default the absolute, thresholdable
 //   score = 0.7 * vectorSimilarity + 0.3 * ftsScore
 // where vectorSimilarity = clamp01(1 - cosine distance) and
-// ftsScore = termCoverage * normalizedBm25 (see scoring.ts). The FTS query
-// still joins terms with OR for recall, but the score is proportional to
-// how many query terms actually match instead of a flat presence bonus.
+// ftsScore = termCoverage * normalizedBm25 (see scoring.ts); config.json
+// `fusion` or the caller can pick other weights, RRF, max-of-channels or
+// weights learned from feedback (fuseChannels). Each result carries its
+// channel scores. The FTS query still joins terms with OR for recall, but
+// the score is proportional to how many query terms actually match
+// instead of a flat presence bonus.
+// Experiences are scaled down with age, per type (applyAging, aging.ts).
+// Memories that are retrieved often get a small saturating boost on top
+// (applyUsageBoost, access.ts), and rate_memory votes scale the result
+// (applyFeedback, feedback.ts). With asOf, only experiences visible at that
+// date are searched (validity.ts); preferences have no history and are
+// left out. Text matching uses the current content. Filters (type, tags,
+// success, dates, topic prefix, project only) restrict both channels
+// before ranking and leave preferences out (search-filters.ts).
 export function hybridSearch(params: {
   safeQuery: string | null;
   queryEmbedding: Float32Array | null;
   project?: string;
   limit?: number;
+  /** Append strongly linked neighbours of the top results (links.ts). */
+  expandLinks?: boolean;
+  /** UTC datetime (validity.ts parseDateParam): search memory as it was then. */
+  asOf?: string;
+  /** Restrict experiences before ranking (search-filters.ts). */
+  filters?: SearchFilters;
+  /** Terms for the FTS coverage score (query DSL); default: the ORed words of safeQuery. */
+  ftsTerms?: string[];
+  /** How to combine the channels; default: config.json `fusion` for the project (getFusionPolicy). */
+  fusion?: FusionPolicy;
 }): HybridResult[] {
   const k = params.limit || 10;
   const fetchK = k * 3;
+  const filters = hasSearchFilters(params.filters) ? params.filters : null;
   // Per-channel signals keyed by "exp:ID" or "pref:ID"
   const vecScores = new Map<string, number>();
   const ftsScores = new Map<string, number>();
 
   // 1. FTS5 search (experiences only — preferences don't have FTS)
   if (params.safeQuery) {
-    const terms = params.safeQuery
-      .split(" OR ")
-      .map((t) => t.toLowerCase())
-      .filter((t) => t.length > 0);
+    const terms =
+      params.ftsTerms ??
+      params.safeQuery
+        .split(" OR ")
+        .map((t) => t.toLowerCase())
+        .filter((t) => t.length > 0);
     try {
-      const ftsResults = params.project
-        ? searchExperiencesScoredByProject.all({
+      const ftsResults = filters
+        ? searchFtsFiltered(db, {
             query: params.safeQuery,
+            filters,
             project: params.project,
+            asOf: params.asOf,
             limit: fetchK,
-          }) as any[]
-        : searchExperiencesScored.all({
-            query: params.safeQuery,
-            limit: fetchK,
-          }) as any[];
+          })
+        : params.asOf
+          ? params.project
+            ? searchExperiencesScoredAsOfByProject.all({
+                query: params.safeQuery,
+                project: params.project,
+                as_of: params.asOf,
+                limit: fetchK,
+              }) as any[]
+            : searchExperiencesScoredAsOf.all({
+                query: params.safeQuery,
+                as_of: params.asOf,
+                limit: fetchK,
+              }) as any[]
+          : params.project
+            ? searchExperiencesScoredByProject.all({
+                query: params.safeQuery,
+                project: params.project,
+                limit: fetchK,
+              }) as any[]
+            : searchExperiencesScored.all({
+                query: params.safeQuery,
+                limit: fetchK,
+              }) as any[];
       for (const r of ftsResults) {
         const matched = terms.filter((t) => (r.haystack || "").includes(t)).length;
         ftsScores.set(`exp:${r.id}`, computeFtsScore(r.bm25_score, matched, terms.length));
@@ -778,10 +1091,18 @@ export function hybridSearch(params: {
   // 2. Vector KNN search (experiences) — solo si hay embedding y sqlite-vec disponible
   if (params.queryEmbedding && vectorsAvailable && searchVectorKNN) {
     try {
-      const vecResults = searchVectorKNN.all(params.queryEmbedding, fetchK) as any[];
+      const vecResults = filters
+        ? searchVectorsFiltered(db, {
+            embedding: params.queryEmbedding,
+            filters,
+            project: params.project,
+            asOf: params.asOf,
+            limit: fetchK,
+          })
+        : (searchVectorKNN.all(params.queryEmbedding, fetchK) as any[]);
       vecResults.forEach((r: any) => {
         const id = r.experience_id;
-        if (params.project) {
+        if (params.project && !filters) {
           const exp = getExperienceProject.get({ id }) as any;
           if (exp && exp.project !== params.project && exp.project !== "") return;
         }
@@ -795,7 +1116,7 @@ export function hybridSearch(params: {
   }
 
   // 3. Vector KNN search (preferences) — solo si hay embedding y sqlite-vec disponible
-  if (params.queryEmbedding && vectorsAvailable && searchPrefVectorKNN) {
+  if (params.queryEmbedding && vectorsAvailable && searchPrefVectorKNN && !params.asOf && !filters) {
     try {
       const prefResults = searchPrefVectorKNN.all(params.queryEmbedding, fetchK) as any[];
       prefResults.forEach((r: any) => {
@@ -808,19 +1129,76 @@ export function hybridSearch(params: {
     }
   }
 
-  // 4. Fuse channels into an absolute score, sort, return top K
+  // 4. Drop expired / no longer valid memories (the vector channels do not
+  //    filter them), fuse channels into an absolute score, adjust by age,
+  //    usage and feedback, sort, return top K
   const keys = new Set<string>([...vecScores.keys(), ...ftsScores.keys()]);
-  return [...keys]
-    .map((key) => ({
-      key,
-      score: fuseScores(vecScores.get(key) || 0, ftsScores.get(key) || 0),
-    }))
+  const idsOf = (prefix: string) =>
+    [...keys].filter((key) => key.startsWith(prefix)).map((key) => Number(key.slice(prefix.length)));
+  for (const id of findHiddenExperienceIds(db, idsOf("exp:"), params.asOf)) keys.delete(`exp:${id}`);
+  for (const id of findExpiredIds(db, "preference", idsOf("pref:"))) keys.delete(`pref:${id}`);
+  const expIds = idsOf("exp:");
+  const prefIds = idsOf("pref:");
+  const accessCounts = {
+    exp: loadAccessCounts(db, "experience", expIds),
+    pref: loadAccessCounts(db, "preference", prefIds),
+  };
+  const feedback = {
+    exp: loadFeedback(db, "experience", expIds),
+    pref: loadFeedback(db, "preference", prefIds),
+  };
+  const aging = loadAgingFactors(db, expIds, {
+    nowMs: params.asOf ? new Date(params.asOf + "Z").getTime() : undefined,
+  });
+  const channels = new Map<string, ChannelScores>(
+    [...keys].map((key) => [key, { vector: vecScores.get(key) || 0, fts: ftsScores.get(key) || 0 }])
+  );
+  const fusedScores = fuseChannels(channels, params.fusion ?? getFusionPolicy(params.project));
+  const results: HybridResult[] = [...keys]
+    .map((key) => {
+      const [prefix, idStr] = key.split(":") as ["exp" | "pref", string];
+      const id = Number(idStr);
+      const tally = feedback[prefix].get(id);
+      const fused = fusedScores.get(key) ?? 0;
+      const aged = prefix === "exp" ? applyAging(fused, aging.get(id) ?? 1) : fused;
+      const score = applyFeedback(applyUsageBoost(aged, accessCounts[prefix].get(id) ?? 0), tally);
+      return { key, score, tally };
+    })
     .sort((a, b) => b.score - a.score)
     .slice(0, k)
-    .map(({ key, score }) => {
-      const [source, idStr] = key.split(":");
-      return { id: Number(idStr), score, source: source as "experience" | "preference" };
+    .map(({ key, score, tally }) => {
+      const [prefix, idStr] = key.split(":");
+      const result: HybridResult = {
+        id: Number(idStr),
+        score,
+        source: prefix === "pref" ? "preference" : "experience",
+        channels: channels.get(key),
+      };
+      if (tally) result.feedback = tally;
+      return result;
     });
+
+  // 5. Optional graph expansion: strongly linked neighbours go after the
+  //    matches (hidden neighbours are dropped like hidden matches)
+  if (!params.expandLinks) return results;
+  const expanded = expandWithLinks(db, results);
+  const hidden = {
+    experience: findHiddenExperienceIds(
+      db,
+      expanded.filter((r) => r.source === "experience").map((r) => r.id),
+      params.asOf
+    ),
+    preference: findExpiredIds(db, "preference", expanded.filter((r) => r.source === "preference").map((r) => r.id)),
+  };
+  const visible = expanded.filter((r) => !hidden[r.source].has(r.id) && !(params.asOf && r.source === "preference"));
+  if (!filters) return visible;
+  const matching = filterExperienceIds(
+    db,
+    visible.filter((r) => r.source === "experience").map((r) => r.id),
+    filters,
+    { project: params.project, asOf: params.asOf }
+  );
+  return visible.filter((r) => r.source === "experience" && matching.has(r.id));
 }
 
 // ── WAL Checkpoint ──────────────────────────────────────
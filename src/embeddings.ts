@@ -10,7 +10,8 @@ const DTYPE = "q8" as const;
 export const EMBEDDING_DIMS = 384;
 
 // Cache models in data/models/ (auto-downloaded on first use)
-env.cacheDir = path.join(__dirname, "..", "data", "models");
+export const MODELS_CACHE_DIR = path.join(__dirname, "..", "data", "models");
+env.cacheDir = MODELS_CACHE_DIR;
 
 // ── Singleton pipeline ───────────────────────────────────
 
@@ -0,0 +1,99 @@
+/**
+ * expiry.ts - Intentionally temporary memories.
+ *
+ * Some facts are only true for a while ("staging DB is down until Friday",
+ * "use branch release/4.2 this sprint"). record_experience and
+ * learn_preference accept `expires_at` (ISO date or datetime; a bare date
+ * means 00:00 UTC that day) or `ttl_days`, stored as experiences.expires_at
+ * / preferences.expires_at (migration 10) in the same UTC format as
+ * datetime('now').
+ *
+ * Once past its expiry a memory is hidden from every automatic and search
+ * path: hybrid search, FTS queries, the session index, pinned lists and the
+ * merged preference chain (NOT_EXPIRED_SQL). Explicit lookups (get_memory
+ * by id, get_preferences key=) still show it, marked as expired.
+ * `consolidate --apply` then moves expired experiences to the trash and
+ * invalidates expired preferences, both reversible.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import type { MemoryKind } from "./links.js";
+import { invalidatePreferenceById } from "./preference-revisions.js";
+
+/** SQL condition for rows that have not expired (unqualified column). */
+export const NOT_EXPIRED_SQL = "(expires_at IS NULL OR expires_at > datetime('now'))";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ExpiryInput {
+  expires_at?: string;
+  ttl_days?: number;
+}
+
+export type ExpiryResult = { ok: true; expiresAt: string | null } | { ok: false; error: string };
+
+/** Date → "YYYY-MM-DD HH:MM:SS" (UTC), comparable with datetime('now'). */
+export function toSqliteDatetime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/**
+ * Turn the tool parameters into a stored expiry. Neither = never expires;
+ * both, a non-positive TTL, an unparseable date or a date in the past are
+ * rejected so a typo cannot silently hide a memory.
+ */
+export function resolveExpiry(input: ExpiryInput, nowMs: number = Date.now()): ExpiryResult {
+  const { expires_at, ttl_days } = input;
+  if (expires_at !== undefined && ttl_days !== undefined) {
+    return { ok: false, error: "pass either expires_at or ttl_days, not both" };
+  }
+  if (ttl_days !== undefined) {
+    if (!(ttl_days > 0)) return { ok: false, error: "ttl_days must be greater than 0" };
+    return { ok: true, expiresAt: toSqliteDatetime(new Date(nowMs + ttl_days * MS_PER_DAY)) };
+  }
+  if (expires_at !== undefined) {
+    const ms = Date.parse(expires_at);
+    if (Number.isNaN(ms)) return { ok: false, error: `expires_at "${expires_at}" is not an ISO date or datetime` };
+    if (ms <= nowMs) return { ok: false, error: `expires_at "${expires_at}" is in the past` };
+    return { ok: true, expiresAt: toSqliteDatetime(new Date(ms)) };
+  }
+  return { ok: true, expiresAt: null };
+}
+
+/** Ids among `ids` whose memory has expired. */
+export function findExpiredIds(db: BetterSqlite3.Database, kind: MemoryKind, ids: number[]): Set<number> {
+  if (ids.length === 0) return new Set();
+  const table = kind === "preference" ? "preferences" : "experiences";
+  const rows = db
+    .prepare(
+      `SELECT id FROM ${table}
+       WHERE id IN (SELECT value FROM json_each(?)) AND NOT ${NOT_EXPIRED_SQL}`
+    )
+    .all(JSON.stringify(ids)) as { id: number }[];
+  return new Set(rows.map((r) => r.id));
+}
+
+/** Active experiences and preferences past their expiry (consolidate). */
+export function findPastExpiry(db: BetterSqlite3.Database): { experiences: number[]; preferences: number[] } {
+  const ids = (sql: string) => (db.prepare(sql).all() as { id: number }[]).map((r) => r.id);
+  return {
+    experiences: ids(`SELECT id FROM experiences WHERE deleted_at IS NULL AND NOT ${NOT_EXPIRED_SQL} ORDER BY id`),
+    preferences: ids(`SELECT id FROM preferences WHERE invalidated_at IS NULL AND NOT ${NOT_EXPIRED_SQL} ORDER BY id`),
+  };
+}
+
+/**
+ * Invalidate expired preferences (reversible: re-learning restores them),
+ * recording each as a preference revision.
+ */
+export function invalidateExpiredPreferences(db: BetterSqlite3.Database, ids: number[]): number {
+  return ids.filter((id) => invalidatePreferenceById(db, id, { change: "expire" })).length;
+}
+
+/** "2026-10-23 00:00:00" / "2026-10-23 00:00:00 (expired)". */
+export function formatExpiry(expiresAt: string, nowMs: number = Date.now()): string {
+  return Date.parse(expiresAt.replace(" ", "T") + "Z") <= nowMs ? `${expiresAt} (expired)` : expiresAt;
+}
@@ -0,0 +1,123 @@
+/**
+ * feedback.ts - Explicit helpful / unhelpful ratings of memories.
+ *
+ * When a memory returned by query_memory or injected by the on_prompt hook
+ * turns out wrong or irrelevant, the agent rates it (rate_memory tool or
+ * the socket `rate_memory` request) instead of deleting it. Every vote is a
+ * row in `memory_feedback` together with the session and query that
+ * surfaced the memory, so a review can tell why it kept coming up.
+ *
+ * The tallies feed retrieval (scoring.ts):
+ *   - hybridSearch     scales the fused score by the net vote (applyFeedback)
+ *   - selectRelevant   never injects memories repeatedly rated unhelpful
+ *                      (isSuppressedByFeedback)
+ *   - memory_stats     lists those memories for review
+ *   - fusion           when the vote carries the channel scores of the
+ *                      rated memory for its query, the "learned" fusion
+ *                      strategy fits its weights to them (fusion.ts)
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { isActiveMemory, type MemoryKind, type MemoryRef } from "./links.js";
+import { FEEDBACK_SUPPRESS_VOTES, type ChannelScores, type FeedbackTally } from "./scoring.js";
+import { redactSecrets } from "./redaction.js";
+
+export interface FeedbackInput {
+  ref: MemoryRef;
+  helpful: boolean;
+  sessionId?: string;
+  query?: string;
+  note?: string;
+  /** What each search channel scored the memory for `query` (scoreMemoryChannels, fusion.ts). */
+  channels?: ChannelScores | null;
+}
+
+export type FeedbackResult = { ok: true; tally: FeedbackTally } | { ok: false; reason: "not_found" };
+
+export interface FlaggedMemory extends FeedbackTally {
+  ref: MemoryRef;
+  /** Most recent unhelpful note, if any. */
+  lastNote: string | null;
+}
+
+const TALLY_COLUMNS = `
+  SUM(CASE WHEN rating > 0 THEN 1 ELSE 0 END) AS helpful,
+  SUM(CASE WHEN rating < 0 THEN 1 ELSE 0 END) AS unhelpful`;
+
+/**
+ * Record one vote on an active memory and return its updated tally. The
+ * query and note are free text from the agent, so secrets are masked
+ * before they are stored (redaction.ts).
+ */
+export function recordFeedback(db: BetterSqlite3.Database, input: FeedbackInput): FeedbackResult {
+  if (!isActiveMemory(db, input.ref)) return { ok: false, reason: "not_found" };
+
+  db.prepare(
+    `INSERT INTO memory_feedback (memory_type, memory_id, rating, session_id, query, note, vector_score, fts_score)
+     VALUES (@type, @id, @rating, @session_id, @query, @note, @vector_score, @fts_score)`
+  ).run({
+    type: input.ref.kind,
+    id: input.ref.id,
+    rating: input.helpful ? 1 : -1,
+    session_id: input.sessionId ?? null,
+    query: input.query === undefined ? null : redactSecrets(input.query),
+    note: input.note === undefined ? null : redactSecrets(input.note),
+    vector_score: input.channels?.vector ?? null,
+    fts_score: input.channels?.fts ?? null,
+  });
+  return { ok: true, tally: loadFeedback(db, input.ref.kind, [input.ref.id]).get(input.ref.id)! };
+}
+
+/** Vote tallies per id; memories without votes are absent from the map. */
+export function loadFeedback(db: BetterSqlite3.Database, kind: MemoryKind, ids: number[]): Map<number, FeedbackTally> {
+  const tallies = new Map<number, FeedbackTally>();
+  if (ids.length === 0) return tallies;
+  const rows = db
+    .prepare(
+      `SELECT memory_id, ${TALLY_COLUMNS}
+       FROM memory_feedback
+       WHERE memory_type = ? AND memory_id IN (SELECT value FROM json_each(?))
+       GROUP BY memory_id`
+    )
+    .all(kind, JSON.stringify(ids)) as { memory_id: number; helpful: number; unhelpful: number }[];
+  for (const row of rows) tallies.set(row.memory_id, { helpful: row.helpful, unhelpful: row.unhelpful });
+  return tallies;
+}
+
+/**
+ * Active memories suppressed by feedback (see isSuppressedByFeedback), most
+ * down-voted first: candidates for correcting or deleting by hand.
+ */
+export function listFlaggedMemories(db: BetterSqlite3.Database, limit = 10): FlaggedMemory[] {
+  const rows = db
+    .prepare(
+      `SELECT f.memory_type, f.memory_id, ${TALLY_COLUMNS},
+              (SELECT note FROM memory_feedback n
+               WHERE n.memory_type = f.memory_type AND n.memory_id = f.memory_id
+                 AND n.rating < 0 AND n.note IS NOT NULL
+               ORDER BY n.id DESC LIMIT 1) AS last_note
+       FROM memory_feedback f
+       LEFT JOIN experiences e ON f.memory_type = 'experience' AND e.id = f.memory_id
+       LEFT JOIN preferences p ON f.memory_type = 'preference' AND p.id = f.memory_id
+       WHERE (e.id IS NOT NULL AND e.deleted_at IS NULL) OR (p.id IS NOT NULL AND p.invalidated_at IS NULL)
+       GROUP BY f.memory_type, f.memory_id
+       HAVING unhelpful >= @min AND unhelpful > helpful
+       ORDER BY unhelpful - helpful DESC, unhelpful DESC
+       LIMIT @limit`
+    )
+    .all({ min: FEEDBACK_SUPPRESS_VOTES, limit }) as any[];
+  return rows.map((r) => ({
+    ref: { kind: r.memory_type, id: r.memory_id },
+    helpful: r.helpful,
+    unhelpful: r.unhelpful,
+    lastNote: r.last_note,
+  }));
+}
+
+/** "+2 / -1" */
+export function formatTally(tally: FeedbackTally): string {
+  return `+${tally.helpful} / -${tally.unhelpful}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * fusion.ts - Fusion policies for hybrid search, including weights learned
+ * from feedback.
+ *
+ * hybridSearch scores every candidate in two channels (vector similarity
+ * and FTS coverage) and fuses them with the strategy of config.json
+ * `fusion` (fuseChannels, scoring.ts), per project and per query. Prose-
+ * heavy projects do better leaning on the vector channel, code-heavy ones
+ * on exact identifiers in FTS.
+ *
+ * The "learned" strategy fits the two weights to rate_memory votes: each
+ * vote records what both channels scored the rated memory for the query
+ * that surfaced it (scoreMemoryChannels, stored in memory_feedback). A
+ * channel earns credit for the scores it gave memories rated helpful and
+ * loses it for those rated unhelpful; the weights are the credits shrunk
+ * towards the configured weights by LEARNED_PRIOR_VOTES, so a handful of
+ * votes only nudges them. Votes on a project's experiences tune that
+ * project; a search without project learns from every vote.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { getConfig, type MemoryConfig } from "./config.js";
+import {
+  resolveFusionPolicy,
+  normalizeWeights,
+  clampSimilarity,
+  computeFtsScore,
+  type ChannelScores,
+  type ChannelWeights,
+  type FusionPolicy,
+  type FusionStrategy,
+} from "./scoring.js";
+import type { MemoryRef } from "./links.js";
+
+/** Weight of the configured weights, in votes, against the learned credit. */
+export const LEARNED_PRIOR_VOTES = 10;
+
+/**
+ * Channel weights fitted to the votes that carry channel scores:
+ *   weight(c) = (credit(c) + LEARNED_PRIOR_VOTES * prior(c)) / (credits + LEARNED_PRIOR_VOTES)
+ *   credit(c) = max(0, sum of rating * score(c)), rating +1 / -1
+ */
+export function learnFusionWeights(
+  db: BetterSqlite3.Database,
+  prior: ChannelWeights,
+  project?: string
+): ChannelWeights & { votes: number } {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS votes,
+         COALESCE(SUM(f.rating * f.vector_score), 0) AS vector_credit,
+         COALESCE(SUM(f.rating * f.fts_score), 0) AS fts_credit
+       FROM memory_feedback f
+       LEFT JOIN experiences e ON f.memory_type = 'experience' AND e.id = f.memory_id
+       WHERE f.vector_score IS NOT NULL AND f.fts_score IS NOT NULL
+         AND (@project IS NULL OR e.project = @project)`
+    )
+    .get({ project: project ?? null }) as { votes: number; vector_credit: number; fts_credit: number };
+
+  const base = normalizeWeights(prior);
+  const vectorCredit = Math.max(0, row.vector_credit);
+  const ftsCredit = Math.max(0, row.fts_credit);
+  const total = vectorCredit + ftsCredit + LEARNED_PRIOR_VOTES;
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    vectorWeight: round((vectorCredit + LEARNED_PRIOR_VOTES * base.vectorWeight) / total),
+    ftsWeight: round((ftsCredit + LEARNED_PRIOR_VOTES * base.ftsWeight) / total),
+    votes: row.votes,
+  };
+}
+
+/**
+ * The fusion policy a search runs with: resolveFusionPolicy (config,
+ * project entry, per-query strategy), with the weights fitted to feedback
+ * when the strategy is "learned".
+ */
+export function loadFusionPolicy(
+  db: BetterSqlite3.Database,
+  options: { project?: string; strategy?: FusionStrategy; config?: MemoryConfig } = {}
+): FusionPolicy {
+  const policy = resolveFusionPolicy(options.project, options.strategy, options.config ?? getConfig());
+  if (policy.strategy !== "learned") return policy;
+  const { votes, ...weights } = learnFusionWeights(db, policy, options.project);
+  return { ...policy, ...weights, learnedFrom: votes };
+}
+
+/**
+ * What each channel scores one memory for a query, computed the way
+ * hybridSearch does (same FTS coverage score, cosine similarity against
+ * the stored vector). Null when neither channel matches, so the vote says
+ * nothing about the channels. The vector channel needs sqlite-vec; without
+ * it only FTS counts.
+ */
+export function scoreMemoryChannels(
+  db: BetterSqlite3.Database,
+  ref: MemoryRef,
+  query: { ftsQuery: string | null; terms: string[]; embedding: Float32Array | null }
+): ChannelScores | null {
+  let vector = 0;
+  if (query.embedding) {
+    const table = ref.kind === "experience" ? "vec_experiences" : "vec_preferences";
+    const column = ref.kind === "experience" ? "experience_id" : "preference_id";
+    try {
+      const row = db
+        .prepare(`SELECT vec_distance_cosine(embedding, ?) AS cosine_distance FROM ${table} WHERE ${column} = ?`)
+        .get(query.embedding, BigInt(ref.id)) as { cosine_distance: number } | undefined;
+      if (row) vector = clampSimilarity(1 - row.cosine_distance);
+    } catch {
+      // No sqlite-vec (or no vector table): FTS only
+    }
+  }
+
+  // Preferences have no FTS index
+  let fts = 0;
+  if (ref.kind === "experience" && query.ftsQuery && query.terms.length > 0) {
+    try {
+      const row = db
+        .prepare(
+          `SELECT bm25(experiences_fts) AS bm25_score,
+             lower(coalesce(e.context, '') || ' ' || coalesce(e.action, '') || ' ' ||
+                   coalesce(e.result, '') || ' ' || coalesce(e.tags, '')) AS haystack
+           FROM experiences e
+           JOIN experiences_fts fts ON e.id = fts.rowid
+           WHERE experiences_fts MATCH @query AND e.id = @id`
+        )
+        .get({ query: query.ftsQuery, id: ref.id }) as { bm25_score: number; haystack: string } | undefined;
+      if (row) {
+        const matched = query.terms.filter((t) => row.haystack.includes(t)).length;
+        fts = computeFtsScore(row.bm25_score, matched, query.terms.length);
+      }
+    } catch {
+      // Malformed FTS query: vector only
+    }
+  }
+
+  return vector === 0 && fts === 0 ? null : { vector, fts };
+}
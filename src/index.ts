@@ -14,11 +14,12 @@ import db, {
   getExperienceTimeline,
   getRecentExperiences,
   getExperiencesByType,
-  upsertPreference,
+  learnPreference,
   getGlobalPreferences,
   getMergedPreferences,
   getPreference,
   applyDecay,
+  resolveDecayPolicy,
   recordPattern,
   getPatterns,
   getStats,
@@ -28,12 +29,40 @@ import db, {
   pruneOldExperiences,
   pruneLowConfidencePreferences,
   checkpoint,
-  sanitizeFtsQuery,
   hybridSearch,
   getPreferenceById,
   invalidatePreference,
   upsertPrefVector,
   vectorsAvailable,
+  getExperienceRevisions,
+  rollbackTopicRevision,
+  listTrashedExperiences,
+  restoreExperiences,
+  listTags,
+  renameOrMergeTag,
+  resolveProjectParam,
+  lookupPreference,
+  linkMemories,
+  unlinkMemories,
+  getLinkedMemories,
+  recordAccess,
+  pruneUnusedExperiences,
+  rateMemory,
+  getFusionPolicy,
+  scoreChannelsForRating,
+  listFlaggedMemories,
+  pinExperience,
+  endExperienceValidity,
+  reopenExperienceValidity,
+  getExperienceAsOf,
+  getPreferenceRevisions,
+  rollbackPreferenceRevision,
+  getPreferenceConflicts,
+  resolveConflict,
+  restorePreference,
+  listInvalidatedPreferences,
+  contradictPreference,
+  listCounterExamples,
 } from "./database.js";
 
 import {
@@ -42,7 +71,11 @@ import {
   findMostSimilarPreference,
   mergeIntoExistingPreference,
 } from "./preference-dedupe.js";
+import { normalizePreferenceValue, getPreferenceType, typedPreference } from "./preference-types.js";
 
+import { formatConflict, STATS_MAX_CONFLICTS } from "./conflicts.js";
+import { formatInvalidatedPreferences, INVALIDATED_DEFAULT_LIMIT, INVALIDATION_CAUSES } from "./invalidated-preferences.js";
+import { formatCounterExamples } from "./contradictions.js";
 import { getEmbedding, preloadModel } from "./embeddings.js";
 import { startSocketServer } from "./socket-server.js";
 import { normalizeTextPaths } from "./paths.js";
@@ -52,11 +85,38 @@ import {
   formatExperienceDetail,
   formatTimeline,
   formatMemoryBatch,
+  formatRevisionHistory,
+  formatPreferenceHistory,
+  formatLinkGraph,
+  formatDecayProjection,
+  formatResultScores,
   GET_MEMORY_MAX_IDS,
   PREFS_DEFAULT_LIMIT,
   PREFS_DEFAULT_MIN_CONFIDENCE,
 } from "./context-format.js";
 
+import {
+  newDeletionBatch,
+  isEmptyTrashFilter,
+  formatTrashListing,
+  TRASH_DEFAULT_LIMIT,
+  type TrashFilter,
+} from "./trash.js";
+
+import { normalizeTag, formatTagList } from "./tags.js";
+import { LINK_RELATIONS, INVERSE_RELATION_LABELS, MAX_LINK_HOPS, formatRef } from "./links.js";
+import { normalizeScopeParam, scopeChain, describeScopeChain } from "./scopes.js";
+import { getConfig, FUSION_STRATEGIES } from "./config.js";
+import { redactSecrets, formatRedactionNote, type RedactionCounts } from "./redaction.js";
+import { formatTally } from "./feedback.js";
+import { resolveExpiry, formatExpiry, toSqliteDatetime } from "./expiry.js";
+import { hasSearchFilters, describeSearchFilters, mergeSearchFilters } from "./search-filters.js";
+import { parseQuery } from "./query-dsl.js";
+import { shouldRerank, rerankFetchLimit, rerankResults } from "./rerank.js";
+import { crossEncoderScorer } from "./cross-encoder.js";
+import { parseDateParam } from "./validity.js";
+import { isSuppressedByFeedback, describeFusionPolicy } from "./scoring.js";
+
 import {
   recordTelemetry,
   summarizeTelemetry,
@@ -97,10 +157,22 @@ server.registerTool(
       project: z.string().optional().describe("Project name or path. If omitted, saved as global."),
       topic_key: z.string().optional().describe("Stable topic id (e.g. 'arch:database-schema'). Updates the experience with the same topic_key+project in place — use for knowledge that evolves over time."),
       type: z.enum(["experience", "decision", "gotcha", "discovery"]).optional().describe("'experience' (default), 'decision' (architecture/design), 'gotcha' (pitfall to avoid), 'discovery' (research finding)"),
+      expires_at: z.string().optional().describe("For temporary facts: ISO date/datetime after which it stops being retrieved (e.g. '2026-10-24')"),
+      ttl_days: z.number().optional().describe("For temporary facts: expire after this many days (alternative to expires_at)"),
+      valid_from: z.string().optional().describe("ISO date since which the fact has been true, when recording it after the fact (default: now)"),
     },
   },
-  async ({ context, action, result, success, tags, project, topic_key, type }) => {
-    const { id, deduplicated, upserted } = await insertOrDeduplicate({
+  async ({ context, action, result, success, tags, project, topic_key, type, expires_at, ttl_days, valid_from }) => {
+    const expiry = resolveExpiry({ expires_at, ttl_days });
+    if (!expiry.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${expiry.error}.` }] };
+    }
+    const validFrom = valid_from !== undefined ? parseDateParam("valid_from", valid_from, { notFuture: true }) : undefined;
+    if (validFrom && !validFrom.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${validFrom.error}.` }] };
+    }
+    project = resolveProjectParam(project) || undefined;
+    const { id, deduplicated, upserted, redacted } = await insertOrDeduplicate({
       type: type || "experience",
       context,
       action,
@@ -109,6 +181,8 @@ server.registerTool(
       tags: tags || "",
       project: project || "",
       topic_key,
+      expires_at: expiry.expiresAt,
+      valid_from: validFrom?.value,
     });
     checkpoint();
 
@@ -121,7 +195,7 @@ server.registerTool(
       content: [
         {
           type: "text" as const,
-          text: `Experience ${status} (id: ${id}). Memory: ${stats.experiences} experiences, ${stats.patterns} patterns, ${stats.globalPrefs} global prefs, ${stats.projectPrefs} project prefs.`,
+          text: `Experience ${status} (id: ${id}).${expiry.expiresAt ? ` Expires ${expiry.expiresAt} UTC.` : ""}${formatRedactionNote(redacted)} Memory: ${stats.experiences} experiences, ${stats.patterns} patterns, ${stats.globalPrefs} global prefs, ${stats.projectPrefs} project prefs.`,
         },
       ],
     };
@@ -146,7 +220,8 @@ server.registerTool(
     },
   },
   async ({ what_i_did, what_user_wanted, lesson, tags, project }) => {
-    const { id, deduplicated } = await insertOrDeduplicate({
+    project = resolveProjectParam(project) || undefined;
+    const { id, deduplicated, redacted } = await insertOrDeduplicate({
       type: "correction",
       context: what_i_did,
       action: what_user_wanted,
@@ -156,6 +231,7 @@ server.registerTool(
       project: project || "",
     });
 
+    // Same text as the experience: its redaction report covers the pattern too
     recordPattern(
       lesson,
       "correction",
@@ -168,7 +244,7 @@ server.registerTool(
       content: [
         {
           type: "text" as const,
-          text: `Correction recorded${status} (id: ${id}) and pattern updated. Lesson: "${lesson}"`,
+          text: `Correction recorded${status} (id: ${id}) and pattern updated.${formatRedactionNote(redacted)} Lesson: "${redactSecrets(lesson)}"`,
         },
       ],
     };
@@ -184,22 +260,48 @@ server.registerTool(
   "learn_preference",
   {
     description:
-      "Save or update a user preference. scope='global' (default) applies everywhere; scope='<project>' overrides the global for that project. Re-confirming raises confidence.",
+      "Save or update a user preference. scope='global' (default) applies everywhere; layer scopes like 'org:acme', 'team:payments' or 'stack:typescript' apply to the projects configured under them; scope='<project>' or 'package:<project>:<package>' override for that project/package. The most specific scope wins. Re-confirming raises confidence.",
     inputSchema: {
       key: z.string().describe("Preference name (e.g. 'language', 'code_style')"),
       value: z.string().describe("Preference value (e.g. 'english', 'functional')"),
-      scope: z.string().optional().describe("'global' (default) or a project name/path"),
+      scope: z
+        .string()
+        .optional()
+        .describe("'global' (default), '<layer>:<name>' (e.g. 'team:payments'), a project name/path, or 'package:<project>:<package>'"),
       source: z.string().optional().describe("Where it was learned (e.g. 'user said so')"),
+      expires_at: z.string().optional().describe("For temporary preferences: ISO date/datetime after which it stops applying"),
+      ttl_days: z.number().optional().describe("For temporary preferences: expire after this many days (alternative to expires_at)"),
     },
   },
-  async ({ key, value, scope, source }) => {
-    const effectiveScope = scope || "global";
+  async ({ key, value, scope, source, expires_at, ttl_days }) => {
+    const expiry = resolveExpiry({ expires_at, ttl_days });
+    if (!expiry.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${expiry.error}.` }] };
+    }
+    const effectiveScope = normalizeScopeParam(scope, resolveProjectParam);
+    if (!effectiveScope) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: invalid scope "${scope}". Use 'global', a project, 'package:<project>:<package>' or one of the layers: ${getConfig().scopes.layers.map((l) => `'${l}:<name>'`).join(", ")}.`,
+          },
+        ],
+      };
+    }
 
-    // Normalize absolute sandbox paths for portability across machines.
-    const valueNorm = normalizeTextPaths(value);
-    const sourceNorm = normalizeTextPaths(source || "observed");
+    // Normalize absolute sandbox paths for portability across machines,
+    // then mask secrets before anything is stored or embedded.
+    const redacted: RedactionCounts = {};
+    const typed = normalizePreferenceValue(key, redactSecrets(normalizeTextPaths(value), redacted));
+    if (!typed.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${typed.error}.` }] };
+    }
+    const valueNorm = typed.value;
+    const sourceNorm = redactSecrets(normalizeTextPaths(source || "observed"), redacted);
     const scopeNorm = normalizeTextPaths(effectiveScope);
-    const scopeLabel = effectiveScope === "global" ? "GLOBAL" : `project: ${effectiveScope}`;
+    const scopeLabel =
+      effectiveScope === "global" ? "GLOBAL" : effectiveScope.includes(":") ? effectiveScope : `project: ${effectiveScope}`;
 
     // Candidate embedding, computed once and reused for dedupe + storage
     let embedding: Float32Array | null = null;
@@ -212,15 +314,17 @@ server.registerTool(
     // Semantic dedupe on write: when the key is NEW for this scope but the
     // value is near-identical to an existing preference, merge into it
     // instead of creating a duplicate key. Same key = normal upsert.
+    // Temporary preferences are never merged into lasting ones, and typed
+    // keys (preference-types.ts) never merge in either direction.
     const sameKeyPref = getPreference.get({ key, scope: scopeNorm }) as any;
-    if (!sameKeyPref && embedding) {
+    if (!sameKeyPref && embedding && !expiry.expiresAt && !getPreferenceType(key)) {
       const match = findMostSimilarPreference(db, {
         scope: scopeNorm,
         excludeKey: key,
         embedding,
       });
 
-      if (match && match.similarity > PREF_SIMILARITY_THRESHOLD) {
+      if (match && match.similarity > PREF_SIMILARITY_THRESHOLD && !getPreferenceType(match.key)) {
         const merged = mergeIntoExistingPreference(db, { id: match.id, newValue: valueNorm });
         // Value changed (new one was more complete): refresh the stored vector
         if (merged.valueUpdated) {
@@ -237,19 +341,20 @@ server.registerTool(
           content: [
             {
               type: "text" as const,
-              text: `Preference "${key}" merged into existing preference '${merged.key}' (similarity ${match.similarity.toFixed(2)}) [${scopeLabel}]. Value ${merged.valueUpdated ? "updated to the more complete one" : "kept"} (confidence: ${updated?.confidence}, effective: ${withDecay.effective_confidence}).`,
+              text: `Preference "${key}" merged into existing preference '${merged.key}' (similarity ${match.similarity.toFixed(2)}) [${scopeLabel}]. Value ${merged.valueUpdated ? "updated to the more complete one" : "kept"} (confidence: ${updated?.confidence}, effective: ${withDecay.effective_confidence}).${formatRedactionNote(redacted)}`,
             },
           ],
         };
       }
     }
 
-    upsertPreference.run({
+    learnPreference({
       key,
       value: valueNorm,
       confidence: 0.3,
       source: sourceNorm,
       scope: scopeNorm,
+      expires_at: expiry.expiresAt,
     });
     checkpoint();
 
@@ -268,7 +373,7 @@ server.registerTool(
       content: [
         {
           type: "text" as const,
-          text: `Preference "${key}" = "${value}" saved [${scopeLabel}] (confidence: ${pref?.confidence || 0.3}, effective: ${withDecay.effective_confidence}).`,
+          text: `Preference "${key}" = "${getPreferenceType(key) ? valueNorm : redactSecrets(value)}" saved [${scopeLabel}] (confidence: ${pref?.confidence || 0.3}, effective: ${withDecay.effective_confidence}).${expiry.expiresAt ? ` Expires ${expiry.expiresAt} UTC.` : ""}${formatRedactionNote(redacted)}`,
         },
       ],
     };
@@ -284,68 +389,152 @@ server.registerTool(
   "query_memory",
   {
     description:
-      "Hybrid (keyword + semantic) search over stored memories. Returns a compact index; call get_memory(ids) for full details. Use before significant decisions.",
+      "Hybrid (keyword + semantic) search over stored memories. Returns a compact index; call get_memory(ids) for full details. Filter experiences by type, tags, success, created/updated dates, topic_key prefix or project only. Use before significant decisions.",
     inputSchema: {
-      query: z.string().describe("What to search for (free text)"),
-      project: z.string().optional().describe("Search this project's experiences + global ones"),
+      query: z
+        .string()
+        .describe('What to search for. Free text, plus inline filters and operators: type:gotcha tag:docker -tag:auto project:api since:2w before:2026-01-01 updated:30d is:failure topic:arch/ "exact phrase" +required -excluded'),
+      project: z.string().optional().describe("Search this project's experiences + global ones (overrides project: in the query)"),
       limit: z.number().optional().describe("Maximum results (default: 8)"),
+      expand_links: z.boolean().optional().describe("Also include memories strongly linked to the results (link_memories)"),
+      as_of: z.string().optional().describe("ISO date/datetime: search experiences as they were at that date, including facts no longer true since (preferences are not included)"),
+      type: z.array(z.string()).optional().describe("Only these experience types, e.g. ['gotcha'] (any filter leaves preferences out)"),
+      tags: z.array(z.string()).optional().describe("Only experiences carrying all these exact tags"),
+      success: z.boolean().optional().describe("true = only successes, false = only failures"),
+      created_since: z.string().optional().describe("ISO date/datetime: only experiences created at or after it"),
+      created_before: z.string().optional().describe("ISO date/datetime: only experiences created before it"),
+      updated_since: z.string().optional().describe("ISO date/datetime: only experiences last seen (re-saved or upserted) at or after it"),
+      updated_before: z.string().optional().describe("ISO date/datetime: only experiences last seen before it"),
+      topic_prefix: z.string().optional().describe("Only experiences whose topic_key starts with this"),
+      project_only: z.boolean().optional().describe("With project: only that project's experiences, not global ones"),
+      rerank: z.boolean().optional().describe("Re-score the top matches with the local cross-encoder: slower, more precise (default: config rerank.enabled)"),
+      fusion: z
+        .enum(FUSION_STRATEGIES)
+        .optional()
+        .describe("How to combine keyword and semantic scores: 'weighted', 'rrf' (reciprocal rank fusion), 'max' or 'learned' (weights fitted to rate_memory votes). Default: config fusion for the project"),
+      debug: z.boolean().optional().describe("Show the fusion strategy and each result's per-channel scores"),
     },
   },
-  async ({ query, project, limit }) => {
+  async ({ query, project, limit, expand_links, as_of, type, tags, success, created_since, created_before, updated_since, updated_before, topic_prefix, project_only, rerank, fusion, debug }) => {
+    const parsed = parseQuery(query);
+    if (parsed.errors.length > 0) {
+      return { content: [{ type: "text" as const, text: `Error: ${parsed.errors.join("; ")}.` }] };
+    }
+    if (!parsed.ftsQuery && !parsed.text) {
+      return { content: [{ type: "text" as const, text: "Error: the query has filters but nothing to search for; add some words." }] };
+    }
+    project = resolveProjectParam(project ?? parsed.project) || undefined;
     const maxResults = limit || 8;
+    const asOf = as_of !== undefined ? parseDateParam("as_of", as_of) : undefined;
+    if (asOf && !asOf.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${asOf.error}.` }] };
+    }
+    if (project_only && !project) {
+      return { content: [{ type: "text" as const, text: "Error: project_only needs a project." }] };
+    }
+    const dates: Record<string, string> = {};
+    for (const [name, value] of Object.entries({ created_since, created_before, updated_since, updated_before })) {
+      if (value === undefined) continue;
+      const date = parseDateParam(name, value);
+      if (!date.ok) return { content: [{ type: "text" as const, text: `Error: ${date.error}.` }] };
+      dates[name] = date.value;
+    }
+    const filters = mergeSearchFilters(parsed.filters, {
+      types: type,
+      tags,
+      success,
+      createdAfter: dates.created_since,
+      createdBefore: dates.created_before,
+      updatedAfter: dates.updated_since,
+      updatedBefore: dates.updated_before,
+      topicKeyPrefix: topic_prefix,
+      projectOnly: project_only,
+    });
+    const filtered = hasSearchFilters(filters);
+    const reranking = shouldRerank(rerank) && !!parsed.text;
+    const fusionPolicy = getFusionPolicy(project, fusion);
 
     try {
-      // Hybrid search: FTS5 + vector + RRF merge
-      const safeQuery = sanitizeFtsQuery(query);
-      const queryEmbedding = await getEmbedding(query);
+      // Hybrid search: FTS5 + vector, query DSL parsed (query-dsl.ts)
+      const queryEmbedding = parsed.text ? await getEmbedding(parsed.text) : null;
 
-      const hybridResults = hybridSearch({
-        safeQuery,
+      const searched = hybridSearch({
+        safeQuery: parsed.ftsQuery,
+        ftsTerms: parsed.terms,
         queryEmbedding,
         project: project || undefined,
-        limit: maxResults,
+        limit: reranking ? rerankFetchLimit(maxResults) : maxResults,
+        expandLinks: expand_links,
+        asOf: asOf?.value,
+        filters,
+        fusion: fusionPolicy,
       });
+      // Optional cross-encoder pass over the top candidates (rerank.ts)
+      const hybridResults = reranking
+        ? await rerankResults(db, parsed.text, searched, { scorer: crossEncoderScorer(), limit: maxResults })
+        : searched;
+      const reranked = hybridResults.some((r) => r.rerankScore !== undefined);
 
       if (hybridResults.length === 0) {
         return {
           content: [
             {
               type: "text" as const,
-              text: "No relevant experiences found in memory. This is uncharted territory.",
+              text: filtered
+                ? `No relevant experiences match the filters (${describeSearchFilters(filters)}).`
+                : asOf
+                  ? `No relevant experiences found in memory as of ${asOf.value} UTC.`
+                  : "No relevant experiences found in memory. This is uncharted territory.",
             },
           ],
         };
       }
 
       // Load full records by ID (experiences + preferences)
+      const returned = { experiences: [] as number[], preferences: [] as number[] };
       const formatted = hybridResults
         .map((r, i) => {
+          const linked = r.linkedFrom
+            ? ` (linked: ${r.linkedFrom.relation} ${formatRef({ kind: r.linkedFrom.source, id: r.linkedFrom.id })})`
+            : "";
+          const scores = debug ? `\n   Scores: ${formatResultScores(r)}` : "";
           if (r.source === "preference") {
             const pref = getPreferenceById.get({ id: r.id }) as any;
             // Invalidated preferences are hidden from automatic retrieval
             if (!pref || pref.invalidated_at) return null;
-            return `${i + 1}. [preference] ${pref.key}: "${pref.value}" [${pref.scope}] (confidence: ${pref.confidence})`;
+            returned.preferences.push(pref.id);
+            return `${i + 1}. [preference] ${pref.key}: "${pref.value}" [${pref.scope}] (confidence: ${pref.confidence})${linked}${scores}`;
           } else {
-            const exp = getExperienceById.get({ id: r.id }) as any;
+            const exp = asOf ? getExperienceAsOf(r.id, asOf.value) : (getExperienceById.get({ id: r.id }) as any);
             if (!exp) return null;
-            return `${i + 1}. [id:${exp.id}] [${exp.type}] ${exp.success ? "OK" : "FAIL"}${exp.project ? ` (${exp.project})` : ""} | ${(exp.context || "").substring(0, 80)}${exp.context && exp.context.length > 80 ? "..." : ""}\n   Tags: ${exp.tags} | ${exp.created_at}`;
+            returned.experiences.push(exp.id);
+            return `${i + 1}. [id:${exp.id}] [${exp.type}] ${exp.success ? "OK" : "FAIL"}${exp.project ? ` (${exp.project})` : ""} | ${(exp.context || "").substring(0, 80)}${exp.context && exp.context.length > 80 ? "..." : ""}${linked}\n   Tags: ${exp.tags} | ${exp.created_at}${scores}`;
           }
         })
         .filter(Boolean)
         .join("\n\n");
+      recordAccess(returned);
+      const fusionNote = debug ? `Fusion: ${describeFusionPolicy(fusionPolicy)}\n` : "";
 
       return {
         content: [
           {
             type: "text" as const,
-            text: `Found ${hybridResults.length} results (hybrid search):\n\n${formatted}\n\nUse get_memory(ids) for full details.`,
+            text: `${fusionNote}Found ${hybridResults.length} results (hybrid search${reranked ? ", reranked" : ""}${asOf ? `, as of ${asOf.value} UTC` : ""}${filtered ? `, filtered: ${describeSearchFilters(filters)}` : ""}):\n\n${formatted}\n\nUse get_memory(ids${asOf ? ", as_of" : ""}) for full details.`,
           },
         ],
       };
     } catch {
+      // The fallbacks only know the current state of memory
+      if (asOf) {
+        return { content: [{ type: "text" as const, text: "Error: search unavailable, as_of queries need hybrid search." }] };
+      }
+      if (filtered) {
+        return { content: [{ type: "text" as const, text: "Error: search unavailable, filtered queries need hybrid search." }] };
+      }
       // Fallback: FTS5-only or recent experiences
       try {
-        const safeQuery = sanitizeFtsQuery(query);
+        const safeQuery = parsed.ftsQuery;
         if (safeQuery) {
           const ftsResults = project
             ? searchExperiencesCompactByProject.all({ query: safeQuery, project, limit: maxResults }) as any[]
@@ -357,6 +546,7 @@ server.registerTool(
                   `${i + 1}. [id:${r.id}] [${r.type}] ${r.snippet}${r.snippet && r.snippet.length >= 120 ? "..." : ""}`
               )
               .join("\n\n");
+            recordAccess({ experiences: ftsResults.map((r: any) => r.id) });
             return {
               content: [{ type: "text" as const, text: `Found ${ftsResults.length} (FTS5 fallback):\n\n${formatted}` }],
             };
@@ -394,35 +584,44 @@ server.registerTool(
   "get_preferences",
   {
     description:
-      "List user preferences (project overrides merged over global), bounded by default. Use key= for one full preference or all=true for everything. Check at session start.",
+      "List user preferences merged along the project's scope chain (global → org/team/stack layers → project → package; most specific wins, origin shown), bounded by default. Use key= for one full preference (history=true adds its earlier values) or all=true for everything; both show when decay drops a preference out of automatic context. format='json' returns typed values (booleans, numbers, lists, JSON) for generating config. Check at session start.",
     inputSchema: {
       project: z.string().optional().describe("Project name/path. If omitted, global only."),
+      package: z.string().optional().describe("Monorepo package inside the project (adds the package layer)."),
       key: z.string().optional().describe("Return ONLY this preference at full length."),
+      history: z.boolean().optional().describe("With key: also list every earlier value with diffs (rollback_preference restores one)."),
       all: z.boolean().optional().describe("If true, return every preference unbounded."),
       limit: z.number().optional().describe(`Maximum preferences (default: ${PREFS_DEFAULT_LIMIT}).`),
       min_confidence: z.number().optional().describe(`Minimum effective confidence (default: ${PREFS_DEFAULT_MIN_CONFIDENCE}).`),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .describe("'text' (default) or 'json': [{ key, type, value, valid, scope, confidence, effective_confidence }] with typed values"),
     },
   },
-  async ({ project, key, all, limit, min_confidence }) => {
+  async ({ project, package: pkg, key, history, all, limit, min_confidence, format }) => {
+    project = resolveProjectParam(project) || undefined;
+    const chain = scopeChain(project || "", { package: pkg });
     // Telemetry: record the size of whatever this tool returns
     const respond = (text: string, items: number) => {
       recordTelemetry(db, { channel: "get_preferences", project: project || "", chars: text.length, items });
       return { content: [{ type: "text" as const, text }] };
     };
+    const respondJson = (prefs: any[]) => respond(JSON.stringify(prefs.map((p) => typedPreference(p)), null, 2), prefs.length);
 
-    // Single-key lookup: full value, project scope first, then global
+    // Single-key lookup: full value for every layer of the chain that
+    // defines it, most specific (the effective one) first
     if (key) {
-      const found: any[] = [];
-      if (project) {
-        const p = getPreference.get({ key, scope: project }) as any;
-        if (p) found.push({ ...applyDecay(p), _origin: "project" });
+      const found = lookupPreference(key, project, pkg).map(applyDecay);
+      // JSON is for generating config: only the rows that still apply
+      if (format === "json") {
+        const now = toSqliteDatetime(new Date());
+        return respondJson(found.filter((p: any) => !p.invalidated_at && !(p.expires_at && p.expires_at <= now)));
       }
-      const g = getPreference.get({ key, scope: "global" }) as any;
-      if (g) found.push({ ...applyDecay(g), _origin: "global" });
 
       if (found.length === 0) {
         return respond(
-          `Preference "${key}" not found${project ? ` (checked project "${project}" and global)` : " (global scope)"}.`,
+          `Preference "${key}" not found${project ? ` (checked ${describeScopeChain([...chain].reverse())})` : " (global scope)"}.`,
           0
         );
       }
@@ -432,31 +631,44 @@ server.registerTool(
           const invalidated = p.invalidated_at
             ? ` [INVALIDATED${p.superseded_by ? ` — superseded by '${p.superseded_by}'` : ""}]`
             : "";
-          return `- ${p.key} [${p._origin}]: "${p.value}" (confidence: ${p.confidence}, effective: ${p.effective_confidence})${invalidated}`;
+          const expires = p.expires_at ? ` [expires ${formatExpiry(p.expires_at)}]` : "";
+          const projection = p.invalidated_at ? "" : formatDecayProjection(p, resolveDecayPolicy(p.key));
+          const fades = projection ? ` [${projection}]` : "";
+          const counterExamples = formatCounterExamples(p, listCounterExamples(p.id));
+          const line =
+            `- ${p.key} [${p._scope}]: "${p.value}" (confidence: ${p.confidence}, effective: ${p.effective_confidence})${invalidated}${expires}${fades}` +
+            (counterExamples ? `\n${counterExamples}` : "");
+          return history
+            ? `${line}\n\n${formatPreferenceHistory(getPreferenceRevisions(p.id), `'${p.key}' [${p._scope}]`)}`
+            : line;
         })
-        .join("\n");
+        .join(history ? "\n\n" : "\n");
 
       return respond(formatted, found.length);
     }
 
     const allPrefs = project
-      ? getMergedPreferences(project)
+      ? getMergedPreferences(project, { package: pkg })
       : (getGlobalPreferences.all() as any[])
           .map(applyDecay)
           .sort((a: any, b: any) => b.effective_confidence - a.effective_confidence);
 
+    if (format === "json" && all) return respondJson(allPrefs);
     if (allPrefs.length === 0) {
       return respond("No preferences saved yet. They will be learned with usage.", 0);
     }
 
-    const label = project ? `Preferences for ${project} (global + project)` : "Global preferences";
+    const label = project ? `Preferences for ${project} (${describeScopeChain(chain)})` : "Global preferences";
 
     // Explicit escape: full dump with complete values and metadata
     if (all) {
       const formatted = allPrefs
         .map((p: any) => {
-          const origin = p._origin ? ` [${p._origin}]` : ` [${p.scope || "global"}]`;
-          return `- ${p.key}: "${p.value}" (confidence: ${p.confidence}, effective: ${p.effective_confidence}, decay: ${p.decay_factor})${origin}`;
+          const origin = ` [${p._scope ?? (p.scope || "global")}]`;
+          const contradicted = p.contradiction_count > 0 ? `, contradicted: ${p.contradiction_count}x` : "";
+          const projection = formatDecayProjection(p, resolveDecayPolicy(p.key));
+          const fades = projection ? `, ${projection}` : "";
+          return `- ${p.key}: "${p.value}" (confidence: ${p.confidence}, effective: ${p.effective_confidence}, decay: ${p.decay_factor}${contradicted}${fades})${origin}`;
         })
         .join("\n");
 
@@ -468,6 +680,7 @@ server.registerTool(
       limit: limit ?? PREFS_DEFAULT_LIMIT,
       minEffectiveConfidence: min_confidence ?? PREFS_DEFAULT_MIN_CONFIDENCE,
     });
+    if (format === "json") return respondJson(selected);
 
     return respond(
       formatPreferencesOutput({ label, prefs: selected, totalCount: allPrefs.length }),
@@ -484,16 +697,18 @@ server.registerTool(
   "forget_memory",
   {
     description:
-      "Soft-delete experiences by id, tag, or project, and/or invalidate a preference (reversible). Requires at least one parameter.",
+      "Soft-delete experiences by id, tag, or project (undo with restore_memory), and/or invalidate a preference (reversible). Requires at least one parameter.",
     inputSchema: {
       id: z.number().optional().describe("ID of the experience to delete"),
-      tag: z.string().optional().describe("Delete all experiences containing this tag"),
+      tag: z.string().optional().describe("Delete all experiences with this exact tag"),
       project: z.string().optional().describe("Delete all experiences from this project"),
-      preference_key: z.string().optional().describe("Invalidate this preference (reversible: re-learn it to restore)"),
-      preference_scope: z.string().optional().describe("Scope of the preference (default: 'global')"),
+      preference_key: z.string().optional().describe("Invalidate this preference (reversible: restore_preference undoes it)"),
+      preference_scope: z.string().optional().describe("Scope of the preference (default: 'global'; same forms as learn_preference)"),
     },
   },
   async ({ id, tag, project, preference_key, preference_scope }) => {
+    project = resolveProjectParam(project) || undefined;
+    preference_scope = preference_scope ? (normalizeScopeParam(preference_scope, resolveProjectParam) ?? preference_scope) : undefined;
     if (!id && !tag && !project && !preference_key) {
       return {
         content: [
@@ -507,19 +722,21 @@ server.registerTool(
 
     let totalDeleted = 0;
     let prefInvalidated = false;
+    // One deletion batch per call: restore_memory batch=... undoes it whole
+    const batch = newDeletionBatch();
 
     if (id) {
-      const result = softDeleteExperienceById.run({ id });
+      const result = softDeleteExperienceById.run({ id, batch });
       totalDeleted += result.changes;
     }
 
     if (tag) {
-      const result = softDeleteExperiencesByTag.run({ tag });
+      const result = softDeleteExperiencesByTag.run({ tag: normalizeTag(tag), batch });
       totalDeleted += result.changes;
     }
 
     if (project) {
-      const result = softDeleteExperiencesByProject.run({ project });
+      const result = softDeleteExperiencesByProject.run({ project, batch });
       totalDeleted += result.changes;
     }
 
@@ -532,14 +749,14 @@ server.registerTool(
     const stats = getStats();
     const prefNote = preference_key
       ? prefInvalidated
-        ? ` Preference '${preference_key}' invalidated [${preference_scope || "global"}] (reversible: re-learn it to restore).`
+        ? ` Preference '${preference_key}' invalidated [${preference_scope || "global"}] (undo with restore_preference).`
         : ` Preference '${preference_key}' not found or already invalidated [${preference_scope || "global"}].`
       : "";
     return {
       content: [
         {
           type: "text" as const,
-          text: `Soft-deleted ${totalDeleted} experience(s).${prefNote} Active memory: ${stats.experiences} experiences, ${stats.softDeleted} soft-deleted, ${stats.patterns} patterns.`,
+          text: `Soft-deleted ${totalDeleted} experience(s)${totalDeleted > 0 ? ` (batch ${batch}, undo with restore_memory batch="${batch}")` : ""}.${prefNote} Active memory: ${stats.experiences} experiences, ${stats.softDeleted} soft-deleted, ${stats.patterns} patterns.`,
         },
       ],
     };
@@ -554,20 +771,24 @@ server.registerTool(
   "prune_memory",
   {
     description:
-      "Bulk cleanup: soft-delete experiences older than N days (optionally failures only) and/or delete low-confidence preferences.",
+      "Bulk cleanup: soft-delete experiences older than N days (optionally failures only) or not retrieved in N days, and/or delete low-confidence preferences.",
     inputSchema: {
       older_than_days: z.number().optional().describe("Delete experiences older than N days"),
       only_failures: z.boolean().optional().describe("If true, only delete failed experiences (default: false)"),
+      unused_days: z
+        .number()
+        .optional()
+        .describe("Delete experiences older than N days that were not retrieved (query_memory, prompt injection, get_memory) in that time"),
       min_confidence: z.number().optional().describe("Delete preferences with confidence below this value"),
     },
   },
-  async ({ older_than_days, only_failures, min_confidence }) => {
-    if (!older_than_days && min_confidence === undefined) {
+  async ({ older_than_days, only_failures, unused_days, min_confidence }) => {
+    if (!older_than_days && !unused_days && min_confidence === undefined) {
       return {
         content: [
           {
             type: "text" as const,
-            text: "Error: you must provide at least older_than_days or min_confidence.",
+            text: "Error: you must provide at least older_than_days, unused_days or min_confidence.",
           },
         ],
       };
@@ -576,14 +797,21 @@ server.registerTool(
     let deletedExperiences = 0;
     let deletedPreferences = 0;
 
+    // One batch for the whole call, so restore_memory batch=... undoes it
+    const batch = newDeletionBatch();
     if (older_than_days) {
       const result = pruneOldExperiences.run({
         days: older_than_days,
         only_failures: only_failures ? 1 : 0,
+        batch,
       });
       deletedExperiences = result.changes;
     }
 
+    if (unused_days) {
+      deletedExperiences += pruneUnusedExperiences(unused_days, batch);
+    }
+
     if (min_confidence !== undefined) {
       const result = pruneLowConfidencePreferences.run({ min_confidence });
       deletedPreferences = result.changes;
@@ -636,7 +864,8 @@ Corrections:        ${stats.corrections}
 Soft-deleted:       ${stats.softDeleted}
 Global prefs:       ${stats.globalPrefs}
 Project prefs:      ${stats.projectPrefs}
-Patterns:           ${stats.patterns}`;
+Patterns:           ${stats.patterns}
+Never retrieved:    ${stats.neverAccessed}`;
 
     if (corrections.length > 0) {
       text += `\n\nLatest corrections:`;
@@ -661,6 +890,25 @@ Patterns:           ${stats.patterns}`;
       });
     }
 
+    // Memories the agent keeps rating unhelpful (rate_memory)
+    const flagged = listFlaggedMemories();
+    if (flagged.length > 0) {
+      text += `\n\nFlagged for review (rated unhelpful, no longer injected):`;
+      flagged.forEach((f) => {
+        text += `\n- ${formatRef(f.ref)} ${formatTally(f)}${f.lastNote ? ` — ${f.lastNote}` : ""}`;
+      });
+    }
+
+    // Related preferences with diverging values (resolve_conflict)
+    const conflicts = getPreferenceConflicts();
+    if (conflicts.length > 0) {
+      text += `\n\nConflicting preferences (${conflicts.length}):`;
+      conflicts.slice(0, STATS_MAX_CONFLICTS).forEach((c) => {
+        text += `\n- ${formatConflict(c)}`;
+      });
+      if (conflicts.length > STATS_MAX_CONFLICTS) text += `\n- ... ${conflicts.length - STATS_MAX_CONFLICTS} more (run consolidate)`;
+    }
+
     // Retrieval telemetry: how much each channel returns (chars/tokens)
     text += `\n\n${formatTelemetrySummary(summarizeTelemetry(db))}`;
 
@@ -679,19 +927,26 @@ server.registerTool(
   "get_memory",
   {
     description:
-      "Fetch full details for one or more memories by id (batch). Set timeline=true to also list events within +-1 hour of each experience.",
+      "Fetch full details for one or more memories by id (batch). Set timeline=true to also list events within +-1 hour of each experience, revisions=true for the topic revision history with diffs, links=N for linked memories up to N hops, as_of=date to see them as they were at that date.",
     inputSchema: {
       ids: z.array(z.number()).min(1).describe(`Experience ids from query_memory (max ${GET_MEMORY_MAX_IDS})`),
       timeline: z.boolean().optional().describe("Include the +-1 hour timeline around each experience"),
+      revisions: z.boolean().optional().describe("Include the revision history (with diffs) of topic_key experiences"),
+      links: z.number().optional().describe(`Include memories linked to each experience, up to this many hops (max ${MAX_LINK_HOPS})`),
+      as_of: z.string().optional().describe("ISO date/datetime: show each experience as it was at that date (topic experiences show the revision live then)"),
     },
   },
-  async ({ ids, timeline }) => {
+  async ({ ids, timeline, revisions, links, as_of }) => {
+    const asOf = as_of !== undefined ? parseDateParam("as_of", as_of) : undefined;
+    if (asOf && !asOf.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${asOf.error}.` }] };
+    }
     const requested = ids.slice(0, GET_MEMORY_MAX_IDS);
     const blocks: string[] = [];
     const missingIds: number[] = [];
 
     for (const id of requested) {
-      const exp = getExperienceById.get({ id }) as any;
+      const exp = asOf ? getExperienceAsOf(id, asOf.value) : (getExperienceById.get({ id }) as any);
       if (!exp) {
         missingIds.push(id);
         continue;
@@ -702,10 +957,20 @@ server.registerTool(
         const tl = formatTimeline(rows, id);
         if (tl) block += `\n\n${tl}`;
       }
+      if (revisions) {
+        const history = formatRevisionHistory(getExperienceRevisions(id), id);
+        if (history) block += `\n\n${history}`;
+      }
+      if (links && links > 0) {
+        const hops = Math.min(links, MAX_LINK_HOPS);
+        const graph = formatLinkGraph(getLinkedMemories(id, hops), id, hops, INVERSE_RELATION_LABELS);
+        if (graph) block += `\n\n${graph}`;
+      }
       blocks.push(block);
     }
+    recordAccess({ experiences: requested.filter((id) => !missingIds.includes(id)) });
 
-    let text = formatMemoryBatch({ blocks, missingIds });
+    let text = formatMemoryBatch({ blocks, missingIds, asOf: asOf?.value });
     if (ids.length > GET_MEMORY_MAX_IDS) {
       text += `\n\n(${ids.length - GET_MEMORY_MAX_IDS} ids beyond the ${GET_MEMORY_MAX_IDS}-id cap were ignored)`;
     }
@@ -716,6 +981,523 @@ server.registerTool(
   }
 );
 
+// ════════════════════════════════════════════════════════
+// TOOL 10: rollback_topic (topic revision history)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "rollback_topic",
+  {
+    description:
+      "Restore a topic_key experience to an earlier revision (see get_memory revisions=true). The current content is kept in the history.",
+    inputSchema: {
+      topic_key: z.string().describe("Topic id of the experience (e.g. 'arch:database-schema')"),
+      project: z.string().optional().describe("Project of the topic (default: global)"),
+      revision: z.number().describe("Revision number to restore"),
+    },
+  },
+  async ({ topic_key, project, revision }) => {
+    project = resolveProjectParam(project) || undefined;
+    const result = await rollbackTopicRevision({ topic_key, project: project || "", revision });
+    if (result.ok) checkpoint();
+
+    const reasons = {
+      not_found: `Topic '${topic_key}' not found${project ? ` in project "${project}"` : " (global)"}.`,
+      revision_not_found: `Revision ${revision} of '${topic_key}' is not in the revision history.`,
+      already_current: `Revision ${revision} is already the current content of '${topic_key}'.`,
+    };
+    const text = result.ok
+      ? `Topic '${topic_key}' (id: ${result.experienceId}) rolled back to revision ${result.toRevision}, saved as revision ${result.newRevision} (revision ${result.fromRevision} kept in history).`
+      : reasons[result.reason];
+
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 11: rollback_preference (preference value history)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "rollback_preference",
+  {
+    description:
+      "Restore an earlier value of a preference (see get_preferences key=... history=true), e.g. after it drifted from what the user said. The current value is kept in the history and the preference becomes active again.",
+    inputSchema: {
+      key: z.string().describe("Preference key"),
+      scope: z.string().optional().describe("Scope of the preference (default: 'global'; same forms as learn_preference)"),
+      revision: z.number().describe("Revision number to restore"),
+    },
+  },
+  async ({ key, scope, revision }) => {
+    const effectiveScope = scope ? (normalizeScopeParam(scope, resolveProjectParam) ?? scope) : "global";
+    const result = await rollbackPreferenceRevision({ key, scope: effectiveScope, revision });
+    if (result.ok) checkpoint();
+
+    const reasons = {
+      not_found: `Preference '${key}' not found in scope '${effectiveScope}'.`,
+      revision_not_found: `Revision ${revision} of '${key}' is not in its history.`,
+      already_current: `Revision ${revision} is already the current value of '${key}'.`,
+    };
+    const text = result.ok
+      ? `Preference '${key}' [${effectiveScope}] rolled back to revision ${result.toRevision} ("${result.value}"), saved as revision ${result.newRevision} (revision ${result.fromRevision} kept in history).`
+      : reasons[result.reason];
+
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 12-13: list_trash / restore_memory (undelete)
+// ════════════════════════════════════════════════════════
+
+const trashFilterSchema = {
+  project: z.string().optional().describe("Only experiences of this project"),
+  tag: z.string().optional().describe("Only experiences with this exact tag"),
+  batch: z.string().optional().describe("Only this deletion batch (reported by forget_memory / list_trash)"),
+  deleted_since: z.string().optional().describe("Only deleted at or after this date (YYYY-MM-DD)"),
+  deleted_before: z.string().optional().describe("Only deleted before this date (YYYY-MM-DD)"),
+};
+
+server.registerTool(
+  "list_trash",
+  {
+    description:
+      "List soft-deleted experiences (recoverable until consolidate purges them), grouped by deletion batch. Filter by project, tag, batch or deletion date.",
+    inputSchema: {
+      ...trashFilterSchema,
+      limit: z.number().optional().describe(`Maximum items listed (default: ${TRASH_DEFAULT_LIMIT})`),
+    },
+  },
+  async ({ project, tag, batch, deleted_since, deleted_before, limit }) => {
+    project = resolveProjectParam(project) || undefined;
+    const listing = listTrashedExperiences(
+      { project, tag, batch, deletedSince: deleted_since, deletedBefore: deleted_before },
+      limit ?? TRASH_DEFAULT_LIMIT
+    );
+    return {
+      content: [{ type: "text" as const, text: formatTrashListing(listing) }],
+    };
+  }
+);
+
+server.registerTool(
+  "restore_memory",
+  {
+    description:
+      "Restore soft-deleted experiences (undo forget_memory / prune_memory) by id, batch, project, tag or deletion date. Requires at least one filter.",
+    inputSchema: {
+      ids: z.array(z.number()).optional().describe("Experience ids to restore"),
+      ...trashFilterSchema,
+    },
+  },
+  async ({ ids, project, tag, batch, deleted_since, deleted_before }) => {
+    project = resolveProjectParam(project) || undefined;
+    const filter: TrashFilter = { ids, project, tag, batch, deletedSince: deleted_since, deletedBefore: deleted_before };
+    if (isEmptyTrashFilter(filter)) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "Error: you must provide at least one of: ids, batch, project, tag, deleted_since or deleted_before.",
+          },
+        ],
+      };
+    }
+
+    const { restored, reembedded } = await restoreExperiences(filter);
+    if (restored.length > 0) checkpoint();
+
+    const stats = getStats();
+    const text = restored.length > 0
+      ? `Restored ${restored.length} experience(s): ${restored.slice(0, 20).map((r) => `#${r}`).join(", ")}${restored.length > 20 ? ", ..." : ""}${reembedded > 0 ? ` (${reembedded} re-embedded)` : ""}. Active memory: ${stats.experiences} experiences, ${stats.softDeleted} soft-deleted.`
+      : "No soft-deleted experiences matched the filter.";
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 14-15: list_tags / rename_tag (normalized tags)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "list_tags",
+  {
+    description:
+      "List the tags used by active experiences, most used first, with counts per project.",
+    inputSchema: {
+      project: z.string().optional().describe("Only count experiences of this project"),
+    },
+  },
+  async ({ project }) => {
+    project = resolveProjectParam(project) || undefined;
+    return {
+      content: [{ type: "text" as const, text: formatTagList(listTags(project), project) }],
+    };
+  }
+);
+
+server.registerTool(
+  "rename_tag",
+  {
+    description:
+      "Rename a tag on every experience. If the new name already exists, the two tags are merged.",
+    inputSchema: {
+      from: z.string().describe("Current tag name"),
+      to: z.string().describe("New tag name (or existing tag to merge into)"),
+    },
+  },
+  async ({ from, to }) => {
+    const result = renameOrMergeTag(from, to);
+    if (result.ok) checkpoint();
+
+    const text = result.ok
+      ? `Tag '${result.from}' ${result.merged ? "merged into" : "renamed to"} '${result.to}' on ${result.experiences} experience(s).`
+      : result.reason === "not_found"
+        ? `Error: tag '${normalizeTag(from)}' not found.`
+        : "Error: 'from' and 'to' must be different, non-empty tag names without commas.";
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 16: link_memories (memory graph)
+// ════════════════════════════════════════════════════════
+
+const memoryKindSchema = z.enum(["experience", "preference"]);
+
+server.registerTool(
+  "link_memories",
+  {
+    description:
+      "Record a typed relationship between two memories, e.g. this fix supersedes #12 or this gotcha was caused_by decision #40. Linked memories show up in get_memory(links=N) and query_memory(expand_links=true). Set remove=true to delete the link.",
+    inputSchema: {
+      from_id: z.number().describe("Id of the memory the relationship starts from"),
+      to_id: z.number().describe("Id of the related memory"),
+      relation: z.enum(LINK_RELATIONS).describe("from_id <relation> to_id"),
+      from_type: memoryKindSchema.optional().describe("Kind of from_id (default: experience)"),
+      to_type: memoryKindSchema.optional().describe("Kind of to_id (default: experience)"),
+      weight: z.number().optional().describe("Strength of the relationship, 0-1 (default: 1). Search expansion follows links >= 0.7"),
+      note: z.string().optional().describe("Optional short explanation"),
+      remove: z.boolean().optional().describe("Delete the link instead of creating it"),
+    },
+  },
+  async ({ from_id, to_id, relation, from_type, to_type, weight, note, remove }) => {
+    const from = { kind: from_type || "experience", id: from_id } as const;
+    const to = { kind: to_type || "experience", id: to_id } as const;
+    const edge = `${formatRef(from)} ${relation} ${formatRef(to)}`;
+
+    if (remove) {
+      const removed = unlinkMemories({ from, to, relation });
+      if (removed > 0) checkpoint();
+      return {
+        content: [{ type: "text" as const, text: removed > 0 ? `Link removed: ${edge}.` : `No link ${edge} found.` }],
+      };
+    }
+
+    const result = linkMemories({ from, to, relation, weight, note });
+    if (result.ok) checkpoint();
+
+    const reasons = {
+      self_link: "Error: a memory cannot be linked to itself.",
+      not_found: `Error: ${formatRef(from)} or ${formatRef(to)} not found (deleted, invalidated or wrong type).`,
+      invalid_weight: "Error: weight must be greater than 0 and at most 1.",
+    };
+    const text = result.ok
+      ? `Link ${result.created ? "recorded" : "updated"}: ${edge}${weight !== undefined ? ` (weight ${weight})` : ""}.`
+      : reasons[result.reason];
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 17: rate_memory (explicit feedback)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "rate_memory",
+  {
+    description:
+      "Rate a memory returned by query_memory or injected into the prompt as helpful or unhelpful. Ratings adjust future ranking; memories repeatedly rated unhelpful stop being injected automatically and are flagged in memory_stats. Prefer this over forget_memory when a memory is merely irrelevant or doubtful.",
+    inputSchema: {
+      id: z.number().describe("Id of the rated memory"),
+      type: memoryKindSchema.optional().describe("Kind of memory (default: experience)"),
+      helpful: z.boolean().describe("true if the memory helped, false if it was wrong or irrelevant"),
+      query: z.string().optional().describe("The query or prompt that surfaced the memory"),
+      session_id: z.string().optional().describe("Session in which the memory was surfaced"),
+      note: z.string().optional().describe("Optional short reason"),
+    },
+  },
+  async ({ id, type, helpful, query, session_id, note }) => {
+    const ref = { kind: type || "experience", id } as const;
+    // Channel scores for the "learned" fusion strategy (fusion.ts)
+    const parsed = query ? parseQuery(query) : null;
+    const channels = parsed?.text
+      ? scoreChannelsForRating(ref, { ftsQuery: parsed.ftsQuery, terms: parsed.terms, embedding: await getEmbedding(parsed.text) })
+      : null;
+    const result = rateMemory({ ref, helpful, query, sessionId: session_id, note, channels });
+    if (!result.ok) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${formatRef(ref)} not found (deleted, invalidated or wrong type).` }],
+      };
+    }
+    checkpoint();
+
+    const suppressed = isSuppressedByFeedback(result.tally)
+      ? " It will no longer be injected automatically and is flagged in memory_stats."
+      : "";
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Recorded ${helpful ? "helpful" : "unhelpful"} rating for ${formatRef(ref)} (now ${formatTally(result.tally)}).${suppressed}`,
+        },
+      ],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 18-19: pin_memory / unpin_memory (pinned experiences)
+// ════════════════════════════════════════════════════════
+
+function pinResponse(id: number, pinned: boolean) {
+  const result = pinExperience(id, pinned);
+  if (result.ok && result.changed) checkpoint();
+
+  const text = !result.ok
+    ? `Error: experience #${id} not found (deleted or invalid id).`
+    : !result.changed
+      ? `Experience #${id} was already ${pinned ? "pinned" : "unpinned"}.`
+      : pinned
+        ? `Pinned #${id}: it is listed first in every session index for its project and exempt from retention and prune_memory.`
+        : `Unpinned #${id}.`;
+  return {
+    content: [{ type: "text" as const, text }],
+  };
+}
+
+server.registerTool(
+  "pin_memory",
+  {
+    description:
+      "Pin a critical experience (gotcha, decision, never-forget fact) so it is always included, first, in the session context for its project (global experiences: every project). Pinned experiences are never removed by retention or prune_memory.",
+    inputSchema: {
+      id: z.number().describe("Experience id to pin"),
+    },
+  },
+  async ({ id }) => pinResponse(id, true)
+);
+
+server.registerTool(
+  "unpin_memory",
+  {
+    description: "Remove the pin from an experience; it goes back to competing with search results in the session context.",
+    inputSchema: {
+      id: z.number().describe("Experience id to unpin"),
+    },
+  },
+  async ({ id }) => pinResponse(id, false)
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 20-21: invalidate_experience / revalidate_experience (valid time)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "invalidate_experience",
+  {
+    description:
+      "Mark an experience as no longer true (e.g. after migrating away from a tool) without deleting it. It stops being retrieved, but stays visible to get_memory and to query_memory/get_memory with as_of a date when it was still true. Use forget_memory instead when it was never true.",
+    inputSchema: {
+      id: z.number().describe("Experience id"),
+      valid_to: z.string().optional().describe("ISO date/datetime from which it stopped being true (default: now)"),
+      superseded_by: z.number().optional().describe("Id of the experience that replaces it (recorded as a supersedes link)"),
+      note: z.string().optional().describe("Optional reason, stored on the supersedes link"),
+    },
+  },
+  async ({ id, valid_to, superseded_by, note }) => {
+    const validTo = valid_to !== undefined ? parseDateParam("valid_to", valid_to, { notFuture: true }) : undefined;
+    if (validTo && !validTo.ok) {
+      return { content: [{ type: "text" as const, text: `Error: ${validTo.error}. For a future end use expires_at.` }] };
+    }
+    const result = endExperienceValidity({ id, validTo: validTo?.value, supersededBy: superseded_by, note });
+    if (result.ok && result.changed) checkpoint();
+
+    const errors = {
+      not_found: `experience #${id} not found (deleted or invalid id)`,
+      before_valid_from: `valid_to is earlier than the date #${id} became valid`,
+      self_supersede: "an experience cannot supersede itself",
+      successor_not_found: `superseding experience #${superseded_by} not found`,
+    };
+    const text = !result.ok
+      ? `Error: ${errors[result.reason]}.`
+      : !result.changed
+        ? `Experience #${id} was already no longer valid (since ${result.validTo}).`
+        : `Experience #${id} is no longer valid since ${result.validTo} UTC${superseded_by !== undefined ? ` (superseded by #${superseded_by})` : ""}. Query with as_of to see it.`;
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+server.registerTool(
+  "revalidate_experience",
+  {
+    description: "Undo invalidate_experience: the experience counts as true again and is retrieved normally.",
+    inputSchema: {
+      id: z.number().describe("Experience id"),
+    },
+  },
+  async ({ id }) => {
+    const result = reopenExperienceValidity(id);
+    if (result.ok && result.changed) checkpoint();
+
+    const text = !result.ok
+      ? `Error: experience #${id} not found (deleted or invalid id).`
+      : result.changed
+        ? `Experience #${id} is valid again.`
+        : `Experience #${id} was already valid.`;
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 22: resolve_conflict (contradicting preferences)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "resolve_conflict",
+  {
+    description:
+      "Settle two contradicting preferences listed under 'Conflicting preferences' in memory_stats: the dropped one is invalidated with superseded_by set to the kept one's key (reversible, recorded in its history). Ask the user which value is right when unsure.",
+    inputSchema: {
+      keep: z.number().describe("Id of the preference that stays (pref #id)"),
+      drop: z.number().describe("Id of the preference to invalidate"),
+    },
+  },
+  async ({ keep, drop }) => {
+    const result = resolveConflict(keep, drop);
+    if (result.ok) checkpoint();
+
+    const errors = {
+      same_preference: "keep and drop are the same preference",
+      not_found: `preference #${keep} or #${drop} not found or already invalidated`,
+    };
+    const text = result.ok
+      ? `Preference '${result.drop.key}' [${result.drop.scope}] invalidated, superseded by '${result.keep.key}' [${result.keep.scope}] = "${result.keep.value}". Undo with restore_preference key='${result.drop.key}' scope='${result.drop.scope}'.`
+      : `Error: ${errors[result.reason]}.`;
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 23-24: list_invalidated_preferences / restore_preference
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "list_invalidated_preferences",
+  {
+    description:
+      "List invalidated preferences with what invalidated them (user via forget_memory, consolidation dedupe, resolve_conflict, expiry, project merge) and the chain of preferences that superseded them. Use it to review consolidation and undo mistakes with restore_preference.",
+    inputSchema: {
+      scope: z.string().optional().describe("Only this scope (same forms as learn_preference)"),
+      key: z.string().optional().describe("Only this preference key"),
+      cause: z.enum(INVALIDATION_CAUSES).optional().describe("Only invalidations with this cause"),
+      limit: z.number().optional().describe(`Maximum preferences listed (default: ${INVALIDATED_DEFAULT_LIMIT})`),
+    },
+  },
+  async ({ scope, key, cause, limit }) => {
+    const effectiveScope = scope ? (normalizeScopeParam(scope, resolveProjectParam) ?? scope) : undefined;
+    const listing = listInvalidatedPreferences({ scope: effectiveScope, key, cause }, limit ?? INVALIDATED_DEFAULT_LIMIT);
+    return {
+      content: [{ type: "text" as const, text: formatInvalidatedPreferences(listing) }],
+    };
+  }
+);
+
+server.registerTool(
+  "restore_preference",
+  {
+    description:
+      "Undo the invalidation of a preference (forget_memory, consolidate, resolve_conflict or expiry): it becomes active again with its value and confidence unchanged. Unlike re-learning it, confidence is not bumped.",
+    inputSchema: {
+      key: z.string().describe("Preference key"),
+      scope: z.string().optional().describe("Scope of the preference (default: 'global'; same forms as learn_preference)"),
+    },
+  },
+  async ({ key, scope }) => {
+    const effectiveScope = scope ? (normalizeScopeParam(scope, resolveProjectParam) ?? scope) : "global";
+    const pref = getPreference.get({ key, scope: effectiveScope }) as any;
+    const restored = !!pref?.invalidated_at && restorePreference(key, effectiveScope);
+    if (restored) checkpoint();
+
+    const text = !pref
+      ? `Error: preference '${key}' not found in scope '${effectiveScope}'.`
+      : !restored
+        ? `Preference '${key}' [${effectiveScope}] is already active.`
+        : `Preference '${key}' [${effectiveScope}] restored: "${pref.value}" (confidence ${pref.confidence}).${pref.expires_at && pref.expires_at <= toSqliteDatetime(new Date()) ? ` It is past its expires_at (${pref.expires_at} UTC), so it stays hidden until re-learned.` : ""}`;
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
+// ════════════════════════════════════════════════════════
+// TOOL 25: contradict_preference (negative reinforcement)
+// ════════════════════════════════════════════════════════
+
+server.registerTool(
+  "contradict_preference",
+  {
+    description:
+      "Weaken a preference the user partly disagreed with (e.g. 'not always, only in tests'): lowers its confidence, records the counter-example (shown by get_preferences key=...) and counts against it in effective confidence. Use forget_memory instead when the preference is simply wrong.",
+    inputSchema: {
+      key: z.string().describe("Preference key"),
+      scope: z.string().optional().describe("Scope of the preference (default: 'global'; same forms as learn_preference)"),
+      counter_example: z.string().describe("What contradicted it (e.g. 'only in tests, not in app code')"),
+      source: z.string().optional().describe("Where it came from (e.g. 'user said so')"),
+    },
+  },
+  async ({ key, scope, counter_example, source }) => {
+    const effectiveScope = scope ? (normalizeScopeParam(scope, resolveProjectParam) ?? scope) : "global";
+    const redacted: RedactionCounts = {};
+    const note = redactSecrets(normalizeTextPaths(counter_example), redacted);
+    const result = contradictPreference({
+      key,
+      scope: effectiveScope,
+      note,
+      source: source ? redactSecrets(normalizeTextPaths(source), redacted) : undefined,
+    });
+    if (result.ok) checkpoint();
+
+    const errors = {
+      not_found: `preference '${key}' not found in scope '${effectiveScope}'`,
+      invalidated: `preference '${key}' [${effectiveScope}] is invalidated (restore_preference first)`,
+    };
+    const text = result.ok
+      ? `Preference '${key}' [${effectiveScope}] weakened: confidence ${result.confidenceBefore} -> ${result.confidence}, contradicted ${result.contradictionCount}x. Counter-example recorded.${formatRedactionNote(redacted)}`
+      : `Error: ${errors[result.reason]}.`;
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  }
+);
+
 // ── Start the server ────────────────────────────────────
 
 async function main() {
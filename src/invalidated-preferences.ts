@@ -0,0 +1,204 @@
+/**
+ * invalidated-preferences.ts - Reviewing and restoring invalidated preferences.
+ *
+ * Invalidation never deletes a preference (invalidated_at +
+ * superseded_by), but until now the only way back was re-learning the
+ * value, which also bumps its confidence. This is the preference
+ * counterpart of trash.ts: list_invalidated_preferences shows what was
+ * invalidated, by what and in favour of which preference, and
+ * restore_preference undoes one invalidation exactly.
+ *
+ * The cause comes from the preference history (preference-revisions.ts):
+ * the revision recorded when the preference was invalidated says whether
+ * it was the user (forget_memory), consolidate's near-duplicate dedupe,
+ * resolve_conflict, expiry or a project merge. Preferences invalidated before the history
+ * existed (migration 12) have cause "unknown".
+ *
+ * superseded_by stores a key, not an id. The chain follows it to the
+ * preference with that key, preferring the same scope, then global, then
+ * any other scope, until an active preference, a missing key or a loop.
+ * A row never supersedes itself: a project merge leaves the loser under the
+ * old scope with the same key as its winner.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import type { PreferenceChange } from "./preference-revisions.js";
+
+/** Default max rows listed by list_invalidated_preferences. */
+export const INVALIDATED_DEFAULT_LIMIT = 20;
+
+/** Longest superseded_by chain followed. */
+const MAX_CHAIN_LENGTH = 10;
+
+export const INVALIDATION_CAUSES = ["user", "consolidation", "conflict", "expiry", "project_merge", "unknown"] as const;
+export type InvalidationCause = (typeof INVALIDATION_CAUSES)[number];
+
+const CAUSE_BY_CHANGE: Partial<Record<PreferenceChange, InvalidationCause>> = {
+  invalidate: "user",
+  consolidate: "consolidation",
+  conflict: "conflict",
+  expire: "expiry",
+  project_merge: "project_merge",
+};
+
+const CAUSE_LABELS: Record<InvalidationCause, string> = {
+  user: "user (forget_memory)",
+  consolidation: "consolidation (near-duplicate dedupe)",
+  conflict: "resolve_conflict",
+  expiry: "expiry (expires_at passed)",
+  project_merge: "project merge (rename_project)",
+  unknown: "unknown (before preference history)",
+};
+
+/** The SQL `change` values that invalidate a preference. */
+const INVALIDATING_CHANGES = Object.keys(CAUSE_BY_CHANGE);
+
+export interface InvalidatedPreferenceFilter {
+  scope?: string;
+  key?: string;
+  cause?: InvalidationCause;
+}
+
+export interface SupersedingLink {
+  id: number;
+  key: string;
+  scope: string;
+  active: boolean;
+}
+
+export interface InvalidatedPreference {
+  id: number;
+  key: string;
+  value: string;
+  scope: string;
+  confidence: number;
+  invalidated_at: string;
+  superseded_by: string | null;
+  cause: InvalidationCause;
+  /** Preferences reached by following superseded_by, nearest first. */
+  chain: SupersedingLink[];
+  /** True when the chain stopped at a loop. */
+  chainLoops: boolean;
+}
+
+interface InvalidatedRow {
+  id: number;
+  key: string;
+  value: string;
+  scope: string;
+  confidence: number;
+  invalidated_at: string;
+  superseded_by: string | null;
+  change: PreferenceChange | null;
+}
+
+/**
+ * Change recorded by the revision that invalidated the preference: the
+ * latest invalidating revision (a restore and re-invalidation records a
+ * newer one).
+ */
+const CHANGE_SQL = `(SELECT r.change FROM preference_revisions r
+  WHERE r.preference_id = p.id AND r.change IN (SELECT value FROM json_each(@changes))
+  ORDER BY r.revision DESC LIMIT 1)`;
+
+function causeOf(change: PreferenceChange | null): InvalidationCause {
+  return (change && CAUSE_BY_CHANGE[change]) ?? "unknown";
+}
+
+/** Follow superseded_by from a preference (see the module comment). */
+export function followSupersededBy(
+  db: BetterSqlite3.Database,
+  start: { id: number; scope: string; superseded_by: string | null }
+): { chain: SupersedingLink[]; loops: boolean } {
+  const next = db.prepare(
+    `SELECT id, key, scope, invalidated_at, superseded_by FROM preferences WHERE key = @key AND id != @id
+     ORDER BY scope = @scope DESC, scope = 'global' DESC, id ASC LIMIT 1`
+  );
+  const chain: SupersedingLink[] = [];
+  const seen = new Set([start.id]);
+  let current = start;
+  while (current.superseded_by && chain.length < MAX_CHAIN_LENGTH) {
+    const row = next.get({ key: current.superseded_by, scope: current.scope, id: current.id }) as
+      | { id: number; key: string; scope: string; invalidated_at: string | null; superseded_by: string | null }
+      | undefined;
+    if (!row) break;
+    if (seen.has(row.id)) return { chain, loops: true };
+    seen.add(row.id);
+    chain.push({ id: row.id, key: row.key, scope: row.scope, active: row.invalidated_at === null });
+    if (row.invalidated_at === null) break;
+    current = row;
+  }
+  return { chain, loops: false };
+}
+
+/**
+ * Invalidated preferences matching the filter (most recently invalidated
+ * first) with their cause and superseded_by chain, plus the total count.
+ */
+export function listInvalidatedPreferences(
+  db: BetterSqlite3.Database,
+  filter: InvalidatedPreferenceFilter = {},
+  limit: number = INVALIDATED_DEFAULT_LIMIT
+): { items: InvalidatedPreference[]; total: number } {
+  const clauses = ["p.invalidated_at IS NOT NULL"];
+  const params: Record<string, unknown> = { changes: JSON.stringify(INVALIDATING_CHANGES) };
+  if (filter.scope) {
+    clauses.push("p.scope = @scope");
+    params.scope = filter.scope;
+  }
+  if (filter.key) {
+    clauses.push("p.key = @key");
+    params.key = filter.key;
+  }
+
+  // The cause is derived from the history, so the cause filter runs in JS
+  const rows = (
+    db
+      .prepare(
+        `SELECT p.id, p.key, p.value, p.scope, p.confidence, p.invalidated_at, p.superseded_by,
+           ${CHANGE_SQL} AS change
+         FROM preferences p WHERE ${clauses.join(" AND ")}
+         ORDER BY p.invalidated_at DESC, p.id DESC`
+      )
+      .all(params) as InvalidatedRow[]
+  ).filter((row) => !filter.cause || causeOf(row.change) === filter.cause);
+
+  const items = rows.slice(0, limit).map((row): InvalidatedPreference => {
+    const { change, ...rest } = row;
+    const { chain, loops } = followSupersededBy(db, row);
+    return { ...rest, cause: causeOf(change), chain, chainLoops: loops };
+  });
+  return { items, total: rows.length };
+}
+
+/** `'language' [global] (active)` */
+function formatLink(link: { key: string; scope: string; active: boolean }): string {
+  return `'${link.key}' [${link.scope}] (${link.active ? "active" : "invalidated"})`;
+}
+
+/** Human-readable listing (list_invalidated_preferences tool and CLI). */
+export function formatInvalidatedPreferences(listing: { items: InvalidatedPreference[]; total: number }): string {
+  if (listing.total === 0) return "No invalidated preferences for this filter.";
+
+  const lines = [`Invalidated preferences: ${listing.total} (restore one with restore_preference key=... scope=...)`];
+  for (const item of listing.items) {
+    const value = item.value.length > 120 ? `${item.value.substring(0, 120)}...` : item.value;
+    lines.push(``);
+    lines.push(`- #${item.id} '${item.key}' [${item.scope}] = "${value}" (confidence ${item.confidence})`);
+    lines.push(`  invalidated ${item.invalidated_at} by ${CAUSE_LABELS[item.cause]}`);
+    if (item.superseded_by) {
+      const chain = item.chain.map(formatLink);
+      if (item.chain.length === 0) chain.push(`'${item.superseded_by}' (not found)`);
+      if (item.chainLoops) chain.push("(loop)");
+      lines.push(`  superseded by: ${chain.join(" → ")}`);
+    }
+  }
+  if (listing.total > listing.items.length) {
+    lines.push(``);
+    lines.push(`(+${listing.total - listing.items.length} more, raise limit or narrow the filter)`);
+  }
+  return lines.join("\n");
+}
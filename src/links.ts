@@ -0,0 +1,273 @@
+/**
+ * links.ts - Typed relationships between memories (the memory graph).
+ *
+ * A link is a directed, typed edge between two memories, either of which
+ * can be an experience (corrections included) or a preference:
+ * "#41 supersedes #12", "#40 caused_by #7", "pref 3 derived_from #52".
+ * Edges live in `memory_links`, one row per (from, to, relation), with a
+ * weight in (0, 1] that says how strong the relationship is.
+ *
+ * Traversal follows edges in both directions (an incoming `supersedes` is
+ * shown as "superseded by") and skips soft-deleted experiences and
+ * invalidated preferences, so the graph only surfaces active memory. Hard
+ * deletes drop their edges through triggers (see migrations.ts).
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import type { ChannelScores, FeedbackTally } from "./scoring.js";
+import { redactSecrets } from "./redaction.js";
+
+export const LINK_RELATIONS = ["supersedes", "caused_by", "related_to", "contradicts", "derived_from"] as const;
+export type LinkRelation = (typeof LINK_RELATIONS)[number];
+
+/** How an edge reads from its target's side. */
+export const INVERSE_RELATION_LABELS: Record<LinkRelation, string> = {
+  supersedes: "superseded by",
+  caused_by: "caused",
+  related_to: "related to",
+  contradicts: "contradicted by",
+  derived_from: "source of",
+};
+
+/** Maximum hops get_memory will traverse. */
+export const MAX_LINK_HOPS = 3;
+/** Minimum weight for a neighbour to be pulled into search results. */
+export const STRONG_LINK_WEIGHT = 0.7;
+/** Maximum linked neighbours added to one search. */
+export const LINK_EXPANSION_MAX = 3;
+/** A linked neighbour scores parent score × weight × this factor. */
+export const LINK_EXPANSION_DAMPING = 0.5;
+
+export type MemoryKind = "experience" | "preference";
+
+export interface MemoryRef {
+  kind: MemoryKind;
+  id: number;
+}
+
+export interface LinkEdge {
+  relation: LinkRelation;
+  weight: number;
+  note: string | null;
+  /** "out" = neighbour is the edge's target, "in" = its source. */
+  direction: "out" | "in";
+  neighbour: MemoryRef;
+}
+
+export interface LinkedMemory extends LinkEdge {
+  depth: number;
+  /** Memory this one was reached from. */
+  via: MemoryRef;
+  /** One-line description of the neighbour. */
+  label: string;
+}
+
+export function refKey(ref: MemoryRef): string {
+  return `${ref.kind}:${ref.id}`;
+}
+
+/** "#12" for experiences, "pref #3" for preferences. */
+export function formatRef(ref: MemoryRef): string {
+  return ref.kind === "preference" ? `pref #${ref.id}` : `#${ref.id}`;
+}
+
+/** True when the memory exists and is active (not soft-deleted / invalidated). */
+export function isActiveMemory(db: BetterSqlite3.Database, ref: MemoryRef): boolean {
+  const sql =
+    ref.kind === "preference"
+      ? `SELECT 1 FROM preferences WHERE id = ? AND invalidated_at IS NULL`
+      : `SELECT 1 FROM experiences WHERE id = ? AND deleted_at IS NULL`;
+  return !!db.prepare(sql).get(ref.id);
+}
+
+function describeMemory(db: BetterSqlite3.Database, ref: MemoryRef): string {
+  if (ref.kind === "preference") {
+    const pref = db.prepare(`SELECT key, value, scope FROM preferences WHERE id = ?`).get(ref.id) as any;
+    return pref ? `${pref.key}: "${String(pref.value).substring(0, 80)}" [${pref.scope}]` : "";
+  }
+  const exp = db.prepare(`SELECT type, context, project FROM experiences WHERE id = ?`).get(ref.id) as any;
+  if (!exp) return "";
+  const context = exp.context || "";
+  return `[${exp.type}]${exp.project ? ` (${exp.project})` : ""} ${context.substring(0, 80)}${context.length > 80 ? "..." : ""}`;
+}
+
+// ── Write path ───────────────────────────────────────────
+
+export type LinkResult =
+  | { ok: true; id: number; created: boolean }
+  | { ok: false; reason: "self_link" | "not_found" | "invalid_weight" };
+
+/**
+ * Create the edge `from -relation-> to`, or update its weight/note when it
+ * already exists. Both ends must be active memories. The note is free text
+ * from the agent, so secrets are masked before it is stored (redaction.ts).
+ */
+export function linkMemories(
+  db: BetterSqlite3.Database,
+  params: { from: MemoryRef; to: MemoryRef; relation: LinkRelation; weight?: number; note?: string }
+): LinkResult {
+  const weight = params.weight ?? 1.0;
+  const note = params.note === undefined ? null : redactSecrets(params.note);
+  if (!(weight > 0 && weight <= 1)) return { ok: false, reason: "invalid_weight" };
+  if (refKey(params.from) === refKey(params.to)) return { ok: false, reason: "self_link" };
+  if (!isActiveMemory(db, params.from) || !isActiveMemory(db, params.to)) return { ok: false, reason: "not_found" };
+
+  const keys = {
+    from_type: params.from.kind,
+    from_id: params.from.id,
+    to_type: params.to.kind,
+    to_id: params.to.id,
+    relation: params.relation,
+  };
+  const existing = db
+    .prepare(
+      `SELECT id FROM memory_links
+       WHERE from_type = @from_type AND from_id = @from_id AND to_type = @to_type AND to_id = @to_id
+         AND relation = @relation`
+    )
+    .get(keys) as { id: number } | undefined;
+
+  if (existing) {
+    db.prepare(`UPDATE memory_links SET weight = @weight, note = COALESCE(@note, note) WHERE id = @id`).run({
+      id: existing.id,
+      weight,
+      note,
+    });
+    return { ok: true, id: existing.id, created: false };
+  }
+
+  const info = db
+    .prepare(
+      `INSERT INTO memory_links (from_type, from_id, to_type, to_id, relation, weight, note)
+       VALUES (@from_type, @from_id, @to_type, @to_id, @relation, @weight, @note)`
+    )
+    .run({ ...keys, weight, note });
+  return { ok: true, id: Number(info.lastInsertRowid), created: true };
+}
+
+/** Remove the edges from `from` to `to` (only `relation` when given). Returns the count removed. */
+export function unlinkMemories(
+  db: BetterSqlite3.Database,
+  params: { from: MemoryRef; to: MemoryRef; relation?: LinkRelation }
+): number {
+  return db
+    .prepare(
+      `DELETE FROM memory_links
+       WHERE from_type = @from_type AND from_id = @from_id AND to_type = @to_type AND to_id = @to_id
+         AND (@relation IS NULL OR relation = @relation)`
+    )
+    .run({
+      from_type: params.from.kind,
+      from_id: params.from.id,
+      to_type: params.to.kind,
+      to_id: params.to.id,
+      relation: params.relation ?? null,
+    }).changes;
+}
+
+// ── Traversal ────────────────────────────────────────────
+
+/** Active direct neighbours of a memory (both directions), strongest first. */
+export function getNeighbours(db: BetterSqlite3.Database, ref: MemoryRef, minWeight = 0): LinkEdge[] {
+  const rows = db
+    .prepare(
+      `SELECT relation, weight, note, 'out' AS direction, to_type AS kind, to_id AS id
+       FROM memory_links WHERE from_type = @kind AND from_id = @id AND weight >= @min
+       UNION ALL
+       SELECT relation, weight, note, 'in' AS direction, from_type AS kind, from_id AS id
+       FROM memory_links WHERE to_type = @kind AND to_id = @id AND weight >= @min
+       ORDER BY weight DESC`
+    )
+    .all({ kind: ref.kind, id: ref.id, min: minWeight }) as any[];
+
+  return rows
+    .map((r) => ({
+      relation: r.relation as LinkRelation,
+      weight: r.weight,
+      note: r.note,
+      direction: r.direction as "out" | "in",
+      neighbour: { kind: r.kind as MemoryKind, id: r.id },
+    }))
+    .filter((edge) => isActiveMemory(db, edge.neighbour));
+}
+
+/**
+ * Breadth-first walk from `start` up to `hops` (capped at MAX_LINK_HOPS).
+ * Each memory appears once, at the depth it was first reached.
+ */
+export function traverseLinks(db: BetterSqlite3.Database, start: MemoryRef, hops: number): LinkedMemory[] {
+  const maxDepth = Math.min(Math.max(Math.floor(hops), 0), MAX_LINK_HOPS);
+  const seen = new Set<string>([refKey(start)]);
+  const result: LinkedMemory[] = [];
+  let frontier: MemoryRef[] = [start];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: MemoryRef[] = [];
+    for (const node of frontier) {
+      for (const edge of getNeighbours(db, node)) {
+        const key = refKey(edge.neighbour);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push({ ...edge, depth, via: node, label: describeMemory(db, edge.neighbour) });
+        next.push(edge.neighbour);
+      }
+    }
+    frontier = next;
+  }
+  return result;
+}
+
+export interface ScoredMemory {
+  id: number;
+  score: number;
+  source: MemoryKind;
+  /** Set on results pulled in through a link rather than matched directly. */
+  linkedFrom?: { id: number; source: MemoryKind; relation: string };
+  /** rate_memory votes, when the memory has any (feedback.ts). */
+  feedback?: FeedbackTally;
+  /** Cross-encoder relevance in [0, 1], when the result was reranked (rerank.ts). */
+  rerankScore?: number;
+  /** Per-channel scores before fusion, on direct matches (hybridSearch). */
+  channels?: ChannelScores;
+}
+
+/**
+ * Append strongly linked neighbours (weight >= minWeight) of `results` that
+ * are not already in them, at most LINK_EXPANSION_MAX, scored from the
+ * result they hang off. Used by hybridSearch when expansion is requested.
+ */
+export function expandWithLinks(
+  db: BetterSqlite3.Database,
+  results: ScoredMemory[],
+  options: { minWeight?: number; max?: number } = {}
+): ScoredMemory[] {
+  const minWeight = options.minWeight ?? STRONG_LINK_WEIGHT;
+  const max = options.max ?? LINK_EXPANSION_MAX;
+  const present = new Set(results.map((r) => refKey({ kind: r.source, id: r.id })));
+  const added: ScoredMemory[] = [];
+
+  for (const result of results) {
+    for (const edge of getNeighbours(db, { kind: result.source, id: result.id }, minWeight)) {
+      const key = refKey(edge.neighbour);
+      if (present.has(key)) continue;
+      present.add(key);
+      added.push({
+        id: edge.neighbour.id,
+        source: edge.neighbour.kind,
+        score: result.score * edge.weight * LINK_EXPANSION_DAMPING,
+        // Read from the neighbour's side: "<neighbour> <relation> <result>"
+        linkedFrom: {
+          id: result.id,
+          source: result.source,
+          relation: edge.direction === "out" ? INVERSE_RELATION_LABELS[edge.relation] : edge.relation,
+        },
+      });
+    }
+  }
+
+  added.sort((a, b) => b.score - a.score);
+  return [...results, ...added.slice(0, max)];
+}
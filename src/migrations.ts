@@ -0,0 +1,638 @@
+/**
+ * migrations.ts - Versioned schema migrations for the memory database.
+ *
+ * The schema is described by an ordered list of numbered migrations. Each
+ * applied migration is recorded in `schema_version` (one row per version),
+ * and every migration runs inside its own transaction together with that
+ * bookkeeping row, so a crash or an error leaves the database either fully
+ * at version N or fully at version N+1 — never half-migrated.
+ *
+ * Migration 1 is the baseline: it brings any pre-versioning layout (the old
+ * ad-hoc "Phase 1/2/3/6" and "Retrieval v3" checks) up to the v3.0.0 schema
+ * and is idempotent, so legacy databases and fresh ones converge on the same
+ * starting point. Later migrations are plain forward steps.
+ *
+ * A database whose version is newer than the latest migration known to this
+ * build is refused (SchemaVersionError) instead of being opened: older
+ * builds must not write to a schema they do not understand.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases; production runs them from initDatabase() in
+ * database.ts, and the CLI `migrate` command runs them on demand.
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ensureTelemetryTable } from "./telemetry.js";
+import { parseTags, formatTags } from "./tags.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/** Location of the production database (data/memory.db). */
+export const DEFAULT_DB_PATH = path.join(__dirname, "..", "data", "memory.db");
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: BetterSqlite3.Database) => void;
+}
+
+/** Raised when the database schema is newer than this build understands. */
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly databaseVersion: number,
+    public readonly supportedVersion: number
+  ) {
+    super(
+      `Database schema version ${databaseVersion} is newer than this build supports ` +
+        `(${supportedVersion}). Upgrade agent-memory-protocol before opening it.`
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────
+
+/** Column names of a table ([] when the table does not exist). */
+export function columnNames(db: BetterSqlite3.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+function tableExists(db: BetterSqlite3.Database, name: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM sqlite_master WHERE name = ?`).get(name);
+}
+
+/**
+ * Add each missing column. Definitions must have a constant default:
+ * SQLite rejects ALTER TABLE ADD COLUMN with an expression default.
+ */
+function addMissingColumns(db: BetterSqlite3.Database, table: string, columns: [string, string][]): void {
+  const existing = new Set(columnNames(db, table));
+  for (const [name, definition] of columns) {
+    if (!existing.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+}
+
+// ── Migration 1: baseline (v3.0.0 schema) ───────────────
+
+const PREFERENCES_TABLE_SQL = `
+  CREATE TABLE preferences (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    key         TEXT NOT NULL,
+    value       TEXT NOT NULL,
+    confidence  REAL DEFAULT 0.3,
+    source      TEXT DEFAULT '',
+    scope       TEXT DEFAULT 'global',
+    updated_at  TEXT DEFAULT (datetime('now')),
+    -- Phase 6: Temporal decay
+    confirmed_count   INTEGER DEFAULT 1,
+    last_confirmed_at TEXT DEFAULT (datetime('now')),
+    -- Retrieval v3: reversible invalidation
+    invalidated_at    TEXT DEFAULT NULL,
+    superseded_by     TEXT DEFAULT NULL,
+    UNIQUE(key, scope)
+  )
+`;
+
+/**
+ * Rebuild a pre-scope preferences table into the scoped layout. Every
+ * column present in the old table is carried over (nothing is dropped);
+ * rows without a scope become global.
+ */
+function rebuildUnscopedPreferences(db: BetterSqlite3.Database, oldColumns: string[]): void {
+  db.exec(PREFERENCES_TABLE_SQL.replace("CREATE TABLE preferences", "CREATE TABLE preferences_new"));
+  const kept = columnNames(db, "preferences_new").filter((c) => c !== "scope" && oldColumns.includes(c));
+  const list = kept.join(", ");
+  db.exec(`
+    INSERT INTO preferences_new (${list}, scope)
+      SELECT ${list}, 'global' FROM preferences;
+    DROP TABLE preferences;
+    ALTER TABLE preferences_new RENAME TO preferences;
+  `);
+}
+
+function baseline(db: BetterSqlite3.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS experiences (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      type        TEXT NOT NULL,       -- 'experience' | 'correction' | 'insight'
+      context     TEXT,                -- what was happening
+      action      TEXT,                -- what was done
+      result      TEXT,                -- what happened
+      success     INTEGER DEFAULT 1,   -- 1 = success, 0 = failure
+      tags        TEXT DEFAULT '',     -- comma-separated tags
+      project     TEXT DEFAULT '',     -- related project
+      created_at  TEXT DEFAULT (datetime('now')),
+      -- Phase 1: Soft Delete
+      deleted_at  TEXT DEFAULT NULL,
+      -- Phase 2: Deduplication
+      normalized_hash  TEXT,
+      duplicate_count  INTEGER DEFAULT 1,
+      last_seen_at     TEXT,
+      -- Phase 3: Topic Upserts
+      topic_key       TEXT,
+      revision_count  INTEGER DEFAULT 1
+    );
+
+    CREATE TABLE IF NOT EXISTS patterns (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      description TEXT NOT NULL,
+      category    TEXT DEFAULT '',      -- 'error', 'success', 'workflow', etc.
+      frequency   INTEGER DEFAULT 1,
+      examples    TEXT DEFAULT '[]',    -- JSON array of examples
+      last_seen   TEXT DEFAULT (datetime('now'))
+    );
+  `);
+
+  // Legacy experiences tables predating Phase 1/2/3
+  addMissingColumns(db, "experiences", [
+    ["deleted_at", "TEXT DEFAULT NULL"],
+    ["normalized_hash", "TEXT"],
+    ["duplicate_count", "INTEGER DEFAULT 1"],
+    ["last_seen_at", "TEXT"],
+    ["topic_key", "TEXT"],
+    ["revision_count", "INTEGER DEFAULT 1"],
+  ]);
+
+  // Preferences: create, rebuild a pre-scope table, or add Phase 6 / v3 columns
+  const prefColumns = columnNames(db, "preferences");
+  const hadLastConfirmed = prefColumns.includes("last_confirmed_at");
+  if (prefColumns.length === 0) {
+    db.exec(PREFERENCES_TABLE_SQL);
+  } else if (!prefColumns.includes("scope")) {
+    rebuildUnscopedPreferences(db, prefColumns);
+  }
+  addMissingColumns(db, "preferences", [
+    ["confirmed_count", "INTEGER DEFAULT 1"],
+    ["last_confirmed_at", "TEXT"],
+    ["invalidated_at", "TEXT DEFAULT NULL"],
+    ["superseded_by", "TEXT DEFAULT NULL"],
+  ]);
+  if (prefColumns.length > 0 && !hadLastConfirmed) {
+    // Legacy rows were never confirmed: their last update is the best date
+    db.exec(`UPDATE preferences SET last_confirmed_at = COALESCE(updated_at, datetime('now'))`);
+  }
+
+  // Retrieval v3: output-size telemetry (see telemetry.ts)
+  ensureTelemetryTable(db);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_experiences_deleted_at ON experiences(deleted_at);
+    CREATE INDEX IF NOT EXISTS idx_experiences_normalized_hash ON experiences(normalized_hash, project, created_at);
+    CREATE INDEX IF NOT EXISTS idx_experiences_topic_key ON experiences(topic_key, project);
+  `);
+
+  // FTS5 external-content index over experiences, kept in sync by triggers
+  const hadFts = tableExists(db, "experiences_fts");
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS experiences_fts USING fts5(
+      context, action, result, tags,
+      content=experiences,
+      content_rowid=id
+    );
+
+    CREATE TRIGGER IF NOT EXISTS experiences_ai AFTER INSERT ON experiences BEGIN
+      INSERT INTO experiences_fts(rowid, context, action, result, tags)
+      VALUES (new.id, new.context, new.action, new.result, new.tags);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS experiences_ad AFTER DELETE ON experiences BEGIN
+      INSERT INTO experiences_fts(experiences_fts, rowid, context, action, result, tags)
+      VALUES ('delete', old.id, old.context, old.action, old.result, old.tags);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS experiences_au AFTER UPDATE ON experiences BEGIN
+      INSERT INTO experiences_fts(experiences_fts, rowid, context, action, result, tags)
+      VALUES ('delete', old.id, old.context, old.action, old.result, old.tags);
+      INSERT INTO experiences_fts(rowid, context, action, result, tags)
+      VALUES (new.id, new.context, new.action, new.result, new.tags);
+    END;
+  `);
+  if (!hadFts) {
+    // Index rows written before the FTS table existed
+    db.exec(`INSERT INTO experiences_fts(experiences_fts) VALUES('rebuild')`);
+  }
+}
+
+// ── Migration 2: topic revision history ─────────────────
+
+function experienceRevisions(db: BetterSqlite3.Database): void {
+  db.exec(`
+    -- Snapshot of an experience's content taken right before a topic_key
+    -- upsert (or rollback) overwrites it. revision = the revision_count the
+    -- row had while it held this content; the live row is always the latest.
+    CREATE TABLE experience_revisions (
+      id              INTEGER PRIMARY KEY AUTOINCREMENT,
+      experience_id   INTEGER NOT NULL,
+      revision        INTEGER NOT NULL,
+      context         TEXT,
+      action          TEXT,
+      result          TEXT,
+      success         INTEGER,
+      tags            TEXT,
+      normalized_hash TEXT,
+      replaced_at     TEXT DEFAULT (datetime('now')),
+      UNIQUE(experience_id, revision)
+    );
+  `);
+}
+
+// ── Migration 3: deletion batches for the trash ─────────
+
+function deletionBatches(db: BetterSqlite3.Database): void {
+  // Every soft-delete operation stamps the rows it hides with one batch id,
+  // so a whole forget/prune call can be listed and restored as a unit.
+  addMissingColumns(db, "experiences", [["deleted_batch", "TEXT DEFAULT NULL"]]);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_experiences_deleted_batch ON experiences(deleted_batch)`);
+}
+
+// ── Migration 4: normalized tags ────────────────────────
+
+function normalizedTags(db: BetterSqlite3.Database): void {
+  db.exec(`
+    CREATE TABLE tags (
+      id   INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE
+    );
+
+    CREATE TABLE experience_tags (
+      experience_id INTEGER NOT NULL,
+      tag_id        INTEGER NOT NULL,
+      PRIMARY KEY (experience_id, tag_id)
+    );
+    CREATE INDEX idx_experience_tags_tag ON experience_tags(tag_id);
+
+    -- Hard deletes (consolidate purge) drop the links with the row
+    CREATE TRIGGER experience_tags_ad AFTER DELETE ON experiences BEGIN
+      DELETE FROM experience_tags WHERE experience_id = old.id;
+    END;
+  `);
+
+  // Backfill from the comma-separated strings, rewriting them to the
+  // canonical form (the FTS update trigger re-indexes changed rows).
+  const rows = db.prepare(`SELECT id, tags FROM experiences WHERE tags IS NOT NULL AND tags != ''`).all() as {
+    id: number;
+    tags: string;
+  }[];
+  const insertTag = db.prepare(`INSERT OR IGNORE INTO tags (name) VALUES (?)`);
+  const link = db.prepare(
+    `INSERT OR IGNORE INTO experience_tags (experience_id, tag_id) SELECT ?, id FROM tags WHERE name = ?`
+  );
+  const rewrite = db.prepare(`UPDATE experiences SET tags = ? WHERE id = ?`);
+  for (const row of rows) {
+    const names = parseTags(row.tags);
+    for (const name of names) {
+      insertTag.run(name);
+      link.run(row.id, name);
+    }
+    if (formatTags(names) !== row.tags) rewrite.run(formatTags(names), row.id);
+  }
+}
+
+// ── Migration 5: memory graph ───────────────────────────
+
+function memoryLinks(db: BetterSqlite3.Database): void {
+  db.exec(`
+    -- Typed, directed edge between two memories (see links.ts)
+    CREATE TABLE memory_links (
+      id         INTEGER PRIMARY KEY AUTOINCREMENT,
+      from_type  TEXT NOT NULL CHECK(from_type IN ('experience', 'preference')),
+      from_id    INTEGER NOT NULL,
+      to_type    TEXT NOT NULL CHECK(to_type IN ('experience', 'preference')),
+      to_id      INTEGER NOT NULL,
+      relation   TEXT NOT NULL
+                 CHECK(relation IN ('supersedes', 'caused_by', 'related_to', 'contradicts', 'derived_from')),
+      weight     REAL NOT NULL DEFAULT 1.0,
+      note       TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(from_type, from_id, to_type, to_id, relation)
+    );
+    CREATE INDEX idx_memory_links_to ON memory_links(to_type, to_id);
+
+    -- Hard deletes (consolidate purge, prune_memory) drop their edges
+    CREATE TRIGGER memory_links_experience_ad AFTER DELETE ON experiences BEGIN
+      DELETE FROM memory_links
+      WHERE (from_type = 'experience' AND from_id = old.id) OR (to_type = 'experience' AND to_id = old.id);
+    END;
+    CREATE TRIGGER memory_links_preference_ad AFTER DELETE ON preferences BEGIN
+      DELETE FROM memory_links
+      WHERE (from_type = 'preference' AND from_id = old.id) OR (to_type = 'preference' AND to_id = old.id);
+    END;
+  `);
+}
+
+// ── Migration 6: project registry ───────────────────────
+
+function projectRegistry(db: BetterSqlite3.Database): void {
+  db.exec(`
+    -- Canonical projects (see projects.ts). name is the value stored in
+    -- experiences.project / preferences.scope.
+    CREATE TABLE projects (
+      id           INTEGER PRIMARY KEY AUTOINCREMENT,
+      name         TEXT NOT NULL UNIQUE,
+      remote_url   TEXT UNIQUE,          -- normalized git remote (host/owner/repo)
+      root_path    TEXT,                 -- repository root, sandbox-normalized
+      created_at   TEXT DEFAULT (datetime('now')),
+      last_seen_at TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX idx_projects_root ON projects(root_path);
+
+    -- Every name a project answers to, its canonical name included
+    CREATE TABLE project_aliases (
+      alias      TEXT PRIMARY KEY,
+      project_id INTEGER NOT NULL
+    );
+
+    -- Existing project names become projects without a fingerprint; the
+    -- first checkout resolving to that name claims them.
+    INSERT INTO projects (name)
+      SELECT project FROM experiences WHERE project != ''
+      UNION
+      SELECT scope FROM preferences WHERE scope != 'global';
+    INSERT INTO project_aliases (alias, project_id) SELECT name, id FROM projects;
+  `);
+}
+
+// ── Migration 7: retrieval access tracking ──────────────
+
+function accessTracking(db: BetterSqlite3.Database): void {
+  // Bumped whenever a memory is returned by query_memory, injected by the
+  // on_prompt hook or opened with get_memory (see access.ts).
+  for (const table of ["experiences", "preferences"]) {
+    addMissingColumns(db, table, [
+      ["access_count", "INTEGER NOT NULL DEFAULT 0"],
+      ["last_accessed_at", "TEXT DEFAULT NULL"],
+    ]);
+  }
+}
+
+// ── Migration 8: memory feedback ────────────────────────
+
+function memoryFeedback(db: BetterSqlite3.Database): void {
+  db.exec(`
+    -- One helpful (+1) / unhelpful (-1) vote on a memory (see feedback.ts)
+    CREATE TABLE memory_feedback (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      memory_type TEXT NOT NULL CHECK(memory_type IN ('experience', 'preference')),
+      memory_id   INTEGER NOT NULL,
+      rating      INTEGER NOT NULL CHECK(rating IN (1, -1)),
+      session_id  TEXT,
+      query       TEXT,
+      note        TEXT,
+      created_at  TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX idx_memory_feedback_memory ON memory_feedback(memory_type, memory_id);
+
+    -- Hard deletes drop their votes
+    CREATE TRIGGER memory_feedback_experience_ad AFTER DELETE ON experiences BEGIN
+      DELETE FROM memory_feedback WHERE memory_type = 'experience' AND memory_id = old.id;
+    END;
+    CREATE TRIGGER memory_feedback_preference_ad AFTER DELETE ON preferences BEGIN
+      DELETE FROM memory_feedback WHERE memory_type = 'preference' AND memory_id = old.id;
+    END;
+  `);
+}
+
+// ── Migration 9: pinned experiences ─────────────────────
+
+function pinnedExperiences(db: BetterSqlite3.Database): void {
+  // NULL = not pinned; otherwise when it was pinned (see pins.ts)
+  addMissingColumns(db, "experiences", [["pinned_at", "TEXT DEFAULT NULL"]]);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_experiences_pinned ON experiences(pinned_at) WHERE pinned_at IS NOT NULL`);
+}
+
+// ── Migration 10: expiring memories ─────────────────────
+
+function expiringMemories(db: BetterSqlite3.Database): void {
+  // NULL = never expires; otherwise a UTC datetime('now')-style timestamp
+  // after which the row is hidden from automatic paths (see expiry.ts)
+  for (const table of ["experiences", "preferences"]) {
+    addMissingColumns(db, table, [["expires_at", "TEXT DEFAULT NULL"]]);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_expires ON ${table}(expires_at) WHERE expires_at IS NOT NULL`);
+  }
+}
+
+// ── Migration 11: experience validity ───────────────────
+
+function experienceValidity(db: BetterSqlite3.Database): void {
+  // Valid time, next to the recording time in created_at/deleted_at:
+  // valid_from = since when the fact holds, valid_to = when it stopped
+  // being true (NULL = still true). See validity.ts.
+  addMissingColumns(db, "experiences", [
+    ["valid_from", "TEXT DEFAULT NULL"],
+    ["valid_to", "TEXT DEFAULT NULL"],
+  ]);
+  db.exec(`UPDATE experiences SET valid_from = created_at WHERE valid_from IS NULL`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_experiences_valid_to ON experiences(valid_to) WHERE valid_to IS NOT NULL`);
+}
+
+// ── Migration 12: preference revisions ──────────────────
+
+function preferenceRevisions(db: BetterSqlite3.Database): void {
+  addMissingColumns(db, "preferences", [["revision_count", "INTEGER NOT NULL DEFAULT 1"]]);
+  db.exec(`
+    -- Earlier states of a preference, one row per replaced revision, tagged
+    -- with the change that replaced it (see preference-revisions.ts)
+    CREATE TABLE preference_revisions (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      preference_id  INTEGER NOT NULL,
+      revision       INTEGER NOT NULL,
+      value          TEXT,
+      confidence     REAL,
+      source         TEXT,
+      invalidated_at TEXT,
+      superseded_by  TEXT,
+      change         TEXT NOT NULL,
+      replaced_at    TEXT DEFAULT (datetime('now')),
+      UNIQUE(preference_id, revision)
+    );
+
+    -- Hard deletes drop their history
+    CREATE TRIGGER preference_revisions_ad AFTER DELETE ON preferences BEGIN
+      DELETE FROM preference_revisions WHERE preference_id = old.id;
+    END;
+  `);
+}
+
+// ── Migration 13: preference contradictions ─────────────
+
+function preferenceContradictions(db: BetterSqlite3.Database): void {
+  addMissingColumns(db, "preferences", [
+    ["contradiction_count", "INTEGER NOT NULL DEFAULT 0"],
+    ["last_contradicted_at", "TEXT DEFAULT NULL"],
+  ]);
+  db.exec(`
+    -- Counter-examples recorded by contradict_preference (see contradictions.ts)
+    CREATE TABLE preference_contradictions (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      preference_id  INTEGER NOT NULL,
+      note           TEXT NOT NULL,
+      source         TEXT,
+      created_at     TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX idx_preference_contradictions_pref ON preference_contradictions(preference_id);
+
+    CREATE TRIGGER preference_contradictions_ad AFTER DELETE ON preferences BEGIN
+      DELETE FROM preference_contradictions WHERE preference_id = old.id;
+    END;
+  `);
+}
+
+// ── Migration 14: channel scores on feedback ────────────
+
+function feedbackChannelScores(db: BetterSqlite3.Database): void {
+  // What each search channel scored the rated memory for the rating's
+  // query; the "learned" fusion strategy fits its weights to them (fusion.ts)
+  addMissingColumns(db, "memory_feedback", [
+    ["vector_score", "REAL DEFAULT NULL"],
+    ["fts_score", "REAL DEFAULT NULL"],
+  ]);
+}
+
+// ── Registry ─────────────────────────────────────────────
+
+/** Every known migration, in order. Append new ones; never renumber. */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "baseline", up: baseline },
+  { version: 2, name: "experience_revisions", up: experienceRevisions },
+  { version: 3, name: "deletion_batches", up: deletionBatches },
+  { version: 4, name: "normalized_tags", up: normalizedTags },
+  { version: 5, name: "memory_links", up: memoryLinks },
+  { version: 6, name: "project_registry", up: projectRegistry },
+  { version: 7, name: "access_tracking", up: accessTracking },
+  { version: 8, name: "memory_feedback", up: memoryFeedback },
+  { version: 9, name: "pinned_experiences", up: pinnedExperiences },
+  { version: 10, name: "expiring_memories", up: expiringMemories },
+  { version: 11, name: "experience_validity", up: experienceValidity },
+  { version: 12, name: "preference_revisions", up: preferenceRevisions },
+  { version: 13, name: "preference_contradictions", up: preferenceContradictions },
+  { version: 14, name: "feedback_channel_scores", up: feedbackChannelScores },
+];
+
+/** Highest schema version this build knows how to produce. */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ── Version bookkeeping ──────────────────────────────────
+
+function ensureSchemaVersionTable(db: BetterSqlite3.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+/** Current schema version (0 for a fresh or pre-versioning database). */
+export function getSchemaVersion(db: BetterSqlite3.Database): number {
+  if (!tableExists(db, "schema_version")) return 0;
+  const row = db.prepare(`SELECT MAX(version) AS version FROM schema_version`).get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/** Throw SchemaVersionError when the database is newer than `migrations`. */
+export function assertSchemaSupported(
+  db: BetterSqlite3.Database,
+  migrations: Migration[] = MIGRATIONS
+): void {
+  const current = getSchemaVersion(db);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (current > latest) throw new SchemaVersionError(current, latest);
+}
+
+export interface MigrationStatus {
+  current: number;
+  latest: number;
+  /** Applied migrations, oldest first (from schema_version). */
+  applied: { version: number; name: string; appliedAt: string }[];
+  /** Known migrations not applied yet. */
+  pending: { version: number; name: string }[];
+  /** True when the database is newer than this build. */
+  tooNew: boolean;
+}
+
+/** Read-only summary of where the database stands (never modifies it). */
+export function getMigrationStatus(
+  db: BetterSqlite3.Database,
+  migrations: Migration[] = MIGRATIONS
+): MigrationStatus {
+  const current = getSchemaVersion(db);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  const applied = tableExists(db, "schema_version")
+    ? (
+        db
+          .prepare(`SELECT version, name, applied_at FROM schema_version ORDER BY version ASC`)
+          .all() as { version: number; name: string; applied_at: string }[]
+      ).map((r) => ({ version: r.version, name: r.name, appliedAt: r.applied_at }))
+    : [];
+  return {
+    current,
+    latest,
+    applied,
+    pending: migrations
+      .filter((m) => m.version > current)
+      .map((m) => ({ version: m.version, name: m.name })),
+    tooNew: current > latest,
+  };
+}
+
+/**
+ * Apply every pending migration in order, each in its own transaction
+ * (schema change + schema_version row commit together). A failing
+ * migration rolls back and rethrows; earlier ones stay applied. Returns
+ * the migrations that were applied in this call.
+ */
+export function runMigrations(
+  db: BetterSqlite3.Database,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  assertSchemaSupported(db, migrations);
+  ensureSchemaVersionTable(db);
+
+  const current = getSchemaVersion(db);
+  const record = db.prepare(`INSERT INTO schema_version (version, name) VALUES (@version, @name)`);
+  const applied: Migration[] = [];
+
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      migration.up(db);
+      record.run({ version: migration.version, name: migration.name });
+    })();
+    applied.push(migration);
+  }
+
+  return applied;
+}
+
+/** Human-readable migration status (CLI `migrate status`). */
+export function formatMigrationStatus(status: MigrationStatus): string {
+  const lines = [`=== Schema migrations ===`, ``];
+  lines.push(`Database version: ${status.current}`);
+  lines.push(`Latest known:     ${status.latest}`);
+
+  if (status.tooNew) {
+    lines.push(``);
+    lines.push(`The database is NEWER than this build: upgrade before using it on this machine.`);
+    return lines.join("\n");
+  }
+
+  lines.push(``);
+  lines.push(`Applied (${status.applied.length}):`);
+  for (const m of status.applied) {
+    lines.push(`  - ${m.version} ${m.name} (${m.appliedAt})`);
+  }
+  lines.push(`Pending (${status.pending.length}):`);
+  for (const m of status.pending) {
+    lines.push(`  - ${m.version} ${m.name}`);
+  }
+  if (status.pending.length > 0) {
+    lines.push(``);
+    lines.push(`Run \`migrate up\` to apply the pending migrations.`);
+  }
+  return lines.join("\n");
+}
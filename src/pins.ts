@@ -0,0 +1,61 @@
+/**
+ * pins.ts - Pinned experiences ("never forget this" facts).
+ *
+ * A pinned experience is listed at the top of every session index for its
+ * project (global ones for every project), instead of competing with
+ * whatever hybrid search returns for the project name. Pinning stamps
+ * experiences.pinned_at (migration 9); unpinning clears it.
+ *
+ * Pinned rows are also exempt from the automatic cleanups: retention
+ * policies (retention.ts) and prune_memory's age / unused filters skip
+ * them. forget_memory by id still deletes them.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import type { ExpEntry } from "./context-format.js";
+import { NOT_EXPIRED_SQL } from "./expiry.js";
+import { CURRENTLY_VALID_SQL } from "./validity.js";
+
+/** Max pinned experiences listed in one session index. */
+export const SESSION_MAX_PINNED_EXPERIENCES = 8;
+
+/** SQL condition for rows the automatic cleanups must leave alone. */
+export const NOT_PINNED_SQL = "pinned_at IS NULL";
+
+export type PinResult = { ok: true; changed: boolean } | { ok: false; reason: "not_found" };
+
+/** Pin (or unpin) an active experience. `changed` is false when it already was. */
+export function setPinned(db: BetterSqlite3.Database, id: number, pinned: boolean): PinResult {
+  const row = db.prepare(`SELECT pinned_at FROM experiences WHERE id = ? AND deleted_at IS NULL`).get(id) as
+    | { pinned_at: string | null }
+    | undefined;
+  if (!row) return { ok: false, reason: "not_found" };
+  if ((row.pinned_at !== null) === pinned) return { ok: true, changed: false };
+
+  db.prepare(`UPDATE experiences SET pinned_at = ${pinned ? "datetime('now')" : "NULL"} WHERE id = ?`).run(id);
+  return { ok: true, changed: true };
+}
+
+/**
+ * Active, unexpired, still valid pinned experiences for a project plus
+ * global ones (project ''), oldest pin first. An empty project lists only
+ * the global pins.
+ */
+export function listPinnedExperiences(
+  db: BetterSqlite3.Database,
+  project: string,
+  limit = SESSION_MAX_PINNED_EXPERIENCES
+): (ExpEntry & { project: string; pinned_at: string })[] {
+  return db
+    .prepare(
+      `SELECT id, type, context, result, project, pinned_at FROM experiences
+       WHERE pinned_at IS NOT NULL AND deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}
+         AND (project = @project OR project = '' OR project IS NULL)
+       ORDER BY pinned_at, id
+       LIMIT @limit`
+    )
+    .all({ project, limit }) as any[];
+}
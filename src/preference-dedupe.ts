@@ -15,6 +15,8 @@
  */
 
 import type BetterSqlite3 from "better-sqlite3";
+import { NOT_EXPIRED_SQL } from "./expiry.js";
+import { snapshotPreference } from "./preference-revisions.js";
 
 /** Cosine similarity above which two preferences are considered duplicates. */
 export const PREF_SIMILARITY_THRESHOLD = 0.85;
@@ -75,7 +77,7 @@ export interface SimilarPreference {
 
 /**
  * Find the most similar ACTIVE preference of the same scope, excluding the
- * candidate's own key and invalidated rows. Returns null when there is
+ * candidate's own key and invalidated or expired rows. Returns null when there is
  * nothing to compare against (no other prefs or no stored vectors).
  */
 export function findMostSimilarPreference(
@@ -85,7 +87,7 @@ export function findMostSimilarPreference(
   const candidates = db
     .prepare(
       `SELECT id, key, value, confidence FROM preferences
-       WHERE scope = @scope AND key != @excludeKey AND invalidated_at IS NULL`
+       WHERE scope = @scope AND key != @excludeKey AND invalidated_at IS NULL AND ${NOT_EXPIRED_SQL}`
     )
     .all({ scope: params.scope, excludeKey: params.excludeKey }) as {
     id: number;
@@ -111,7 +113,8 @@ export function findMostSimilarPreference(
 /**
  * Merge a candidate value into an existing preference: bump confidence with
  * the same formula the upsert uses, refresh last_confirmed_at, and replace
- * the value only when the new one is more complete (longer). Returns the
+ * the value only when the new one is more complete (longer), recording the
+ * replaced value as a preference revision. Returns the
  * surviving key/value and whether the value changed (so the caller can
  * regenerate the stored embedding).
  */
@@ -125,15 +128,18 @@ export function mergeIntoExistingPreference(
 
   const valueUpdated = params.newValue.length > existing.value.length;
 
-  db.prepare(
-    `UPDATE preferences
-     SET value = CASE WHEN length(@value) > length(value) THEN @value ELSE value END,
-         confidence = MIN(1.0, 0.3 + (confirmed_count + 1) * 0.1),
-         confirmed_count = confirmed_count + 1,
-         last_confirmed_at = datetime('now'),
-         updated_at = datetime('now')
-     WHERE id = @id`
-  ).run({ id: params.id, value: params.newValue });
+  db.transaction(() => {
+    if (valueUpdated) snapshotPreference(db, params.id, "merge");
+    db.prepare(
+      `UPDATE preferences
+       SET value = CASE WHEN length(@value) > length(value) THEN @value ELSE value END,
+           confidence = MIN(1.0, 0.3 + (confirmed_count + 1) * 0.1),
+           confirmed_count = confirmed_count + 1,
+           last_confirmed_at = datetime('now'),
+           updated_at = datetime('now')
+       WHERE id = @id`
+    ).run({ id: params.id, value: params.newValue });
+  })();
 
   return {
     key: existing.key,
@@ -160,10 +166,8 @@ export interface SimilarPreferencePair {
   loser: PreferencePairMember;
 }
 
-function pickSurvivor(
-  a: PreferencePairMember,
-  b: PreferencePairMember
-): [survivor: PreferencePairMember, loser: PreferencePairMember] {
+/** Higher confidence survives; on a tie, the more recently confirmed one. */
+export function pickSurvivor<T extends PreferencePairMember>(a: T, b: T): [survivor: T, loser: T] {
   if (a.confidence !== b.confidence) {
     return a.confidence > b.confidence ? [a, b] : [b, a];
   }
@@ -0,0 +1,162 @@
+/**
+ * preference-revisions.ts - Value history for preferences.
+ *
+ * Re-learning a preference overwrites its value, a semantic-dedupe merge
+ * can replace it with a longer one, and forget_memory / consolidate
+ * invalidate it. Before any of those changes the current state is copied
+ * into `preference_revisions` (migration 12) as revision N, tagged with the
+ * change that replaced it, and the live row moves to revision N + 1. A
+ * preference that drifted after a misheard instruction can then be traced
+ * (get_preferences key= history=true) and rolled back (rollback_preference).
+ *
+ * Confirmations that leave the value and validity untouched are not
+ * revisions, and neither is secret scrubbing: history keeps what the
+ * preference meant, not every bookkeeping update.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+
+/** What replaced a revision. */
+export type PreferenceChange =
+  | "relearn"
+  | "merge"
+  | "invalidate"
+  | "restore"
+  | "consolidate"
+  | "conflict"
+  | "expire"
+  | "rollback"
+  | "project_merge";
+
+export interface PreferenceRevision {
+  revision: number;
+  value: string | null;
+  confidence: number | null;
+  source: string | null;
+  invalidated_at: string | null;
+  superseded_by: string | null;
+  /** Change that replaced this revision (null = live row). */
+  change: PreferenceChange | null;
+  /** When it was replaced (null = live row). */
+  replaced_at: string | null;
+}
+
+/**
+ * Copy the current state of a preference into preference_revisions and
+ * advance its revision_count. Call inside the transaction that applies the
+ * change.
+ */
+export function snapshotPreference(db: BetterSqlite3.Database, preferenceId: number, change: PreferenceChange): void {
+  const info = db
+    .prepare(
+      `INSERT OR IGNORE INTO preference_revisions
+         (preference_id, revision, value, confidence, source, invalidated_at, superseded_by, change)
+       SELECT id, revision_count, value, confidence, source, invalidated_at, superseded_by, @change
+       FROM preferences WHERE id = @id`
+    )
+    .run({ id: preferenceId, change });
+  if (info.changes > 0) {
+    db.prepare(`UPDATE preferences SET revision_count = revision_count + 1 WHERE id = ?`).run(preferenceId);
+  }
+}
+
+/**
+ * Invalidate an active preference by id, recording the revision. Returns
+ * false when it was already invalidated or does not exist.
+ */
+export function invalidatePreferenceById(
+  db: BetterSqlite3.Database,
+  id: number,
+  params: { change: PreferenceChange; supersededBy?: string | null }
+): boolean {
+  return db.transaction(() => {
+    const active = db.prepare(`SELECT 1 FROM preferences WHERE id = ? AND invalidated_at IS NULL`).get(id);
+    if (!active) return false;
+    snapshotPreference(db, id, params.change);
+    db.prepare(
+      `UPDATE preferences SET invalidated_at = datetime('now'), superseded_by = @superseded_by WHERE id = @id`
+    ).run({ id, superseded_by: params.supersededBy ?? null });
+    return true;
+  })();
+}
+
+/**
+ * Make an invalidated preference active again, recording the revision.
+ * Value and confidence are left as they were. Returns false when it is
+ * active or does not exist.
+ */
+export function restorePreferenceById(db: BetterSqlite3.Database, id: number): boolean {
+  return db.transaction(() => {
+    const invalidated = db.prepare(`SELECT 1 FROM preferences WHERE id = ? AND invalidated_at IS NOT NULL`).get(id);
+    if (!invalidated) return false;
+    snapshotPreference(db, id, "restore");
+    db.prepare(`UPDATE preferences SET invalidated_at = NULL, superseded_by = NULL WHERE id = ?`).run(id);
+    return true;
+  })();
+}
+
+/** Every known revision of a preference, oldest first, ending with the live row. */
+export function listPreferenceRevisions(db: BetterSqlite3.Database, preferenceId: number): PreferenceRevision[] {
+  const past = db
+    .prepare(
+      `SELECT revision, value, confidence, source, invalidated_at, superseded_by, change, replaced_at
+       FROM preference_revisions WHERE preference_id = @id ORDER BY revision ASC`
+    )
+    .all({ id: preferenceId }) as PreferenceRevision[];
+
+  const live = db
+    .prepare(
+      `SELECT revision_count AS revision, value, confidence, source, invalidated_at, superseded_by,
+         NULL AS change, NULL AS replaced_at
+       FROM preferences WHERE id = @id`
+    )
+    .get({ id: preferenceId }) as PreferenceRevision | undefined;
+
+  return live ? [...past, live] : past;
+}
+
+export type PreferenceRollbackResult =
+  | { ok: true; preferenceId: number; fromRevision: number; toRevision: number; newRevision: number; value: string }
+  | { ok: false; reason: "not_found" | "revision_not_found" | "already_current" };
+
+/**
+ * Restore the value of an earlier revision as a new revision. The
+ * preference becomes active again (a rollback says "this is the value");
+ * confidence is left as it is.
+ */
+export function rollbackPreference(
+  db: BetterSqlite3.Database,
+  params: { preferenceId: number; revision: number }
+): PreferenceRollbackResult {
+  const current = db.prepare(`SELECT revision_count FROM preferences WHERE id = ?`).get(params.preferenceId) as
+    | { revision_count: number }
+    | undefined;
+  if (!current) return { ok: false, reason: "not_found" };
+  if (params.revision === current.revision_count) return { ok: false, reason: "already_current" };
+
+  const target = db
+    .prepare(`SELECT value FROM preference_revisions WHERE preference_id = ? AND revision = ?`)
+    .get(params.preferenceId, params.revision) as { value: string } | undefined;
+  if (!target) return { ok: false, reason: "revision_not_found" };
+
+  db.transaction(() => {
+    snapshotPreference(db, params.preferenceId, "rollback");
+    db.prepare(
+      `UPDATE preferences
+       SET value = @value, invalidated_at = NULL, superseded_by = NULL, updated_at = datetime('now')
+       WHERE id = @id`
+    ).run({ id: params.preferenceId, value: target.value });
+  })();
+
+  return {
+    ok: true,
+    preferenceId: params.preferenceId,
+    fromRevision: current.revision_count,
+    toRevision: params.revision,
+    newRevision: current.revision_count + 1,
+    value: target.value,
+  };
+}
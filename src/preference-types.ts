@@ -0,0 +1,169 @@
+/**
+ * preference-types.ts - Typed preference values.
+ *
+ * Preference values are free text, so `language` can hold "english",
+ * "English" and "en" at once and nothing can read it programmatically.
+ * config.json `preferences.types` registers a type for a key:
+ *   "language":   { "type": "enum", "values": ["english", "spanish"],
+ *                   "aliases": { "en": "english", "es": "spanish" } }
+ *   "semicolons": { "type": "boolean" }
+ *   "max_line":   { "type": "number", "min": 40, "max": 200, "integer": true }
+ *   "linters":    { "type": "string_list", "values": ["eslint", "biome"] }
+ *   "prettier":   { "type": "json" }
+ *
+ * learn_preference rejects values that do not fit and stores the
+ * canonical text form: the enum value as configured, "true"/"false",
+ * the number as written by JavaScript, lists and JSON as compact JSON.
+ * get_preferences format="json" parses them back (typedPreference), so
+ * editor / linter config can be generated from it. Keys without a type
+ * keep working as free strings.
+ *
+ * Types come from the config, not the database: a value stored before its
+ * key was typed is left as it is and reported as not matching the type.
+ */
+
+import { getConfig, type MemoryConfig } from "./config.js";
+
+export type PreferenceTypeSpec = MemoryConfig["preferences"]["types"][string];
+
+export type NormalizedValue =
+  | { ok: true; value: string; typed: unknown }
+  | { ok: false; error: string };
+
+const TRUE_WORDS = new Set(["true", "yes", "on", "1", "enabled"]);
+const FALSE_WORDS = new Set(["false", "no", "off", "0", "disabled"]);
+
+/** Registered type of a preference key, or undefined for a free string. */
+export function getPreferenceType(key: string, config: MemoryConfig = getConfig()): PreferenceTypeSpec | undefined {
+  return Object.hasOwn(config.preferences.types, key) ? config.preferences.types[key] : undefined;
+}
+
+/** "enum (english | spanish)", "number (integer, 40..200)", ... */
+export function describePreferenceType(spec: PreferenceTypeSpec): string {
+  switch (spec.type) {
+    case "enum":
+      return `enum (${spec.values.join(" | ")})`;
+    case "number": {
+      const bounds = spec.min !== undefined || spec.max !== undefined ? `${spec.min ?? ""}..${spec.max ?? ""}` : "";
+      const details = [spec.integer ? "integer" : "", bounds].filter(Boolean).join(", ");
+      return details ? `number (${details})` : "number";
+    }
+    case "string_list":
+      return spec.values ? `string_list (${spec.values.join(" | ")})` : "string_list";
+    default:
+      return spec.type;
+  }
+}
+
+/** Case-insensitive match against the allowed values (and aliases). */
+function matchAllowed(raw: string, values: string[], aliases: Record<string, string> = {}): string | undefined {
+  const needle = raw.trim().toLowerCase();
+  return (
+    values.find((v) => v.toLowerCase() === needle) ??
+    Object.entries(aliases).find(([alias]) => alias.toLowerCase() === needle)?.[1]
+  );
+}
+
+/** A JSON array of strings, or comma-separated items. */
+function splitList(raw: string): string[] | undefined {
+  const text = raw.trim();
+  if (text.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) && parsed.every((i) => typeof i === "string") ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return text.split(",");
+}
+
+/** Validate `raw` against a type and return its canonical stored form. */
+export function normalizeTypedValue(spec: PreferenceTypeSpec, raw: string): NormalizedValue {
+  const fail = (reason: string): NormalizedValue => ({
+    ok: false,
+    error: `expected ${describePreferenceType(spec)}, got "${raw}"${reason ? ` (${reason})` : ""}`,
+  });
+
+  switch (spec.type) {
+    case "boolean": {
+      const word = raw.trim().toLowerCase();
+      if (TRUE_WORDS.has(word)) return { ok: true, value: "true", typed: true };
+      if (FALSE_WORDS.has(word)) return { ok: true, value: "false", typed: false };
+      return fail("use true/false, yes/no or on/off");
+    }
+    case "enum": {
+      const value = matchAllowed(raw, spec.values, spec.aliases);
+      return value === undefined ? fail("") : { ok: true, value, typed: value };
+    }
+    case "number": {
+      const n = raw.trim() === "" ? NaN : Number(raw.trim());
+      if (!Number.isFinite(n)) return fail("not a number");
+      if (spec.integer && !Number.isInteger(n)) return fail("not an integer");
+      if (spec.min !== undefined && n < spec.min) return fail(`below ${spec.min}`);
+      if (spec.max !== undefined && n > spec.max) return fail(`above ${spec.max}`);
+      return { ok: true, value: String(n), typed: n };
+    }
+    case "string_list": {
+      const items = splitList(raw);
+      if (!items) return fail("use a JSON array of strings or comma-separated items");
+      const list: string[] = [];
+      for (const item of items.map((i) => i.trim()).filter(Boolean)) {
+        const value = spec.values ? matchAllowed(item, spec.values) : item;
+        if (value === undefined) return fail(`"${item}" is not allowed`);
+        if (!list.includes(value)) list.push(value);
+      }
+      return { ok: true, value: JSON.stringify(list), typed: list };
+    }
+    case "json": {
+      try {
+        const typed = JSON.parse(raw);
+        return { ok: true, value: JSON.stringify(typed), typed };
+      } catch (err: any) {
+        return fail(err?.message ?? "not valid JSON");
+      }
+    }
+  }
+}
+
+/**
+ * Validate and normalize a value about to be stored under `key`. Keys
+ * without a registered type accept any value unchanged.
+ */
+export function normalizePreferenceValue(key: string, raw: string, config: MemoryConfig = getConfig()): NormalizedValue {
+  const spec = getPreferenceType(key, config);
+  if (!spec) return { ok: true, value: raw, typed: raw };
+  const result = normalizeTypedValue(spec, raw);
+  return result.ok ? result : { ok: false, error: `preference '${key}': ${result.error}` };
+}
+
+export interface TypedPreference {
+  key: string;
+  /** Registered type, or "string" for keys without one. */
+  type: string;
+  /** Parsed value; the stored text when it does not match the type. */
+  value: unknown;
+  /** False when a value stored before the key was typed does not fit. */
+  valid: boolean;
+  scope: string;
+  confidence: number;
+  effective_confidence?: number;
+}
+
+/** Structured view of a stored preference row for get_preferences format="json". */
+export function typedPreference(
+  pref: { key: string; value: string; scope?: string; _scope?: string; confidence: number; effective_confidence?: number },
+  config: MemoryConfig = getConfig()
+): TypedPreference {
+  const spec = getPreferenceType(pref.key, config);
+  const parsed = spec ? normalizeTypedValue(spec, pref.value) : undefined;
+  return {
+    key: pref.key,
+    type: spec?.type ?? "string",
+    value: parsed?.ok ? parsed.typed : pref.value,
+    valid: parsed?.ok ?? true,
+    scope: pref._scope ?? pref.scope ?? "global",
+    confidence: pref.confidence,
+    effective_confidence: pref.effective_confidence,
+  };
+}
@@ -0,0 +1,431 @@
+/**
+ * projects.ts - Canonical project registry.
+ *
+ * The hooks used to name a project after `basename "$CWD"`, so two repos
+ * called `api` shared one memory and a renamed checkout lost its history.
+ * A project is now identified by a fingerprint — the normalized git remote
+ * URL when there is one, otherwise the repository root path — and has one
+ * canonical name plus any number of aliases. The canonical name is what is
+ * stored in experiences.project / preferences.scope, so existing queries
+ * keep working unchanged.
+ *
+ * Resolution order for a working directory: remote URL, then root path,
+ * then an alias with no fingerprint yet (projects backfilled from existing
+ * data are claimed by the first checkout that uses their name). When the
+ * basename is already taken by a different repository, the new project is
+ * named after its remote (`owner/repo`) or gets a numeric suffix.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { execFileSync } from "child_process";
+import path from "path";
+import { normalizeForStorage } from "./paths.js";
+import { invalidatePreferenceById, snapshotPreference } from "./preference-revisions.js";
+import { packageScope } from "./scopes.js";
+
+export interface ProjectFingerprint {
+  /** Normalized git remote (host/owner/repo), null outside git or without origin. */
+  remote: string | null;
+  /** Repository root (or the directory itself outside git), sandbox-normalized. */
+  root: string | null;
+}
+
+export interface ProjectRow {
+  id: number;
+  name: string;
+  remote_url: string | null;
+  root_path: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+// ── Fingerprints ─────────────────────────────────────────
+
+/**
+ * Normalize a git remote so every spelling of the same repository matches:
+ * `git@github.com:Acme/api.git`, `https://user@github.com/acme/api` and
+ * `ssh://git@github.com:22/acme/api.git/` all become `github.com/acme/api`.
+ */
+export function normalizeRemoteUrl(url: string): string | null {
+  let s = url.trim();
+  if (!s) return null;
+  s = s.replace(/^[a-z+]+:\/\//i, ""); // scheme
+  s = s.replace(/^[^@/]+@/, ""); // user@
+  s = s.replace(/^([^/:]+):(\d+)\//, "$1/"); // host:port/
+  s = s.replace(/^([^/:]+):/, "$1/"); // scp-style host:path
+  s = s.replace(/\/+$/, "").replace(/\.git$/i, "");
+  return s.toLowerCase() || null;
+}
+
+const fingerprintCache = new Map<string, ProjectFingerprint>();
+
+function git(cwd: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", ["-C", cwd, ...args], {
+      encoding: "utf8",
+      timeout: 2000,
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Fingerprint of a working directory (cached per process). */
+export function detectProjectFingerprint(cwd: string): ProjectFingerprint {
+  const cached = fingerprintCache.get(cwd);
+  if (cached) return cached;
+  const root = git(cwd, ["rev-parse", "--show-toplevel"]);
+  const remote = root ? git(root, ["config", "--get", "remote.origin.url"]) : null;
+  const fingerprint = {
+    remote: remote ? normalizeRemoteUrl(remote) : null,
+    root: normalizeForStorage(root || cwd),
+  };
+  fingerprintCache.set(cwd, fingerprint);
+  return fingerprint;
+}
+
+// ── Lookup ───────────────────────────────────────────────
+
+function findByAlias(db: BetterSqlite3.Database, alias: string): ProjectRow | undefined {
+  return db
+    .prepare(
+      `SELECT p.* FROM projects p JOIN project_aliases a ON a.project_id = p.id WHERE a.alias = ?`
+    )
+    .get(alias) as ProjectRow | undefined;
+}
+
+/** Canonical name for a name or alias; unknown names are returned unchanged. */
+export function canonicalProjectName(db: BetterSqlite3.Database, name: string): string {
+  if (!name) return "";
+  return findByAlias(db, name)?.name ?? name;
+}
+
+function nameTaken(db: BetterSqlite3.Database, name: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM project_aliases WHERE alias = ?`).get(name);
+}
+
+function createProject(
+  db: BetterSqlite3.Database,
+  name: string,
+  fingerprint: ProjectFingerprint
+): string {
+  const info = db
+    .prepare(`INSERT INTO projects (name, remote_url, root_path) VALUES (?, ?, ?)`)
+    .run(name, fingerprint.remote, fingerprint.root);
+  db.prepare(`INSERT INTO project_aliases (alias, project_id) VALUES (?, ?)`).run(name, Number(info.lastInsertRowid));
+  return name;
+}
+
+/** A free canonical name for a new project whose basename is taken. */
+function disambiguate(db: BetterSqlite3.Database, base: string, remote: string | null): string {
+  const ownerRepo = remote ? remote.split("/").slice(1).join("/") : "";
+  if (ownerRepo && !nameTaken(db, ownerRepo)) return ownerRepo;
+  for (let n = 2; ; n++) {
+    if (!nameTaken(db, `${base}-${n}`)) return `${base}-${n}`;
+  }
+}
+
+/**
+ * Canonical project name for a working directory (and/or a plain name),
+ * registering the project on first sight. Returns "" when neither is given.
+ * `fingerprint` defaults to detectProjectFingerprint(cwd).
+ */
+export function resolveProject(
+  db: BetterSqlite3.Database,
+  params: { cwd?: string; name?: string; fingerprint?: ProjectFingerprint }
+): string {
+  const fingerprint =
+    params.fingerprint ?? (params.cwd ? detectProjectFingerprint(params.cwd) : { remote: null, root: null });
+  const touch = db.prepare(`UPDATE projects SET last_seen_at = datetime('now') WHERE id = ?`);
+
+  return db.transaction(() => {
+    if (fingerprint.remote) {
+      const byRemote = db.prepare(`SELECT * FROM projects WHERE remote_url = ?`).get(fingerprint.remote) as
+        | ProjectRow
+        | undefined;
+      if (byRemote) {
+        // Checkout moved or was renamed: remember the new root
+        db.prepare(`UPDATE projects SET root_path = ?, last_seen_at = datetime('now') WHERE id = ?`).run(
+          fingerprint.root ?? byRemote.root_path,
+          byRemote.id
+        );
+        return byRemote.name;
+      }
+    }
+
+    if (fingerprint.root) {
+      const byRoot = db
+        .prepare(`SELECT * FROM projects WHERE root_path = @root AND (remote_url IS NULL OR @remote IS NULL)`)
+        .get({ root: fingerprint.root, remote: fingerprint.remote }) as ProjectRow | undefined;
+      if (byRoot) {
+        db.prepare(
+          `UPDATE projects SET remote_url = COALESCE(remote_url, ?), last_seen_at = datetime('now') WHERE id = ?`
+        ).run(fingerprint.remote, byRoot.id);
+        return byRoot.name;
+      }
+    }
+
+    const base = params.name || (fingerprint.root || params.cwd ? path.basename(fingerprint.root || params.cwd!) : "");
+    if (!base) return "";
+
+    const existing = findByAlias(db, base);
+    if (existing) {
+      const unclaimed = !existing.remote_url && !existing.root_path;
+      const hasFingerprint = !!(fingerprint.remote || fingerprint.root);
+      if (unclaimed || !hasFingerprint) {
+        if (hasFingerprint) {
+          db.prepare(`UPDATE projects SET remote_url = ?, root_path = ? WHERE id = ?`).run(
+            fingerprint.remote,
+            fingerprint.root,
+            existing.id
+          );
+        }
+        touch.run(existing.id);
+        return existing.name;
+      }
+      // Same basename, different repository
+      return createProject(db, disambiguate(db, base, fingerprint.remote), fingerprint);
+    }
+
+    return createProject(db, base, fingerprint);
+  })();
+}
+
+/**
+ * Resolve a `project` / `scope` parameter from a tool or the CLI: absolute
+ * paths are fingerprinted like a hook cwd, names and aliases map to the
+ * canonical name ("global" and unknown names pass through unchanged).
+ */
+export function resolveProjectParam(db: BetterSqlite3.Database, value: string | undefined): string {
+  if (!value) return "";
+  if (path.isAbsolute(value)) return resolveProject(db, { cwd: value });
+  return canonicalProjectName(db, value);
+}
+
+// ── Listing ──────────────────────────────────────────────
+
+export interface ProjectSummary extends ProjectRow {
+  aliases: string[];
+  experiences: number;
+  preferences: number;
+}
+
+export function listProjects(db: BetterSqlite3.Database): ProjectSummary[] {
+  const rows = db
+    .prepare(
+      `SELECT p.*,
+         (SELECT COUNT(*) FROM experiences e WHERE e.project = p.name AND e.deleted_at IS NULL) AS experiences,
+         (SELECT COUNT(*) FROM preferences f WHERE f.scope = p.name AND f.invalidated_at IS NULL) AS preferences
+       FROM projects p ORDER BY p.last_seen_at DESC, p.name ASC`
+    )
+    .all() as (ProjectRow & { experiences: number; preferences: number })[];
+  const aliases = db.prepare(`SELECT alias FROM project_aliases WHERE project_id = ? AND alias != ? ORDER BY alias`);
+  return rows.map((row) => ({
+    ...row,
+    aliases: (aliases.all(row.id, row.name) as { alias: string }[]).map((a) => a.alias),
+  }));
+}
+
+/** Human-readable project list (CLI list_projects). */
+export function formatProjectList(projects: ProjectSummary[]): string {
+  if (projects.length === 0) return "No projects registered yet.";
+  const lines = [`Projects (${projects.length}):`];
+  for (const p of projects) {
+    const where = p.remote_url || p.root_path || "(no fingerprint yet)";
+    lines.push(`- ${p.name}: ${p.experiences} experience(s), ${p.preferences} preference(s) | ${where}`);
+    if (p.aliases.length > 0) lines.push(`  aliases: ${p.aliases.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+// ── Rename / merge ───────────────────────────────────────
+
+export type RenameProjectResult =
+  | {
+      ok: true;
+      from: string;
+      to: string;
+      merged: boolean;
+      experiences: number;
+      preferences: number;
+      /** Preference keys present in both projects (target value kept). */
+      preferenceConflicts: number;
+      /** topic_keys present in both projects (older experience lost its topic_key). */
+      topicConflicts: number;
+    }
+  | { ok: false; reason: "invalid" | "not_found" };
+
+/**
+ * Move the preferences of one scope to another. A key present in both keeps
+ * the target's value with the higher confidence and summed confirmations;
+ * the source row cannot join the target scope (UNIQUE(key, scope)), so it is
+ * invalidated in place, superseded by the target's key. When the target row
+ * is itself invalidated, the active source wins instead: the target takes
+ * its value and is restored. Call inside the rename transaction.
+ */
+function movePreferenceScope(
+  db: BetterSqlite3.Database,
+  from: string,
+  to: string
+): { moved: number; conflicts: number } {
+  let conflicts = 0;
+  const rows = db
+    .prepare(
+      `SELECT s.id AS source_id, t.id AS target_id, s.key, s.confidence, s.confirmed_count,
+         s.invalidated_at IS NULL AS source_active, t.invalidated_at IS NULL AS target_active
+       FROM preferences s JOIN preferences t ON t.key = s.key AND t.scope = @to
+       WHERE s.scope = @from`
+    )
+    .all({ from, to }) as {
+    source_id: number;
+    target_id: number;
+    key: string;
+    confidence: number;
+    confirmed_count: number;
+    source_active: number;
+    target_active: number;
+  }[];
+  for (const c of rows) {
+    if (!c.source_active) continue;
+    if (c.target_active) {
+      db.prepare(
+        `UPDATE preferences SET confidence = MAX(confidence, @confidence),
+           confirmed_count = confirmed_count + @confirmed_count
+         WHERE id = @id`
+      ).run({ id: c.target_id, confidence: c.confidence, confirmed_count: c.confirmed_count ?? 1 });
+    } else {
+      snapshotPreference(db, c.target_id, "project_merge");
+      db.prepare(
+        `UPDATE preferences
+         SET (value, confidence, source, confirmed_count, last_confirmed_at) =
+             (SELECT value, confidence, source, confirmed_count, last_confirmed_at FROM preferences WHERE id = @source_id),
+           invalidated_at = NULL, superseded_by = NULL, updated_at = datetime('now')
+         WHERE id = @id`
+      ).run({ id: c.target_id, source_id: c.source_id });
+    }
+    invalidatePreferenceById(db, c.source_id, { change: "project_merge", supersededBy: c.key });
+    conflicts++;
+  }
+
+  const moved = db
+    .prepare(
+      `UPDATE preferences SET scope = @to
+       WHERE scope = @from AND key NOT IN (SELECT key FROM preferences WHERE scope = @to)`
+    )
+    .run({ from, to }).changes;
+  return { moved, conflicts };
+}
+
+/**
+ * Rename project `from` to `to`, or merge it into `to` when that name is
+ * already a project. Rewrites experiences.project, preferences.scope
+ * (package:<from>:<pkg> scopes included) and telemetry.project; `from`
+ * stays an alias of the result so hooks and callers still using the old
+ * name resolve correctly.
+ *
+ * On merge, preference keys present in both projects are resolved by
+ * movePreferenceScope (the source row is invalidated, so restore_preference
+ * can bring it back); a topic_key present in both keeps its most recently
+ * seen experience as the topic.
+ * Accepts names that only exist in the data (never registered).
+ */
+export function renameProject(
+  db: BetterSqlite3.Database,
+  params: { from: string; to: string }
+): RenameProjectResult {
+  const to = params.to.trim();
+  const fromInput = params.from.trim();
+  if (!fromInput || !to || to === "global") return { ok: false, reason: "invalid" };
+
+  return db.transaction((): RenameProjectResult => {
+    const source = findByAlias(db, fromInput);
+    const from = source?.name ?? fromInput;
+    if (from === to) return { ok: false, reason: "invalid" };
+
+    const packagePrefix = packageScope(from, "");
+    const packageScopes = (
+      db
+        .prepare(`SELECT DISTINCT scope FROM preferences WHERE substr(scope, 1, length(@prefix)) = @prefix`)
+        .all({ prefix: packagePrefix }) as { scope: string }[]
+    ).map((row) => row.scope);
+    const inData =
+      db.prepare(`SELECT 1 FROM experiences WHERE project = ? LIMIT 1`).get(from) ||
+      db.prepare(`SELECT 1 FROM preferences WHERE scope = ? LIMIT 1`).get(from) ||
+      packageScopes.length > 0;
+    if (!source && !inData) return { ok: false, reason: "not_found" };
+
+    // Renaming back to one of the project's own aliases is a plain rename
+    const found = findByAlias(db, to);
+    const target = found && found.id !== source?.id ? found : undefined;
+    const targetName = target?.name ?? to;
+
+    // Preferences: the project scope and its package:<project>:<pkg> scopes
+    const scopes: [string, string][] = [
+      [from, targetName],
+      ...packageScopes.map((scope): [string, string] => [
+        scope,
+        packageScope(targetName, scope.slice(packagePrefix.length)),
+      ]),
+    ];
+    let preferences = 0;
+    let preferenceConflicts = 0;
+    for (const [fromScope, toScope] of scopes) {
+      const moved = movePreferenceScope(db, fromScope, toScope);
+      preferences += moved.moved;
+      preferenceConflicts += moved.conflicts;
+    }
+
+    // Topics: one live experience per (topic_key, project)
+    const topicClashes = db
+      .prepare(
+        `SELECT s.id AS source_id, t.id AS target_id,
+           COALESCE(s.last_seen_at, s.created_at) >= COALESCE(t.last_seen_at, t.created_at) AS source_newer
+         FROM experiences s
+         JOIN experiences t ON t.topic_key = s.topic_key AND t.project = @to AND t.deleted_at IS NULL
+         WHERE s.project = @from AND s.topic_key IS NOT NULL AND s.deleted_at IS NULL`
+      )
+      .all({ from, to: targetName }) as { source_id: number; target_id: number; source_newer: number }[];
+    for (const clash of topicClashes) {
+      const older = clash.source_newer ? clash.target_id : clash.source_id;
+      db.prepare(`UPDATE experiences SET topic_key = NULL WHERE id = ?`).run(older);
+    }
+
+    const experiences = db.prepare(`UPDATE experiences SET project = ? WHERE project = ?`).run(targetName, from).changes;
+    db.prepare(`UPDATE telemetry SET project = ? WHERE project = ?`).run(targetName, from);
+
+    // Registry
+    if (target) {
+      if (source) {
+        db.prepare(
+          `UPDATE projects SET remote_url = COALESCE(remote_url, @remote), root_path = COALESCE(root_path, @root)
+           WHERE id = @id`
+        ).run({ id: target.id, remote: source.remote_url, root: source.root_path });
+        db.prepare(`UPDATE project_aliases SET project_id = ? WHERE project_id = ?`).run(target.id, source.id);
+        db.prepare(`DELETE FROM projects WHERE id = ?`).run(source.id);
+      } else {
+        db.prepare(`INSERT OR IGNORE INTO project_aliases (alias, project_id) VALUES (?, ?)`).run(from, target.id);
+      }
+    } else if (source) {
+      db.prepare(`UPDATE projects SET name = ? WHERE id = ?`).run(to, source.id);
+      db.prepare(`INSERT OR IGNORE INTO project_aliases (alias, project_id) VALUES (?, ?)`).run(to, source.id);
+    } else {
+      const id = Number(db.prepare(`INSERT INTO projects (name) VALUES (?)`).run(to).lastInsertRowid);
+      db.prepare(`INSERT INTO project_aliases (alias, project_id) VALUES (?, ?), (?, ?)`).run(to, id, from, id);
+    }
+
+    return {
+      ok: true,
+      from,
+      to: targetName,
+      merged: !!target,
+      experiences,
+      preferences,
+      preferenceConflicts,
+      topicConflicts: topicClashes.length,
+    };
+  })();
+}
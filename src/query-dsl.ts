@@ -0,0 +1,214 @@
+/**
+ * query-dsl.ts - Inline query language for memory search.
+ *
+ * sanitizeFtsQuery (database.ts) strips every operator and ORs the words
+ * together. Queries typed by agents and humans can instead carry filters
+ * and term operators inline:
+ *
+ *   type:gotcha tag:docker project:api since:2w -tag:auto "exact phrase"
+ *
+ *   type:T / -type:T     experience type (several type: = any of them)
+ *   tag:T / -tag:T       exact tag (several tag: = all of them)
+ *   project:P            search P (plus global experiences)
+ *   since:D / before:D   created at or after / before D
+ *   updated:D            last seen at or after D
+ *   is:success|failure   outcome
+ *   topic:PREFIX         topic_key prefix (a trailing * is optional)
+ *   "exact phrase"       required phrase
+ *   +word                required word
+ *   -word / -"phrase"    excluded
+ *   anything else        optional words, ORed as before
+ *
+ * D is an ISO date/datetime or a relative age: 12h, 3d, 2w, 6m, 1y.
+ * Required words and phrases are ANDed in the FTS query; when there are
+ * any, optional words no longer widen the match but still count towards
+ * the term-coverage score. Exclusions and filters become SearchFilters,
+ * pushed down into both hybridSearch channels (search-filters.ts).
+ * Unknown `key:value` tokens (URLs, paths, "note:"), a type: that is not
+ * an experience type, and `--flags` are plain words.
+ *
+ * Shared by query_memory, the CLI `query` command and the socket on_prompt
+ * path so a query means the same everywhere. The on_prompt path parses the
+ * user's raw prompt with `plain`: ordinary text ("npm i --save-dev x",
+ * "type:string") must not turn into filters or exclusions there, so every
+ * token is an optional word. Pure module (no database imports) so it can
+ * be unit-tested in isolation.
+ */
+
+import { parseDateParam } from "./validity.js";
+import { toSqliteDatetime } from "./expiry.js";
+import { quoteFtsTerm, type SearchFilters } from "./search-filters.js";
+
+export interface ParsedQuery {
+  /** Text for the embedding: every searched word and phrase, no operators or filters. */
+  text: string;
+  /** FTS5 MATCH expression, null when nothing is left to match. */
+  ftsQuery: string | null;
+  /** Lowercase words and phrases for the term-coverage score. */
+  terms: string[];
+  filters: SearchFilters;
+  /** Raw project: value (the caller resolves aliases). */
+  project?: string;
+  /** Invalid filters, e.g. `since "yesterday" is not a relative age or ISO date`. */
+  errors: string[];
+}
+
+const FILTER_KEYS = new Set(["type", "tag", "project", "since", "before", "updated", "is", "topic"]);
+const NEGATABLE_KEYS = new Set(["type", "tag"]);
+
+/** Values type: accepts; anything else is a plain word. */
+const EXPERIENCE_TYPES = new Set([
+  "experience",
+  "decision",
+  "gotcha",
+  "discovery",
+  "correction",
+  "insight",
+  "auto_capture",
+  "session_summary",
+]);
+
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  m: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+const OUTCOMES: Record<string, boolean> = {
+  success: true,
+  ok: true,
+  failure: false,
+  fail: false,
+  failed: false,
+};
+
+// sign, optional key:, then a quoted phrase (closing quote optional) or a bare token
+const TOKEN = /([+-]?)(?:([A-Za-z_]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+/** Words of a token as the old sanitizer saw them: FTS specials split words, 1-char words dropped. */
+function words(text: string): string[] {
+  return text
+    .replace(/[-():*^"{}[\]]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 1);
+}
+
+/** since:2w / since:2026-10-01 as a UTC datetime. */
+function parseDateValue(name: string, value: string, nowMs: number): { ok: true; value: string } | { ok: false; error: string } {
+  const relative = /^(\d+)([hdwmy])$/i.exec(value);
+  if (relative) {
+    return { ok: true, value: toSqliteDatetime(new Date(nowMs - Number(relative[1]) * UNIT_MS[relative[2].toLowerCase()])) };
+  }
+  const parsed = parseDateParam(name, value);
+  return parsed.ok ? parsed : { ok: false, error: `${name} "${value}" is not a relative age (2w, 30d) or an ISO date` };
+}
+
+/**
+ * Parse a query written in the DSL (see the module comment). With `plain`
+ * no operator or filter is read: every token is searched as optional words.
+ */
+export function parseQuery(
+  input: string,
+  nowMs: number = Date.now(),
+  options: { plain?: boolean } = {}
+): ParsedQuery {
+  const optional: string[] = [];
+  const required: string[] = [];
+  const excluded: string[] = [];
+  const textParts: string[] = [];
+  const filters: SearchFilters = {};
+  const errors: string[] = [];
+  let project: string | undefined;
+
+  const push = (key: "types" | "tags" | "excludeTypes" | "excludeTags", value: string) => {
+    filters[key] = [...(filters[key] ?? []), value];
+  };
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, sign, rawKey, quoted, bare] = match;
+    const key = rawKey?.toLowerCase();
+    const value = quoted ?? bare ?? "";
+    // --flag and +-x are text, not operators
+    const operator = !options.plain && !/^[+-]{2}/.test(raw);
+
+    if (!operator) {
+      const text = quoted !== undefined && !rawKey ? value : raw.replace(/^\++/, "");
+      textParts.push(text);
+      optional.push(...words(text));
+      continue;
+    }
+
+    const isFilter = key && FILTER_KEYS.has(key) && value && (key !== "type" || EXPERIENCE_TYPES.has(value.toLowerCase()));
+    if (isFilter) {
+      if (sign === "-" && !NEGATABLE_KEYS.has(key)) {
+        errors.push(`${key}: cannot be negated`);
+        continue;
+      }
+      switch (key) {
+        case "type":
+          push(sign === "-" ? "excludeTypes" : "types", value.toLowerCase());
+          break;
+        case "tag":
+          push(sign === "-" ? "excludeTags" : "tags", value);
+          break;
+        case "project":
+          project = value;
+          break;
+        case "since":
+        case "before":
+        case "updated": {
+          const date = parseDateValue(key, value, nowMs);
+          if (!date.ok) errors.push(date.error);
+          else if (key === "since") filters.createdAfter = date.value;
+          else if (key === "before") filters.createdBefore = date.value;
+          else filters.updatedAfter = date.value;
+          break;
+        }
+        case "is": {
+          const outcome = OUTCOMES[value.toLowerCase()];
+          if (outcome === undefined) errors.push(`is "${value}" is not success or failure`);
+          else filters.success = outcome;
+          break;
+        }
+        case "topic":
+          filters.topicKeyPrefix = value.replace(/\*$/, "");
+          break;
+      }
+      continue;
+    }
+
+    // Not a filter: a phrase, or the whole token as text (URLs, "note:")
+    const isPhrase = quoted !== undefined && !rawKey;
+    const text = isPhrase ? value : sign ? raw.slice(1) : raw;
+    const tokenWords = words(text);
+    if (sign === "-") {
+      if (tokenWords.length > 0) excluded.push(tokenWords.join(" "));
+      continue;
+    }
+    // Short words still help the embedding, even if FTS skips them
+    textParts.push(text);
+    if (tokenWords.length === 0) continue;
+    if (sign === "+" || isPhrase) required.push(tokenWords.join(" "));
+    else optional.push(...tokenWords);
+  }
+
+  if (excluded.length > 0) filters.excludeTerms = excluded;
+
+  const ftsQuery =
+    required.length > 0
+      ? required.map(quoteFtsTerm).join(" AND ")
+      : optional.length > 0
+        ? optional.map(quoteFtsTerm).join(" OR ")
+        : null;
+
+  return {
+    text: textParts.join(" "),
+    ftsQuery,
+    terms: [...new Set([...required, ...optional].map((t) => t.toLowerCase()))],
+    filters,
+    project,
+    errors,
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * redaction.ts - Secret and credential redaction.
+ *
+ * Everything the agent or the hooks send ends up in a plaintext SQLite
+ * file that is also FTS-indexed and embedded, so secrets are masked before
+ * they are stored, right after normalizeTextPaths on every write path
+ * (insertOrDeduplicate, recordPattern, learn_preference).
+ *
+ * Detection, in order:
+ *   1. User rules from config.json (redaction.rules).
+ *   2. The built-in pattern library (BUILTIN_REDACTION_RULES): provider
+ *      token formats, private key blocks, bearer/basic credentials,
+ *      passwords inside connection strings and `password=` / `api_key:`
+ *      style assignments.
+ *   3. High-entropy tokens (redaction.entropy, on by default): long
+ *      letter+digit runs whose Shannon entropy is at least
+ *      ENTROPY_MIN_BITS per character and whose characters keep switching
+ *      between lowercase, uppercase and digits (identifiers such as
+ *      `insertOrDeduplicate_v2_compat_mode` score high on entropy alone).
+ *      Hex strings (hashes, UUIDs, commit ids) are never treated as
+ *      secrets.
+ *
+ * A match is replaced by `[REDACTED:<rule>]`; rules with a named group
+ * `secret` mask only that part, so `DB_PASSWORD=[REDACTED:secret_assignment]`
+ * keeps its key. Callers get per-rule counts to report what was masked.
+ *
+ * scrubSecrets() applies the same pipeline to rows stored before
+ * redaction existed. Functions take the database handle as a parameter so
+ * they can be tested against in-memory databases (same pattern as
+ * consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { getConfig, type MemoryConfig } from "./config.js";
+import { computeHash } from "./content-hash.js";
+import { parseTags, formatTags, syncExperienceTags } from "./tags.js";
+
+export interface RedactionRule {
+  name: string;
+  /** Must carry the `g` flag. A named group `secret` narrows the mask. */
+  pattern: RegExp;
+  /** Extra check on the matched secret, to keep prose false positives out. */
+  accept?: (secret: string) => boolean;
+}
+
+/** Number of masked secrets per rule name. */
+export type RedactionCounts = Record<string, number>;
+
+/** Shortest token considered by entropy detection. */
+export const ENTROPY_MIN_LENGTH = 24;
+
+/** Minimum Shannon entropy (bits per character) for an entropy match. */
+export const ENTROPY_MIN_BITS = 4.0;
+
+/** Minimum share of adjacent characters that change class (a/A/0). */
+export const ENTROPY_MIN_CLASS_SWITCHES = 0.3;
+
+export function redactionMask(rule: string): string {
+  return `[REDACTED:${rule}]`;
+}
+
+/** Assignment values that are obviously placeholders, not secrets. */
+const PLACEHOLDER = /^(?:\$|<|\{|%|process\.env|os\.environ|env\.|\*+$|x+$)/i;
+
+function looksLikeSecretValue(value: string): boolean {
+  if (PLACEHOLDER.test(value)) return false;
+  return /[0-9]/.test(value) || /[^A-Za-z0-9]/.test(value) || value.length >= 12;
+}
+
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: "private_key",
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+  },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "gitlab_token", pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { name: "slack_token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "stripe_key", pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: "sk_api_key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    name: "bearer_token",
+    pattern: /\b(?:Bearer|Basic)\s+(?<secret>(?!\[REDACTED)[A-Za-z0-9._~+/=-]{16,})/gi,
+  },
+  {
+    name: "connection_string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>(?!\[REDACTED)[^\s@/]+)@/gi,
+  },
+  {
+    name: "secret_assignment",
+    pattern:
+      /\b[\w.-]*?(?:password|passwd|secret|api[_-]?key|access[_-]?key|token)["']?\s*[:=]\s*["']?(?<secret>(?!\[REDACTED)[^\s"'`,;]{6,})/gi,
+    accept: looksLikeSecretValue,
+  },
+];
+
+/** Shannon entropy of a string, in bits per character. */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const freq = new Map<string, number>();
+  for (const ch of value) freq.set(ch, (freq.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const n of freq.values()) {
+    const p = n / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function charClass(ch: string): number {
+  if (ch >= "a" && ch <= "z") return 1;
+  if (ch >= "A" && ch <= "Z") return 2;
+  if (ch >= "0" && ch <= "9") return 3;
+  return 0;
+}
+
+/** Share of adjacent alphanumerics that switch class, separators ignored. */
+export function classSwitchRatio(value: string): number {
+  const classes = [...value].map(charClass).filter((c) => c !== 0);
+  if (classes.length < 2) return 0;
+  let switches = 0;
+  for (let i = 1; i < classes.length; i++) if (classes[i] !== classes[i - 1]) switches++;
+  return switches / (classes.length - 1);
+}
+
+const ENTROPY_CANDIDATE = new RegExp(`[A-Za-z0-9+=_-]{${ENTROPY_MIN_LENGTH},}`, "g");
+
+const ENTROPY_RULE: RedactionRule = {
+  name: "high_entropy",
+  pattern: ENTROPY_CANDIDATE,
+  accept: (token) =>
+    /[A-Za-z]/.test(token) &&
+    /[0-9]/.test(token) &&
+    !/^[0-9a-f-]+$/i.test(token) &&
+    shannonEntropy(token) >= ENTROPY_MIN_BITS &&
+    classSwitchRatio(token) >= ENTROPY_MIN_CLASS_SWITCHES,
+};
+
+const compiledRules = new WeakMap<MemoryConfig, RedactionRule[]>();
+
+/** Rules in application order for a config: user rules, built-ins, entropy. */
+export function redactionRules(config: MemoryConfig = getConfig()): RedactionRule[] {
+  let rules = compiledRules.get(config);
+  if (!rules) {
+    const user = config.redaction.rules.map((r) => ({
+      name: r.name,
+      pattern: new RegExp(r.pattern, `${r.flags ?? ""}g`),
+    }));
+    rules = [...user, ...BUILTIN_REDACTION_RULES, ...(config.redaction.entropy ? [ENTROPY_RULE] : [])];
+    compiledRules.set(config, rules);
+  }
+  return rules;
+}
+
+function applyRule(text: string, rule: RedactionRule, counts: RedactionCounts): string {
+  return text.replace(rule.pattern, (match: string, ...args: any[]) => {
+    const groups = args[args.length - 1];
+    const secret: string = typeof groups === "object" && groups?.secret ? groups.secret : match;
+    if (rule.accept && !rule.accept(secret)) return match;
+    counts[rule.name] = (counts[rule.name] ?? 0) + 1;
+    const at = match.lastIndexOf(secret);
+    return match.slice(0, at) + redactionMask(rule.name) + match.slice(at + secret.length);
+  });
+}
+
+/**
+ * Mask every secret in `text`. Counts are added to `into` when given, so
+ * one accumulator can collect the report for several fields.
+ */
+export function redactSecrets(text: string, into?: RedactionCounts, config?: MemoryConfig): string {
+  if (!text) return text;
+  const counts = into ?? {};
+  let out = text;
+  for (const rule of redactionRules(config)) out = applyRule(out, rule, counts);
+  return out;
+}
+
+export function countRedactions(counts: RedactionCounts): number {
+  return Object.values(counts).reduce((sum, n) => sum + n, 0);
+}
+
+/** " Redacted 2 secret(s) before storing (github_token, bearer_token)." or "". */
+export function formatRedactionNote(counts: RedactionCounts): string {
+  const total = countRedactions(counts);
+  if (total === 0) return "";
+  return ` Redacted ${total} secret(s) before storing (${Object.keys(counts).join(", ")}).`;
+}
+
+// ── Scrubbing stored rows ───────────────────────────────
+
+/**
+ * Text columns scrubbed per table; `json` columns hold string arrays.
+ * `content` tables hold experience content: their tags are re-normalized
+ * and their normalized_hash recomputed (content-hash.ts) so dedupe matches
+ * the masked text.
+ */
+const SCRUB_TARGETS: { table: string; columns: string[]; json?: string[]; content?: boolean }[] = [
+  { table: "experiences", columns: ["context", "action", "result", "tags"], content: true },
+  { table: "experience_revisions", columns: ["context", "action", "result", "tags"], content: true },
+  { table: "preferences", columns: ["value", "source"] },
+  { table: "preference_revisions", columns: ["value", "source"] },
+  { table: "preference_contradictions", columns: ["note", "source"] },
+  { table: "memory_feedback", columns: ["query", "note"] },
+  { table: "memory_links", columns: ["note"] },
+  { table: "patterns", columns: ["description"], json: ["examples"] },
+];
+
+export interface ScrubChange {
+  table: string;
+  id: number;
+  counts: RedactionCounts;
+}
+
+export interface ScrubReport {
+  applied: boolean;
+  changes: ScrubChange[];
+  totals: RedactionCounts;
+  /** Experiences whose vector was dropped and must be re-embedded. */
+  reembedExperiences: number[];
+  /** Preferences whose vector was dropped and must be re-embedded. */
+  reembedPreferences: number[];
+}
+
+function redactJsonArray(raw: string | null, counts: RedactionCounts, config?: MemoryConfig): string | null {
+  if (!raw) return raw;
+  try {
+    const items = JSON.parse(raw);
+    if (!Array.isArray(items)) return redactSecrets(raw, counts, config);
+    return JSON.stringify(items.map((item) => (typeof item === "string" ? redactSecrets(item, counts, config) : item)));
+  } catch {
+    return redactSecrets(raw, counts, config);
+  }
+}
+
+function deleteVectors(db: BetterSqlite3.Database, vecTable: string, idColumn: string, ids: number[]): void {
+  if (ids.length === 0) return;
+  try {
+    const stmt = db.prepare(`DELETE FROM ${vecTable} WHERE ${idColumn} = ?`);
+    for (const id of ids) stmt.run(BigInt(id));
+  } catch {
+    // vec table missing (sqlite-vec unavailable): nothing to drop
+  }
+}
+
+/**
+ * Scan stored rows (soft-deleted and invalidated ones included) for
+ * secrets. Dry-run by default. With `apply`, rewrites the rows in one
+ * transaction — the experiences FTS triggers re-index them — drops the
+ * vectors of changed experiences/preferences (the caller re-embeds them),
+ * then merges the FTS segments and VACUUMs so the original text does not
+ * survive in old index segments or free pages.
+ */
+export function scrubSecrets(
+  db: BetterSqlite3.Database,
+  options: { apply?: boolean; config?: MemoryConfig } = {}
+): ScrubReport {
+  const report: ScrubReport = {
+    applied: !!options.apply,
+    changes: [],
+    totals: {},
+    reembedExperiences: [],
+    reembedPreferences: [],
+  };
+  const updates: { table: string; id: number; values: Record<string, string | null>; oldTags?: string[] }[] = [];
+
+  for (const target of SCRUB_TARGETS) {
+    const columns = [...target.columns, ...(target.json ?? []), ...(target.content ? ["normalized_hash"] : [])];
+    const rows = db.prepare(`SELECT id, ${columns.join(", ")} FROM ${target.table}`).all() as any[];
+    for (const row of rows) {
+      const counts: RedactionCounts = {};
+      const values: Record<string, string | null> = {};
+      for (const col of target.columns) values[col] = row[col] ? redactSecrets(row[col], counts, options.config) : row[col];
+      for (const col of target.json ?? []) values[col] = redactJsonArray(row[col], counts, options.config);
+      if (countRedactions(counts) === 0) continue;
+
+      let oldTags: string[] | undefined;
+      if (target.content) {
+        if (values.tags !== row.tags) {
+          values.tags = formatTags(parseTags(values.tags));
+          oldTags = parseTags(row.tags);
+        }
+        if (row.normalized_hash !== null) {
+          values.normalized_hash = computeHash(values.context ?? "", values.action ?? "", values.result ?? "");
+        }
+      }
+
+      report.changes.push({ table: target.table, id: row.id, counts });
+      for (const [rule, n] of Object.entries(counts)) report.totals[rule] = (report.totals[rule] ?? 0) + n;
+      updates.push({ table: target.table, id: row.id, values, oldTags });
+      if (target.table === "experiences") report.reembedExperiences.push(row.id);
+      if (target.table === "preferences") report.reembedPreferences.push(row.id);
+    }
+  }
+
+  if (!options.apply || updates.length === 0) return report;
+
+  db.transaction(() => {
+    for (const u of updates) {
+      const set = Object.keys(u.values).map((col) => `${col} = @${col}`).join(", ");
+      db.prepare(`UPDATE ${u.table} SET ${set} WHERE id = @id`).run({ ...u.values, id: u.id });
+      if (u.table === "experiences" && u.oldTags) {
+        syncExperienceTags(db, u.id, u.values.tags ?? "");
+        // The unmasked tag names must not survive in the tags table
+        const unused = db.prepare(
+          `DELETE FROM tags WHERE name = ? AND id NOT IN (SELECT tag_id FROM experience_tags)`
+        );
+        for (const name of u.oldTags) unused.run(name);
+      }
+    }
+    deleteVectors(db, "vec_experiences", "experience_id", report.reembedExperiences);
+    deleteVectors(db, "vec_preferences", "preference_id", report.reembedPreferences);
+  })();
+
+  db.exec(`INSERT INTO experiences_fts(experiences_fts) VALUES('optimize')`);
+  db.exec("VACUUM");
+  return report;
+}
+
+/** Human-readable scrub report (CLI scrub_secrets). */
+export function formatScrubReport(report: ScrubReport): string {
+  const mode = report.applied ? "applied" : "dry-run";
+  if (report.changes.length === 0) return `Secret scrub (${mode}): no secrets found.`;
+
+  const perTable = new Map<string, number>();
+  for (const c of report.changes) perTable.set(c.table, (perTable.get(c.table) ?? 0) + 1);
+
+  const lines = [
+    `Secret scrub (${mode}): ${report.changes.length} row(s) with secrets, ${countRedactions(report.totals)} masked`,
+    `  rows: ${[...perTable].map(([table, n]) => `${table} ${n}`).join(", ")}`,
+    `  rules: ${Object.entries(report.totals)
+      .map(([rule, n]) => `${rule} x${n}`)
+      .join(", ")}`,
+  ];
+  if (report.applied) {
+    lines.push(`Rows rewritten; FTS index optimized and database vacuumed.`);
+  } else {
+    lines.push(`Run with --apply to rewrite them (FTS entries and vectors are refreshed).`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,120 @@
+/**
+ * rerank.ts - Optional cross-encoder reranking of hybrid search results.
+ *
+ * hybridSearch embeds the query and each memory separately (bi-encoder)
+ * and adds BM25 term coverage, so a long experience that touches many of
+ * the query's words can outrank the short, precise fix. A cross-encoder
+ * reads query and memory together and judges relevance far better, but
+ * costs one model pass per pair, so it only re-scores the top
+ * `rerank.candidates` direct matches (config.json `rerank`).
+ *
+ * The new score blends the search score with the cross-encoder's sigmoid
+ * (blendRerankScore, scoring.ts), so it stays in [0, 1] and keeps working
+ * with MIN_PROMPT_RELEVANCE in selectRelevant. Memories pulled in through
+ * links keep their place after the matches. If the model cannot be loaded
+ * the results are returned unchanged.
+ *
+ * The model runs in cross-encoder.ts; the scorer is a parameter so the
+ * ranking can be tested without downloading it. Functions take the
+ * database handle as a parameter so they can be tested against in-memory
+ * databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { getConfig, type MemoryConfig } from "./config.js";
+import { blendRerankScore, crossEncoderRelevance } from "./scoring.js";
+import type { ScoredMemory } from "./links.js";
+
+/** Relevance logits for (query, doc) pairs, or null when the model is unavailable. */
+export type RerankScorer = (query: string, docs: string[]) => Promise<number[] | null>;
+
+/** Whether to rerank: an explicit per-call choice wins over config.json. */
+export function shouldRerank(requested?: boolean, config: MemoryConfig = getConfig()): boolean {
+  return requested ?? config.rerank.enabled;
+}
+
+/**
+ * How many results to ask hybridSearch for so the cross-encoder sees
+ * `rerank.candidates` of them even when the caller wants fewer.
+ */
+export function rerankFetchLimit(limit: number, config: MemoryConfig = getConfig()): number {
+  return Math.max(limit, config.rerank.candidates);
+}
+
+/** Text the cross-encoder reads for each memory, keyed "experience:ID" / "preference:ID". */
+export function loadRerankTexts(
+  db: BetterSqlite3.Database,
+  results: Pick<ScoredMemory, "id" | "source">[]
+): Map<string, string> {
+  const texts = new Map<string, string>();
+  const ids = (source: ScoredMemory["source"]) =>
+    JSON.stringify(results.filter((r) => r.source === source).map((r) => r.id));
+
+  const experiences = db
+    .prepare(
+      `SELECT id, context, action, result FROM experiences WHERE id IN (SELECT value FROM json_each(?))`
+    )
+    .all(ids("experience")) as { id: number; context: string | null; action: string | null; result: string | null }[];
+  for (const e of experiences) {
+    texts.set(`experience:${e.id}`, [e.context, e.action, e.result].filter(Boolean).join("\n"));
+  }
+
+  const preferences = db
+    .prepare(`SELECT id, key, value FROM preferences WHERE id IN (SELECT value FROM json_each(?))`)
+    .all(ids("preference")) as { id: number; key: string; value: string }[];
+  for (const p of preferences) texts.set(`preference:${p.id}`, `${p.key}: ${p.value}`);
+
+  return texts;
+}
+
+/**
+ * Re-score the top direct matches with the cross-encoder and re-sort
+ * them. `rerankScore` is set to the cross-encoder's relevance in [0, 1]
+ * on every re-scored result. With `limit`, only the best `limit` direct
+ * matches are kept, with the linked memories hanging off them.
+ */
+export async function rerankResults<T extends ScoredMemory>(
+  db: BetterSqlite3.Database,
+  query: string,
+  results: T[],
+  options: { scorer: RerankScorer; limit?: number; config?: MemoryConfig }
+): Promise<T[]> {
+  const reranked = await rescore(db, query, results, options.scorer, options.config ?? getConfig());
+  if (options.limit === undefined) return reranked;
+  const kept = reranked.filter((r) => !r.linkedFrom).slice(0, options.limit);
+  const keptKeys = new Set(kept.map((r) => `${r.source}:${r.id}`));
+  return [
+    ...kept,
+    ...reranked.filter((r) => r.linkedFrom && keptKeys.has(`${r.linkedFrom.source}:${r.linkedFrom.id}`)),
+  ];
+}
+
+async function rescore<T extends ScoredMemory>(
+  db: BetterSqlite3.Database,
+  query: string,
+  results: T[],
+  scorer: RerankScorer,
+  config: MemoryConfig
+): Promise<T[]> {
+  if (!query.trim()) return results;
+  const direct = results.filter((r) => !r.linkedFrom);
+  const linked = results.filter((r) => r.linkedFrom);
+  const top = direct.slice(0, config.rerank.candidates);
+  const texts = loadRerankTexts(db, top);
+  // Memories deleted since the search have no text and keep their place
+  const candidates = top.filter((r) => texts.has(`${r.source}:${r.id}`));
+  if (candidates.length === 0) return results;
+
+  const logits = await scorer(query, candidates.map((r) => texts.get(`${r.source}:${r.id}`)!));
+  if (!logits || logits.length !== candidates.length) return results;
+
+  const reranked = candidates
+    .map((r, i) => ({
+      ...r,
+      score: blendRerankScore(r.score, logits[i], config.rerank.weight),
+      rerankScore: crossEncoderRelevance(logits[i]),
+    }))
+    .sort((a, b) => b.score - a.score);
+  const rescored = new Set(candidates);
+  return [...reranked, ...direct.filter((r) => !rescored.has(r)), ...linked];
+}
@@ -0,0 +1,102 @@
+/**
+ * retention.ts - Declarative retention policies for experiences.
+ *
+ * config.json `retention.rules` says how long each experience type is
+ * kept, optionally per project:
+ *   { "type": "auto_capture", "days": 7 }
+ *   { "type": "correction", "days": null }               never expires
+ *   { "type": "gotcha", "days": 730 }
+ *   { "type": "auto_capture", "project": "api", "days": 30 }
+ *   { "type": "*", "days": 365 }                         every other type
+ *
+ * For each (type, project) the most specific rule wins: an exact type
+ * beats "*", and for the same type a rule naming the project beats one
+ * without it. Types no rule matches are kept forever. There are no
+ * default rules: nothing expires until the user configures it.
+ *
+ * Age is measured from last_seen_at (bumped by dedupe hits and topic
+ * upserts), falling back to created_at. Pinned experiences (pins.ts) never
+ * expire. Expired rows are soft-deleted in
+ * one deletion batch, so `restore_memory batch=...` undoes a run and the
+ * trash purge removes them for good later.
+ *
+ * Enforced by runConsolidation (consolidate.ts). Functions take the
+ * database handle as a parameter so they can be tested against in-memory
+ * databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import type { MemoryConfig } from "./config.js";
+import { NOT_PINNED_SQL } from "./pins.js";
+
+export type RetentionRule = MemoryConfig["retention"]["rules"][number];
+
+export interface RetentionOutcome {
+  rule: RetentionRule;
+  /** Active experiences past the rule's age. */
+  expired: number;
+}
+
+export interface RetentionScan {
+  outcomes: RetentionOutcome[];
+  ids: number[];
+}
+
+/** Most specific rule for an experience type in a project, or null. */
+export function matchRetentionRule(rules: RetentionRule[], type: string, project: string): RetentionRule | null {
+  let best: RetentionRule | null = null;
+  let bestRank = -1;
+  for (const rule of rules) {
+    if (rule.type !== type && rule.type !== "*") continue;
+    if (rule.project !== undefined && rule.project !== project) continue;
+    const rank = (rule.type === type ? 2 : 0) + (rule.project !== undefined ? 1 : 0);
+    if (rank > bestRank) {
+      best = rule;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/** Active experiences that the rules consider expired, counted per rule. */
+export function findExpiredExperiences(db: BetterSqlite3.Database, rules: RetentionRule[]): RetentionScan {
+  const expired = new Map<RetentionRule, number[]>(rules.map((r) => [r, []]));
+
+  const groups = db
+    .prepare(`SELECT DISTINCT type, COALESCE(project, '') AS project FROM experiences WHERE deleted_at IS NULL`)
+    .all() as { type: string; project: string }[];
+  const selectExpired = db.prepare(
+    `SELECT id FROM experiences
+     WHERE type = @type AND COALESCE(project, '') = @project AND deleted_at IS NULL
+       AND ${NOT_PINNED_SQL}
+       AND COALESCE(last_seen_at, created_at) < datetime('now', '-' || @days || ' days')`
+  );
+
+  for (const group of groups) {
+    const rule = matchRetentionRule(rules, group.type, group.project);
+    if (!rule || rule.days === null) continue;
+    const ids = (selectExpired.all({ ...group, days: rule.days }) as { id: number }[]).map((r) => r.id);
+    expired.get(rule)!.push(...ids);
+  }
+
+  const outcomes = rules.map((rule) => ({ rule, expired: expired.get(rule)!.length }));
+  return { outcomes, ids: [...expired.values()].flat().sort((a, b) => a - b) };
+}
+
+/** Soft-delete the given experiences under one deletion batch. */
+export function softDeleteExpired(db: BetterSqlite3.Database, ids: number[], batch: string): number {
+  if (ids.length === 0) return 0;
+  return db
+    .prepare(
+      `UPDATE experiences SET deleted_at = datetime('now'), deleted_batch = @batch
+       WHERE id IN (SELECT value FROM json_each(@ids)) AND deleted_at IS NULL`
+    )
+    .run({ ids: JSON.stringify(ids), batch }).changes;
+}
+
+/** "auto_capture [api]: 7 days" / "correction: kept forever". */
+export function formatRetentionRule(rule: RetentionRule): string {
+  const scope = rule.project !== undefined ? ` [${rule.project}]` : "";
+  const keep = rule.days === null ? "kept forever" : `${rule.days} days`;
+  return `${rule.type === "*" ? "(any type)" : rule.type}${scope}: ${keep}`;
+}
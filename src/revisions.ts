@@ -0,0 +1,127 @@
+/**
+ * revisions.ts - Revision history for topic_key experiences.
+ *
+ * A topic_key upsert overwrites context/action/result in place. Before it
+ * does, the current content is copied into `experience_revisions` tagged
+ * with the revision number it had, so every previous version of an
+ * evolving topic (e.g. `arch:database-schema`) stays inspectable and can be
+ * restored. The live row always holds the latest revision
+ * (revision_count); the table holds the earlier ones.
+ *
+ * A rollback never rewrites history: it snapshots the current content like
+ * any other upsert and then copies the chosen revision forward as a new
+ * revision.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts); production
+ * passes the singleton from database.ts.
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { syncExperienceTags } from "./tags.js";
+
+export interface ExperienceRevision {
+  revision: number;
+  context: string | null;
+  action: string | null;
+  result: string | null;
+  success: number | null;
+  tags: string | null;
+  /** When this content was replaced by the next revision (null = live row). */
+  replaced_at: string | null;
+}
+
+/**
+ * Copy the current content of an experience into experience_revisions.
+ * Idempotent per revision number (a repeated snapshot is ignored).
+ */
+export function snapshotExperience(db: BetterSqlite3.Database, experienceId: number): void {
+  db.prepare(
+    `INSERT OR IGNORE INTO experience_revisions
+       (experience_id, revision, context, action, result, success, tags, normalized_hash)
+     SELECT id, COALESCE(revision_count, 1), context, action, result, success, tags, normalized_hash
+     FROM experiences WHERE id = @id`
+  ).run({ id: experienceId });
+}
+
+/**
+ * Every known revision of an experience, oldest first, ending with the
+ * live row (replaced_at = null). Revisions overwritten before history was
+ * recorded are simply absent.
+ */
+export function listRevisions(db: BetterSqlite3.Database, experienceId: number): ExperienceRevision[] {
+  const past = db
+    .prepare(
+      `SELECT revision, context, action, result, success, tags, replaced_at
+       FROM experience_revisions WHERE experience_id = @id ORDER BY revision ASC`
+    )
+    .all({ id: experienceId }) as ExperienceRevision[];
+
+  const live = db
+    .prepare(
+      `SELECT COALESCE(revision_count, 1) AS revision, context, action, result, success, tags,
+         NULL AS replaced_at
+       FROM experiences WHERE id = @id`
+    )
+    .get({ id: experienceId }) as ExperienceRevision | undefined;
+
+  return live ? [...past, live] : past;
+}
+
+export type RollbackResult =
+  | { ok: true; experienceId: number; fromRevision: number; toRevision: number; newRevision: number }
+  | { ok: false; reason: "not_found" | "revision_not_found" | "already_current" };
+
+/**
+ * Restore the content of `revision` onto the live row of an experience.
+ * Runs in a transaction: the current content is snapshotted first, then the
+ * old revision is written as revision_count + 1.
+ */
+export function rollbackExperience(
+  db: BetterSqlite3.Database,
+  params: { experienceId: number; revision: number }
+): RollbackResult {
+  const current = db
+    .prepare(`SELECT id, revision_count FROM experiences WHERE id = @id AND deleted_at IS NULL`)
+    .get({ id: params.experienceId }) as { id: number; revision_count: number | null } | undefined;
+  if (!current) return { ok: false, reason: "not_found" };
+
+  const currentRevision = current.revision_count ?? 1;
+  if (params.revision === currentRevision) return { ok: false, reason: "already_current" };
+
+  const target = db
+    .prepare(
+      `SELECT * FROM experience_revisions WHERE experience_id = @id AND revision = @revision`
+    )
+    .get({ id: params.experienceId, revision: params.revision }) as any;
+  if (!target) return { ok: false, reason: "revision_not_found" };
+
+  db.transaction(() => {
+    snapshotExperience(db, params.experienceId);
+    db.prepare(
+      `UPDATE experiences
+       SET context = @context, action = @action, result = @result, success = @success,
+           tags = @tags, normalized_hash = @normalized_hash,
+           revision_count = COALESCE(revision_count, 1) + 1,
+           last_seen_at = datetime('now')
+       WHERE id = @id`
+    ).run({
+      id: params.experienceId,
+      context: target.context,
+      action: target.action,
+      result: target.result,
+      success: target.success,
+      tags: target.tags,
+      normalized_hash: target.normalized_hash,
+    });
+    syncExperienceTags(db, params.experienceId, target.tags ?? "");
+  })();
+
+  return {
+    ok: true,
+    experienceId: params.experienceId,
+    fromRevision: currentRevision,
+    toRevision: params.revision,
+    newRevision: currentRevision + 1,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * scopes.ts - Hierarchical preference scopes.
+ *
+ * A preference's `scope` column holds one of:
+ *   - "global"                       applies everywhere
+ *   - "<layer>:<name>"               an intermediate layer from the config
+ *                                    (default layers: org, team, stack),
+ *                                    e.g. "org:acme", "stack:typescript"
+ *   - "<project>"                    a project (canonical registry name)
+ *   - "package:<project>:<package>"  one package of a monorepo project
+ *
+ * For a project the inheritance chain runs from general to specific:
+ * global → configured layers (in config order) → project → package. When
+ * several layers define the same key the most specific one wins, and the
+ * winning row carries `_origin` (layer name) and `_scope` (exact scope) so
+ * every output can say where the value came from.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { getConfig, type MemoryConfig } from "./config.js";
+import { NOT_EXPIRED_SQL } from "./expiry.js";
+
+export interface ParsedScope {
+  /** "global", a configured layer, "project" or "package". */
+  layer: string;
+  /** Canonical scope string as stored in preferences.scope. */
+  scope: string;
+}
+
+export interface ScopeChainOptions {
+  package?: string;
+  config?: MemoryConfig;
+}
+
+/** Scope string for one package of a monorepo project. */
+export function packageScope(project: string, pkg: string): string {
+  return `package:${project}:${pkg.trim()}`;
+}
+
+/**
+ * Classify a scope string. Returns null for "<x>:<name>" where x is not a
+ * configured layer, so typos like "tem:payments" are rejected instead of
+ * being stored as a project called "tem:payments".
+ */
+export function parseScope(scope: string, layers: string[] = getConfig().scopes.layers): ParsedScope | null {
+  const value = scope.trim();
+  if (!value) return null;
+  if (value === "global") return { layer: "global", scope: "global" };
+
+  const colon = value.indexOf(":");
+  if (colon === -1) return { layer: "project", scope: value };
+
+  const layer = value.slice(0, colon).trim().toLowerCase();
+  const name = value.slice(colon + 1).trim();
+  if (!name) return null;
+
+  if (layer === "package") {
+    const sep = name.lastIndexOf(":");
+    if (sep <= 0 || sep === name.length - 1) return null;
+    return { layer, scope: packageScope(name.slice(0, sep).trim(), name.slice(sep + 1)) };
+  }
+  if (!layers.includes(layer)) return null;
+  return { layer, scope: `${layer}:${name}` };
+}
+
+/**
+ * Normalize a user-supplied scope (learn_preference, forget_memory): layer
+ * scopes are canonicalized, project names (including the project part of a
+ * package scope) go through `resolveProject` (registry aliases). Returns
+ * null when the scope is not valid.
+ */
+export function normalizeScopeParam(
+  value: string | undefined,
+  resolveProject: (name: string) => string,
+  layers: string[] = getConfig().scopes.layers
+): string | null {
+  if (!value || value.trim() === "global") return "global";
+  const parsed = parseScope(value, layers);
+  if (!parsed) return null;
+  if (parsed.layer === "project") return resolveProject(parsed.scope) || null;
+  if (parsed.layer === "package") {
+    const rest = parsed.scope.slice("package:".length);
+    const sep = rest.lastIndexOf(":");
+    return packageScope(resolveProject(rest.slice(0, sep)), rest.slice(sep + 1));
+  }
+  return parsed.scope;
+}
+
+/**
+ * Inheritance chain for a project, most general first. Layer scopes come
+ * from config.scopes.projects ("*" plus the project's own entry); unknown
+ * layers in the config are ignored.
+ */
+export function scopeChain(project: string, options: ScopeChainOptions = {}): string[] {
+  const config = options.config ?? getConfig();
+  const { layers, projects } = config.scopes;
+
+  const chain = ["global"];
+  if (!project) return chain;
+
+  const configured = [...(projects["*"] ?? []), ...(projects[project] ?? [])]
+    .map((s) => parseScope(s, layers))
+    .filter((p): p is ParsedScope => p !== null && layers.includes(p.layer));
+  // Stable sort by layer order, so two scopes of the same layer keep the
+  // config order (the later one is more specific).
+  configured.sort((a, b) => layers.indexOf(a.layer) - layers.indexOf(b.layer));
+  for (const p of configured) {
+    if (!chain.includes(p.scope)) chain.push(p.scope);
+  }
+
+  chain.push(project);
+  if (options.package?.trim()) chain.push(packageScope(project, options.package));
+  return chain;
+}
+
+/**
+ * True when some project inherits both scopes, i.e. preferences in them can
+ * meet in one merged chain: the same scope, global with anything, a scope
+ * with the chain of a project / package under it, or two layers configured
+ * for the same project.
+ */
+export function scopesOverlap(a: string, b: string, config: MemoryConfig = getConfig()): boolean {
+  if (a === b || a === "global" || b === "global") return true;
+  const { layers, projects } = config.scopes;
+
+  const chainOf = (scope: string): string[] | null => {
+    const parsed = parseScope(scope, layers);
+    if (parsed?.layer === "project") return scopeChain(parsed.scope, { config });
+    if (parsed?.layer === "package") {
+      const rest = parsed.scope.slice("package:".length);
+      const sep = rest.lastIndexOf(":");
+      return scopeChain(rest.slice(0, sep), { package: rest.slice(sep + 1), config });
+    }
+    return null;
+  };
+  if (chainOf(a)?.includes(b) || chainOf(b)?.includes(a)) return true;
+
+  // Two layers: both under "*" or both in one configured project's chain
+  const everywhere = (projects["*"] ?? []).map((s) => parseScope(s, layers)?.scope);
+  if (everywhere.includes(a) && everywhere.includes(b)) return true;
+  return Object.keys(projects)
+    .filter((project) => project !== "*")
+    .some((project) => {
+      const chain = scopeChain(project, { config });
+      return chain.includes(a) && chain.includes(b);
+    });
+}
+
+/** "global → org:acme → api" for labels. */
+export function describeScopeChain(chain: string[]): string {
+  return chain.join(" → ");
+}
+
+/** Layer of a canonical scope string (as produced by scopeChain). */
+function layerOf(scope: string): string {
+  if (scope === "global") return "global";
+  const colon = scope.indexOf(":");
+  return colon === -1 ? "project" : scope.slice(0, colon);
+}
+
+/**
+ * Active (not invalidated or expired) preferences along a chain, merged so
+ * the most specific scope wins for each key. Unsorted and without decay (the caller applies both).
+ */
+export function mergeScopedPreferences(db: BetterSqlite3.Database, chain: string[]): any[] {
+  if (chain.length === 0) return [];
+  const rows = db
+    .prepare(
+      `SELECT * FROM preferences
+       WHERE scope IN (${chain.map(() => "?").join(", ")}) AND invalidated_at IS NULL AND ${NOT_EXPIRED_SQL}
+       ORDER BY confidence DESC`
+    )
+    .all(...chain) as any[];
+
+  const rank = new Map(chain.map((scope, i) => [scope, i]));
+  const merged = new Map<string, any>();
+  for (const row of rows) {
+    const current = merged.get(row.key);
+    if (current && rank.get(current.scope)! >= rank.get(row.scope)!) continue;
+    merged.set(row.key, { ...row, _origin: layerOf(row.scope), _scope: row.scope });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Every row for one key along the chain, most specific first, including
+ * invalidated ones (explicit lookups show them flagged).
+ */
+export function lookupScopedPreference(db: BetterSqlite3.Database, key: string, chain: string[]): any[] {
+  const stmt = db.prepare(`SELECT * FROM preferences WHERE key = ? AND scope = ?`);
+  const found: any[] = [];
+  for (const scope of [...chain].reverse()) {
+    const row = stmt.get(key, scope) as any;
+    if (row) found.push({ ...row, _origin: layerOf(scope), _scope: scope });
+  }
+  return found;
+}
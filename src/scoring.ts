@@ -5,18 +5,32 @@
  * in isolation and reused by both the search layer and the socket server.
  */
 
+import { getConfig, DEFAULT_HALF_LIFE_DAYS, type FUSION_STRATEGIES, type MemoryConfig } from "./config.js";
+
 /** Minimum fused score required to inject a memory into the prompt context. */
 export const MIN_PROMPT_RELEVANCE = 0.4;
 
 /** Maximum number of memories injected per user prompt. */
 export const MAX_PROMPT_MEMORIES = 3;
 
-/** Weight of the vector channel in the fused score. */
+/** Default weight of the vector channel in the fused score (config.json `fusion.vector_weight`). */
 export const VECTOR_WEIGHT = 0.7;
 
-/** Weight of the FTS channel in the fused score. */
+/** Default weight of the FTS channel in the fused score (config.json `fusion.fts_weight`). */
 export const FTS_WEIGHT = 0.3;
 
+/** Default Reciprocal Rank Fusion constant: larger k flattens the rank curve. */
+export const RRF_K = 60;
+
+/**
+ * Channel score a memory needs for its rank to count in RRF: what the
+ * channel alone would need to be injected, so a rank is never built on a
+ * weak match.
+ */
+export const RRF_MIN_CHANNEL_SCORE = MIN_PROMPT_RELEVANCE;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
 function clamp01(value: number): number {
   return Math.max(0, Math.min(1, value));
 }
@@ -51,35 +65,333 @@ export function computeFtsScore(bm25: number, matchedTerms: number, totalTerms:
 
 /**
  * Fused absolute score in [0, 1]:
- *   score = VECTOR_WEIGHT * vectorSimilarity + FTS_WEIGHT * ftsScore
- * A channel that did not match contributes 0, so the result is an absolute
- * value comparable against MIN_PROMPT_RELEVANCE regardless of which
- * channels were available for a given row.
+ *   score = vectorWeight * vectorSimilarity + ftsWeight * ftsScore
+ * with the weights normalized to sum 1 (VECTOR_WEIGHT / FTS_WEIGHT by
+ * default). A channel that did not match contributes 0, so the result is
+ * an absolute value comparable against MIN_PROMPT_RELEVANCE regardless of
+ * which channels were available for a given row.
+ */
+export function fuseScores(
+  vectorSimilarity: number,
+  ftsScore: number,
+  weights: ChannelWeights = { vectorWeight: VECTOR_WEIGHT, ftsWeight: FTS_WEIGHT }
+): number {
+  const { vectorWeight, ftsWeight } = normalizeWeights(weights);
+  return clamp01(vectorWeight * clamp01(vectorSimilarity) + ftsWeight * clamp01(ftsScore));
+}
+
+// ── Channel fusion strategies ────────────────────────────
+
+export type FusionStrategy = (typeof FUSION_STRATEGIES)[number];
+
+export interface ChannelWeights {
+  vectorWeight: number;
+  ftsWeight: number;
+}
+
+export interface FusionPolicy extends ChannelWeights {
+  strategy: FusionStrategy;
+  rrfK: number;
+  /** "learned": rated memories the weights were fitted to (fusion.ts). */
+  learnedFrom?: number;
+}
+
+/** Signals of one memory in each search channel, before fusion. */
+export interface ChannelScores {
+  /** Cosine similarity in [0, 1], 0 when the vector channel missed it. */
+  vector: number;
+  /** computeFtsScore in [0, 1], 0 when the FTS channel missed it. */
+  fts: number;
+}
+
+/** Weights scaled to sum 1; two zero weights count as equal. */
+export function normalizeWeights(weights: ChannelWeights): ChannelWeights {
+  const total = weights.vectorWeight + weights.ftsWeight;
+  if (total <= 0) return { vectorWeight: 0.5, ftsWeight: 0.5 };
+  return { vectorWeight: weights.vectorWeight / total, ftsWeight: weights.ftsWeight / total };
+}
+
+/**
+ * Fusion policy for a search (config.json `fusion`): the project's entry
+ * in `fusion.projects` overrides the global settings, and an explicit
+ * per-query `strategy` wins over both. For "learned" the weights returned
+ * here are only the prior; loadFusionPolicy (fusion.ts) fits them to
+ * feedback.
+ */
+export function resolveFusionPolicy(
+  project?: string,
+  strategy?: FusionStrategy,
+  config: MemoryConfig = getConfig()
+): FusionPolicy {
+  const { fusion } = config;
+  const own = project && Object.hasOwn(fusion.projects, project) ? fusion.projects[project] : {};
+  return {
+    strategy: strategy ?? own.strategy ?? fusion.strategy,
+    ...normalizeWeights({
+      vectorWeight: own.vector_weight ?? fusion.vector_weight,
+      ftsWeight: own.fts_weight ?? fusion.fts_weight,
+    }),
+    rrfK: own.rrf_k ?? fusion.rrf_k,
+  };
+}
+
+/**
+ * 1-based rank of each key in one channel, best first; keys it missed or
+ * scored below `minScore` are absent.
+ */
+function channelRanks(
+  channels: Map<string, ChannelScores>,
+  channel: keyof ChannelScores,
+  minScore: number
+): Map<string, number> {
+  const ranked = [...channels]
+    .filter(([, s]) => s[channel] > 0 && s[channel] >= minScore)
+    .sort((a, b) => b[1][channel] - a[1][channel]);
+  return new Map(ranked.map(([key], i) => [key, i + 1]));
+}
+
+/**
+ * Fuse the channel scores of every candidate into one score in [0, 1]:
+ *   - weighted / learned  fuseScores with the policy's weights: absolute,
+ *                         so MIN_PROMPT_RELEVANCE keeps its meaning
+ *   - max                 the stronger channel: a memory only one channel
+ *                         finds is not diluted by the other
+ *   - rrf                 Reciprocal Rank Fusion, sum of 1 / (k + rank)
+ *                         over the channels that found the memory,
+ *                         divided by its maximum (first in both) so it
+ *                         lands in [0, 1]. Only ranks count, so raw score
+ *                         scales do not matter. Ranks are relative to the
+ *                         candidates, so a channel only ranks memories it
+ *                         scores at least RRF_MIN_CHANNEL_SCORE: a weak
+ *                         match that happens to be first does not clear
+ *                         the injection threshold.
+ */
+export function fuseChannels(channels: Map<string, ChannelScores>, policy: FusionPolicy): Map<string, number> {
+  const fused = new Map<string, number>();
+  if (policy.strategy === "rrf") {
+    const ranks = {
+      vector: channelRanks(channels, "vector", RRF_MIN_CHANNEL_SCORE),
+      fts: channelRanks(channels, "fts", RRF_MIN_CHANNEL_SCORE),
+    };
+    const best = 2 / (policy.rrfK + 1);
+    for (const key of channels.keys()) {
+      let sum = 0;
+      for (const rank of [ranks.vector.get(key), ranks.fts.get(key)]) {
+        if (rank !== undefined) sum += 1 / (policy.rrfK + rank);
+      }
+      fused.set(key, clamp01(sum / best));
+    }
+    return fused;
+  }
+  for (const [key, scores] of channels) {
+    fused.set(
+      key,
+      policy.strategy === "max" ? clamp01(Math.max(scores.vector, scores.fts)) : fuseScores(scores.vector, scores.fts, policy)
+    );
+  }
+  return fused;
+}
+
+/** "weighted (vector 0.70, fts 0.30)", "rrf (k 60)", "max", "learned (vector 0.64, fts 0.36, 12 votes)". */
+export function describeFusionPolicy(policy: FusionPolicy): string {
+  const weights = `vector ${policy.vectorWeight.toFixed(2)}, fts ${policy.ftsWeight.toFixed(2)}`;
+  switch (policy.strategy) {
+    case "weighted":
+      return `weighted (${weights})`;
+    case "learned":
+      return `learned (${weights}, ${policy.learnedFrom ?? 0} votes)`;
+    case "rrf":
+      return `rrf (k ${policy.rrfK})`;
+    case "max":
+      return "max";
+  }
+}
+
+/** Largest relative boost usage can add to a fused score (+10%). */
+export const USAGE_BOOST_MAX = 0.1;
+
+/** Access count at which the usage boost saturates. */
+export const USAGE_BOOST_SATURATION = 20;
+
+/**
+ * Usage-aware ranking: frequently retrieved memories (access.ts) rank a
+ * little higher. The boost grows logarithmically with the access count and
+ * saturates at USAGE_BOOST_SATURATION, so it reorders close matches but
+ * cannot lift an irrelevant memory (score 0 stays 0) or let popularity
+ * outweigh relevance. Clamped to [0, 1] like the fused score.
+ */
+export function applyUsageBoost(score: number, accessCount: number): number {
+  if (accessCount <= 0) return score;
+  const usage = Math.min(1, Math.log1p(accessCount) / Math.log1p(USAGE_BOOST_SATURATION));
+  return clamp01(score * (1 + USAGE_BOOST_MAX * usage));
+}
+
+// ── Experience aging ─────────────────────────────────────
+
+export interface AgingPolicy {
+  /** null = the type never ages. */
+  halfLifeDays: number | null;
+  /** Lowest factor an old memory can reach. */
+  floor: number;
+}
+
+/** Aging policy for an experience type (config.json `aging`). */
+export function resolveAgingPolicy(type: string, config: MemoryConfig = getConfig()): AgingPolicy {
+  const { aging } = config;
+  return {
+    halfLifeDays: Object.hasOwn(aging.types, type) ? aging.types[type] : aging.half_life_days,
+    floor: aging.floor,
+  };
+}
+
+/**
+ * Relevance factor in [floor, 1] for an experience last seen at `seenAt`:
+ *   factor = floor + (1 - floor) * 0.5 ^ (days / halfLifeDays)
+ * A memory from yesterday keeps ~1.0, one a half-life old sits halfway
+ * to the floor. The floor keeps an old but exact match above a fresh
+ * vague one, and since the factor only ever scales a score down, the
+ * fused score stays absolute and MIN_PROMPT_RELEVANCE keeps meaning the
+ * same. Unknown dates and types that never age get 1.
+ */
+export function computeAgingFactor(seenAt: string | null, policy: AgingPolicy, nowMs: number = Date.now()): number {
+  if (!seenAt || policy.halfLifeDays === null) return 1;
+  const days = Math.max(0, (nowMs - new Date(seenAt + "Z").getTime()) / DAY_MS);
+  const factor = policy.floor + (1 - policy.floor) * 0.5 ** (days / policy.halfLifeDays);
+  return Math.round(factor * 1000) / 1000;
+}
+
+/** Scale a fused score by its aging factor, clamped to [0, 1]. */
+export function applyAging(score: number, agingFactor: number): number {
+  return clamp01(score * agingFactor);
+}
+
+// ── Cross-encoder reranking ──────────────────────────────
+
+/** Cross-encoder logit as a relevance in [0, 1] (sigmoid). */
+export function crossEncoderRelevance(logit: number): number {
+  return 1 / (1 + Math.exp(-logit));
+}
+
+/**
+ * Blend a search score with a cross-encoder logit so the result stays in
+ * [0, 1] and comparable with MIN_PROMPT_RELEVANCE. weight 1 = cross-encoder
+ * only.
+ */
+export function blendRerankScore(score: number, logit: number, weight: number): number {
+  return clamp01((1 - weight) * score + weight * crossEncoderRelevance(logit));
+}
+
+// ── Explicit feedback (rate_memory) ──────────────────────
+
+/** Helpful / unhelpful votes recorded for one memory (feedback.ts). */
+export interface FeedbackTally {
+  helpful: number;
+  unhelpful: number;
+}
+
+/** Largest relative boost net helpful votes can add (+15%). */
+export const FEEDBACK_BOOST_MAX = 0.15;
+
+/** Largest relative penalty net unhelpful votes can apply (-50%). */
+export const FEEDBACK_PENALTY_MAX = 0.5;
+
+/** Net votes at which the boost / penalty saturates. */
+export const FEEDBACK_SATURATION = 3;
+
+/**
+ * A memory with at least this many unhelpful votes, outnumbering its
+ * helpful ones, is never injected automatically and is flagged for review
+ * in memory_stats. It stays reachable through query_memory / get_memory.
  */
-export function fuseScores(vectorSimilarity: number, ftsScore: number): number {
-  return VECTOR_WEIGHT * clamp01(vectorSimilarity) + FTS_WEIGHT * clamp01(ftsScore);
+export const FEEDBACK_SUPPRESS_VOTES = 3;
+
+/**
+ * Scale a score by the net feedback (helpful - unhelpful), linear up to
+ * FEEDBACK_SATURATION votes. Penalties are stronger than boosts: a memory
+ * the agent called wrong should drop out of the injection threshold
+ * quickly, while a helpful one only needs to win close calls.
+ */
+export function applyFeedback(score: number, tally?: FeedbackTally): number {
+  if (!tally) return score;
+  const net = tally.helpful - tally.unhelpful;
+  const weight = Math.min(1, Math.abs(net) / FEEDBACK_SATURATION);
+  const factor = net >= 0 ? 1 + FEEDBACK_BOOST_MAX * weight : 1 - FEEDBACK_PENALTY_MAX * weight;
+  return clamp01(score * factor);
+}
+
+/** True when feedback says the memory should not be injected automatically. */
+export function isSuppressedByFeedback(tally?: FeedbackTally): boolean {
+  return !!tally && tally.unhelpful >= FEEDBACK_SUPPRESS_VOTES && tally.unhelpful > tally.helpful;
 }
 
 /**
  * Keep only results above the relevance threshold, capped at
  * MAX_PROMPT_MEMORIES. Used by the on-prompt injection path: when nothing
- * passes the threshold, nothing is injected.
+ * passes the threshold, nothing is injected. Memories repeatedly rated
+ * unhelpful (isSuppressedByFeedback) are skipped whatever their score.
  */
-export function selectRelevant<T extends { score: number }>(results: T[]): T[] {
+export function selectRelevant<T extends { score: number; feedback?: FeedbackTally }>(results: T[]): T[] {
   return results
-    .filter((r) => r.score >= MIN_PROMPT_RELEVANCE)
+    .filter((r) => r.score >= MIN_PROMPT_RELEVANCE && !isSuppressedByFeedback(r.feedback))
     .slice(0, MAX_PROMPT_MEMORIES);
 }
 
 // ── Temporal decay for preferences ───────────────────────
 
+export interface DecayPolicy {
+  model: "ladder" | "half_life";
+  /** Used by the half_life model only. */
+  halfLifeDays: number;
+}
+
+/** The built-in model, used when config.json has no `decay` section. */
+export const LADDER_DECAY: DecayPolicy = { model: "ladder", halfLifeDays: DEFAULT_HALF_LIFE_DAYS };
+
+/**
+ * Steps of the ladder model: the factor applies up to `maxDays` days since
+ * the last confirmation.
+ */
+const LADDER_STEPS: { maxDays: number; factor: number }[] = [
+  { maxDays: 30, factor: 1.0 },
+  { maxDays: 90, factor: 0.9 },
+  { maxDays: 180, factor: 0.7 },
+  { maxDays: 365, factor: 0.5 },
+  { maxDays: 730, factor: 0.3 },
+  { maxDays: Infinity, factor: 0.15 },
+];
+
+/** "tool_*" matches every key starting with "tool_"; anything else is exact. */
+function keyMatches(pattern: string, key: string): boolean {
+  return pattern.endsWith("*") ? key.startsWith(pattern.slice(0, -1)) : pattern === key;
+}
+
 /**
- * Decay ladder for preference confidence, based on days since the
+ * Decay policy for a preference key: config.json `decay.keys` beats the
+ * first matching `decay.categories` entry, which beats the global model.
+ * An override that only sets half_life_days implies the half_life model.
+ */
+export function resolveDecayPolicy(key: string | undefined, config: MemoryConfig = getConfig()): DecayPolicy {
+  const { decay } = config;
+  const base: DecayPolicy = { model: decay.model, halfLifeDays: decay.half_life_days };
+  const override =
+    (key !== undefined && Object.hasOwn(decay.keys, key) ? decay.keys[key] : undefined) ??
+    (key !== undefined ? Object.values(decay.categories).find((c) => c.keys.some((p) => keyMatches(p, key))) : undefined);
+  if (!override) return base;
+  return {
+    model: override.model ?? (override.half_life_days !== undefined ? "half_life" : base.model),
+    halfLifeDays: override.half_life_days ?? base.halfLifeDays,
+  };
+}
+
+/**
+ * Decay factor for preference confidence, based on days since the
  * preference was last confirmed. There is NO floor: stale preferences
  * keep losing weight until they fall below AUTO_MIN_EFFECTIVE_CONFIDENCE
  * (see context-format.ts) and drop out of automatic outputs, while staying
  * reachable through explicit lookups (key= / all=true).
  *
+ * The ladder model (default) steps down:
+ *
  *   <= 30 days  -> 1.00   fresh, full confidence
  *   <= 90 days  -> 0.90
  *   <= 180 days -> 0.70
@@ -89,30 +401,91 @@ export function selectRelevant<T extends { score: number }>(results: T[]): T[] {
  *                         sits exactly on the automatic-output threshold
  *   >  730 days -> 0.15   hidden from automatic outputs at any confidence
  *
+ * The half_life model fades continuously, 0.5 ^ (days / halfLifeDays),
+ * so there is no overnight drop at a step boundary.
+ *
  * A null confirmation date means the age is unknown: treat it as
  * moderately stale (0.5) rather than fresh or ancient.
  */
-export function computeDecayFactor(lastConfirmedAt: string | null, nowMs: number = Date.now()): number {
+export function computeDecayFactor(
+  lastConfirmedAt: string | null,
+  nowMs: number = Date.now(),
+  policy: DecayPolicy = LADDER_DECAY
+): number {
   if (!lastConfirmedAt) return 0.5;
   const confirmed = new Date(lastConfirmedAt + "Z").getTime();
-  const daysSince = (nowMs - confirmed) / (1000 * 60 * 60 * 24);
+  const daysSince = (nowMs - confirmed) / DAY_MS;
+
+  if (policy.model === "half_life") {
+    return Math.round(0.5 ** (Math.max(0, daysSince) / policy.halfLifeDays) * 100) / 100;
+  }
+  return LADDER_STEPS.find((step) => daysSince <= step.maxDays)!.factor;
+}
 
-  if (daysSince <= 30) return 1.0;
-  if (daysSince <= 90) return 0.9;
-  if (daysSince <= 180) return 0.7;
-  if (daysSince <= 365) return 0.5;
-  if (daysSince <= 730) return 0.3;
-  return 0.15;
+/**
+ * When `confidence * decay` first falls below `threshold` for a
+ * preference confirmed at `lastConfirmedAt` (a past date when it already
+ * has), or null when it never will (the ladder's last step is still above)
+ * or the confirmation date is unknown. `confidence` should already include
+ * the contradiction factor.
+ */
+export function projectDecayBelow(
+  lastConfirmedAt: string | null,
+  confidence: number,
+  threshold: number,
+  policy: DecayPolicy = LADDER_DECAY
+): Date | null {
+  if (!lastConfirmedAt) return null;
+  const confirmedMs = new Date(lastConfirmedAt + "Z").getTime();
+
+  let days: number;
+  if (policy.model === "half_life") {
+    days = confidence <= threshold ? 0 : policy.halfLifeDays * Math.log2(confidence / threshold);
+  } else {
+    const index = LADDER_STEPS.findIndex((step) => confidence * step.factor < threshold);
+    if (index === -1) return null;
+    days = index === 0 ? 0 : LADDER_STEPS[index - 1].maxDays;
+  }
+  return new Date(confirmedMs + days * DAY_MS);
 }
 
-/** Attach effective_confidence (confidence * decay) and decay_factor to a preference row. */
+/**
+ * Weight of the evidence for a preference against its counter-examples
+ * (contradict_preference): confirmations / (confirmations + contradictions).
+ * Re-confirming recomputes confidence from confirmed_count and would erase
+ * a contradiction's confidence penalty; this factor keeps counting it.
+ *
+ *   never contradicted               -> 1.00
+ *   1 confirmation, 1 contradiction  -> 0.50
+ *   4 confirmations, 1 contradiction -> 0.80
+ */
+export function computeContradictionFactor(confirmedCount: number | null, contradictionCount: number | null): number {
+  const contradictions = contradictionCount ?? 0;
+  if (contradictions <= 0) return 1.0;
+  const confirmations = Math.max(1, confirmedCount ?? 1);
+  return Math.round((confirmations / (confirmations + contradictions)) * 100) / 100;
+}
+
+/**
+ * Attach effective_confidence (confidence * decay * contradiction factor),
+ * decay_factor and contradiction_factor to a preference row, decaying with
+ * the policy config.json sets for its key (resolveDecayPolicy).
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function applyDecay(pref: any): any {
-  const decay = computeDecayFactor(pref.last_confirmed_at);
-  const effectiveConfidence = Math.round(pref.confidence * decay * 100) / 100;
+  return applyDecayPolicy(pref, resolveDecayPolicy(pref.key));
+}
+
+/** applyDecay with an explicit policy (applyDecay resolves it from the key). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function applyDecayPolicy(pref: any, policy: DecayPolicy, nowMs: number = Date.now()): any {
+  const decay = computeDecayFactor(pref.last_confirmed_at, nowMs, policy);
+  const contradiction = computeContradictionFactor(pref.confirmed_count, pref.contradiction_count);
+  const effectiveConfidence = Math.round(pref.confidence * decay * contradiction * 100) / 100;
   return {
     ...pref,
     effective_confidence: effectiveConfidence,
     decay_factor: decay,
+    contradiction_factor: contradiction,
   };
 }
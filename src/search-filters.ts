@@ -0,0 +1,256 @@
+/**
+ * search-filters.ts - Structured filters for query_memory.
+ *
+ * "Only gotchas", "only failures", "tagged docker", "last 30 days" or
+ * "this project only, not global" are conditions on experience columns,
+ * so they are applied inside both channels of hybridSearch instead of on
+ * its results (which would leave fewer than `limit` hits):
+ *   - FTS      the filter is part of the WHERE of the bm25 query;
+ *   - vector   sqlite-vec KNN cannot take arbitrary conditions, so with
+ *              filters the channel ranks the matching experiences by exact
+ *              cosine distance (vec_distance_cosine) instead of running KNN
+ *              over everything and dropping mismatches.
+ * Preferences have none of these fields and are left out of a filtered
+ * search.
+ *
+ * Tags match exactly through experience_tags (tags.ts); several tags must
+ * all be present. Excluded types, tags and terms (query DSL, query-dsl.ts)
+ * are pushed down the same way; excluded terms go through the FTS index,
+ * so the vector channel drops them too. "Updated" is the last time the experience was seen
+ * (dedupe hit or topic upsert), falling back to created_at.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { NOT_EXPIRED_SQL } from "./expiry.js";
+import { AS_OF_SQL, CURRENTLY_VALID_SQL } from "./validity.js";
+import { normalizeTag } from "./tags.js";
+
+export interface SearchFilters {
+  /** Experience types (any of). */
+  types?: string[];
+  /** Tags (all of). */
+  tags?: string[];
+  success?: boolean;
+  /** UTC datetimes in the datetime('now') format (parseDateParam). */
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  topicKeyPrefix?: string;
+  /** Only the project's own experiences, not global ones (needs a project). */
+  projectOnly?: boolean;
+  excludeTypes?: string[];
+  /** Tags (none of). */
+  excludeTags?: string[];
+  /** FTS terms or phrases the text must not contain (none of). */
+  excludeTerms?: string[];
+}
+
+/** Where a channel searches: project scope and point in time. */
+export interface SearchScope {
+  project?: string;
+  asOf?: string;
+}
+
+/** True when at least one filter is set. */
+export function hasSearchFilters(filters?: SearchFilters): filters is SearchFilters {
+  if (!filters) return false;
+  return (
+    (filters.types?.length ?? 0) > 0 ||
+    (filters.tags?.length ?? 0) > 0 ||
+    filters.success !== undefined ||
+    !!filters.createdAfter ||
+    !!filters.createdBefore ||
+    !!filters.updatedAfter ||
+    !!filters.updatedBefore ||
+    !!filters.topicKeyPrefix ||
+    !!filters.projectOnly ||
+    (filters.excludeTypes?.length ?? 0) > 0 ||
+    (filters.excludeTags?.length ?? 0) > 0 ||
+    (filters.excludeTerms?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Combine filters from two sources (query DSL and tool parameters): list
+ * filters add up, single values from `override` win.
+ */
+export function mergeSearchFilters(base: SearchFilters, override: SearchFilters): SearchFilters {
+  const lists = (a?: string[], b?: string[]) => (a?.length || b?.length ? [...(a ?? []), ...(b ?? [])] : undefined);
+  const merged: SearchFilters = { ...base };
+  for (const [key, value] of Object.entries(override) as [keyof SearchFilters, SearchFilters[keyof SearchFilters]][]) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  merged.types = lists(base.types, override.types);
+  merged.tags = lists(base.tags, override.tags);
+  merged.excludeTypes = lists(base.excludeTypes, override.excludeTypes);
+  merged.excludeTags = lists(base.excludeTags, override.excludeTags);
+  merged.excludeTerms = lists(base.excludeTerms, override.excludeTerms);
+  return merged;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/** FTS5 string literal: the text is matched as a phrase, operators and all. */
+export function quoteFtsTerm(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * SQL condition on experiences (alias `e`) for the filters, the project
+ * scope and visibility (current, or at scope.asOf), with its named
+ * parameters.
+ */
+export function searchFilterSql(
+  filters: SearchFilters,
+  scope: SearchScope = {}
+): { sql: string; params: Record<string, unknown> } {
+  const clauses = [scope.asOf ? AS_OF_SQL : `e.deleted_at IS NULL AND ${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL}`];
+  const params: Record<string, unknown> = {};
+  if (scope.asOf) params.as_of = scope.asOf;
+
+  if (scope.project) {
+    clauses.push(filters.projectOnly ? "e.project = @project" : "(e.project = @project OR e.project = '')");
+    params.project = scope.project;
+  }
+  if (filters.types?.length) {
+    clauses.push("e.type IN (SELECT value FROM json_each(@f_types))");
+    params.f_types = JSON.stringify(filters.types);
+  }
+  if (filters.tags?.length) {
+    const tags = [...new Set(filters.tags.map(normalizeTag))];
+    clauses.push(`e.id IN (
+      SELECT et.experience_id FROM experience_tags et JOIN tags t ON t.id = et.tag_id
+      WHERE t.name IN (SELECT value FROM json_each(@f_tags))
+      GROUP BY et.experience_id HAVING COUNT(DISTINCT t.name) = @f_tag_count)`);
+    params.f_tags = JSON.stringify(tags);
+    params.f_tag_count = tags.length;
+  }
+  if (filters.success !== undefined) {
+    clauses.push("e.success = @f_success");
+    params.f_success = filters.success ? 1 : 0;
+  }
+  if (filters.createdAfter) {
+    clauses.push("e.created_at >= @f_created_after");
+    params.f_created_after = filters.createdAfter;
+  }
+  if (filters.createdBefore) {
+    clauses.push("e.created_at < @f_created_before");
+    params.f_created_before = filters.createdBefore;
+  }
+  if (filters.updatedAfter) {
+    clauses.push("COALESCE(e.last_seen_at, e.created_at) >= @f_updated_after");
+    params.f_updated_after = filters.updatedAfter;
+  }
+  if (filters.updatedBefore) {
+    clauses.push("COALESCE(e.last_seen_at, e.created_at) < @f_updated_before");
+    params.f_updated_before = filters.updatedBefore;
+  }
+  if (filters.excludeTypes?.length) {
+    clauses.push("e.type NOT IN (SELECT value FROM json_each(@f_exclude_types))");
+    params.f_exclude_types = JSON.stringify(filters.excludeTypes);
+  }
+  if (filters.excludeTags?.length) {
+    clauses.push(`e.id NOT IN (
+      SELECT et.experience_id FROM experience_tags et JOIN tags t ON t.id = et.tag_id
+      WHERE t.name IN (SELECT value FROM json_each(@f_exclude_tags)))`);
+    params.f_exclude_tags = JSON.stringify([...new Set(filters.excludeTags.map(normalizeTag))]);
+  }
+  if (filters.excludeTerms?.length) {
+    clauses.push("e.id NOT IN (SELECT rowid FROM experiences_fts WHERE experiences_fts MATCH @f_exclude_terms)");
+    params.f_exclude_terms = filters.excludeTerms.map(quoteFtsTerm).join(" OR ");
+  }
+  if (filters.topicKeyPrefix) {
+    clauses.push("e.topic_key LIKE @f_topic_prefix ESCAPE '\\'");
+    params.f_topic_prefix = `${escapeLike(filters.topicKeyPrefix)}%`;
+  }
+  return { sql: clauses.join(" AND "), params };
+}
+
+/** Filtered FTS channel: same columns as searchExperiencesScored (database.ts). */
+export function searchFtsFiltered(
+  db: BetterSqlite3.Database,
+  params: { query: string; filters: SearchFilters; limit: number } & SearchScope
+): { id: number; bm25_score: number; haystack: string }[] {
+  const where = searchFilterSql(params.filters, params);
+  return db
+    .prepare(
+      `SELECT e.id, bm25(experiences_fts) AS bm25_score,
+         lower(coalesce(e.context, '') || ' ' || coalesce(e.action, '') || ' ' ||
+               coalesce(e.result, '') || ' ' || coalesce(e.tags, '')) AS haystack
+       FROM experiences e
+       JOIN experiences_fts fts ON e.id = fts.rowid
+       WHERE experiences_fts MATCH @query AND ${where.sql}
+       ORDER BY bm25(experiences_fts)
+       LIMIT @limit`
+    )
+    .all({ ...where.params, query: params.query, limit: params.limit }) as {
+    id: number;
+    bm25_score: number;
+    haystack: string;
+  }[];
+}
+
+/**
+ * Filtered vector channel: the `limit` matching experiences closest to
+ * the query embedding, by exact cosine distance. Needs sqlite-vec.
+ */
+export function searchVectorsFiltered(
+  db: BetterSqlite3.Database,
+  params: { embedding: Float32Array; filters: SearchFilters; limit: number } & SearchScope
+): { experience_id: number; distance: number }[] {
+  const where = searchFilterSql(params.filters, params);
+  // vec0 tables have a hidden `distance` column, hence the alias
+  const rows = db
+    .prepare(
+      `SELECT v.experience_id, vec_distance_cosine(v.embedding, @embedding) AS cosine_distance
+       FROM vec_experiences v
+       JOIN experiences e ON e.id = v.experience_id
+       WHERE ${where.sql}
+       ORDER BY cosine_distance
+       LIMIT @limit`
+    )
+    .all({ ...where.params, embedding: params.embedding, limit: params.limit }) as {
+    experience_id: number;
+    cosine_distance: number;
+  }[];
+  return rows.map((r) => ({ experience_id: r.experience_id, distance: r.cosine_distance }));
+}
+
+/** Ids among `ids` that match the filters and scope. */
+export function filterExperienceIds(
+  db: BetterSqlite3.Database,
+  ids: number[],
+  filters: SearchFilters,
+  scope: SearchScope = {}
+): Set<number> {
+  if (ids.length === 0) return new Set();
+  const where = searchFilterSql(filters, scope);
+  const rows = db
+    .prepare(`SELECT e.id FROM experiences e WHERE e.id IN (SELECT value FROM json_each(@ids)) AND ${where.sql}`)
+    .all({ ...where.params, ids: JSON.stringify(ids) }) as { id: number }[];
+  return new Set(rows.map((r) => r.id));
+}
+
+/** "type gotcha, tag docker, failures only, created since 2026-09-19 00:00:00" for the results header. */
+export function describeSearchFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.types?.length) parts.push(`type ${filters.types.join("|")}`);
+  if (filters.tags?.length) parts.push(`tag ${filters.tags.map(normalizeTag).join("+")}`);
+  if (filters.success !== undefined) parts.push(filters.success ? "successes only" : "failures only");
+  if (filters.createdAfter) parts.push(`created since ${filters.createdAfter}`);
+  if (filters.createdBefore) parts.push(`created before ${filters.createdBefore}`);
+  if (filters.updatedAfter) parts.push(`updated since ${filters.updatedAfter}`);
+  if (filters.updatedBefore) parts.push(`updated before ${filters.updatedBefore}`);
+  if (filters.topicKeyPrefix) parts.push(`topic ${filters.topicKeyPrefix}*`);
+  if (filters.projectOnly) parts.push("project only");
+  if (filters.excludeTypes?.length) parts.push(`not type ${filters.excludeTypes.join("|")}`);
+  if (filters.excludeTags?.length) parts.push(`not tag ${filters.excludeTags.map(normalizeTag).join("|")}`);
+  if (filters.excludeTerms?.length) parts.push(`without ${filters.excludeTerms.map((t) => `"${t}"`).join(", ")}`);
+  return parts.join(", ");
+}
@@ -10,9 +10,20 @@ import db, {
   getPreferenceById,
   getPatterns,
   getStats,
+  resolveProjectForCwd,
+  resolveProjectParam,
+  recordAccess,
+  rateMemory,
+  getFusionPolicy,
+  scoreChannelsForRating,
+  listPinnedExperiences,
 } from "./database.js";
 import { recordTelemetry } from "./telemetry.js";
-import { selectRelevant, applyDecay } from "./scoring.js";
+import { parseQuery } from "./query-dsl.js";
+import { shouldRerank, rerankFetchLimit, rerankResults } from "./rerank.js";
+import { crossEncoderScorer } from "./cross-encoder.js";
+import { selectRelevant, applyDecay, type FeedbackTally, type FusionStrategy } from "./scoring.js";
+import { FUSION_STRATEGIES } from "./config.js";
 import {
   formatSessionIndex,
   formatMinimalContext,
@@ -89,38 +100,67 @@ export function startSocketServer(): net.Server {
 
 // ── Request handler ──────────────────────────────────────
 
-async function handleConnection(rawData: string): Promise<{ additionalContext?: string }> {
+interface SocketResponse {
+  additionalContext?: string;
+  /** rate_memory: the memory's updated vote tally. */
+  feedback?: FeedbackTally;
+  error?: string;
+}
+
+async function handleConnection(rawData: string): Promise<SocketResponse> {
   const req = JSON.parse(rawData);
   const requestType: string = req.type || "";
   const prompt: string = req.prompt || "";
-  const project: string = req.project || "";
+  // Hooks send their cwd; the registry maps it to the canonical project
+  // (older hooks send a bare basename in `project`).
+  const project: string = req.cwd ? resolveProjectForCwd(req.cwd) : resolveProjectParam(req.project);
 
   // Handler para session_start: contexto inicial con búsqueda híbrida
   if (requestType === "session_start") {
     return handleSessionStart(project, req.source || "startup");
   }
 
+  if (requestType === "rate_memory") {
+    return handleRateMemory(req);
+  }
+
   if (!prompt) return {};
 
-  // 1. Generate embedding for the user's prompt
-  const queryEmbedding = await getEmbedding(prompt);
+  // 1. Parse the prompt as plain words (query-dsl.ts): it is the user's
+  //    text, not a query, so "--verbose" or "type:string" must not become
+  //    exclusions or filters that hide memories and drop preferences
+  const parsed = parseQuery(prompt, Date.now(), { plain: true });
+  if (!parsed.text) return {};
+
+  // 2. Generate embedding for the searched text
+  const queryEmbedding = await getEmbedding(parsed.text);
 
-  // 2. Hybrid search with absolute scores (see database.ts / scoring.ts)
-  const safeQuery = sanitizeFtsQuery(prompt);
-  const results = hybridSearch({
-    safeQuery,
+  // 3. Hybrid search with absolute scores (see database.ts / scoring.ts),
+  //    optionally reranked by the cross-encoder (hooks may send `rerank`
+  //    and `fusion` to override config.json)
+  const reranking = shouldRerank(typeof req.rerank === "boolean" ? req.rerank : undefined);
+  const fusion = (FUSION_STRATEGIES as readonly string[]).includes(req.fusion) ? (req.fusion as FusionStrategy) : undefined;
+  const searched = hybridSearch({
+    safeQuery: parsed.ftsQuery,
+    ftsTerms: parsed.terms,
     queryEmbedding,
     project: project || undefined,
-    limit: 10,
+    limit: reranking ? rerankFetchLimit(10) : 10,
+    filters: parsed.filters,
+    fusion: getFusionPolicy(project || undefined, fusion),
   });
+  const results = reranking
+    ? await rerankResults(db, parsed.text, searched, { scorer: crossEncoderScorer(), limit: 10 })
+    : searched;
 
-  // 3. Relevance threshold: only inject memories that clear MIN_PROMPT_RELEVANCE,
+  // 4. Relevance threshold: only inject memories that clear MIN_PROMPT_RELEVANCE,
   //    capped at MAX_PROMPT_MEMORIES. Preferences and corrections are NOT
   //    injected unconditionally here — they already arrive via session_start.
   const relevant = selectRelevant(results);
   if (relevant.length === 0) return {};
 
   const memories: string[] = [];
+  const injected = { experiences: [] as number[], preferences: [] as number[] };
   for (const r of relevant) {
     if (r.source === "preference") {
       const pref = getPreferenceById.get({ id: r.id }) as any;
@@ -128,11 +168,13 @@ async function handleConnection(rawData: string): Promise<{ additionalContext?:
       // whose decayed confidence fell below the automatic-output threshold.
       if (pref && !pref.invalidated_at && applyDecay(pref).effective_confidence >= AUTO_MIN_EFFECTIVE_CONFIDENCE) {
         memories.push(`- [preference] **${pref.key}**: ${pref.value}`);
+        injected.preferences.push(pref.id);
       }
     } else {
       const exp = getExperienceById.get({ id: r.id }) as any;
       if (exp) {
         memories.push(`- [${exp.type}] ${(exp.context || "").substring(0, 150)} → ${(exp.result || "").substring(0, 100)}`);
+        injected.experiences.push(exp.id);
       }
     }
   }
@@ -149,10 +191,40 @@ async function handleConnection(rawData: string): Promise<{ additionalContext?:
   const additionalContext = parts.join("\n");
   // Telemetry: only recorded when something is actually injected
   recordTelemetry(db, { channel: "on_prompt", project, chars: additionalContext.length, items: memories.length });
+  recordAccess(injected);
 
   return { additionalContext };
 }
 
+// ── Feedback handler (same semantics as the rate_memory tool) ──
+// Request: { type: "rate_memory", id, memory_type?, helpful, query?, session_id?, note? }
+
+async function handleRateMemory(req: any): Promise<SocketResponse> {
+  const id = Number(req.id);
+  const kind = req.memory_type === "preference" ? "preference" : "experience";
+  if (!Number.isInteger(id) || typeof req.helpful !== "boolean") {
+    return { error: "rate_memory needs an integer id and a boolean helpful" };
+  }
+  const query = typeof req.query === "string" ? req.query : undefined;
+  // Channel scores for the "learned" fusion strategy (fusion.ts)
+  const parsed = query ? parseQuery(query) : null;
+  const channels = parsed?.text
+    ? scoreChannelsForRating(
+        { kind, id },
+        { ftsQuery: parsed.ftsQuery, terms: parsed.terms, embedding: await getEmbedding(parsed.text) }
+      )
+    : null;
+  const result = rateMemory({
+    ref: { kind, id },
+    helpful: req.helpful,
+    query,
+    channels,
+    sessionId: typeof req.session_id === "string" ? req.session_id : undefined,
+    note: typeof req.note === "string" ? req.note : undefined,
+  });
+  return result.ok ? { feedback: result.tally } : { error: `${kind} #${id} not found` };
+}
+
 // ── Session start handler (index format with hard budget) ──
 
 async function handleSessionStart(project: string, source: string): Promise<{ additionalContext?: string }> {
@@ -162,6 +234,8 @@ async function handleSessionStart(project: string, source: string): Promise<{ ad
   const prefs = getMergedPreferences(project || "", {
     minEffectiveConfidence: AUTO_MIN_EFFECTIVE_CONFIDENCE,
   });
+  // Pinned experiences are always included (pins.ts)
+  const pinned = listPinnedExperiences(project || "");
 
   // After compaction or /clear the conversation summary already preserves
   // the working context: send a minimal reminder instead of the index.
@@ -172,8 +246,9 @@ async function handleSessionStart(project: string, source: string): Promise<{ ad
       source,
       prefCount: prefs.length,
       expCount: stats.experiences,
+      pinned,
     });
-    recordTelemetry(db, { channel: "session_start", project, chars: minimal.length, items: 0 });
+    recordTelemetry(db, { channel: "session_start", project, chars: minimal.length, items: pinned.length });
     return { additionalContext: minimal };
   }
 
@@ -205,6 +280,7 @@ async function handleSessionStart(project: string, source: string): Promise<{ ad
     project,
     source,
     prefs,
+    pinned,
     experiences,
     patterns,
     corrections,
@@ -213,7 +289,7 @@ async function handleSessionStart(project: string, source: string): Promise<{ ad
     channel: "session_start",
     project,
     chars: index.length,
-    items: prefs.length + experiences.length + patterns.length + corrections.length,
+    items: pinned.length + prefs.length + experiences.length + patterns.length + corrections.length,
   });
 
   return { additionalContext: index };
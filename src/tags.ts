@@ -0,0 +1,177 @@
+/**
+ * tags.ts - Normalized many-to-many tags for experiences.
+ *
+ * experiences.tags keeps the comma-separated list (it is what FTS indexes
+ * and what every output prints), but matching goes through the normalized
+ * `tags` / `experience_tags` tables so that forgetting tag `api` no longer
+ * hits `rapid` or `apis`. Every write path that sets experiences.tags calls
+ * syncExperienceTags() so both representations stay in step; rename/merge
+ * rewrite both as well.
+ *
+ * Tag names are normalized to trimmed lowercase; a tag list is stored as
+ * "a,b,c" (no spaces, no duplicates, first-seen order).
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+
+/**
+ * Subquery selecting the ids of experiences carrying tag @tag (already
+ * normalized). Shared by soft delete, the trash filter and search filters.
+ */
+export const EXPERIENCES_WITH_TAG_SQL = `
+  SELECT et.experience_id FROM experience_tags et
+  JOIN tags t ON t.id = et.tag_id
+  WHERE t.name = @tag
+`;
+
+// ── Parsing ──────────────────────────────────────────────
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Split a comma-separated tag string into unique normalized names. */
+export function parseTags(tags: string | null | undefined): string[] {
+  if (!tags) return [];
+  const seen = new Set<string>();
+  for (const raw of tags.split(",")) {
+    const tag = normalizeTag(raw);
+    if (tag) seen.add(tag);
+  }
+  return [...seen];
+}
+
+/** Canonical comma-separated form stored in experiences.tags. */
+export function formatTags(tags: string[]): string {
+  return tags.join(",");
+}
+
+// ── Write path ───────────────────────────────────────────
+
+/** Replace the tag links of one experience with `tags`. */
+export function syncExperienceTags(
+  db: BetterSqlite3.Database,
+  experienceId: number,
+  tags: string | string[]
+): void {
+  const names = Array.isArray(tags) ? tags.map(normalizeTag).filter(Boolean) : parseTags(tags);
+  const insertTag = db.prepare(`INSERT OR IGNORE INTO tags (name) VALUES (?)`);
+  const link = db.prepare(
+    `INSERT OR IGNORE INTO experience_tags (experience_id, tag_id)
+     SELECT ?, id FROM tags WHERE name = ?`
+  );
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM experience_tags WHERE experience_id = ?`).run(experienceId);
+    for (const name of names) {
+      insertTag.run(name);
+      link.run(experienceId, name);
+    }
+  })();
+}
+
+// ── Listing ──────────────────────────────────────────────
+
+export interface TagSummary {
+  name: string;
+  total: number;
+  /** Per-project counts, largest first ('' = global). */
+  projects: { project: string; count: number }[];
+}
+
+/**
+ * Tags in use by active experiences with their counts per project, most
+ * used first. With `project`, only that project's experiences are counted.
+ */
+export function listTagCounts(db: BetterSqlite3.Database, project?: string): TagSummary[] {
+  const rows = db
+    .prepare(
+      `SELECT t.name AS name, e.project AS project, COUNT(*) AS count
+       FROM experience_tags et
+       JOIN tags t ON t.id = et.tag_id
+       JOIN experiences e ON e.id = et.experience_id
+       WHERE e.deleted_at IS NULL
+         AND (@project IS NULL OR e.project = @project)
+       GROUP BY t.name, e.project
+       ORDER BY count DESC, e.project ASC`
+    )
+    .all({ project: project ?? null }) as { name: string; project: string; count: number }[];
+
+  const byTag = new Map<string, TagSummary>();
+  for (const row of rows) {
+    const summary = byTag.get(row.name) || { name: row.name, total: 0, projects: [] };
+    summary.total += row.count;
+    summary.projects.push({ project: row.project || "", count: row.count });
+    byTag.set(row.name, summary);
+  }
+  return [...byTag.values()].sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+}
+
+/** Human-readable tag list (list_tags tool and CLI). */
+export function formatTagList(tags: TagSummary[], project?: string): string {
+  if (tags.length === 0) return project ? `No tags in use for project "${project}".` : "No tags in use yet.";
+  const lines = [`Tags${project ? ` for ${project}` : ""} (${tags.length}):`];
+  for (const tag of tags) {
+    const breakdown = project
+      ? ""
+      : ` — ${tag.projects.map((p) => `${p.project || "(global)"}: ${p.count}`).join(", ")}`;
+    lines.push(`- ${tag.name}: ${tag.total}${breakdown}`);
+  }
+  return lines.join("\n");
+}
+
+// ── Rename / merge ───────────────────────────────────────
+
+export type RenameTagResult =
+  | { ok: true; from: string; to: string; merged: boolean; experiences: number }
+  | { ok: false; reason: "invalid" | "not_found" };
+
+/**
+ * Rename tag `from` to `to`, or merge it into `to` when that tag already
+ * exists. Rewrites experience_tags and the experiences.tags string of every
+ * affected row (soft-deleted ones included, so a later restore stays
+ * consistent); the FTS update trigger re-indexes them.
+ */
+export function renameTag(db: BetterSqlite3.Database, params: { from: string; to: string }): RenameTagResult {
+  const from = normalizeTag(params.from);
+  const to = normalizeTag(params.to);
+  if (!from || !to || from.includes(",") || to.includes(",") || from === to) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  const source = db.prepare(`SELECT id FROM tags WHERE name = ?`).get(from) as { id: number } | undefined;
+  if (!source) return { ok: false, reason: "not_found" };
+  const target = db.prepare(`SELECT id FROM tags WHERE name = ?`).get(to) as { id: number } | undefined;
+
+  return db.transaction(() => {
+    const affected = db
+      .prepare(
+        `SELECT e.id, e.tags FROM experiences e
+         JOIN experience_tags et ON et.experience_id = e.id
+         WHERE et.tag_id = ?`
+      )
+      .all(source.id) as { id: number; tags: string }[];
+
+    if (target) {
+      db.prepare(
+        `INSERT OR IGNORE INTO experience_tags (experience_id, tag_id)
+         SELECT experience_id, ? FROM experience_tags WHERE tag_id = ?`
+      ).run(target.id, source.id);
+      db.prepare(`DELETE FROM experience_tags WHERE tag_id = ?`).run(source.id);
+      db.prepare(`DELETE FROM tags WHERE id = ?`).run(source.id);
+    } else {
+      db.prepare(`UPDATE tags SET name = ? WHERE id = ?`).run(to, source.id);
+    }
+
+    const rewrite = db.prepare(`UPDATE experiences SET tags = ? WHERE id = ?`);
+    for (const row of affected) {
+      const renamed = parseTags(row.tags).map((t) => (t === from ? to : t));
+      rewrite.run(formatTags([...new Set(renamed)]), row.id);
+    }
+
+    return { ok: true as const, from, to, merged: !!target, experiences: affected.length };
+  })();
+}
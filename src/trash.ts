@@ -0,0 +1,200 @@
+/**
+ * trash.ts - Listing and restoring soft-deleted experiences.
+ *
+ * Soft delete (Phase 1) only sets deleted_at, so a forgotten experience is
+ * recoverable until `consolidate --apply` purges it (PURGE_SOFT_DELETED_DAYS
+ * after deletion). Every soft-delete operation stamps its rows with one
+ * deletion batch id (deleted_batch), which lets a whole
+ * `forget_memory project=...` call be undone in one step.
+ *
+ * Restoring clears deleted_at/deleted_batch with a plain UPDATE: the
+ * experiences_au trigger re-indexes the row in FTS, and the caller
+ * regenerates the vector of any restored row that lost (or never had) one.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { randomBytes } from "crypto";
+import { PURGE_SOFT_DELETED_DAYS } from "./consolidate.js";
+import { EXPERIENCES_WITH_TAG_SQL, normalizeTag } from "./tags.js";
+
+/** Default max rows listed by list_trash. */
+export const TRASH_DEFAULT_LIMIT = 20;
+
+export interface TrashFilter {
+  ids?: number[];
+  project?: string;
+  tag?: string;
+  batch?: string;
+  /** Only rows deleted at or after this date (YYYY-MM-DD or datetime). */
+  deletedSince?: string;
+  /** Only rows deleted before this date. */
+  deletedBefore?: string;
+}
+
+export interface TrashItem {
+  id: number;
+  type: string;
+  project: string;
+  tags: string;
+  snippet: string;
+  deleted_at: string;
+  deleted_batch: string | null;
+}
+
+export interface TrashBatch {
+  batch: string | null;
+  count: number;
+  deleted_at: string;
+}
+
+/** Fresh id for one soft-delete operation. */
+export function newDeletionBatch(): string {
+  return randomBytes(4).toString("hex");
+}
+
+/** True when the filter would match the whole trash. */
+export function isEmptyTrashFilter(filter: TrashFilter): boolean {
+  return (
+    !(filter.ids && filter.ids.length > 0) &&
+    !filter.project &&
+    !filter.tag &&
+    !filter.batch &&
+    !filter.deletedSince &&
+    !filter.deletedBefore
+  );
+}
+
+function buildWhere(filter: TrashFilter): { where: string; params: Record<string, unknown> } {
+  const clauses = ["deleted_at IS NOT NULL"];
+  const params: Record<string, unknown> = {};
+
+  if (filter.ids && filter.ids.length > 0) {
+    clauses.push(`id IN (SELECT value FROM json_each(@ids))`);
+    params.ids = JSON.stringify(filter.ids);
+  }
+  if (filter.project !== undefined && filter.project !== "") {
+    clauses.push(`project = @project`);
+    params.project = filter.project;
+  }
+  if (filter.tag) {
+    clauses.push(`id IN (${EXPERIENCES_WITH_TAG_SQL})`);
+    params.tag = normalizeTag(filter.tag);
+  }
+  if (filter.batch) {
+    clauses.push(`deleted_batch = @batch`);
+    params.batch = filter.batch;
+  }
+  if (filter.deletedSince) {
+    clauses.push(`deleted_at >= datetime(@since)`);
+    params.since = filter.deletedSince;
+  }
+  if (filter.deletedBefore) {
+    clauses.push(`deleted_at < datetime(@before)`);
+    params.before = filter.deletedBefore;
+  }
+
+  return { where: clauses.join(" AND "), params };
+}
+
+/**
+ * Soft-deleted experiences matching the filter (most recently deleted
+ * first), plus the total match count and a per-batch summary.
+ */
+export function listTrash(
+  db: BetterSqlite3.Database,
+  filter: TrashFilter = {},
+  limit: number = TRASH_DEFAULT_LIMIT
+): { items: TrashItem[]; total: number; batches: TrashBatch[] } {
+  const { where, params } = buildWhere(filter);
+
+  const items = db
+    .prepare(
+      `SELECT id, type, project, tags, substr(context, 1, 120) AS snippet, deleted_at, deleted_batch
+       FROM experiences WHERE ${where}
+       ORDER BY deleted_at DESC, id DESC
+       LIMIT @limit`
+    )
+    .all({ ...params, limit }) as TrashItem[];
+
+  const total = (
+    db.prepare(`SELECT COUNT(*) AS count FROM experiences WHERE ${where}`).get(params) as { count: number }
+  ).count;
+
+  const batches = db
+    .prepare(
+      `SELECT deleted_batch AS batch, COUNT(*) AS count, MAX(deleted_at) AS deleted_at
+       FROM experiences WHERE ${where}
+       GROUP BY deleted_batch
+       ORDER BY MAX(deleted_at) DESC`
+    )
+    .all(params) as TrashBatch[];
+
+  return { items, total, batches };
+}
+
+/**
+ * Restore every soft-deleted experience matching the filter. Refuses an
+ * empty filter (it would resurrect the whole trash). Returns the restored
+ * ids; the caller is responsible for regenerating missing vectors.
+ */
+export function restoreFromTrash(db: BetterSqlite3.Database, filter: TrashFilter): number[] {
+  if (isEmptyTrashFilter(filter)) return [];
+  const { where, params } = buildWhere(filter);
+
+  return db.transaction(() => {
+    const ids = (
+      db.prepare(`SELECT id FROM experiences WHERE ${where} ORDER BY id`).all(params) as { id: number }[]
+    ).map((r) => r.id);
+    if (ids.length === 0) return ids;
+    db.prepare(
+      `UPDATE experiences SET deleted_at = NULL, deleted_batch = NULL
+       WHERE id IN (SELECT value FROM json_each(@ids))`
+    ).run({ ids: JSON.stringify(ids) });
+    return ids;
+  })();
+}
+
+/** Subset of `ids` with no row in vec_experiences ([] without sqlite-vec). */
+export function findExperiencesWithoutVector(db: BetterSqlite3.Database, ids: number[]): number[] {
+  if (ids.length === 0) return [];
+  try {
+    const withVector = new Set(
+      (
+        db
+          .prepare(`SELECT experience_id FROM vec_experiences WHERE experience_id IN (SELECT value FROM json_each(?))`)
+          .all(JSON.stringify(ids)) as { experience_id: number | bigint }[]
+      ).map((r) => Number(r.experience_id))
+    );
+    return ids.filter((id) => !withVector.has(id));
+  } catch {
+    return []; // vec table missing (sqlite-vec unavailable): nothing to regenerate
+  }
+}
+
+/** Human-readable trash listing (list_trash tool and CLI). */
+export function formatTrashListing(listing: { items: TrashItem[]; total: number; batches: TrashBatch[] }): string {
+  if (listing.total === 0) return "Trash is empty for this filter.";
+
+  const lines = [`Trash: ${listing.total} soft-deleted experience(s) (purged ${PURGE_SOFT_DELETED_DAYS} days after deletion by consolidate --apply)`];
+  lines.push(``);
+  lines.push(`Batches:`);
+  for (const b of listing.batches) {
+    lines.push(`- ${b.batch ?? "(no batch)"}: ${b.count} item(s), deleted ${b.deleted_at}`);
+  }
+  lines.push(``);
+  lines.push(`Items (latest ${listing.items.length}):`);
+  for (const item of listing.items) {
+    const snippet = item.snippet && item.snippet.length >= 120 ? `${item.snippet}...` : item.snippet || "";
+    lines.push(
+      `- [id:${item.id}] [${item.type}]${item.project ? ` (${item.project})` : ""} ${snippet}` +
+        `\n  Tags: ${item.tags || "(none)"} | deleted ${item.deleted_at} | batch ${item.deleted_batch ?? "(none)"}`
+    );
+  }
+  if (listing.total > listing.items.length) {
+    lines.push(`(+${listing.total - listing.items.length} more, raise limit or narrow the filter)`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,155 @@
+/**
+ * validity.ts - Valid time for experiences ("was true from ... to ...").
+ *
+ * Soft delete says a memory was a mistake; validity says it used to be
+ * true. "We use Redis for sessions" stays in memory after the migration
+ * away from Redis, with experiences.valid_to (migration 11) stamped by
+ * invalidate_experience, optionally linked to the experience that
+ * superseded it. valid_from says since when the fact held (created_at by
+ * default, earlier when recorded after the fact).
+ *
+ * An experience whose valid_to has passed is hidden from every automatic
+ * and search path, like an expired one (CURRENTLY_VALID_SQL). get_memory by
+ * id still shows it with its validity interval.
+ *
+ * `as_of` on query_memory and get_memory asks what memory looked like at a
+ * past date, combining both time axes (AS_OF_SQL): the experience had been
+ * recorded and not yet deleted, and the fact was valid and unexpired at
+ * that date. Topic experiences show the revision that was live then.
+ * Preferences have no history yet and are left out of as_of searches.
+ *
+ * Functions take the database handle as a parameter so they can be tested
+ * against in-memory databases (same pattern as consolidate.ts).
+ */
+
+import type BetterSqlite3 from "better-sqlite3";
+import { NOT_EXPIRED_SQL, toSqliteDatetime } from "./expiry.js";
+import { linkMemories } from "./links.js";
+
+/** SQL condition for experiences whose fact still holds (unqualified column). */
+export const CURRENTLY_VALID_SQL = "(valid_to IS NULL OR valid_to > datetime('now'))";
+
+/**
+ * SQL condition for experiences visible at the @as_of parameter: recorded
+ * and not yet deleted, valid and unexpired at that date. Replaces the
+ * usual deleted_at IS NULL check.
+ */
+export const AS_OF_SQL = `(created_at <= @as_of
+  AND (deleted_at IS NULL OR deleted_at > @as_of)
+  AND COALESCE(valid_from, created_at) <= @as_of
+  AND (valid_to IS NULL OR valid_to > @as_of)
+  AND (expires_at IS NULL OR expires_at > @as_of))`;
+
+export type DateParamResult = { ok: true; value: string } | { ok: false; error: string };
+
+/**
+ * Parse an ISO date/datetime tool parameter (a bare date means 00:00 UTC)
+ * into the datetime('now') format. `notFuture` rejects dates after now:
+ * validity cannot start or end in the future (expires_at covers a
+ * scheduled end).
+ */
+export function parseDateParam(
+  name: string,
+  value: string,
+  opts: { notFuture?: boolean; nowMs?: number } = {}
+): DateParamResult {
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) return { ok: false, error: `${name} "${value}" is not an ISO date or datetime` };
+  if (opts.notFuture && ms > (opts.nowMs ?? Date.now())) {
+    return { ok: false, error: `${name} "${value}" is in the future` };
+  }
+  return { ok: true, value: toSqliteDatetime(new Date(ms)) };
+}
+
+/**
+ * Ids among `ids` that the search must hide: without `asOf`, experiences
+ * that expired or are no longer valid; with it, those not visible at that
+ * date (AS_OF_SQL).
+ */
+export function findHiddenExperienceIds(db: BetterSqlite3.Database, ids: number[], asOf?: string): Set<number> {
+  if (ids.length === 0) return new Set();
+  const visible = asOf ? AS_OF_SQL : `(${NOT_EXPIRED_SQL} AND ${CURRENTLY_VALID_SQL})`;
+  const rows = db
+    .prepare(
+      `SELECT id FROM experiences
+       WHERE id IN (SELECT value FROM json_each(@ids)) AND NOT ${visible}`
+    )
+    .all({ ids: JSON.stringify(ids), as_of: asOf ?? null }) as { id: number }[];
+  return new Set(rows.map((r) => r.id));
+}
+
+export type ValidityResult =
+  | { ok: true; changed: boolean; validTo: string | null }
+  | { ok: false; reason: "not_found" | "before_valid_from" | "self_supersede" | "successor_not_found" };
+
+/**
+ * Mark an active experience as no longer true from `validTo` (default now),
+ * optionally recording `supersededBy -supersedes-> id` in the memory graph.
+ * An experience that already ended keeps its original valid_to.
+ */
+export function endValidity(
+  db: BetterSqlite3.Database,
+  params: { id: number; validTo?: string; supersededBy?: number; note?: string }
+): ValidityResult {
+  const row = db
+    .prepare(`SELECT COALESCE(valid_from, created_at) AS valid_from, valid_to FROM experiences WHERE id = ? AND deleted_at IS NULL`)
+    .get(params.id) as { valid_from: string; valid_to: string | null } | undefined;
+  if (!row) return { ok: false, reason: "not_found" };
+  if (params.supersededBy === params.id) return { ok: false, reason: "self_supersede" };
+  if (row.valid_to !== null) return { ok: true, changed: false, validTo: row.valid_to };
+
+  const validTo = params.validTo ?? toSqliteDatetime(new Date());
+  if (validTo < row.valid_from) return { ok: false, reason: "before_valid_from" };
+
+  return db.transaction((): ValidityResult => {
+    if (params.supersededBy !== undefined) {
+      const link = linkMemories(db, {
+        from: { kind: "experience", id: params.supersededBy },
+        to: { kind: "experience", id: params.id },
+        relation: "supersedes",
+        note: params.note,
+      });
+      if (!link.ok) return { ok: false, reason: "successor_not_found" };
+    }
+    db.prepare(`UPDATE experiences SET valid_to = ? WHERE id = ?`).run(validTo, params.id);
+    return { ok: true, changed: true, validTo };
+  })();
+}
+
+/** Clear valid_to so the experience counts as true again. */
+export function reopenValidity(db: BetterSqlite3.Database, id: number): ValidityResult {
+  const row = db.prepare(`SELECT valid_to FROM experiences WHERE id = ? AND deleted_at IS NULL`).get(id) as
+    | { valid_to: string | null }
+    | undefined;
+  if (!row) return { ok: false, reason: "not_found" };
+  if (row.valid_to === null) return { ok: true, changed: false, validTo: null };
+  db.prepare(`UPDATE experiences SET valid_to = NULL WHERE id = ?`).run(id);
+  return { ok: true, changed: true, validTo: null };
+}
+
+/**
+ * The experience as it was at `asOf`, or undefined when it was not visible
+ * then. A topic experience rewritten since then carries the content of the
+ * revision that was live at that date (revisions.ts).
+ */
+export function getExperienceAsOf(db: BetterSqlite3.Database, id: number, asOf: string): any | undefined {
+  const row = db.prepare(`SELECT * FROM experiences WHERE id = @id AND ${AS_OF_SQL}`).get({ id, as_of: asOf }) as any;
+  if (!row) return undefined;
+  const revision = db
+    .prepare(
+      `SELECT revision, context, action, result, success, tags FROM experience_revisions
+       WHERE experience_id = ? AND replaced_at > ?
+       ORDER BY revision LIMIT 1`
+    )
+    .get(id, asOf) as any;
+  if (!revision) return row;
+  const { revision: revisionCount, ...content } = revision;
+  return { ...row, ...content, revision_count: revisionCount };
+}
+
+/** "since 2025-01-10 00:00:00" / "2025-01-10 00:00:00 → 2026-03-01 00:00:00 (no longer true)". */
+export function formatValidity(validFrom: string, validTo: string | null, nowMs: number = Date.now()): string {
+  if (!validTo) return `since ${validFrom}`;
+  const ended = Date.parse(validTo.replace(" ", "T") + "Z") <= nowMs;
+  return `${validFrom} → ${validTo}${ended ? " (no longer true)" : ""}`;
+}
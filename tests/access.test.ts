@@ -0,0 +1,99 @@
+/**
+ * Tests for retrieval access tracking (access.ts): counting retrievals,
+ * the saturating usage boost (scoring.ts), the get_memory detail line and
+ * pruning experiences nobody retrieves. Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { recordAccess, loadAccessCounts, pruneUnusedExperiences, countNeverAccessed } from "../src/access";
+import { applyUsageBoost, USAGE_BOOST_MAX, MIN_PROMPT_RELEVANCE } from "../src/scoring";
+import { formatExperienceDetail } from "../src/context-format";
+import { restoreFromTrash } from "../src/trash";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(daysAgo: number): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, created_at)
+       VALUES ('experience', 'c', 'a', 'r', datetime('now', ?))`
+    )
+    .run(`-${daysAgo} days`);
+  return Number(info.lastInsertRowid);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("recordAccess", () => {
+  it("counts each retrieval once per call and stamps last_accessed_at", () => {
+    const a = insertExp(1);
+    const b = insertExp(1);
+    db.prepare(`INSERT INTO preferences (key, value, scope) VALUES ('indent', 'tabs', 'global')`).run();
+
+    recordAccess(db, { experiences: [a, a, b], preferences: [1] });
+    recordAccess(db, { experiences: [a] });
+
+    expect(loadAccessCounts(db, "experience", [a, b, 999])).toEqual(new Map([[a, 2], [b, 1]]));
+    expect(loadAccessCounts(db, "preference", [1]).get(1)).toBe(1);
+    const row = db.prepare(`SELECT last_accessed_at FROM experiences WHERE id = ?`).get(a) as any;
+    expect(row.last_accessed_at).not.toBeNull();
+    expect(countNeverAccessed(db)).toBe(0);
+  });
+
+  it("never throws, even without the tracking columns", () => {
+    const bare = new Database(":memory:");
+    bare.exec(`CREATE TABLE experiences (id INTEGER PRIMARY KEY)`);
+    expect(() => recordAccess(bare, { experiences: [1] })).not.toThrow();
+  });
+});
+
+describe("applyUsageBoost", () => {
+  it("ranks used memories slightly higher without lifting irrelevant ones", () => {
+    expect(applyUsageBoost(0.5, 0)).toBe(0.5);
+    expect(applyUsageBoost(0, 50)).toBe(0);
+    expect(applyUsageBoost(0.5, 3)).toBeGreaterThan(0.5);
+    expect(applyUsageBoost(0.5, 20)).toBeCloseTo(0.5 * (1 + USAGE_BOOST_MAX));
+    expect(applyUsageBoost(0.5, 10_000)).toBeCloseTo(applyUsageBoost(0.5, 20)); // saturates
+    expect(applyUsageBoost(0.99, 100)).toBe(1);
+    // A weak match stays below the injection threshold however popular it is
+    expect(applyUsageBoost(0.3, 1000)).toBeLessThan(MIN_PROMPT_RELEVANCE);
+  });
+});
+
+describe("formatExperienceDetail access line", () => {
+  const exp = { id: 1, type: "experience", success: 1, created_at: "2026-06-01 10:00:00" };
+
+  it("shows retrievals or 'never'", () => {
+    expect(formatExperienceDetail({ ...exp, access_count: 0 })).toContain("Accessed:   never");
+    expect(formatExperienceDetail({ ...exp, access_count: 3, last_accessed_at: "2026-06-02 09:00:00" })).toContain(
+      "Accessed:   3 times (last 2026-06-02 09:00:00)"
+    );
+    expect(formatExperienceDetail(exp)).not.toContain("Accessed:");
+  });
+});
+
+describe("pruneUnusedExperiences", () => {
+  it("soft-deletes old experiences nobody retrieved recently, in one restorable batch", () => {
+    const neverUsed = insertExp(100);
+    const usedLongAgo = insertExp(100);
+    const usedRecently = insertExp(100);
+    insertExp(5); // too young to judge
+    db.prepare(`UPDATE experiences SET access_count = 4, last_accessed_at = datetime('now', '-60 days') WHERE id = ?`).run(
+      usedLongAgo
+    );
+    recordAccess(db, { experiences: [usedRecently] });
+
+    expect(pruneUnusedExperiences(db, 30, "batch-1")).toBe(2);
+    const deleted = db.prepare(`SELECT id FROM experiences WHERE deleted_batch = 'batch-1' ORDER BY id`).all() as any[];
+    expect(deleted.map((r) => r.id)).toEqual([neverUsed, usedLongAgo]);
+
+    expect(restoreFromTrash(db, { batch: "batch-1" })).toEqual([neverUsed, usedLongAgo]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for the experience aging signal (aging.ts + scoring.ts): the
+ * aging factor, per-type half-lives from config.json and the factors
+ * hybridSearch loads for its candidates. Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { parseConfig } from "../src/config";
+import { computeAgingFactor, resolveAgingPolicy, applyAging, fuseScores, MIN_PROMPT_RELEVANCE } from "../src/scoring";
+import { loadAgingFactors } from "../src/aging";
+
+const now = new Date("2026-10-19T12:00:00Z").getTime();
+
+function daysAgo(days: number): string {
+  return new Date(now - days * 86400000).toISOString().replace("T", " ").slice(0, 19);
+}
+
+describe("computeAgingFactor", () => {
+  const policy = { halfLifeDays: 100, floor: 0.5 };
+
+  it("goes from 1 towards the floor, halfway every half-life", () => {
+    expect(computeAgingFactor(daysAgo(0), policy, now)).toBe(1);
+    expect(computeAgingFactor(daysAgo(100), policy, now)).toBe(0.75);
+    expect(computeAgingFactor(daysAgo(200), policy, now)).toBe(0.625);
+    expect(computeAgingFactor(daysAgo(5000), policy, now)).toBe(0.5);
+  });
+
+  it("leaves unknown dates, future dates and non-aging types untouched", () => {
+    expect(computeAgingFactor(null, policy, now)).toBe(1);
+    expect(computeAgingFactor(daysAgo(-10), policy, now)).toBe(1);
+    expect(computeAgingFactor(daysAgo(1000), { halfLifeDays: null, floor: 0.5 }, now)).toBe(1);
+  });
+
+  it("keeps the fused score absolute: aging only scales it down", () => {
+    const fused = fuseScores(0.8, 0.5);
+    expect(applyAging(fused, 1)).toBe(fused);
+    expect(applyAging(fused, 0.5)).toBeCloseTo(fused / 2);
+    // A perfect match stays above the injection threshold at the default floor
+    expect(applyAging(fuseScores(1, 1), 0.5)).toBeGreaterThanOrEqual(MIN_PROMPT_RELEVANCE);
+  });
+});
+
+describe("resolveAgingPolicy", () => {
+  it("uses the per-type half-life, then the global one", () => {
+    const defaults = parseConfig({});
+    expect(resolveAgingPolicy("auto_capture", defaults)).toEqual({ halfLifeDays: 30, floor: 0.5 });
+    expect(resolveAgingPolicy("decision", defaults)).toEqual({ halfLifeDays: 1095, floor: 0.5 });
+    expect(resolveAgingPolicy("experience", defaults)).toEqual({ halfLifeDays: 365, floor: 0.5 });
+
+    const custom = parseConfig({ aging: { half_life_days: null, floor: 0.2, types: { gotcha: 60 } } });
+    expect(resolveAgingPolicy("gotcha", custom)).toEqual({ halfLifeDays: 60, floor: 0.2 });
+    expect(resolveAgingPolicy("decision", custom)).toEqual({ halfLifeDays: null, floor: 0.2 });
+  });
+
+  it("rejects invalid aging config", () => {
+    expect(() => parseConfig({ aging: { floor: 1.5 } })).toThrow();
+    expect(() => parseConfig({ aging: { types: { decision: 0 } } })).toThrow();
+  });
+});
+
+describe("loadAgingFactors", () => {
+  let db: BetterSqlite3.Database;
+  const config = parseConfig({});
+
+  function insertExp(type: string, createdAt: string, lastSeenAt: string | null = null): number {
+    const info = db
+      .prepare(`INSERT INTO experiences (type, context, created_at, last_seen_at) VALUES (?, 'ctx', ?, ?)`)
+      .run(type, createdAt, lastSeenAt);
+    return Number(info.lastInsertRowid);
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  it("ages each experience by its type since it was last seen", () => {
+    const capture = insertExp("auto_capture", daysAgo(30));
+    const decision = insertExp("decision", daysAgo(1095));
+    const reseen = insertExp("experience", daysAgo(3 * 365), daysAgo(0));
+
+    const factors = loadAgingFactors(db, [capture, decision, reseen, 99], { nowMs: now, config });
+    expect(factors.get(capture)).toBe(0.75);
+    expect(factors.get(decision)).toBe(0.75);
+    expect(factors.get(reseen)).toBe(1);
+    expect(factors.has(99)).toBe(false);
+    expect(loadAgingFactors(db, [], { nowMs: now, config }).size).toBe(0);
+  });
+
+  it("ranks yesterday's fix above an old workaround with the same match", () => {
+    const workaround = insertExp("experience", daysAgo(3 * 365));
+    const fix = insertExp("experience", daysAgo(1));
+    const factors = loadAgingFactors(db, [workaround, fix], { nowMs: now, config });
+    const fused = fuseScores(0.7, 0.4);
+    expect(applyAging(fused, factors.get(fix)!)).toBeGreaterThan(applyAging(fused, factors.get(workaround)!));
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for contradicting preferences (conflicts.ts): detection by
+ * embedding similarity, value overlap and scope overlap, resolution through
+ * a recorded invalidation, and the consolidate report. Schema from the real
+ * migrations plus a float[4] vec_preferences table (same fixture idea as
+ * data-quality.test.ts).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+
+import { runMigrations } from "../src/migrations";
+import { parseConfig } from "../src/config";
+import { valueOverlap, findPreferenceConflicts, resolvePreferenceConflict, formatConflict } from "../src/conflicts";
+import { listPreferenceRevisions } from "../src/preference-revisions";
+import { runConsolidation, formatConsolidationReport } from "../src/consolidate";
+
+let db: BetterSqlite3.Database;
+
+const config = parseConfig({ scopes: { projects: { api: ["team:payments"] } } });
+
+// cos(BASE, RELATED) = 0.75: same subject, not a near-duplicate
+const BASE = [1, 0, 0, 0];
+const RELATED = [0.75, 0.6614, 0, 0];
+const NEAR_DUPLICATE = [0.95, 0.3122, 0, 0];
+const UNRELATED = [0, 0, 1, 0];
+
+function insertPref(key: string, value: string, vec: number[], opts: { scope?: string; confidence?: number } = {}): number {
+  const info = db
+    .prepare(`INSERT INTO preferences (key, value, scope, confidence) VALUES (?, ?, ?, ?)`)
+    .run(key, value, opts.scope ?? "global", opts.confidence ?? 0.5);
+  const id = Number(info.lastInsertRowid);
+  db.prepare(`INSERT INTO vec_preferences(preference_id, embedding) VALUES (?, ?)`).run(BigInt(id), new Float32Array(vec));
+  return id;
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  sqliteVec.load(db);
+  runMigrations(db);
+  db.exec(`CREATE VIRTUAL TABLE vec_preferences USING vec0(
+    preference_id INTEGER PRIMARY KEY,
+    embedding float[4] distance_metric=cosine
+  )`);
+});
+
+describe("valueOverlap", () => {
+  it("measures shared words, ignoring case and punctuation", () => {
+    expect(valueOverlap("tabs", "2 spaces")).toBe(0);
+    expect(valueOverlap("Use tabs.", "use tabs")).toBe(1);
+    expect(valueOverlap("tabs, width 4", "tabs")).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("findPreferenceConflicts", () => {
+  it("flags related preferences with diverging values and suggests the stronger one", () => {
+    const indent = insertPref("indent", "tabs", BASE, { confidence: 0.4 });
+    const style = insertPref("code_style", "2 spaces", RELATED, { scope: "api", confidence: 0.8 });
+    insertPref("editor", "neovim", UNRELATED);
+
+    const conflicts = findPreferenceConflicts(db, { config });
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].keep.id).toBe(style);
+    expect(conflicts[0].drop.id).toBe(indent);
+    expect(conflicts[0].similarity).toBeCloseTo(0.75, 2);
+  });
+
+  it("skips agreeing values, near-duplicates, per-scope overrides and scopes that never meet", () => {
+    const pairs: [key: string, value: string, vec: number[], scope: string][][] = [
+      [["indent", "tabs", BASE, "global"], ["spacing", "tabs please", RELATED, "global"]],
+      [["indent", "tabs", BASE, "global"], ["tab_style", "2 spaces", NEAR_DUPLICATE, "global"]],
+      [["indent", "tabs", BASE, "global"], ["indent", "4 spaces", RELATED, "api"]],
+      [["formatter", "prettier", BASE, "web"], ["lint", "biome", RELATED, "api"]],
+    ];
+    for (const pair of pairs) {
+      db.exec(`DELETE FROM preferences; DELETE FROM vec_preferences;`);
+      for (const [key, value, vec, scope] of pair) insertPref(key, value, vec, { scope });
+      expect(findPreferenceConflicts(db, { config })).toEqual([]);
+    }
+  });
+});
+
+describe("resolvePreferenceConflict", () => {
+  it("invalidates the dropped preference as a recorded revision", () => {
+    const indent = insertPref("indent", "tabs", BASE);
+    const style = insertPref("code_style", "2 spaces", RELATED);
+
+    expect(resolvePreferenceConflict(db, { keepId: style, dropId: indent })).toMatchObject({
+      ok: true,
+      keep: { key: "code_style" },
+      drop: { key: "indent" },
+    });
+    const [before, live] = listPreferenceRevisions(db, indent);
+    expect(before.change).toBe("conflict");
+    expect(live.superseded_by).toBe("code_style");
+    expect(findPreferenceConflicts(db, { config })).toEqual([]);
+
+    expect(resolvePreferenceConflict(db, { keepId: style, dropId: indent })).toEqual({ ok: false, reason: "not_found" });
+    expect(resolvePreferenceConflict(db, { keepId: style, dropId: style })).toEqual({
+      ok: false,
+      reason: "same_preference",
+    });
+  });
+});
+
+describe("reporting", () => {
+  it("lists conflicts in the consolidate report without resolving them", () => {
+    insertPref("indent", "tabs", BASE, { confidence: 0.9 });
+    insertPref("code_style", "2 spaces", RELATED, { confidence: 0.3 });
+
+    const report = runConsolidation(db, { apply: true, retention: [] });
+    expect(report.conflicts).toHaveLength(1);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM preferences WHERE invalidated_at IS NULL`).get()).toEqual({ n: 2 });
+
+    const line = formatConflict(report.conflicts[0]);
+    expect(line).toBe(
+      `[global] 'indent' = "tabs" (pref #1) <> [global] 'code_style' = "2 spaces" (pref #2)` +
+        ` | similarity 0.75 | suggested: resolve_conflict keep=1 drop=2`
+    );
+    expect(formatConsolidationReport(report)).toContain(`Conflicting preferences (related, diverging values): 1\n  - ${line}`);
+  });
+});
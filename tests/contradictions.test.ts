@@ -0,0 +1,110 @@
+/**
+ * Tests for negative reinforcement (contradictions.ts): the confidence
+ * penalty and its floor, counter-examples, and the contradiction factor
+ * applyDecay (scoring.ts) weighs against confirmations. Schema from the
+ * real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import {
+  contradictPreference,
+  listCounterExamples,
+  formatCounterExamples,
+  MIN_CONTRADICTED_CONFIDENCE,
+} from "../src/contradictions";
+import { computeContradictionFactor, applyDecay } from "../src/scoring";
+
+let db: BetterSqlite3.Database;
+
+function insertPref(key: string, confidence: number, confirmedCount = 1): number {
+  const info = db
+    .prepare(`INSERT INTO preferences (key, value, confidence, confirmed_count) VALUES (?, 'v', ?, ?)`)
+    .run(key, confidence, confirmedCount);
+  return Number(info.lastInsertRowid);
+}
+
+function row(id: number): any {
+  return db.prepare(`SELECT * FROM preferences WHERE id = ?`).get(id);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("contradictPreference", () => {
+  it("lowers confidence, counts the contradiction and keeps the counter-example", () => {
+    const id = insertPref("test_style", 0.6);
+
+    expect(contradictPreference(db, { preferenceId: id, note: "only in tests", source: "user said so" })).toEqual({
+      ok: true,
+      confidenceBefore: 0.6,
+      confidence: 0.45,
+      contradictionCount: 1,
+    });
+    expect(row(id)).toMatchObject({ value: "v", confidence: 0.45, contradiction_count: 1, revision_count: 1 });
+    expect(row(id).last_contradicted_at).toBeTruthy();
+    expect(listCounterExamples(db, id)).toMatchObject([{ note: "only in tests", source: "user said so" }]);
+  });
+
+  it("never drops below the floor and rejects missing or invalidated preferences", () => {
+    const id = insertPref("weak", 0.1);
+    contradictPreference(db, { preferenceId: id, note: "a" });
+    contradictPreference(db, { preferenceId: id, note: "b" });
+    expect(row(id).confidence).toBe(MIN_CONTRADICTED_CONFIDENCE);
+
+    const gone = insertPref("gone", 0.5);
+    db.prepare(`UPDATE preferences SET invalidated_at = datetime('now') WHERE id = ?`).run(gone);
+    expect(contradictPreference(db, { preferenceId: gone, note: "x" })).toEqual({ ok: false, reason: "invalidated" });
+    expect(contradictPreference(db, { preferenceId: 99, note: "x" })).toEqual({ ok: false, reason: "not_found" });
+  });
+
+  it("drops the counter-examples on hard delete", () => {
+    const id = insertPref("k", 0.5);
+    contradictPreference(db, { preferenceId: id, note: "x" });
+    db.prepare(`DELETE FROM preferences WHERE id = ?`).run(id);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM preference_contradictions`).get()).toEqual({ n: 0 });
+  });
+});
+
+describe("contradiction factor", () => {
+  it("weighs contradictions against confirmations", () => {
+    expect(computeContradictionFactor(1, 0)).toBe(1);
+    expect(computeContradictionFactor(1, 1)).toBe(0.5);
+    expect(computeContradictionFactor(4, 1)).toBe(0.8);
+    expect(computeContradictionFactor(null, 2)).toBe(0.33);
+  });
+
+  it("keeps counting in effective confidence after re-confirmation restores confidence", () => {
+    const id = insertPref("test_style", 0.7, 4);
+    contradictPreference(db, { preferenceId: id, note: "only in tests" });
+    db.prepare(`UPDATE preferences SET confidence = 0.8, confirmed_count = 5, last_confirmed_at = datetime('now') WHERE id = ?`).run(id);
+
+    const decayed = applyDecay(row(id));
+    expect(decayed.contradiction_factor).toBe(0.83);
+    expect(decayed.effective_confidence).toBe(0.66);
+    expect(applyDecay({ confidence: 0.8, last_confirmed_at: null }).contradiction_factor).toBe(1);
+  });
+});
+
+describe("formatCounterExamples", () => {
+  it("lists the newest counter-examples and how many are older", () => {
+    const examples = [
+      { id: 2, note: "not in scripts", source: null, created_at: "2026-10-19 10:00:00" },
+      { id: 1, note: "only in tests", source: "user said so", created_at: "2026-10-18 10:00:00" },
+    ];
+    expect(formatCounterExamples({ contradiction_count: 3, contradiction_factor: 0.25 }, examples)).toBe(
+      [
+        "  Contradicted 3x (evidence factor 0.25):",
+        "  - not in scripts (2026-10-19 10:00:00)",
+        "  - only in tests (2026-10-18 10:00:00, user said so)",
+        "  (+1 older)",
+      ].join("\n")
+    );
+    expect(formatCounterExamples({ contradiction_count: 0 }, [])).toBe("");
+  });
+});
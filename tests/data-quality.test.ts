@@ -50,7 +50,9 @@ function createTestDb(): BetterSqlite3.Database {
       duplicate_count  INTEGER DEFAULT 1,
       last_seen_at     TEXT,
       topic_key       TEXT,
-      revision_count  INTEGER DEFAULT 1
+      revision_count  INTEGER DEFAULT 1,
+      pinned_at       TEXT DEFAULT NULL,
+      expires_at      TEXT DEFAULT NULL
     );
 
     CREATE TABLE preferences (
@@ -65,9 +67,25 @@ function createTestDb(): BetterSqlite3.Database {
       last_confirmed_at TEXT DEFAULT (datetime('now')),
       invalidated_at    TEXT DEFAULT NULL,
       superseded_by     TEXT DEFAULT NULL,
+      expires_at        TEXT DEFAULT NULL,
+      revision_count    INTEGER NOT NULL DEFAULT 1,
       UNIQUE(key, scope)
     );
 
+    CREATE TABLE preference_revisions (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      preference_id  INTEGER NOT NULL,
+      revision       INTEGER NOT NULL,
+      value          TEXT,
+      confidence     REAL,
+      source         TEXT,
+      invalidated_at TEXT,
+      superseded_by  TEXT,
+      change         TEXT NOT NULL,
+      replaced_at    TEXT DEFAULT (datetime('now')),
+      UNIQUE(preference_id, revision)
+    );
+
     CREATE VIRTUAL TABLE experiences_fts USING fts5(
       context, action, result, tags,
       content=experiences,
@@ -0,0 +1,117 @@
+/**
+ * Tests for configurable preference decay (scoring.ts + config.ts): the
+ * ladder and half-life models, per-key and per-category policies, and the
+ * projected date a preference leaves automatic outputs
+ * (formatDecayProjection, context-format.ts).
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { parseConfig } from "../src/config";
+import {
+  computeDecayFactor,
+  resolveDecayPolicy,
+  applyDecayPolicy,
+  projectDecayBelow,
+  LADDER_DECAY,
+  type DecayPolicy,
+} from "../src/scoring";
+import { formatDecayProjection } from "../src/context-format";
+
+const now = new Date("2026-10-19T12:00:00Z").getTime();
+
+function daysAgo(days: number): string {
+  return new Date(now - days * 86400000).toISOString().replace("T", " ").slice(0, 19);
+}
+
+const halfLife = (halfLifeDays: number): DecayPolicy => ({ model: "half_life", halfLifeDays });
+
+const config = parseConfig({
+  decay: {
+    categories: {
+      tooling: { keys: ["tool_*", "package_manager"], half_life_days: 30 },
+      language: { keys: ["language", "response_language"], half_life_days: 3650 },
+      pinned_ladder: { keys: ["tool_legacy"], model: "ladder" },
+    },
+    keys: {
+      tool_linter: { half_life_days: 7 },
+      response_language: { model: "ladder" },
+    },
+  },
+});
+
+describe("resolveDecayPolicy", () => {
+  it("defaults to the ladder", () => {
+    expect(resolveDecayPolicy("indent", parseConfig({}))).toEqual(LADDER_DECAY);
+    expect(resolveDecayPolicy(undefined, parseConfig({}))).toEqual(LADDER_DECAY);
+  });
+
+  it("applies the global model", () => {
+    const global = parseConfig({ decay: { model: "half_life", half_life_days: 90 } });
+    expect(resolveDecayPolicy("indent", global)).toEqual(halfLife(90));
+  });
+
+  it("lets a key rule beat the first matching category", () => {
+    expect(resolveDecayPolicy("tool_bundler", config)).toEqual(halfLife(30));
+    expect(resolveDecayPolicy("tool_legacy", config)).toEqual(halfLife(30));
+    expect(resolveDecayPolicy("package_manager", config)).toEqual(halfLife(30));
+    expect(resolveDecayPolicy("tool_linter", config)).toEqual(halfLife(7));
+    expect(resolveDecayPolicy("language", config)).toEqual(halfLife(3650));
+    expect(resolveDecayPolicy("response_language", config)).toEqual(LADDER_DECAY);
+    expect(resolveDecayPolicy("indent", config)).toEqual(LADDER_DECAY);
+  });
+
+  it("rejects invalid decay config", () => {
+    expect(() => parseConfig({ decay: { model: "linear" } })).toThrow();
+    expect(() => parseConfig({ decay: { half_life_days: 0 } })).toThrow();
+    expect(() => parseConfig({ decay: { categories: { empty: { keys: [] } } } })).toThrow();
+  });
+});
+
+describe("half-life model", () => {
+  it("halves the factor every half-life without steps", () => {
+    const policy = halfLife(90);
+    expect(computeDecayFactor(daysAgo(0), now, policy)).toBe(1);
+    expect(computeDecayFactor(daysAgo(90), now, policy)).toBe(0.5);
+    expect(computeDecayFactor(daysAgo(180), now, policy)).toBe(0.25);
+    expect(computeDecayFactor(daysAgo(31), now, policy)).toBeCloseTo(computeDecayFactor(daysAgo(30), now, policy), 1);
+    expect(computeDecayFactor(null, now, policy)).toBe(0.5);
+  });
+
+  it("feeds effective_confidence through applyDecayPolicy", () => {
+    const pref = { key: "tool_bundler", confidence: 0.8, last_confirmed_at: daysAgo(30) };
+    expect(applyDecayPolicy(pref, halfLife(30), now)).toMatchObject({ decay_factor: 0.5, effective_confidence: 0.4 });
+  });
+});
+
+describe("projected fade below the automatic threshold", () => {
+  it("projects the ladder step that crosses the threshold", () => {
+    const confirmed = daysAgo(10);
+    const crossing = projectDecayBelow(confirmed, 0.5, 0.3, LADDER_DECAY)!;
+    // 0.5 * 0.7 = 0.35 is still above, 0.5 * 0.5 = 0.25 is below: after 180 days
+    expect(crossing.getTime() - new Date(confirmed + "Z").getTime()).toBe(180 * 86400000);
+    expect(projectDecayBelow(confirmed, 1, 0.3, LADDER_DECAY)!.getTime()).toBe(
+      new Date(confirmed + "Z").getTime() + 730 * 86400000
+    );
+    expect(projectDecayBelow(confirmed, 0.2, 0.3, LADDER_DECAY)!.toISOString()).toBe(
+      new Date(confirmed + "Z").toISOString()
+    );
+  });
+
+  it("projects the half-life crossing and nothing for unknown ages", () => {
+    const confirmed = daysAgo(0);
+    // 0.6 -> 0.3 takes exactly one half-life
+    expect(projectDecayBelow(confirmed, 0.6, 0.3, halfLife(30))!.getTime()).toBe(now + 30 * 86400000);
+    expect(projectDecayBelow(null, 0.6, 0.3, halfLife(30))).toBeNull();
+  });
+
+  it("formats the projection for get_preferences", () => {
+    const fresh = { confidence: 0.6, last_confirmed_at: daysAgo(0) };
+    expect(formatDecayProjection(fresh, halfLife(30), now)).toBe("drops below 0.3 on 2026-11-18");
+    const stale = { confidence: 0.6, last_confirmed_at: daysAgo(60) };
+    expect(formatDecayProjection(stale, halfLife(30), now)).toBe("below 0.3 since 2026-09-19");
+    const contradicted = { confidence: 0.6, contradiction_factor: 0.5, last_confirmed_at: daysAgo(0) };
+    expect(formatDecayProjection(contradicted, halfLife(30), now)).toBe("below 0.3 since 2026-10-19");
+    expect(formatDecayProjection({ confidence: 0.9, last_confirmed_at: null }, LADDER_DECAY, now)).toBe("");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for expiring memories (expiry.ts): parsing expires_at / ttl_days,
+ * hiding expired rows from the automatic paths (merged preferences, pins),
+ * and consolidate moving them to the trash / invalidating them. Schema from
+ * the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { resolveExpiry, findExpiredIds, formatExpiry, toSqliteDatetime } from "../src/expiry";
+import { mergeScopedPreferences } from "../src/scopes";
+import { setPinned, listPinnedExperiences } from "../src/pins";
+import { runConsolidation, formatConsolidationReport } from "../src/consolidate";
+import { restoreFromTrash } from "../src/trash";
+import { formatExperienceDetail } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+function insertExp(expiresAt: string | null): number {
+  const info = db
+    .prepare(`INSERT INTO experiences (type, context, action, result, expires_at) VALUES ('experience', 'c', 'a', 'r', ?)`)
+    .run(expiresAt);
+  return Number(info.lastInsertRowid);
+}
+
+function insertPref(key: string, expiresAt: string | null): number {
+  const info = db
+    .prepare(`INSERT INTO preferences (key, value, scope, expires_at) VALUES (?, 'v', 'global', ?)`)
+    .run(key, expiresAt);
+  return Number(info.lastInsertRowid);
+}
+
+const past = () => toSqliteDatetime(new Date(Date.now() - 60_000));
+const future = () => toSqliteDatetime(new Date(Date.now() + 86_400_000));
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("resolveExpiry", () => {
+  it("accepts a TTL or an ISO date and stores UTC datetime('now') format", () => {
+    expect(resolveExpiry({}, NOW)).toEqual({ ok: true, expiresAt: null });
+    expect(resolveExpiry({ ttl_days: 2 }, NOW)).toEqual({ ok: true, expiresAt: "2026-10-21 12:00:00" });
+    expect(resolveExpiry({ expires_at: "2026-10-23" }, NOW)).toEqual({ ok: true, expiresAt: "2026-10-23 00:00:00" });
+    expect(resolveExpiry({ expires_at: "2026-10-23T18:30:00+02:00" }, NOW)).toEqual({
+      ok: true,
+      expiresAt: "2026-10-23 16:30:00",
+    });
+  });
+
+  it("rejects ambiguous, invalid and past values", () => {
+    expect(resolveExpiry({ ttl_days: 1, expires_at: "2026-10-23" }, NOW).ok).toBe(false);
+    expect(resolveExpiry({ ttl_days: 0 }, NOW).ok).toBe(false);
+    expect(resolveExpiry({ expires_at: "next friday" }, NOW).ok).toBe(false);
+    expect(resolveExpiry({ expires_at: "2026-10-01" }, NOW)).toEqual({
+      ok: false,
+      error: 'expires_at "2026-10-01" is in the past',
+    });
+  });
+});
+
+describe("hiding expired memories", () => {
+  it("finds expired ids among candidates", () => {
+    const gone = insertExp(past());
+    const alive = insertExp(future());
+    const permanent = insertExp(null);
+    expect([...findExpiredIds(db, "experience", [gone, alive, permanent])]).toEqual([gone]);
+  });
+
+  it("drops expired preferences from the merged chain and expired pins from the index", () => {
+    insertPref("staging_db", past());
+    insertPref("branch", future());
+    expect(mergeScopedPreferences(db, ["global"]).map((p) => p.key)).toEqual(["branch"]);
+
+    const pinned = insertExp(past());
+    setPinned(db, pinned, true);
+    expect(listPinnedExperiences(db, "")).toEqual([]);
+  });
+
+  it("marks the expiry in the get_memory detail", () => {
+    const base = { id: 1, type: "experience", success: 1 };
+    expect(formatExperienceDetail({ ...base, expires_at: "2026-10-01 00:00:00" })).toContain(
+      "Expires:    2026-10-01 00:00:00 (expired)"
+    );
+    expect(formatExpiry("2026-10-30 00:00:00", NOW)).toBe("2026-10-30 00:00:00");
+  });
+});
+
+describe("consolidate with expires_at", () => {
+  it("reports in dry-run, then trashes expired experiences and invalidates expired preferences", () => {
+    const gone = insertExp(past());
+    insertExp(future());
+    const pref = insertPref("staging_db", past());
+
+    const dry = runConsolidation(db, { apply: false, retention: [] });
+    expect(dry.pastExpiry).toEqual({ experiences: 1, preferences: 1 });
+    expect(formatConsolidationReport(dry)).toContain("Past expires_at (soft-deleted / invalidated with --apply): 1 experiences, 1 preferences");
+
+    const report = runConsolidation(db, { apply: true, retention: [] });
+    expect(report.pastExpirySoftDeleted).toBe(1);
+    expect(report.pastExpiryInvalidated).toBe(1);
+    expect(db.prepare(`SELECT invalidated_at IS NOT NULL AS inv FROM preferences WHERE id = ?`).get(pref)).toEqual({ inv: 1 });
+    expect(restoreFromTrash(db, { batch: report.retentionBatch! })).toEqual([gone]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for explicit memory feedback (feedback.ts): recording votes with
+ * their session and query, tallies, the ranking adjustment and injection
+ * filter (scoring.ts), and the memory_stats review list. Schema from the
+ * real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { recordFeedback, loadFeedback, listFlaggedMemories, formatTally } from "../src/feedback";
+import {
+  applyFeedback,
+  selectRelevant,
+  isSuppressedByFeedback,
+  FEEDBACK_PENALTY_MAX,
+  MIN_PROMPT_RELEVANCE,
+} from "../src/scoring";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(): number {
+  return Number(
+    db.prepare(`INSERT INTO experiences (type, context, action, result) VALUES ('experience', 'c', 'a', 'r')`).run()
+      .lastInsertRowid
+  );
+}
+
+function vote(id: number, helpful: boolean, times = 1, note?: string) {
+  for (let i = 0; i < times; i++) recordFeedback(db, { ref: { kind: "experience", id }, helpful, note });
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("recordFeedback", () => {
+  it("stores the vote with its session and query and returns the tally", () => {
+    const id = insertExp();
+    vote(id, true);
+    const result = recordFeedback(db, {
+      ref: { kind: "experience", id },
+      helpful: false,
+      sessionId: "s-1",
+      query: "how to deploy",
+    });
+
+    expect(result).toEqual({ ok: true, tally: { helpful: 1, unhelpful: 1 } });
+    expect(db.prepare(`SELECT rating, session_id, query FROM memory_feedback ORDER BY id DESC LIMIT 1`).get()).toEqual({
+      rating: -1,
+      session_id: "s-1",
+      query: "how to deploy",
+    });
+    expect(formatTally(result.ok ? result.tally : { helpful: 0, unhelpful: 0 })).toBe("+1 / -1");
+  });
+
+  it("masks secrets in the query and note", () => {
+    const id = insertExp();
+    recordFeedback(db, {
+      ref: { kind: "experience", id },
+      helpful: false,
+      query: "login with password=hunter22",
+      note: "leaked ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8",
+    });
+    expect(db.prepare(`SELECT query, note FROM memory_feedback`).get()).toEqual({
+      query: "login with password=[REDACTED:secret_assignment]",
+      note: "leaked [REDACTED:github_token]",
+    });
+  });
+
+  it("rejects missing or deleted memories and drops votes on hard delete", () => {
+    const id = insertExp();
+    expect(recordFeedback(db, { ref: { kind: "preference", id: 99 }, helpful: true })).toEqual({
+      ok: false,
+      reason: "not_found",
+    });
+    vote(id, false);
+    db.prepare(`DELETE FROM experiences WHERE id = ?`).run(id);
+    expect(loadFeedback(db, "experience", [id]).size).toBe(0);
+  });
+});
+
+describe("feedback in ranking and injection", () => {
+  it("boosts helpful memories a little and penalizes unhelpful ones more", () => {
+    expect(applyFeedback(0.6)).toBe(0.6);
+    expect(applyFeedback(0.6, { helpful: 2, unhelpful: 2 })).toBe(0.6);
+    expect(applyFeedback(0.6, { helpful: 3, unhelpful: 0 })).toBeCloseTo(0.69);
+    expect(applyFeedback(0.6, { helpful: 0, unhelpful: 10 })).toBeCloseTo(0.6 * (1 - FEEDBACK_PENALTY_MAX));
+    // Two net down-votes push a solid match under the injection threshold
+    expect(applyFeedback(0.55, { helpful: 0, unhelpful: 2 })).toBeLessThan(MIN_PROMPT_RELEVANCE);
+  });
+
+  it("selectRelevant skips memories repeatedly rated unhelpful", () => {
+    const results = [
+      { id: 1, score: 0.9, feedback: { helpful: 1, unhelpful: 3 } },
+      { id: 2, score: 0.8, feedback: { helpful: 4, unhelpful: 3 } },
+      { id: 3, score: 0.7 },
+    ];
+    expect(selectRelevant(results).map((r) => r.id)).toEqual([2, 3]);
+    expect(isSuppressedByFeedback({ helpful: 0, unhelpful: 2 })).toBe(false);
+  });
+});
+
+describe("listFlaggedMemories", () => {
+  it("lists active memories suppressed by feedback, worst first, with the latest note", () => {
+    const mild = insertExp();
+    const worst = insertExp();
+    const mixed = insertExp();
+    const deleted = insertExp();
+    vote(mild, false, 3);
+    vote(worst, false, 4, "outdated");
+    vote(worst, false, 1, "wrong command");
+    vote(mixed, false, 3);
+    vote(mixed, true, 3);
+    vote(deleted, false, 5);
+    db.prepare(`UPDATE experiences SET deleted_at = datetime('now') WHERE id = ?`).run(deleted);
+
+    const flagged = listFlaggedMemories(db);
+    expect(flagged.map((f) => f.ref.id)).toEqual([worst, mild]);
+    expect(flagged[0]).toMatchObject({ helpful: 0, unhelpful: 5, lastNote: "wrong command" });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for hybrid search fusion strategies (scoring.ts + fusion.ts):
+ * policy resolution from config.json, each strategy, weights learned from
+ * rate_memory votes and the channel scores stored with a vote. Schema from
+ * the real migrations plus a float[4] vec0 table (same fixture style as
+ * search-filters.test.ts).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+
+import { runMigrations } from "../src/migrations";
+import { parseConfig } from "../src/config";
+import {
+  resolveFusionPolicy,
+  fuseChannels,
+  fuseScores,
+  describeFusionPolicy,
+  selectRelevant,
+  MIN_PROMPT_RELEVANCE,
+  RRF_MIN_CHANNEL_SCORE,
+  type ChannelScores,
+  type FusionPolicy,
+} from "../src/scoring";
+import { learnFusionWeights, loadFusionPolicy, scoreMemoryChannels, LEARNED_PRIOR_VOTES } from "../src/fusion";
+import { recordFeedback } from "../src/feedback";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(context: string, project = "", vector?: number[]): number {
+  const id = Number(
+    db.prepare(`INSERT INTO experiences (type, context, action, result, project) VALUES ('experience', ?, 'act', 'res', ?)`)
+      .run(context, project).lastInsertRowid
+  );
+  if (vector) {
+    db.prepare(`INSERT INTO vec_experiences (experience_id, embedding) VALUES (?, ?)`).run(BigInt(id), new Float32Array(vector));
+  }
+  return id;
+}
+
+function vote(id: number, helpful: boolean, channels: ChannelScores) {
+  recordFeedback(db, { ref: { kind: "experience", id }, helpful, channels });
+}
+
+const policy = (overrides: Partial<FusionPolicy>): FusionPolicy => ({
+  strategy: "weighted",
+  vectorWeight: 0.7,
+  ftsWeight: 0.3,
+  rrfK: 60,
+  ...overrides,
+});
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  sqliteVec.load(db);
+  runMigrations(db);
+  db.exec(`
+    CREATE VIRTUAL TABLE vec_experiences USING vec0(
+      experience_id INTEGER PRIMARY KEY,
+      embedding float[4] distance_metric=cosine
+    );
+  `);
+});
+
+describe("resolveFusionPolicy", () => {
+  const config = parseConfig({
+    fusion: {
+      strategy: "weighted",
+      vector_weight: 0.6,
+      fts_weight: 0.2,
+      projects: { api: { strategy: "rrf", rrf_k: 20 }, docs: { vector_weight: 0.9, fts_weight: 0.1 } },
+    },
+  });
+
+  it("defaults to the historical 0.7 / 0.3 blend", () => {
+    expect(resolveFusionPolicy(undefined, undefined, parseConfig({}))).toEqual(policy({}));
+  });
+
+  it("normalizes the weights and applies project entries", () => {
+    const global = resolveFusionPolicy(undefined, undefined, config);
+    expect(global.vectorWeight).toBeCloseTo(0.75);
+    expect(global.ftsWeight).toBeCloseTo(0.25);
+    expect(resolveFusionPolicy("api", undefined, config)).toMatchObject({ strategy: "rrf", rrfK: 20 });
+    expect(resolveFusionPolicy("docs", undefined, config)).toMatchObject({ strategy: "weighted", vectorWeight: 0.9 });
+  });
+
+  it("lets the query pick the strategy", () => {
+    expect(resolveFusionPolicy("api", "max", config).strategy).toBe("max");
+  });
+});
+
+describe("fuseChannels", () => {
+  const channels = new Map<string, ChannelScores>([
+    ["exp:1", { vector: 0.8, fts: 0 }],
+    ["exp:2", { vector: 0.5, fts: 0.9 }],
+    ["exp:3", { vector: 0, fts: 0.4 }],
+  ]);
+
+  it("weighted matches fuseScores", () => {
+    const fused = fuseChannels(channels, policy({}));
+    expect(fused.get("exp:1")).toBeCloseTo(fuseScores(0.8, 0));
+    expect(fused.get("exp:2")).toBeCloseTo(0.7 * 0.5 + 0.3 * 0.9);
+  });
+
+  it("max keeps the stronger channel", () => {
+    const fused = fuseChannels(channels, policy({ strategy: "max" }));
+    expect([...fused.values()]).toEqual([0.8, 0.9, 0.4]);
+  });
+
+  it("rrf ranks by position only, 1 for first in both channels", () => {
+    const fused = fuseChannels(channels, policy({ strategy: "rrf", rrfK: 60 }));
+    // exp:2 is 2nd by vector and 1st by FTS; exp:1 only 1st by vector
+    expect(fused.get("exp:2")).toBeCloseTo((1 / 62 + 1 / 61) / (2 / 61));
+    expect(fused.get("exp:1")).toBeCloseTo(1 / 61 / (2 / 61));
+    expect(fused.get("exp:3")).toBeCloseTo(1 / 62 / (2 / 61));
+    const top = new Map([["exp:9", { vector: 0.6, fts: 0.5 }]]);
+    expect(fuseChannels(top, policy({ strategy: "rrf" })).get("exp:9")).toBe(1);
+  });
+
+  it("rrf only ranks channel scores that could be injected on their own", () => {
+    const weak = new Map<string, ChannelScores>([
+      ["exp:1", { vector: 0.3, fts: 0 }],
+      ["exp:2", { vector: 0.2, fts: 0.1 }],
+    ]);
+    const fused = fuseChannels(weak, policy({ strategy: "rrf" }));
+    expect(fused.get("exp:1")).toBe(0);
+    expect(fused.get("exp:2")).toBe(0);
+    const results = [...fused].map(([key, score]) => ({ id: Number(key.slice(4)), score }));
+    expect(selectRelevant(results)).toEqual([]);
+    // A strong single-channel match still qualifies
+    const strong = fuseChannels(new Map([["exp:3", { vector: RRF_MIN_CHANNEL_SCORE, fts: 0 }]]), policy({ strategy: "rrf" }));
+    expect(strong.get("exp:3")).toBeGreaterThanOrEqual(MIN_PROMPT_RELEVANCE);
+  });
+
+  it("describes the policy for debug output", () => {
+    expect(describeFusionPolicy(policy({}))).toBe("weighted (vector 0.70, fts 0.30)");
+    expect(describeFusionPolicy(policy({ strategy: "rrf" }))).toBe("rrf (k 60)");
+    expect(describeFusionPolicy(policy({ strategy: "learned", learnedFrom: 4 }))).toBe(
+      "learned (vector 0.70, fts 0.30, 4 votes)"
+    );
+  });
+});
+
+describe("learnFusionWeights", () => {
+  it("keeps the prior without votes", () => {
+    expect(learnFusionWeights(db, { vectorWeight: 0.7, ftsWeight: 0.3 })).toEqual({
+      vectorWeight: 0.7,
+      ftsWeight: 0.3,
+      votes: 0,
+    });
+  });
+
+  it("moves weight towards the channel that found helpful memories", () => {
+    const id = insertExp("grep for ERR_SOCKET_TIMEOUT");
+    for (let i = 0; i < 10; i++) vote(id, true, { vector: 0.2, fts: 0.9 });
+    // Unhelpful memories the vector channel liked take credit away from it
+    vote(id, false, { vector: 0.9, fts: 0.1 });
+    // Votes without channel scores do not count
+    recordFeedback(db, { ref: { kind: "experience", id }, helpful: true });
+
+    const learned = learnFusionWeights(db, { vectorWeight: 0.7, ftsWeight: 0.3 });
+    expect(learned.votes).toBe(11);
+    expect(learned.ftsWeight).toBeCloseTo((8.9 + LEARNED_PRIOR_VOTES * 0.3) / (1.1 + 8.9 + LEARNED_PRIOR_VOTES), 3);
+    expect(learned.ftsWeight).toBeGreaterThan(0.5);
+    expect(learned.vectorWeight + learned.ftsWeight).toBeCloseTo(1, 2);
+  });
+
+  it("learns per project from votes on that project's experiences", () => {
+    const api = insertExp("api note", "api");
+    const docs = insertExp("docs note", "docs");
+    for (let i = 0; i < 20; i++) vote(api, true, { vector: 0, fts: 1 });
+    for (let i = 0; i < 20; i++) vote(docs, true, { vector: 1, fts: 0 });
+
+    const config = parseConfig({ fusion: { strategy: "learned" } });
+    const apiPolicy = loadFusionPolicy(db, { project: "api", config });
+    const docsPolicy = loadFusionPolicy(db, { project: "docs", config });
+    expect(apiPolicy).toMatchObject({ strategy: "learned", learnedFrom: 20 });
+    expect(apiPolicy.ftsWeight).toBeGreaterThan(0.7);
+    expect(docsPolicy.vectorWeight).toBeGreaterThan(0.8);
+    expect(loadFusionPolicy(db, { config }).learnedFrom).toBe(40);
+    // Other strategies are not touched by feedback
+    expect(loadFusionPolicy(db, { project: "api", strategy: "weighted", config }).vectorWeight).toBe(0.7);
+  });
+});
+
+describe("scoreMemoryChannels", () => {
+  it("scores both channels like hybridSearch", () => {
+    const id = insertExp("redis session store timeout", "", [1, 0, 0, 0]);
+    const scores = scoreMemoryChannels(db, { kind: "experience", id }, {
+      ftsQuery: '"redis" OR "kafka"',
+      terms: ["redis", "kafka"],
+      embedding: new Float32Array([0.8, 0.6, 0, 0]),
+    });
+    expect(scores!.vector).toBeCloseTo(0.8);
+    expect(scores!.fts).toBeGreaterThan(0);
+    expect(scores!.fts).toBeLessThan(0.5); // one of two terms
+  });
+
+  it("returns null when neither channel matches", () => {
+    const id = insertExp("unrelated");
+    expect(
+      scoreMemoryChannels(db, { kind: "experience", id }, { ftsQuery: '"redis"', terms: ["redis"], embedding: null })
+    ).toBeNull();
+  });
+
+  it("stores the scores with the vote", () => {
+    const id = insertExp("redis");
+    vote(id, true, { vector: 0.4, fts: 0.6 });
+    expect(db.prepare(`SELECT vector_score, fts_score FROM memory_feedback`).get()).toEqual({
+      vector_score: 0.4,
+      fts_score: 0.6,
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for reviewing and restoring invalidated preferences
+ * (invalidated-preferences.ts, restorePreferenceById in
+ * preference-revisions.ts): causes taken from the preference history,
+ * superseded_by chains, filters and the listing. Schema from the real
+ * migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { invalidatePreferenceById, restorePreferenceById, listPreferenceRevisions } from "../src/preference-revisions";
+import {
+  listInvalidatedPreferences,
+  followSupersededBy,
+  formatInvalidatedPreferences,
+} from "../src/invalidated-preferences";
+
+let db: BetterSqlite3.Database;
+
+function insertPref(key: string, value: string, scope = "global"): number {
+  const info = db
+    .prepare(`INSERT INTO preferences (key, value, scope, confidence) VALUES (?, ?, ?, 0.6)`)
+    .run(key, value, scope);
+  return Number(info.lastInsertRowid);
+}
+
+function setInvalidatedAt(id: number, at: string): void {
+  db.prepare(`UPDATE preferences SET invalidated_at = ? WHERE id = ?`).run(at, id);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("listInvalidatedPreferences", () => {
+  it("reports the cause of each invalidation from the history", () => {
+    const byUser = insertPref("indent", "tabs");
+    const byConsolidate = insertPref("preferred_language", "english");
+    const byConflict = insertPref("code_style", "2 spaces");
+    const byExpiry = insertPref("staging_db", "down");
+    const legacy = insertPref("editor", "vim");
+    insertPref("language", "english");
+
+    invalidatePreferenceById(db, byUser, { change: "invalidate" });
+    invalidatePreferenceById(db, byConsolidate, { change: "consolidate", supersededBy: "language" });
+    invalidatePreferenceById(db, byConflict, { change: "conflict", supersededBy: "indent" });
+    invalidatePreferenceById(db, byExpiry, { change: "expire" });
+    db.prepare(`UPDATE preferences SET invalidated_at = datetime('now') WHERE id = ?`).run(legacy);
+
+    const causes = Object.fromEntries(listInvalidatedPreferences(db).items.map((i) => [i.key, i.cause]));
+    expect(causes).toEqual({
+      indent: "user",
+      preferred_language: "consolidation",
+      code_style: "conflict",
+      staging_db: "expiry",
+      editor: "unknown",
+    });
+    expect(listInvalidatedPreferences(db, { cause: "consolidation" }).items.map((i) => i.id)).toEqual([byConsolidate]);
+  });
+
+  it("filters by scope and key, newest first, with a total beyond the limit", () => {
+    const a = insertPref("indent", "tabs", "api");
+    const b = insertPref("indent", "spaces");
+    const c = insertPref("quotes", "single", "api");
+    for (const id of [a, b, c]) invalidatePreferenceById(db, id, { change: "invalidate" });
+    setInvalidatedAt(a, "2026-10-01 00:00:00");
+    setInvalidatedAt(b, "2026-10-02 00:00:00");
+    setInvalidatedAt(c, "2026-10-03 00:00:00");
+
+    expect(listInvalidatedPreferences(db, { scope: "api" }).items.map((i) => i.id)).toEqual([c, a]);
+    expect(listInvalidatedPreferences(db, { key: "indent" }).items.map((i) => i.id)).toEqual([b, a]);
+    expect(listInvalidatedPreferences(db, {}, 1)).toMatchObject({ total: 3, items: [{ id: c }] });
+  });
+});
+
+describe("followSupersededBy", () => {
+  it("follows keys to the first active preference, preferring the same scope", () => {
+    const first = insertPref("indent", "tabs", "api");
+    const middle = insertPref("code_style", "2 spaces", "api");
+    const guide = insertPref("style_guide", "airbnb");
+    insertPref("style_guide", "standard", "web");
+    invalidatePreferenceById(db, first, { change: "consolidate", supersededBy: "code_style" });
+    invalidatePreferenceById(db, middle, { change: "conflict", supersededBy: "style_guide" });
+
+    const [item] = listInvalidatedPreferences(db, { key: "indent" }).items;
+    expect(item.chain).toEqual([
+      { id: middle, key: "code_style", scope: "api", active: false },
+      { id: guide, key: "style_guide", scope: "global", active: true },
+    ]);
+  });
+
+  it("stops at loops and missing keys", () => {
+    const a = insertPref("a", "1");
+    const b = insertPref("b", "2");
+    invalidatePreferenceById(db, a, { change: "consolidate", supersededBy: "b" });
+    invalidatePreferenceById(db, b, { change: "consolidate", supersededBy: "a" });
+    expect(followSupersededBy(db, { id: a, scope: "global", superseded_by: "b" })).toEqual({
+      chain: [{ id: b, key: "b", scope: "global", active: false }],
+      loops: true,
+    });
+    expect(followSupersededBy(db, { id: a, scope: "global", superseded_by: "gone" })).toEqual({ chain: [], loops: false });
+  });
+});
+
+describe("restorePreferenceById", () => {
+  it("reactivates without touching value or confidence and records the revision", () => {
+    const id = insertPref("indent", "tabs");
+    invalidatePreferenceById(db, id, { change: "consolidate", supersededBy: "code_style" });
+
+    expect(restorePreferenceById(db, id)).toBe(true);
+    expect(restorePreferenceById(db, id)).toBe(false);
+    expect(restorePreferenceById(db, 99)).toBe(false);
+    expect(db.prepare(`SELECT value, confidence, invalidated_at, superseded_by FROM preferences WHERE id = ?`).get(id)).toEqual({
+      value: "tabs",
+      confidence: 0.6,
+      invalidated_at: null,
+      superseded_by: null,
+    });
+    expect(listPreferenceRevisions(db, id).map((r) => r.change)).toEqual(["consolidate", "restore", null]);
+    expect(listInvalidatedPreferences(db).total).toBe(0);
+  });
+});
+
+describe("formatInvalidatedPreferences", () => {
+  it("shows cause and chain per preference", () => {
+    insertPref("language", "english");
+    const id = insertPref("preferred_language", "english");
+    invalidatePreferenceById(db, id, { change: "consolidate", supersededBy: "language" });
+    setInvalidatedAt(id, "2026-10-01 10:00:00");
+
+    expect(formatInvalidatedPreferences(listInvalidatedPreferences(db))).toBe(
+      [
+        "Invalidated preferences: 1 (restore one with restore_preference key=... scope=...)",
+        "",
+        `- #${id} 'preferred_language' [global] = "english" (confidence 0.6)`,
+        "  invalidated 2026-10-01 10:00:00 by consolidation (near-duplicate dedupe)",
+        "  superseded by: 'language' [global] (active)",
+      ].join("\n")
+    );
+    expect(formatInvalidatedPreferences({ items: [], total: 0 })).toBe("No invalidated preferences for this filter.");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests for the memory graph (links.ts): creating and removing typed edges,
+ * multi-hop traversal over active memories, search-result expansion with
+ * strongly linked neighbours, and the get_memory tree formatting
+ * (formatLinkGraph in context-format.ts). Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import {
+  INVERSE_RELATION_LABELS,
+  LINK_EXPANSION_DAMPING,
+  linkMemories,
+  unlinkMemories,
+  getNeighbours,
+  traverseLinks,
+  expandWithLinks,
+} from "../src/links";
+import { formatLinkGraph } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+const exp = (id: number) => ({ kind: "experience" as const, id });
+const pref = (id: number) => ({ kind: "preference" as const, id });
+
+function insertExp(context: string, type = "experience"): number {
+  const info = db
+    .prepare(`INSERT INTO experiences (type, context, action, result) VALUES (?, ?, 'act', 'res')`)
+    .run(type, context);
+  return Number(info.lastInsertRowid);
+}
+
+function insertPref(key: string, value: string): number {
+  const info = db.prepare(`INSERT INTO preferences (key, value, scope) VALUES (?, ?, 'global')`).run(key, value);
+  return Number(info.lastInsertRowid);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("linkMemories", () => {
+  it("creates an edge once and updates its weight on repeat", () => {
+    const fix = insertExp("new fix");
+    const old = insertExp("old fix");
+    const first = linkMemories(db, { from: exp(fix), to: exp(old), relation: "supersedes" });
+    expect(first).toMatchObject({ ok: true, created: true });
+
+    const again = linkMemories(db, { from: exp(fix), to: exp(old), relation: "supersedes", weight: 0.5 });
+    expect(again).toEqual({ ok: true, id: (first as any).id, created: false });
+    expect(getNeighbours(db, exp(old))).toEqual([
+      { relation: "supersedes", weight: 0.5, note: null, direction: "in", neighbour: exp(fix) },
+    ]);
+  });
+
+  it("masks secrets in the note", () => {
+    const a = insertExp("a");
+    const b = insertExp("b");
+    linkMemories(db, { from: exp(a), to: exp(b), relation: "related_to", note: "token ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8" });
+    expect(getNeighbours(db, exp(b))[0].note).toBe("token [REDACTED:github_token]");
+    linkMemories(db, { from: exp(a), to: exp(b), relation: "related_to", note: "password=hunter22" });
+    expect(getNeighbours(db, exp(b))[0].note).toBe("password=[REDACTED:secret_assignment]");
+  });
+
+  it("links experiences and preferences", () => {
+    const correction = insertExp("use tabs", "correction");
+    const p = insertPref("indent", "tabs");
+    expect(linkMemories(db, { from: pref(p), to: exp(correction), relation: "derived_from" })).toMatchObject({ ok: true });
+    expect(getNeighbours(db, exp(correction))[0].neighbour).toEqual(pref(p));
+  });
+
+  it("rejects self links, missing memories and bad weights", () => {
+    const a = insertExp("a");
+    expect(linkMemories(db, { from: exp(a), to: exp(a), relation: "related_to" })).toEqual({ ok: false, reason: "self_link" });
+    expect(linkMemories(db, { from: exp(a), to: exp(999), relation: "related_to" })).toEqual({ ok: false, reason: "not_found" });
+    expect(linkMemories(db, { from: exp(a), to: pref(a), relation: "related_to" })).toEqual({ ok: false, reason: "not_found" });
+    const b = insertExp("b");
+    expect(linkMemories(db, { from: exp(a), to: exp(b), relation: "related_to", weight: 0 })).toEqual({
+      ok: false,
+      reason: "invalid_weight",
+    });
+  });
+
+  it("rejects unknown relations at the schema level", () => {
+    expect(() =>
+      db.prepare(`INSERT INTO memory_links (from_type, from_id, to_type, to_id, relation) VALUES ('experience', 1, 'experience', 2, 'likes')`).run()
+    ).toThrow();
+  });
+
+  it("removes edges and drops them when a memory is purged", () => {
+    const a = insertExp("a");
+    const b = insertExp("b");
+    const c = insertExp("c");
+    linkMemories(db, { from: exp(a), to: exp(b), relation: "related_to" });
+    linkMemories(db, { from: exp(a), to: exp(c), relation: "caused_by" });
+
+    expect(unlinkMemories(db, { from: exp(a), to: exp(b) })).toBe(1);
+    db.prepare(`DELETE FROM experiences WHERE id = ?`).run(c);
+    expect((db.prepare(`SELECT COUNT(*) AS n FROM memory_links`).get() as any).n).toBe(0);
+  });
+});
+
+describe("traverseLinks", () => {
+  it("walks both directions up to N hops, once per memory", () => {
+    const decision = insertExp("chose sqlite", "decision");
+    const gotcha = insertExp("WAL needs checkpoint", "gotcha");
+    const fix = insertExp("checkpoint after writes");
+    const unrelated = insertExp("far away");
+    linkMemories(db, { from: exp(gotcha), to: exp(decision), relation: "caused_by" });
+    linkMemories(db, { from: exp(fix), to: exp(gotcha), relation: "derived_from" });
+    linkMemories(db, { from: exp(fix), to: exp(decision), relation: "related_to" });
+    linkMemories(db, { from: exp(unrelated), to: exp(fix), relation: "related_to" });
+
+    const oneHop = traverseLinks(db, exp(decision), 1);
+    expect(oneHop.map((n) => n.neighbour.id).sort()).toEqual([gotcha, fix].sort());
+
+    const twoHops = traverseLinks(db, exp(decision), 2);
+    expect(twoHops.find((n) => n.neighbour.id === unrelated)).toMatchObject({ depth: 2, via: exp(fix) });
+    expect(twoHops).toHaveLength(3);
+    expect(twoHops[0].label).toContain("[");
+  });
+
+  it("skips soft-deleted experiences and invalidated preferences", () => {
+    const a = insertExp("a");
+    const b = insertExp("b");
+    const c = insertExp("c");
+    const p = insertPref("k", "v");
+    linkMemories(db, { from: exp(a), to: exp(b), relation: "related_to" });
+    linkMemories(db, { from: exp(b), to: exp(c), relation: "related_to" });
+    linkMemories(db, { from: exp(a), to: pref(p), relation: "related_to" });
+    db.prepare(`UPDATE experiences SET deleted_at = datetime('now') WHERE id = ?`).run(b);
+    db.prepare(`UPDATE preferences SET invalidated_at = datetime('now') WHERE id = ?`).run(p);
+
+    expect(traverseLinks(db, exp(a), 3)).toEqual([]);
+  });
+});
+
+describe("expandWithLinks", () => {
+  it("appends strongly linked neighbours with a damped score", () => {
+    const hit = insertExp("hit");
+    const strong = insertExp("strong");
+    const weak = insertExp("weak");
+    linkMemories(db, { from: exp(strong), to: exp(hit), relation: "supersedes", weight: 0.9 });
+    linkMemories(db, { from: exp(hit), to: exp(weak), relation: "related_to", weight: 0.3 });
+
+    const expanded = expandWithLinks(db, [{ id: hit, score: 0.8, source: "experience" }]);
+    expect(expanded).toHaveLength(2);
+    expect(expanded[1]).toEqual({
+      id: strong,
+      source: "experience",
+      score: 0.8 * 0.9 * LINK_EXPANSION_DAMPING,
+      linkedFrom: { id: hit, source: "experience", relation: "supersedes" },
+    });
+  });
+
+  it("does not duplicate memories already in the results and respects the cap", () => {
+    const a = insertExp("a");
+    const b = insertExp("b");
+    const neighbours = [insertExp("n1"), insertExp("n2")];
+    linkMemories(db, { from: exp(a), to: exp(b), relation: "related_to" });
+    for (const n of neighbours) linkMemories(db, { from: exp(a), to: exp(n), relation: "caused_by" });
+
+    const results = [
+      { id: a, score: 0.9, source: "experience" as const },
+      { id: b, score: 0.5, source: "experience" as const },
+    ];
+    const expanded = expandWithLinks(db, results, { max: 1 });
+    expect(expanded).toHaveLength(3);
+    expect(expanded[2].linkedFrom).toEqual({ id: a, source: "experience", relation: "caused" });
+  });
+});
+
+describe("formatLinkGraph", () => {
+  it("renders a tree with relations read from the parent", () => {
+    const text = formatLinkGraph(
+      [
+        { neighbour: exp(41), via: exp(12), relation: "supersedes", direction: "in", weight: 1, depth: 1, label: "[fix] new" },
+        { neighbour: pref(3), via: exp(41), relation: "derived_from", direction: "in", weight: 0.8, depth: 2, label: "indent: \"tabs\"", note: "learned here" },
+      ],
+      12,
+      2,
+      INVERSE_RELATION_LABELS
+    );
+    expect(text).toBe(
+      [
+        "--- Links of #12 (up to 2 hops) ---",
+        "- superseded by #41: [fix] new",
+        "  - source of pref #3 (weight 0.8): indent: \"tabs\" — learned here",
+      ].join("\n")
+    );
+  });
+
+  it("returns an empty string without links", () => {
+    expect(formatLinkGraph([], 1, 1, INVERSE_RELATION_LABELS)).toBe("");
+  });
+});
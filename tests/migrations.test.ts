@@ -0,0 +1,154 @@
+/**
+ * Tests for the versioned schema migrations (migrations.ts):
+ *   - fresh databases reach the latest version with the full schema
+ *   - legacy (pre-versioning) layouts are upgraded without losing data
+ *   - migrations are transactional: a failure leaves the previous version
+ *   - databases newer than the build are refused
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  SchemaVersionError,
+  runMigrations,
+  getSchemaVersion,
+  getMigrationStatus,
+  formatMigrationStatus,
+  assertSchemaSupported,
+  columnNames,
+  type Migration,
+} from "../src/migrations";
+
+let db: BetterSqlite3.Database;
+
+beforeEach(() => {
+  db = new Database(":memory:");
+});
+
+describe("fresh database", () => {
+  it("applies every migration in order and records them", () => {
+    const applied = runMigrations(db);
+    expect(applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+
+    for (const table of ["experiences", "preferences", "patterns", "telemetry", "experiences_fts"]) {
+      expect(db.prepare(`SELECT 1 FROM sqlite_master WHERE name = ?`).get(table)).toBeTruthy();
+    }
+    expect(columnNames(db, "preferences")).toContain("invalidated_at");
+  });
+
+  it("is idempotent: a second run applies nothing", () => {
+    runMigrations(db);
+    expect(runMigrations(db)).toEqual([]);
+    expect(getMigrationStatus(db).pending).toEqual([]);
+  });
+});
+
+describe("legacy databases", () => {
+  it("rebuilds an unscoped preferences table keeping every row", () => {
+    db.exec(`
+      CREATE TABLE preferences (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL UNIQUE,
+        value TEXT NOT NULL,
+        confidence REAL DEFAULT 0.5,
+        source TEXT DEFAULT '',
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+      INSERT INTO preferences (key, value, confidence, updated_at)
+        VALUES ('language', 'spanish', 0.8, '2025-01-01 10:00:00');
+    `);
+
+    runMigrations(db);
+
+    const pref = db.prepare(`SELECT * FROM preferences WHERE key = 'language'`).get() as any;
+    expect(pref.value).toBe("spanish");
+    expect(pref.confidence).toBe(0.8);
+    expect(pref.scope).toBe("global");
+    expect(pref.last_confirmed_at).toBe("2025-01-01 10:00:00");
+    expect(pref).toHaveProperty("invalidated_at", null);
+    expect(pref).toHaveProperty("superseded_by", null);
+  });
+
+  it("adds missing decay columns to a scoped table (no expression default)", () => {
+    db.exec(`
+      CREATE TABLE preferences (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL, value TEXT NOT NULL,
+        confidence REAL DEFAULT 0.3, source TEXT DEFAULT '',
+        scope TEXT DEFAULT 'global',
+        updated_at TEXT DEFAULT (datetime('now')),
+        UNIQUE(key, scope)
+      );
+      INSERT INTO preferences (key, value, scope) VALUES ('indent', 'tabs', 'api');
+    `);
+
+    runMigrations(db);
+
+    const pref = db.prepare(`SELECT * FROM preferences WHERE key = 'indent'`).get() as any;
+    expect(pref.scope).toBe("api");
+    expect(pref.confirmed_count).toBe(1);
+    expect(pref.last_confirmed_at).toBeTruthy();
+  });
+
+  it("indexes experiences written before the FTS table existed", () => {
+    db.exec(`
+      CREATE TABLE experiences (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL, context TEXT, action TEXT, result TEXT,
+        success INTEGER DEFAULT 1, tags TEXT DEFAULT '', project TEXT DEFAULT '',
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+      INSERT INTO experiences (type, context, action, result) VALUES ('experience', 'docker compose hang', 'restart', 'ok');
+    `);
+
+    runMigrations(db);
+
+    expect(columnNames(db, "experiences")).toEqual(expect.arrayContaining(["deleted_at", "topic_key", "revision_count"]));
+    const hits = db.prepare(`SELECT rowid FROM experiences_fts WHERE experiences_fts MATCH 'docker'`).all();
+    expect(hits).toHaveLength(1);
+  });
+});
+
+describe("transactions and version guards", () => {
+  it("rolls back a failing migration and keeps the previous version", () => {
+    const broken: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: LATEST_SCHEMA_VERSION + 1,
+        name: "broken",
+        up: (d) => {
+          d.exec(`CREATE TABLE half_done (id INTEGER)`);
+          throw new Error("boom");
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, broken)).toThrow("boom");
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'half_done'`).get()).toBeUndefined();
+  });
+
+  it("refuses a database newer than the build", () => {
+    runMigrations(db);
+    db.prepare(`INSERT INTO schema_version (version, name) VALUES (?, 'future')`).run(LATEST_SCHEMA_VERSION + 1);
+
+    expect(() => assertSchemaSupported(db)).toThrow(SchemaVersionError);
+    expect(() => runMigrations(db)).toThrow(SchemaVersionError);
+
+    const status = getMigrationStatus(db);
+    expect(status.tooNew).toBe(true);
+    expect(formatMigrationStatus(status)).toContain("NEWER");
+  });
+
+  it("reports pending migrations before they run", () => {
+    const status = getMigrationStatus(db);
+    expect(status.current).toBe(0);
+    expect(status.pending).toHaveLength(MIGRATIONS.length);
+    expect(formatMigrationStatus(status)).toContain("migrate up");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for pinned experiences (pins.ts): pin/unpin, which pins a project
+ * sees, their place in the session index and compaction reminder
+ * (context-format.ts), and their exemption from retention and unused
+ * pruning. Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { setPinned, listPinnedExperiences } from "../src/pins";
+import { findExpiredExperiences } from "../src/retention";
+import { pruneUnusedExperiences } from "../src/access";
+import { formatSessionIndex, formatMinimalContext, SESSION_CONTEXT_BUDGET } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(project: string, context = "c", daysAgo = 0): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, project, created_at)
+       VALUES ('gotcha', ?, 'a', 'r', ?, datetime('now', ?))`
+    )
+    .run(context, project, `-${daysAgo} days`);
+  return Number(info.lastInsertRowid);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("setPinned / listPinnedExperiences", () => {
+  it("pins active experiences and reports no-ops and missing ids", () => {
+    const id = insertExp("api");
+    expect(setPinned(db, id, true)).toEqual({ ok: true, changed: true });
+    expect(setPinned(db, id, true)).toEqual({ ok: true, changed: false });
+    expect(setPinned(db, 999, true)).toEqual({ ok: false, reason: "not_found" });
+    expect(setPinned(db, id, false)).toEqual({ ok: true, changed: true });
+    expect(listPinnedExperiences(db, "api")).toEqual([]);
+  });
+
+  it("lists the project's pins plus global ones, skipping deleted rows", () => {
+    const api = insertExp("api");
+    const global = insertExp("");
+    const web = insertExp("web");
+    const deleted = insertExp("api");
+    for (const id of [api, global, web, deleted]) setPinned(db, id, true);
+    db.prepare(`UPDATE experiences SET deleted_at = datetime('now') WHERE id = ?`).run(deleted);
+
+    expect(listPinnedExperiences(db, "api").map((e) => e.id)).toEqual([api, global]);
+    expect(listPinnedExperiences(db, "").map((e) => e.id)).toEqual([global]);
+  });
+});
+
+describe("session index with pins", () => {
+  const base = { project: "api", source: "startup", prefs: [], patterns: [], corrections: [] };
+  const pin = { id: 3, type: "gotcha", context: "never run migrations on Friday", result: "prod outage" };
+
+  it("lists pins first and does not repeat them under Experiences", () => {
+    const out = formatSessionIndex({
+      ...base,
+      prefs: [{ key: "indent", value: "tabs", confidence: 0.5 }],
+      pinned: [pin],
+      experiences: [pin, { id: 4, type: "decision", context: "use pnpm", result: "ok" }],
+    });
+    expect(out.indexOf("### Pinned")).toBeLessThan(out.indexOf("### Preferences"));
+    expect(out.match(/\(#3\)/g)).toHaveLength(1);
+    expect(out).toContain("- [decision] use pnpm -> ok (#4)");
+  });
+
+  it("keeps pins when the budget cuts everything else", () => {
+    const filler = Array.from({ length: 80 }, (_, i) => ({
+      id: 100 + i,
+      type: "experience",
+      context: "long filler context ".repeat(3),
+      result: "done",
+    }));
+    const out = formatSessionIndex({ ...base, pinned: [pin], experiences: filler });
+    expect(out.length).toBeLessThanOrEqual(SESSION_CONTEXT_BUDGET);
+    expect(out).toContain("never run migrations on Friday");
+    expect(out).toMatch(/\(\+\d+ more via query_memory\)/);
+  });
+
+  it("repeats pins in the compaction reminder", () => {
+    const out = formatMinimalContext({ project: "api", source: "compact", prefCount: 1, expCount: 9, pinned: [pin] });
+    expect(out).toContain("### Pinned\n- [gotcha] never run migrations on Friday -> prod outage (#3)");
+    expect(formatMinimalContext({ project: "api", source: "compact", prefCount: 1, expCount: 9 })).not.toContain(
+      "Pinned"
+    );
+  });
+});
+
+describe("pins and automatic cleanup", () => {
+  it("are never expired by retention or pruned as unused", () => {
+    const pinned = insertExp("api", "c", 400);
+    const plain = insertExp("api", "c", 400);
+    setPinned(db, pinned, true);
+
+    expect(findExpiredExperiences(db, [{ type: "*", days: 30 }]).ids).toEqual([plain]);
+    expect(pruneUnusedExperiences(db, 30, "b1")).toBe(1);
+    expect(db.prepare(`SELECT deleted_at FROM experiences WHERE id = ?`).get(pinned)).toEqual({ deleted_at: null });
+  });
+});
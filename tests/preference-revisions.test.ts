@@ -0,0 +1,131 @@
+/**
+ * Tests for preference value history (preference-revisions.ts): revisions
+ * recorded by merges, invalidations (forget, consolidate, expiry) and
+ * rollbacks, the history listing and its get_preferences formatting
+ * (context-format.ts). Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import {
+  snapshotPreference,
+  invalidatePreferenceById,
+  listPreferenceRevisions,
+  rollbackPreference,
+} from "../src/preference-revisions";
+import { mergeIntoExistingPreference } from "../src/preference-dedupe";
+import { invalidateExpiredPreferences } from "../src/expiry";
+import { formatPreferenceHistory } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+function insertPref(key: string, value: string): number {
+  const info = db.prepare(`INSERT INTO preferences (key, value, scope) VALUES (?, ?, 'global')`).run(key, value);
+  return Number(info.lastInsertRowid);
+}
+
+function setValue(id: number, value: string): void {
+  snapshotPreference(db, id, "relearn");
+  db.prepare(`UPDATE preferences SET value = ? WHERE id = ?`).run(value, id);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("recording revisions", () => {
+  it("keeps every replaced value with the change that replaced it", () => {
+    const id = insertPref("indent", "tabs");
+    setValue(id, "spaces");
+    mergeIntoExistingPreference(db, { id, newValue: "spaces, width 2" });
+    mergeIntoExistingPreference(db, { id, newValue: "2" });
+
+    expect(listPreferenceRevisions(db, id).map((r) => [r.revision, r.value, r.change])).toEqual([
+      [1, "tabs", "relearn"],
+      [2, "spaces", "merge"],
+      [3, "spaces, width 2", null],
+    ]);
+  });
+
+  it("records invalidations once, from forget, consolidate or expiry", () => {
+    const id = insertPref("branch", "release/4.2");
+    expect(invalidatePreferenceById(db, id, { change: "consolidate", supersededBy: "git_branch" })).toBe(true);
+    expect(invalidatePreferenceById(db, id, { change: "invalidate" })).toBe(false);
+    expect(invalidatePreferenceById(db, 99, { change: "invalidate" })).toBe(false);
+
+    const expiring = insertPref("staging_db", "down");
+    expect(invalidateExpiredPreferences(db, [expiring, id])).toBe(1);
+
+    const [before, live] = listPreferenceRevisions(db, id);
+    expect(before).toMatchObject({ revision: 1, change: "consolidate", invalidated_at: null });
+    expect(live).toMatchObject({ revision: 2, superseded_by: "git_branch" });
+    expect(listPreferenceRevisions(db, expiring)[0].change).toBe("expire");
+  });
+
+  it("drops the history on hard delete", () => {
+    const id = insertPref("indent", "tabs");
+    setValue(id, "spaces");
+    db.prepare(`DELETE FROM preferences WHERE id = ?`).run(id);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM preference_revisions`).get()).toEqual({ n: 0 });
+  });
+});
+
+describe("rollbackPreference", () => {
+  it("restores an earlier value as a new revision and reactivates the preference", () => {
+    const id = insertPref("language", "english");
+    setValue(id, "spanish");
+    invalidatePreferenceById(db, id, { change: "invalidate" });
+
+    expect(rollbackPreference(db, { preferenceId: id, revision: 1 })).toEqual({
+      ok: true,
+      preferenceId: id,
+      fromRevision: 3,
+      toRevision: 1,
+      newRevision: 4,
+      value: "english",
+    });
+    expect(db.prepare(`SELECT value, invalidated_at, revision_count FROM preferences WHERE id = ?`).get(id)).toEqual({
+      value: "english",
+      invalidated_at: null,
+      revision_count: 4,
+    });
+    expect(listPreferenceRevisions(db, id)[2].change).toBe("rollback");
+  });
+
+  it("rejects unknown preferences and revisions and the current revision", () => {
+    const id = insertPref("language", "english");
+    expect(rollbackPreference(db, { preferenceId: 99, revision: 1 })).toEqual({ ok: false, reason: "not_found" });
+    expect(rollbackPreference(db, { preferenceId: id, revision: 1 })).toEqual({ ok: false, reason: "already_current" });
+    expect(rollbackPreference(db, { preferenceId: id, revision: 5 })).toEqual({ ok: false, reason: "revision_not_found" });
+  });
+});
+
+describe("formatPreferenceHistory", () => {
+  it("diffs values and status between revisions", () => {
+    const id = insertPref("indent", "tabs");
+    setValue(id, "spaces");
+    invalidatePreferenceById(db, id, { change: "invalidate", supersededBy: "code_style" });
+    db.prepare(`UPDATE preference_revisions SET replaced_at = '2026-10-01 10:00:00'`).run();
+
+    expect(formatPreferenceHistory(listPreferenceRevisions(db, id), "'indent' [global]")).toBe(
+      [
+        "--- History of 'indent' [global] ---",
+        "r1 (replaced 2026-10-01 10:00:00 by relearn)",
+        "  value: tabs",
+        "r2 (replaced 2026-10-01 10:00:00 by invalidate)",
+        "  value:",
+        "    - tabs",
+        "    + spaces",
+        "r3 (current)",
+        "  status: active -> invalidated (superseded by 'code_style')",
+      ].join("\n")
+    );
+    expect(formatPreferenceHistory(listPreferenceRevisions(db, insertPref("k", "v")), "'k' [global]")).toContain(
+      "(no changes recorded)"
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for typed preference values (preference-types.ts): the
+ * config.json `preferences.types` schema, validation and normalization per
+ * type, and the structured view used by get_preferences format="json".
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { parseConfig, ConfigError } from "../src/config";
+import {
+  getPreferenceType,
+  describePreferenceType,
+  normalizeTypedValue,
+  normalizePreferenceValue,
+  typedPreference,
+} from "../src/preference-types";
+
+const config = parseConfig({
+  preferences: {
+    types: {
+      language: { type: "enum", values: ["english", "spanish"], aliases: { en: "english", es: "spanish" } },
+      semicolons: { type: "boolean" },
+      max_line: { type: "number", min: 40, max: 200, integer: true },
+      linters: { type: "string_list", values: ["eslint", "biome", "oxlint"] },
+      prettier: { type: "json" },
+    },
+  },
+});
+
+const spec = (key: string) => getPreferenceType(key, config)!;
+
+describe("config", () => {
+  it("defaults to no types and rejects inconsistent ones", () => {
+    expect(parseConfig({}).preferences.types).toEqual({});
+    expect(() => parseConfig({ preferences: { types: { k: { type: "color" } } } })).toThrow(ConfigError);
+    expect(() => parseConfig({ preferences: { types: { k: { type: "enum", values: [] } } } })).toThrow(ConfigError);
+    expect(() =>
+      parseConfig({ preferences: { types: { k: { type: "enum", values: ["a"], aliases: { b: "c" } } } } })
+    ).toThrow(/aliases/);
+    expect(() => parseConfig({ preferences: { types: { k: { type: "number", min: 5, max: 1 } } } })).toThrow(/min/);
+  });
+
+  it("only types registered keys", () => {
+    expect(getPreferenceType("code_style", config)).toBeUndefined();
+    expect(getPreferenceType("constructor", config)).toBeUndefined();
+    expect(describePreferenceType(spec("max_line"))).toBe("number (integer, 40..200)");
+  });
+});
+
+describe("normalizeTypedValue", () => {
+  it("maps enum values case-insensitively and through aliases", () => {
+    expect(normalizeTypedValue(spec("language"), " English ")).toEqual({ ok: true, value: "english", typed: "english" });
+    expect(normalizeTypedValue(spec("language"), "ES")).toEqual({ ok: true, value: "spanish", typed: "spanish" });
+    expect(normalizeTypedValue(spec("language"), "french")).toEqual({
+      ok: false,
+      error: 'expected enum (english | spanish), got "french"',
+    });
+  });
+
+  it("parses booleans and bounded numbers", () => {
+    expect(normalizeTypedValue(spec("semicolons"), "Yes")).toEqual({ ok: true, value: "true", typed: true });
+    expect(normalizeTypedValue(spec("semicolons"), "off")).toEqual({ ok: true, value: "false", typed: false });
+    expect(normalizeTypedValue(spec("semicolons"), "sometimes").ok).toBe(false);
+    expect(normalizeTypedValue(spec("max_line"), " 100 ")).toEqual({ ok: true, value: "100", typed: 100 });
+    const error = (raw: string) => (normalizeTypedValue(spec("max_line"), raw) as { error: string }).error;
+    expect(error("100.5")).toContain("not an integer");
+    expect(error("20")).toContain("below 40");
+    expect(error("")).toContain("not a number");
+  });
+
+  it("stores lists and JSON as compact JSON", () => {
+    expect(normalizeTypedValue(spec("linters"), "ESLint, biome, eslint")).toEqual({
+      ok: true,
+      value: '["eslint","biome"]',
+      typed: ["eslint", "biome"],
+    });
+    expect(normalizeTypedValue(spec("linters"), '["oxlint"]')).toMatchObject({ ok: true, value: '["oxlint"]' });
+    expect(normalizeTypedValue(spec("linters"), "eslint, tslint")).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('"tslint" is not allowed'),
+    });
+    expect(normalizeTypedValue(spec("prettier"), '{ "semi": false,  "printWidth": 100 }')).toEqual({
+      ok: true,
+      value: '{"semi":false,"printWidth":100}',
+      typed: { semi: false, printWidth: 100 },
+    });
+    expect(normalizeTypedValue(spec("prettier"), "{semi: false}").ok).toBe(false);
+  });
+});
+
+describe("normalizePreferenceValue", () => {
+  it("leaves untyped keys alone and names the key in errors", () => {
+    expect(normalizePreferenceValue("code_style", "Functional ", config)).toEqual({
+      ok: true,
+      value: "Functional ",
+      typed: "Functional ",
+    });
+    expect(normalizePreferenceValue("semicolons", "maybe", config)).toEqual({
+      ok: false,
+      error: 'preference \'semicolons\': expected boolean, got "maybe" (use true/false, yes/no or on/off)',
+    });
+  });
+});
+
+describe("typedPreference", () => {
+  it("parses stored values and flags ones stored before the key was typed", () => {
+    const row = { key: "max_line", value: "120", _scope: "api", confidence: 0.6, effective_confidence: 0.5 };
+    expect(typedPreference(row, config)).toEqual({
+      key: "max_line",
+      type: "number",
+      value: 120,
+      valid: true,
+      scope: "api",
+      confidence: 0.6,
+      effective_confidence: 0.5,
+    });
+    expect(typedPreference({ key: "language", value: "klingon", scope: "global", confidence: 0.3 }, config)).toMatchObject({
+      type: "enum",
+      value: "klingon",
+      valid: false,
+    });
+    expect(typedPreference({ key: "indent", value: "tabs", confidence: 0.3 }, config)).toMatchObject({
+      type: "string",
+      value: "tabs",
+      valid: true,
+      scope: "global",
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for the project registry (projects.ts): remote URL normalization,
+ * resolving working directories by fingerprint (collisions, renamed
+ * checkouts, claiming backfilled names), alias resolution, and
+ * rename/merge rewriting experiences.project / preferences.scope.
+ * Fingerprints are passed explicitly so no test shells out to git.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { MIGRATIONS, runMigrations } from "../src/migrations";
+import {
+  normalizeRemoteUrl,
+  resolveProject,
+  resolveProjectParam,
+  canonicalProjectName,
+  listProjects,
+  formatProjectList,
+  renameProject,
+} from "../src/projects";
+import { listInvalidatedPreferences } from "../src/invalidated-preferences";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(project: string, topicKey: string | null = null, lastSeen = "2026-01-01 00:00:00"): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, project, topic_key, last_seen_at)
+       VALUES ('experience', 'c', 'a', 'r', ?, ?, ?)`
+    )
+    .run(project, topicKey, lastSeen);
+  return Number(info.lastInsertRowid);
+}
+
+function insertPref(key: string, value: string, scope: string, confidence = 0.5): void {
+  db.prepare(`INSERT INTO preferences (key, value, scope, confidence) VALUES (?, ?, ?, ?)`).run(key, value, scope, confidence);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("normalizeRemoteUrl", () => {
+  it("maps every spelling of a remote to host/owner/repo", () => {
+    for (const url of [
+      "git@github.com:Acme/api.git",
+      "https://github.com/acme/api",
+      "https://user@github.com/acme/api.git/",
+      "ssh://git@github.com:22/acme/api.git",
+    ]) {
+      expect(normalizeRemoteUrl(url)).toBe("github.com/acme/api");
+    }
+    expect(normalizeRemoteUrl("  ")).toBeNull();
+  });
+});
+
+describe("resolveProject", () => {
+  const acme = { remote: "github.com/acme/api", root: "/work/acme/api" };
+  const other = { remote: "github.com/other/api", root: "/work/other/api" };
+
+  it("registers a checkout under its basename and finds it again", () => {
+    expect(resolveProject(db, { cwd: acme.root, fingerprint: acme })).toBe("api");
+    expect(resolveProject(db, { cwd: acme.root, fingerprint: acme })).toBe("api");
+    expect(listProjects(db)).toHaveLength(1);
+  });
+
+  it("keeps two repositories with the same basename apart", () => {
+    expect(resolveProject(db, { cwd: acme.root, fingerprint: acme })).toBe("api");
+    expect(resolveProject(db, { cwd: other.root, fingerprint: other })).toBe("other/api");
+    const noRemote = { remote: null, root: "/tmp/api" };
+    expect(resolveProject(db, { cwd: noRemote.root, fingerprint: noRemote })).toBe("api-2");
+  });
+
+  it("follows a renamed or moved checkout through its remote", () => {
+    resolveProject(db, { cwd: acme.root, fingerprint: acme });
+    const moved = { remote: acme.remote, root: "/work/api-renamed" };
+    expect(resolveProject(db, { cwd: moved.root, fingerprint: moved })).toBe("api");
+    expect(listProjects(db)[0].root_path).toBe("/work/api-renamed");
+  });
+
+  it("claims a name that exists only in legacy data", () => {
+    const legacy = new Database(":memory:");
+    runMigrations(legacy, MIGRATIONS.filter((m) => m.version < 6));
+    legacy.prepare(`INSERT INTO experiences (type, context, project) VALUES ('experience', 'c', 'api')`).run();
+    legacy.prepare(`INSERT INTO preferences (key, value, scope) VALUES ('k', 'v', 'web')`).run();
+    runMigrations(legacy);
+
+    expect(listProjects(legacy).map((p) => p.name).sort()).toEqual(["api", "web"]);
+    expect(resolveProject(legacy, { cwd: acme.root, fingerprint: acme })).toBe("api");
+    expect(listProjects(legacy).find((p) => p.name === "api")).toMatchObject({
+      remote_url: acme.remote,
+      experiences: 1,
+    });
+  });
+
+  it("returns an empty name without cwd or name", () => {
+    expect(resolveProject(db, {})).toBe("");
+  });
+});
+
+describe("aliases", () => {
+  it("resolves aliases to the canonical name and passes unknown names through", () => {
+    resolveProject(db, { name: "api" });
+    renameProject(db, { from: "api", to: "acme-api" });
+    expect(canonicalProjectName(db, "api")).toBe("acme-api");
+    expect(resolveProjectParam(db, "api")).toBe("acme-api");
+    expect(resolveProjectParam(db, "global")).toBe("global");
+    expect(resolveProjectParam(db, "unknown")).toBe("unknown");
+    expect(resolveProjectParam(db, undefined)).toBe("");
+  });
+});
+
+describe("renameProject", () => {
+  it("renames a project and rewrites project/scope values", () => {
+    resolveProject(db, { name: "api" });
+    insertExp("api");
+    insertPref("style", "tabs", "api");
+
+    expect(renameProject(db, { from: "api", to: "billing-api" })).toMatchObject({
+      ok: true,
+      from: "api",
+      to: "billing-api",
+      merged: false,
+      experiences: 1,
+      preferences: 1,
+    });
+    expect(db.prepare(`SELECT project FROM experiences`).get()).toEqual({ project: "billing-api" });
+    expect(db.prepare(`SELECT scope FROM preferences`).get()).toEqual({ scope: "billing-api" });
+
+    const [project] = listProjects(db);
+    expect(project.aliases).toEqual(["api"]);
+    expect(formatProjectList(listProjects(db))).toContain("aliases: api");
+  });
+
+  it("renames back to an old name of the same project", () => {
+    resolveProject(db, { name: "api" });
+    insertExp("api");
+    insertPref("style", "tabs", "api");
+    renameProject(db, { from: "api", to: "api2" });
+
+    expect(renameProject(db, { from: "api2", to: "api" })).toMatchObject({
+      ok: true,
+      from: "api2",
+      to: "api",
+      merged: false,
+      experiences: 1,
+      preferences: 1,
+    });
+    expect(db.prepare(`SELECT project FROM experiences`).get()).toEqual({ project: "api" });
+    expect(db.prepare(`SELECT scope FROM preferences`).get()).toEqual({ scope: "api" });
+    const projects = listProjects(db);
+    expect(projects.map((p) => [p.name, p.aliases])).toEqual([["api", ["api2"]]]);
+    expect(canonicalProjectName(db, "api2")).toBe("api");
+  });
+
+  it("merges into an existing project, resolving preference and topic conflicts", () => {
+    resolveProject(db, { name: "api" });
+    resolveProject(db, { name: "api-old" });
+    const newer = insertExp("api-old", "arch:db", "2026-03-01 00:00:00");
+    const older = insertExp("api", "arch:db", "2026-01-01 00:00:00");
+    insertPref("style", "spaces", "api", 0.4);
+    insertPref("style", "tabs", "api-old", 0.9);
+    insertPref("lang", "ts", "api-old");
+
+    const result = renameProject(db, { from: "api-old", to: "api" });
+    expect(result).toMatchObject({ ok: true, merged: true, experiences: 1, preferenceConflicts: 1, topicConflicts: 1 });
+
+    const prefs = db.prepare(`SELECT key, value, confidence FROM preferences WHERE scope = 'api' ORDER BY key`).all();
+    expect(prefs).toEqual([
+      { key: "lang", value: "ts", confidence: 0.5 },
+      { key: "style", value: "spaces", confidence: 0.9 },
+    ]);
+    // The losing row is invalidated under the old scope, with its history
+    const loser = db.prepare(`SELECT id, value, scope, invalidated_at, superseded_by FROM preferences WHERE value = 'tabs'`).get() as any;
+    expect(loser).toMatchObject({ scope: "api-old", superseded_by: "style" });
+    expect(loser.invalidated_at).not.toBeNull();
+    expect(db.prepare(`SELECT change FROM preference_revisions WHERE preference_id = ?`).all(loser.id)).toEqual([
+      { change: "project_merge" },
+    ]);
+    expect(listInvalidatedPreferences(db, { cause: "project_merge" }).items[0]).toMatchObject({
+      id: loser.id,
+      chain: [{ key: "style", scope: "api", active: true }],
+    });
+    const topics = db.prepare(`SELECT id, topic_key FROM experiences ORDER BY id`).all();
+    expect(topics).toEqual([
+      { id: newer, topic_key: "arch:db" },
+      { id: older, topic_key: null },
+    ]);
+    expect(listProjects(db).map((p) => p.name)).toEqual(["api"]);
+    expect(canonicalProjectName(db, "api-old")).toBe("api");
+  });
+
+  it("lets an active preference win over an invalidated one in the target", () => {
+    resolveProject(db, { name: "old" });
+    resolveProject(db, { name: "new" });
+    insertPref("indent", "2", "old", 0.8);
+    insertPref("indent", "4", "new", 0.6);
+    db.prepare(`UPDATE preferences SET invalidated_at = datetime('now'), superseded_by = 'x' WHERE scope = 'new'`).run();
+
+    expect(renameProject(db, { from: "old", to: "new" })).toMatchObject({ ok: true, merged: true, preferenceConflicts: 1 });
+    const target = db
+      .prepare(`SELECT id, value, confidence, invalidated_at, superseded_by FROM preferences WHERE scope = 'new'`)
+      .get() as any;
+    expect(target).toMatchObject({ value: "2", confidence: 0.8, invalidated_at: null, superseded_by: null });
+    expect(db.prepare(`SELECT value, change FROM preference_revisions WHERE preference_id = ?`).all(target.id)).toEqual([
+      { value: "4", change: "project_merge" },
+    ]);
+    const active = db.prepare(`SELECT key, value, scope FROM preferences WHERE invalidated_at IS NULL`).all();
+    expect(active).toEqual([{ key: "indent", value: "2", scope: "new" }]);
+  });
+
+  it("moves and merges the project's package scopes", () => {
+    resolveProject(db, { name: "api" });
+    resolveProject(db, { name: "web" });
+    insertPref("style", "tabs", "package:web:billing", 0.8);
+    insertPref("lang", "go", "package:web:billing");
+    insertPref("style", "spaces", "package:api:billing", 0.3);
+    insertPref("lang", "ts", "package:web-old:billing");
+
+    const result = renameProject(db, { from: "web", to: "api" });
+    expect(result).toMatchObject({ ok: true, merged: true, preferences: 1, preferenceConflicts: 1 });
+    const prefs = db
+      .prepare(`SELECT key, value, scope, confidence, invalidated_at IS NULL AS active FROM preferences ORDER BY id`)
+      .all();
+    expect(prefs).toEqual([
+      { key: "style", value: "tabs", scope: "package:web:billing", confidence: 0.8, active: 0 },
+      { key: "lang", value: "go", scope: "package:api:billing", confidence: 0.5, active: 1 },
+      { key: "style", value: "spaces", scope: "package:api:billing", confidence: 0.8, active: 1 },
+      { key: "lang", value: "ts", scope: "package:web-old:billing", confidence: 0.5, active: 1 },
+    ]);
+  });
+
+  it("accepts names that only exist in the data and rejects unknown ones", () => {
+    insertExp("scratch");
+    expect(renameProject(db, { from: "scratch", to: "sandbox" })).toMatchObject({ ok: true, experiences: 1 });
+    expect(canonicalProjectName(db, "scratch")).toBe("sandbox");
+    expect(renameProject(db, { from: "nope", to: "x" })).toEqual({ ok: false, reason: "not_found" });
+    expect(renameProject(db, { from: "sandbox", to: "global" })).toEqual({ ok: false, reason: "invalid" });
+  });
+});
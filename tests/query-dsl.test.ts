@@ -0,0 +1,151 @@
+/**
+ * Tests for the inline query DSL (query-dsl.ts): filters, relative dates,
+ * phrases, required and excluded terms, and the FTS expressions it builds
+ * run against the real FTS5 schema (searchFtsFiltered, search-filters.ts).
+ */
+
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { syncExperienceTags } from "../src/tags";
+import { parseQuery } from "../src/query-dsl";
+import { searchFtsFiltered, mergeSearchFilters } from "../src/search-filters";
+
+const now = new Date("2026-10-19T12:00:00Z").getTime();
+
+describe("parseQuery", () => {
+  it("keeps plain text as ORed optional words, like sanitizeFtsQuery", () => {
+    const parsed = parseQuery("docker-compose volume (permissions) a", now);
+    expect(parsed.ftsQuery).toBe('"docker" OR "compose" OR "volume" OR "permissions"');
+    expect(parsed.terms).toEqual(["docker", "compose", "volume", "permissions"]);
+    expect(parsed.text).toBe("docker-compose volume (permissions) a");
+    expect(parsed.filters).toEqual({});
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("parses filters out of the text", () => {
+    const parsed = parseQuery('type:gotcha tag:docker project:api since:2w -tag:auto "exact phrase"', now);
+    expect(parsed.filters).toEqual({
+      types: ["gotcha"],
+      tags: ["docker"],
+      excludeTags: ["auto"],
+      createdAfter: "2026-10-05 12:00:00",
+    });
+    expect(parsed.project).toBe("api");
+    expect(parsed.text).toBe("exact phrase");
+    expect(parsed.ftsQuery).toBe('"exact phrase"');
+  });
+
+  it("supports dates, outcomes, topics and repeated types", () => {
+    const parsed = parseQuery("type:gotcha type:decision before:2026-01-01 updated:30d is:failure topic:arch/* cache", now);
+    expect(parsed.filters).toEqual({
+      types: ["gotcha", "decision"],
+      createdBefore: "2026-01-01 00:00:00",
+      updatedAfter: "2026-09-19 12:00:00",
+      success: false,
+      topicKeyPrefix: "arch/",
+    });
+  });
+
+  it("ANDs required words and phrases and pushes exclusions into filters", () => {
+    const parsed = parseQuery('+redis "session store" cache -memcached -"old cluster"', now);
+    expect(parsed.ftsQuery).toBe('"redis" AND "session store"');
+    expect(parsed.terms).toEqual(["redis", "session store", "cache"]);
+    expect(parsed.text).toBe("redis session store cache");
+    expect(parsed.filters.excludeTerms).toEqual(["memcached", "old cluster"]);
+  });
+
+  it("treats unknown keys and lone operators as text", () => {
+    const parsed = parseQuery("see https://example.com/x note:retry - it's", now);
+    expect(parsed.filters).toEqual({});
+    expect(parsed.ftsQuery).toBe('"see" OR "https" OR "//example.com/x" OR "note" OR "retry" OR "it\'s"');
+  });
+
+  it("reads CLI flags and unknown types in ordinary text as words", () => {
+    const flags = parseQuery("run the tests with --verbose flag", now);
+    expect(flags.filters).toEqual({});
+    expect(flags.terms).toContain("verbose");
+    const install = parseQuery("npm install --save-dev vitest", now);
+    expect(install.filters).toEqual({});
+    expect(install.terms).toEqual(["npm", "install", "save", "dev", "vitest"]);
+    const typed = parseQuery("set return type:string in api", now);
+    expect(typed.filters).toEqual({});
+    expect(typed.terms).toEqual(["set", "return", "type", "string", "in", "api"]);
+    expect(parseQuery("type:Gotcha x", now).filters).toEqual({ types: ["gotcha"] });
+  });
+
+  it("reads every token as a word in plain mode (hook prompts)", () => {
+    const parsed = parseQuery('type:gotcha since:2w -docker +redis "session store" project:api', now, { plain: true });
+    expect(parsed.filters).toEqual({});
+    expect(parsed.project).toBeUndefined();
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.ftsQuery).toBe(
+      '"type" OR "gotcha" OR "since" OR "2w" OR "docker" OR "redis" OR "session" OR "store" OR "project" OR "api"'
+    );
+  });
+
+  it("reports invalid filters", () => {
+    expect(parseQuery("since:yesterday -since:2w is:maybe x", now).errors).toEqual([
+      'since "yesterday" is not a relative age (2w, 30d) or an ISO date',
+      "since: cannot be negated",
+      'is "maybe" is not success or failure',
+    ]);
+  });
+
+  it("leaves nothing to search when only filters are given", () => {
+    const parsed = parseQuery("type:gotcha -docker", now);
+    expect(parsed.ftsQuery).toBeNull();
+    expect(parsed.text).toBe("");
+  });
+});
+
+describe("mergeSearchFilters", () => {
+  it("adds up lists and lets explicit values win", () => {
+    expect(
+      mergeSearchFilters(
+        { types: ["gotcha"], success: true, createdAfter: "2026-01-01 00:00:00" },
+        { types: ["decision"], success: false, tags: undefined }
+      )
+    ).toEqual({
+      types: ["gotcha", "decision"],
+      success: false,
+      createdAfter: "2026-01-01 00:00:00",
+      tags: undefined,
+      excludeTypes: undefined,
+      excludeTags: undefined,
+      excludeTerms: undefined,
+    });
+  });
+});
+
+describe("parsed queries against FTS5", () => {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  const insert = (context: string, tags = "") => {
+    const id = Number(
+      db.prepare(`INSERT INTO experiences (type, context, action, result, tags) VALUES ('experience', ?, 'act', 'res', ?)`)
+        .run(context, tags).lastInsertRowid
+    );
+    syncExperienceTags(db, id, tags);
+    return id;
+  };
+  const phrase = insert("moved the session store to redis");
+  const split = insert("redis store for the session cache");
+  const legacy = insert("redis session store on the old cluster with memcached");
+  const auto = insert("redis session store captured", "auto");
+
+  const search = (query: string) => {
+    const parsed = parseQuery(query, now);
+    return searchFtsFiltered(db, { query: parsed.ftsQuery!, filters: parsed.filters, limit: 10 })
+      .map((r) => r.id)
+      .sort();
+  };
+
+  it("matches phrases exactly and excludes terms and tags", () => {
+    expect(search('"session store"')).toEqual([phrase, legacy, auto].sort());
+    expect(search("redis session")).toEqual([phrase, split, legacy, auto].sort());
+    expect(search('"session store" -memcached -tag:auto')).toEqual([phrase]);
+    expect(search('+redis +cache')).toEqual([split]);
+  });
+});
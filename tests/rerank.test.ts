@@ -0,0 +1,132 @@
+/**
+ * Tests for cross-encoder reranking (rerank.ts + scoring.ts): the blended
+ * score, the per-call / config toggle and the reranking of search results
+ * with a fake scorer, so no model is downloaded. Schema from the real
+ * migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { parseConfig } from "../src/config";
+import { blendRerankScore, crossEncoderRelevance, selectRelevant, MIN_PROMPT_RELEVANCE } from "../src/scoring";
+import { shouldRerank, rerankFetchLimit, loadRerankTexts, rerankResults, type RerankScorer } from "../src/rerank";
+import type { ScoredMemory } from "../src/links";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(context: string): number {
+  return Number(
+    db.prepare(`INSERT INTO experiences (type, context, action, result) VALUES ('experience', ?, 'act', 'res')`)
+      .run(context).lastInsertRowid
+  );
+}
+
+/** Logit +4 for docs mentioning `word`, -4 otherwise; records what it was asked. */
+function fakeScorer(word: string, calls: string[][] = []): RerankScorer {
+  return async (_query, docs) => {
+    calls.push(docs);
+    return docs.map((d) => (d.includes(word) ? 4 : -4));
+  };
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("blendRerankScore", () => {
+  it("stays in [0, 1] and follows the weight", () => {
+    expect(crossEncoderRelevance(0)).toBe(0.5);
+    expect(blendRerankScore(0.6, 0, 0)).toBe(0.6);
+    expect(blendRerankScore(0.6, 0, 1)).toBe(0.5);
+    expect(blendRerankScore(0.6, 0, 0.5)).toBeCloseTo(0.55);
+    expect(blendRerankScore(1, 50, 0.5)).toBeLessThanOrEqual(1);
+    expect(blendRerankScore(0, -50, 0.5)).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("shouldRerank / rerankFetchLimit", () => {
+  it("lets the call override config and fetches enough candidates", () => {
+    const off = parseConfig({});
+    const on = parseConfig({ rerank: { enabled: true, candidates: 30 } });
+    expect(shouldRerank(undefined, off)).toBe(false);
+    expect(shouldRerank(true, off)).toBe(true);
+    expect(shouldRerank(undefined, on)).toBe(true);
+    expect(shouldRerank(false, on)).toBe(false);
+    expect(rerankFetchLimit(8, on)).toBe(30);
+    expect(rerankFetchLimit(50, on)).toBe(50);
+  });
+});
+
+describe("loadRerankTexts", () => {
+  it("reads experiences and preferences", () => {
+    const exp = insertExp("docker volume permissions");
+    const pref = Number(
+      db.prepare(`INSERT INTO preferences (key, value) VALUES ('package_manager', 'pnpm')`).run().lastInsertRowid
+    );
+    const texts = loadRerankTexts(db, [
+      { id: exp, source: "experience" },
+      { id: pref, source: "preference" },
+      { id: 999, source: "experience" },
+    ]);
+    expect(texts.get(`experience:${exp}`)).toBe("docker volume permissions\nact\nres");
+    expect(texts.get(`preference:${pref}`)).toBe("package_manager: pnpm");
+    expect(texts.has("experience:999")).toBe(false);
+  });
+});
+
+describe("rerankResults", () => {
+  const config = parseConfig({ rerank: { candidates: 3, weight: 0.5 } });
+
+  it("re-sorts the top candidates by the blended score", async () => {
+    const vague = insertExp("long note touching redis, sessions, cache and deploys");
+    const precise = insertExp("fix: redis session TTL was in ms, not seconds");
+    const results: ScoredMemory[] = [
+      { id: vague, source: "experience", score: 0.7 },
+      { id: precise, source: "experience", score: 0.6 },
+    ];
+    const reranked = await rerankResults(db, "redis session ttl", results, { scorer: fakeScorer("TTL"), config });
+    expect(reranked.map((r) => r.id)).toEqual([precise, vague]);
+    expect(reranked[0].score).toBeCloseTo(0.5 * 0.6 + 0.5 * crossEncoderRelevance(4));
+    expect(reranked[0].rerankScore).toBeCloseTo(crossEncoderRelevance(4));
+    // Still an absolute score: the vague note drops out of injection
+    expect(selectRelevant(reranked).map((r) => r.id)).toEqual([precise]);
+    expect(reranked[1].score).toBeLessThan(MIN_PROMPT_RELEVANCE);
+  });
+
+  it("only scores the candidates and keeps linked memories after the matches", async () => {
+    const ids = [1, 2, 3, 4].map((i) => insertExp(i === 4 ? "the answer" : `note ${i}`));
+    const results: ScoredMemory[] = [
+      ...ids.map((id, i) => ({ id, source: "experience" as const, score: 0.9 - i * 0.1 })),
+      { id: ids[3], source: "experience", score: 0.5, linkedFrom: { id: ids[0], source: "experience", relation: "supersedes" } },
+    ];
+    const calls: string[][] = [];
+    const reranked = await rerankResults(db, "answer", results, { scorer: fakeScorer("answer", calls), config });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toHaveLength(3);
+    expect(reranked.map((r) => r.id)).toEqual([ids[0], ids[1], ids[2], ids[3], ids[3]]);
+    expect(reranked[3].rerankScore).toBeUndefined();
+    expect(reranked[4].linkedFrom).toBeDefined();
+  });
+
+  it("cuts to the limit, keeping the links of the kept matches", async () => {
+    const [a, b, c] = ["a", "b target", "c"].map(insertExp);
+    const results: ScoredMemory[] = [
+      { id: a, source: "experience", score: 0.8 },
+      { id: b, source: "experience", score: 0.7 },
+      { id: c, source: "experience", score: 0.2, linkedFrom: { id: a, source: "experience", relation: "related" } },
+    ];
+    const reranked = await rerankResults(db, "target", results, { scorer: fakeScorer("target"), limit: 1, config });
+    expect(reranked.map((r) => r.id)).toEqual([b]);
+  });
+
+  it("returns the results unchanged when the model is unavailable", async () => {
+    const a = insertExp("a");
+    const results: ScoredMemory[] = [{ id: a, source: "experience", score: 0.8 }];
+    const reranked = await rerankResults(db, "a", results, { scorer: async () => null, config });
+    expect(reranked).toEqual(results);
+  });
+});
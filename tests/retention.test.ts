@@ -0,0 +1,100 @@
+/**
+ * Tests for retention policies (retention.ts): rule precedence, finding
+ * expired experiences by last_seen_at, and enforcement through
+ * runConsolidation (dry-run report, restorable soft-delete batch).
+ * Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { parseConfig } from "../src/config";
+import { matchRetentionRule, findExpiredExperiences, type RetentionRule } from "../src/retention";
+import { runConsolidation, formatConsolidationReport } from "../src/consolidate";
+import { restoreFromTrash } from "../src/trash";
+
+let db: BetterSqlite3.Database;
+
+const RULES: RetentionRule[] = [
+  { type: "auto_capture", days: 7 },
+  { type: "auto_capture", project: "api", days: 30 },
+  { type: "correction", days: null },
+  { type: "*", days: 365 },
+];
+
+function insertExp(type: string, daysAgo: number, project = ""): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, project, created_at, last_seen_at)
+       VALUES (?, 'c', 'a', 'r', ?, datetime('now', ?), datetime('now', ?))`
+    )
+    .run(type, project, `-${daysAgo} days`, `-${daysAgo} days`);
+  return Number(info.lastInsertRowid);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("matchRetentionRule", () => {
+  it("prefers an exact type, then a matching project", () => {
+    expect(matchRetentionRule(RULES, "auto_capture", "web")).toBe(RULES[0]);
+    expect(matchRetentionRule(RULES, "auto_capture", "api")).toBe(RULES[1]);
+    expect(matchRetentionRule(RULES, "correction", "api")).toBe(RULES[2]);
+    expect(matchRetentionRule(RULES, "gotcha", "")).toBe(RULES[3]);
+    expect(matchRetentionRule([], "gotcha", "")).toBeNull();
+  });
+
+  it("expires nothing until rules are configured", () => {
+    const rules = parseConfig({}).retention.rules;
+    expect(rules).toEqual([]);
+    expect(matchRetentionRule(rules, "auto_capture", "")).toBeNull();
+  });
+});
+
+describe("findExpiredExperiences", () => {
+  it("counts expired rows per rule and never expires 'forever' types", () => {
+    const oldCapture = insertExp("auto_capture", 10);
+    insertExp("auto_capture", 3);
+    insertExp("auto_capture", 10, "api"); // api keeps captures for 30 days
+    insertExp("correction", 4000);
+    const oldGotcha = insertExp("gotcha", 400);
+
+    const scan = findExpiredExperiences(db, RULES);
+    expect(scan.ids).toEqual([oldCapture, oldGotcha]);
+    expect(scan.outcomes.map((o) => o.expired)).toEqual([1, 0, 0, 1]);
+  });
+
+  it("measures age from last_seen_at, so recently seen rows survive", () => {
+    const id = insertExp("auto_capture", 10);
+    db.prepare(`UPDATE experiences SET last_seen_at = datetime('now') WHERE id = ?`).run(id);
+    expect(findExpiredExperiences(db, RULES).ids).toEqual([]);
+  });
+});
+
+describe("consolidate with retention", () => {
+  it("reports in dry-run and soft-deletes one restorable batch with --apply", () => {
+    const expired = insertExp("auto_capture", 10);
+    insertExp("auto_capture", 1);
+
+    const dry = runConsolidation(db, { apply: false, retention: RULES });
+    expect(dry.retention[0].expired).toBe(1);
+    expect(dry.expiredSoftDeleted).toBe(0);
+    const text = formatConsolidationReport(dry);
+    expect(text).toContain("auto_capture: 7 days | 1 expired");
+    expect(text).toContain("correction: kept forever");
+    expect(text).toContain("would be soft-deleted by retention with --apply: 1");
+
+    const report = runConsolidation(db, { apply: true, retention: RULES });
+    expect(report.expiredSoftDeleted).toBe(1);
+    expect(report.purged).toBe(0); // just soft-deleted, not purged
+    const rows = db.prepare(`SELECT id, deleted_batch FROM experiences WHERE deleted_at IS NOT NULL`).all() as any[];
+    expect(rows).toEqual([{ id: expired, deleted_batch: report.retentionBatch }]);
+
+    expect(restoreFromTrash(db, { batch: report.retentionBatch! })).toEqual([expired]);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM experiences WHERE deleted_at IS NULL`).get()).toEqual({ n: 2 });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for topic_key revision history (revisions.ts) and its get_memory
+ * formatting (formatRevisionHistory in context-format.ts). The schema comes
+ * from the real migrations, applied to an in-memory database.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import { snapshotExperience, listRevisions, rollbackExperience } from "../src/revisions";
+import { formatRevisionHistory } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+function insertTopic(context: string): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, tags, project, topic_key)
+       VALUES ('decision', @context, 'chose', 'ok', 'arch', 'api', 'arch:db')`
+    )
+    .run({ context });
+  return Number(info.lastInsertRowid);
+}
+
+// Mirror of the topic upsert in database.ts (snapshot + updateByTopicKey)
+function upsertTopic(id: number, context: string) {
+  db.transaction(() => {
+    snapshotExperience(db, id);
+    db.prepare(
+      `UPDATE experiences SET context = @context, revision_count = revision_count + 1 WHERE id = @id`
+    ).run({ id, context });
+  })();
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("revision snapshots", () => {
+  it("keeps every previous version of an upserted topic", () => {
+    const id = insertTopic("we use postgres");
+    upsertTopic(id, "we use postgres + redis cache");
+    upsertTopic(id, "we use sqlite");
+
+    const revisions = listRevisions(db, id);
+    expect(revisions.map((r) => r.revision)).toEqual([1, 2, 3]);
+    expect(revisions.map((r) => r.context)).toEqual([
+      "we use postgres",
+      "we use postgres + redis cache",
+      "we use sqlite",
+    ]);
+    expect(revisions[0].replaced_at).toBeTruthy();
+    expect(revisions[2].replaced_at).toBeNull(); // live row
+  });
+
+  it("ignores a repeated snapshot of the same revision", () => {
+    const id = insertTopic("v1");
+    snapshotExperience(db, id);
+    snapshotExperience(db, id);
+    const count = (db.prepare(`SELECT COUNT(*) AS c FROM experience_revisions`).get() as any).c;
+    expect(count).toBe(1);
+  });
+});
+
+describe("rollbackExperience", () => {
+  it("restores an old revision as a new one, keeping history", () => {
+    const id = insertTopic("we use postgres");
+    upsertTopic(id, "we use sqlite");
+
+    const result = rollbackExperience(db, { experienceId: id, revision: 1 });
+    expect(result).toEqual({ ok: true, experienceId: id, fromRevision: 2, toRevision: 1, newRevision: 3 });
+
+    const row = db.prepare(`SELECT context, revision_count FROM experiences WHERE id = ?`).get(id) as any;
+    expect(row).toEqual({ context: "we use postgres", revision_count: 3 });
+    expect(listRevisions(db, id).map((r) => r.context)).toEqual([
+      "we use postgres",
+      "we use sqlite",
+      "we use postgres",
+    ]);
+  });
+
+  it("reports unknown, current and soft-deleted targets", () => {
+    const id = insertTopic("v1");
+    upsertTopic(id, "v2");
+    expect(rollbackExperience(db, { experienceId: id, revision: 9 })).toEqual({ ok: false, reason: "revision_not_found" });
+    expect(rollbackExperience(db, { experienceId: id, revision: 2 })).toEqual({ ok: false, reason: "already_current" });
+
+    db.prepare(`UPDATE experiences SET deleted_at = datetime('now') WHERE id = ?`).run(id);
+    expect(rollbackExperience(db, { experienceId: id, revision: 1 })).toEqual({ ok: false, reason: "not_found" });
+  });
+});
+
+describe("formatRevisionHistory", () => {
+  it("shows field diffs between consecutive revisions", () => {
+    const text = formatRevisionHistory(
+      [
+        { revision: 1, context: "postgres", action: "a", result: "r", replaced_at: "2026-01-01 10:00:00" },
+        { revision: 2, context: "sqlite", action: "a", result: "r", replaced_at: null },
+      ],
+      12
+    );
+    expect(text).toContain("--- Revisions of #12 ---");
+    expect(text).toContain("r2 (current)");
+    expect(text).toContain("    - postgres");
+    expect(text).toContain("    + sqlite");
+    expect(text).not.toContain("action:");
+  });
+
+  it("notes revisions overwritten before history existed", () => {
+    const text = formatRevisionHistory([{ revision: 3, context: "x", replaced_at: null }], 5);
+    expect(text).toContain("revisions 1-2 predate revision history");
+  });
+
+  it("returns an empty string without rows", () => {
+    expect(formatRevisionHistory([], 1)).toBe("");
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for hierarchical preference scopes (scopes.ts + config.ts): scope
+ * parsing and normalization, building the inheritance chain from the
+ * config, merging where the most specific layer wins with its origin
+ * reported, and the origin suffix in the session index.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { runMigrations } from "../src/migrations";
+import { parseConfig, loadConfig, ConfigError, DEFAULT_SCOPE_LAYERS } from "../src/config";
+import {
+  parseScope,
+  normalizeScopeParam,
+  scopeChain,
+  scopesOverlap,
+  mergeScopedPreferences,
+  lookupScopedPreference,
+} from "../src/scopes";
+import { formatSessionIndex } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+const config = parseConfig({
+  scopes: {
+    projects: {
+      "*": ["org:acme"],
+      api: ["stack:typescript", "team:payments"],
+    },
+  },
+});
+
+function insertPref(key: string, value: string, scope: string, confidence = 0.5): void {
+  db.prepare(`INSERT INTO preferences (key, value, scope, confidence) VALUES (?, ?, ?, ?)`).run(key, value, scope, confidence);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("config", () => {
+  it("falls back to the default layers without a file", () => {
+    const loaded = loadConfig(path.join(os.tmpdir(), "agent-memory-missing-config.json"));
+    expect(loaded.scopes).toEqual({ layers: DEFAULT_SCOPE_LAYERS, projects: {} });
+  });
+
+  it("rejects malformed files and reserved layer names", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "agent-memory-")), "config.json");
+    fs.writeFileSync(file, "{ not json");
+    expect(() => loadConfig(file)).toThrow(ConfigError);
+    expect(() => parseConfig({ scopes: { layers: ["project"] } })).toThrow(/built-in/);
+  });
+});
+
+describe("parseScope / normalizeScopeParam", () => {
+  it("classifies every scope form", () => {
+    expect(parseScope("global", DEFAULT_SCOPE_LAYERS)).toEqual({ layer: "global", scope: "global" });
+    expect(parseScope("Team: payments ", DEFAULT_SCOPE_LAYERS)).toEqual({ layer: "team", scope: "team:payments" });
+    expect(parseScope("api", DEFAULT_SCOPE_LAYERS)).toEqual({ layer: "project", scope: "api" });
+    expect(parseScope("package:acme/api:billing", DEFAULT_SCOPE_LAYERS)).toEqual({
+      layer: "package",
+      scope: "package:acme/api:billing",
+    });
+    expect(parseScope("tem:payments", DEFAULT_SCOPE_LAYERS)).toBeNull();
+    expect(parseScope("package:billing", DEFAULT_SCOPE_LAYERS)).toBeNull();
+  });
+
+  it("resolves project names, including inside package scopes", () => {
+    const resolve = (name: string) => (name === "old-api" ? "api" : name);
+    expect(normalizeScopeParam(undefined, resolve, DEFAULT_SCOPE_LAYERS)).toBe("global");
+    expect(normalizeScopeParam("old-api", resolve, DEFAULT_SCOPE_LAYERS)).toBe("api");
+    expect(normalizeScopeParam("package:old-api:billing", resolve, DEFAULT_SCOPE_LAYERS)).toBe("package:api:billing");
+    expect(normalizeScopeParam("org:acme", resolve, DEFAULT_SCOPE_LAYERS)).toBe("org:acme");
+    expect(normalizeScopeParam("nope:x", resolve, DEFAULT_SCOPE_LAYERS)).toBeNull();
+  });
+});
+
+describe("scopeChain", () => {
+  it("orders configured layers by layer order, then project and package", () => {
+    expect(scopeChain("api", { config, package: "billing" })).toEqual([
+      "global",
+      "org:acme",
+      "team:payments",
+      "stack:typescript",
+      "api",
+      "package:api:billing",
+    ]);
+    expect(scopeChain("web", { config })).toEqual(["global", "org:acme", "web"]);
+    expect(scopeChain("", { config })).toEqual(["global"]);
+  });
+});
+
+describe("scopesOverlap", () => {
+  it("is true only when some project inherits both scopes", () => {
+    expect(scopesOverlap("global", "web", config)).toBe(true);
+    expect(scopesOverlap("api", "team:payments", config)).toBe(true);
+    expect(scopesOverlap("package:api:billing", "stack:typescript", config)).toBe(true);
+    expect(scopesOverlap("team:payments", "stack:typescript", config)).toBe(true);
+    expect(scopesOverlap("web", "org:acme", config)).toBe(true);
+    expect(scopesOverlap("web", "team:payments", config)).toBe(false);
+    expect(scopesOverlap("api", "web", config)).toBe(false);
+  });
+});
+
+describe("mergeScopedPreferences", () => {
+  it("lets the most specific layer win and reports where each value came from", () => {
+    insertPref("indent", "tabs", "global", 0.9);
+    insertPref("indent", "2 spaces", "org:acme");
+    insertPref("review", "two approvals", "team:payments");
+    insertPref("indent", "4 spaces", "package:api:billing");
+    insertPref("lang", "python", "team:search");
+
+    const merged = mergeScopedPreferences(db, scopeChain("api", { config, package: "billing" }));
+    const byKey = Object.fromEntries(merged.map((p) => [p.key, p]));
+    expect(Object.keys(byKey).sort()).toEqual(["indent", "review"]);
+    expect(byKey.indent).toMatchObject({ value: "4 spaces", _origin: "package", _scope: "package:api:billing" });
+    expect(byKey.review).toMatchObject({ _origin: "team", _scope: "team:payments" });
+
+    const withoutPackage = mergeScopedPreferences(db, scopeChain("api", { config }));
+    expect(withoutPackage.find((p) => p.key === "indent")).toMatchObject({ value: "2 spaces", _origin: "org" });
+  });
+
+  it("skips invalidated rows so the next layer shows through", () => {
+    insertPref("indent", "tabs", "global");
+    insertPref("indent", "spaces", "api");
+    db.prepare(`UPDATE preferences SET invalidated_at = datetime('now') WHERE scope = 'api'`).run();
+    expect(mergeScopedPreferences(db, scopeChain("api", { config }))).toMatchObject([
+      { value: "tabs", _origin: "global" },
+    ]);
+  });
+
+  it("looks a key up along the chain, most specific first", () => {
+    insertPref("indent", "tabs", "global");
+    insertPref("indent", "spaces", "api");
+    const found = lookupScopedPreference(db, "indent", scopeChain("api", { config }));
+    expect(found.map((p) => p._scope)).toEqual(["api", "global"]);
+  });
+});
+
+describe("formatSessionIndex origin", () => {
+  it("tags non-global preferences with the layer they came from", () => {
+    const out = formatSessionIndex({
+      project: "api",
+      source: "startup",
+      prefs: [
+        { key: "indent", value: "tabs", effective_confidence: 0.5, _origin: "global", _scope: "global" },
+        { key: "review", value: "two", effective_confidence: 0.5, _origin: "team", _scope: "team:payments" },
+        { key: "db", value: "sqlite", effective_confidence: 0.5, _origin: "project", _scope: "api" },
+      ],
+      experiences: [],
+      patterns: [],
+      corrections: [],
+    });
+    expect(out).toContain("- indent: tabs (0.5)\n");
+    expect(out).toContain("- review: two (0.5) [team:payments]");
+    expect(out).toContain("- db: sqlite (0.5) [project]");
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for structured query_memory filters (search-filters.ts): the SQL
+ * condition, both filtered channels (FTS and exact-distance vector) and
+ * the filter description. Schema from the real migrations plus a float[4]
+ * vec0 table (same fixture style as trash.test.ts).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+
+import { runMigrations } from "../src/migrations";
+import { syncExperienceTags } from "../src/tags";
+import {
+  hasSearchFilters,
+  searchFtsFiltered,
+  searchVectorsFiltered,
+  filterExperienceIds,
+  describeSearchFilters,
+} from "../src/search-filters";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(params: {
+  context: string;
+  type?: string;
+  project?: string;
+  tags?: string;
+  success?: number;
+  createdAt?: string;
+  topicKey?: string;
+  vector?: number[];
+}): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, tags, project, success, created_at, topic_key)
+       VALUES (@type, @context, 'act', 'res', @tags, @project, @success, @created_at, @topic_key)`
+    )
+    .run({
+      type: params.type ?? "experience",
+      context: params.context,
+      tags: params.tags ?? "",
+      project: params.project ?? "",
+      success: params.success ?? 1,
+      created_at: params.createdAt ?? "2026-10-01 10:00:00",
+      topic_key: params.topicKey ?? null,
+    });
+  const id = Number(info.lastInsertRowid);
+  syncExperienceTags(db, id, params.tags ?? "");
+  if (params.vector) {
+    db.prepare(`INSERT INTO vec_experiences (experience_id, embedding) VALUES (?, ?)`).run(
+      BigInt(id),
+      new Float32Array(params.vector)
+    );
+  }
+  return id;
+}
+
+const ftsIds = (query: string, filters: Parameters<typeof searchFtsFiltered>[1]["filters"], project?: string) =>
+  searchFtsFiltered(db, { query, filters, project, limit: 10 }).map((r) => r.id);
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  sqliteVec.load(db);
+  runMigrations(db);
+  db.exec(`
+    CREATE VIRTUAL TABLE vec_experiences USING vec0(
+      experience_id INTEGER PRIMARY KEY,
+      embedding float[4] distance_metric=cosine
+    );
+  `);
+});
+
+describe("hasSearchFilters", () => {
+  it("ignores missing and empty filters", () => {
+    expect(hasSearchFilters(undefined)).toBe(false);
+    expect(hasSearchFilters({ types: [], tags: [] })).toBe(false);
+    expect(hasSearchFilters({ success: false })).toBe(true);
+    expect(hasSearchFilters({ projectOnly: true })).toBe(true);
+  });
+});
+
+describe("searchFtsFiltered", () => {
+  it("filters by type, success and all tags", () => {
+    const gotcha = insertExp({ context: "docker volume permissions", type: "gotcha", tags: "docker,linux" });
+    const failure = insertExp({ context: "docker build cache", success: 0, tags: "docker" });
+    insertExp({ context: "docker compose ports", tags: "compose" });
+
+    expect(ftsIds("docker", { types: ["gotcha"] })).toEqual([gotcha]);
+    expect(ftsIds("docker", { success: false })).toEqual([failure]);
+    expect(ftsIds("docker", { tags: ["Docker"] }).sort()).toEqual([gotcha, failure].sort());
+    expect(ftsIds("docker", { tags: ["docker", "linux"] })).toEqual([gotcha]);
+  });
+
+  it("filters by created / updated dates and topic prefix", () => {
+    const old = insertExp({ context: "redis sessions", createdAt: "2025-01-01 00:00:00", topicKey: "arch/sessions" });
+    const recent = insertExp({ context: "redis cache", createdAt: "2026-10-10 00:00:00", topicKey: "arch/cache" });
+    insertExp({ context: "redis 50% faster", topicKey: "perf_redis" });
+    db.prepare(`UPDATE experiences SET last_seen_at = '2026-10-15 00:00:00' WHERE id = ?`).run(old);
+
+    expect(ftsIds("redis", { createdAfter: "2026-10-05 00:00:00" })).toEqual([recent]);
+    expect(ftsIds("redis", { createdBefore: "2026-01-01 00:00:00" })).toEqual([old]);
+    expect(ftsIds("redis", { updatedAfter: "2026-10-12 00:00:00" })).toEqual([old]);
+    expect(ftsIds("redis", { topicKeyPrefix: "arch/" }).sort()).toEqual([old, recent].sort());
+    // LIKE wildcards in the prefix are literal
+    expect(ftsIds("redis", { topicKeyPrefix: "perf%" })).toEqual([]);
+  });
+
+  it("keeps global experiences unless project only", () => {
+    const own = insertExp({ context: "deploy script", project: "api" });
+    const global = insertExp({ context: "deploy checklist" });
+    insertExp({ context: "deploy web", project: "web" });
+
+    expect(ftsIds("deploy", { success: true }, "api").sort()).toEqual([own, global].sort());
+    expect(ftsIds("deploy", { projectOnly: true }, "api")).toEqual([own]);
+  });
+
+  it("hides deleted and no longer valid experiences", () => {
+    const deleted = insertExp({ context: "nginx reload", type: "gotcha" });
+    const ended = insertExp({ context: "nginx config", type: "gotcha" });
+    db.prepare(`UPDATE experiences SET deleted_at = datetime('now') WHERE id = ?`).run(deleted);
+    db.prepare(`UPDATE experiences SET valid_to = datetime('now', '-1 day') WHERE id = ?`).run(ended);
+    expect(ftsIds("nginx", { types: ["gotcha"] })).toEqual([]);
+  });
+});
+
+describe("searchVectorsFiltered", () => {
+  it("ranks only matching experiences by exact distance, so the limit is filled", () => {
+    // The closest vectors are all successes; the failures are further away
+    for (let i = 0; i < 5; i++) insertExp({ context: `ok ${i}`, vector: [1, 0, 0, 0.01 * i] });
+    const near = insertExp({ context: "fail near", success: 0, vector: [0.8, 0.6, 0, 0] });
+    const far = insertExp({ context: "fail far", success: 0, vector: [0, 1, 0, 0] });
+
+    const results = searchVectorsFiltered(db, {
+      embedding: new Float32Array([1, 0, 0, 0]),
+      filters: { success: false },
+      limit: 2,
+    });
+    expect(results.map((r) => r.experience_id)).toEqual([near, far]);
+    expect(results[0].distance).toBeCloseTo(0.2);
+    expect(results[1].distance).toBeCloseTo(1);
+  });
+});
+
+describe("filterExperienceIds", () => {
+  it("keeps the ids matching the filters and scope", () => {
+    const a = insertExp({ context: "a", type: "decision", project: "api" });
+    const b = insertExp({ context: "b", type: "decision" });
+    const c = insertExp({ context: "c" });
+    expect([...filterExperienceIds(db, [a, b, c], { types: ["decision"] })].sort()).toEqual([a, b].sort());
+    expect([...filterExperienceIds(db, [a, b, c], { types: ["decision"], projectOnly: true }, { project: "api" })]).toEqual([a]);
+    expect(filterExperienceIds(db, [], { types: ["decision"] }).size).toBe(0);
+  });
+});
+
+describe("describeSearchFilters", () => {
+  it("summarizes the active filters", () => {
+    expect(
+      describeSearchFilters({
+        types: ["gotcha", "decision"],
+        tags: ["Docker"],
+        success: false,
+        createdAfter: "2026-09-19 00:00:00",
+        topicKeyPrefix: "arch/",
+        projectOnly: true,
+      })
+    ).toBe(
+      "type gotcha|decision, tag docker, failures only, created since 2026-09-19 00:00:00, topic arch/*, project only"
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for normalized tags (tags.ts): parsing, exact matching through
+ * experience_tags, per-project counts, rename/merge rewriting the
+ * experiences.tags string, and the migration backfill. Schema from the real
+ * migrations on an in-memory database.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { MIGRATIONS, runMigrations } from "../src/migrations";
+import {
+  EXPERIENCES_WITH_TAG_SQL,
+  parseTags,
+  formatTags,
+  syncExperienceTags,
+  listTagCounts,
+  formatTagList,
+  renameTag,
+} from "../src/tags";
+
+let db: BetterSqlite3.Database;
+
+// Mirror of insertOrDeduplicate in database.ts (canonical string + sync)
+function insertExp(params: { context: string; tags: string; project?: string }): number {
+  const tags = formatTags(parseTags(params.tags));
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, tags, project)
+       VALUES ('experience', @context, 'act', 'res', @tags, @project)`
+    )
+    .run({ context: params.context, tags, project: params.project ?? "" });
+  const id = Number(info.lastInsertRowid);
+  syncExperienceTags(db, id, tags);
+  return id;
+}
+
+function idsWithTag(tag: string): number[] {
+  return (db.prepare(`${EXPERIENCES_WITH_TAG_SQL} ORDER BY et.experience_id`).all({ tag }) as any[]).map(
+    (r) => r.experience_id
+  );
+}
+
+function tagsOf(id: number): string {
+  return (db.prepare(`SELECT tags FROM experiences WHERE id = ?`).get(id) as any).tags;
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("parseTags", () => {
+  it("normalizes case and whitespace and drops empties and duplicates", () => {
+    expect(parseTags(" TypeScript, bug ,,typescript,  Code   Review ")).toEqual(["typescript", "bug", "code review"]);
+    expect(parseTags("")).toEqual([]);
+    expect(parseTags(null)).toEqual([]);
+  });
+});
+
+describe("exact matching", () => {
+  it("matches whole tags only", () => {
+    const api = insertExp({ context: "a", tags: "api,http" });
+    insertExp({ context: "b", tags: "rapid" });
+    insertExp({ context: "c", tags: "apis" });
+    expect(idsWithTag("api")).toEqual([api]);
+  });
+
+  it("replaces the links on re-sync", () => {
+    const id = insertExp({ context: "a", tags: "one,two" });
+    syncExperienceTags(db, id, "two,three");
+    expect(idsWithTag("one")).toEqual([]);
+    expect(idsWithTag("three")).toEqual([id]);
+  });
+
+  it("drops the links when an experience is purged", () => {
+    const id = insertExp({ context: "a", tags: "x" });
+    db.prepare(`DELETE FROM experiences WHERE id = ?`).run(id);
+    expect((db.prepare(`SELECT COUNT(*) AS c FROM experience_tags`).get() as any).c).toBe(0);
+  });
+});
+
+describe("listTagCounts", () => {
+  it("counts active experiences per tag and project", () => {
+    insertExp({ context: "a", tags: "bug,ts", project: "api" });
+    insertExp({ context: "b", tags: "bug", project: "api" });
+    insertExp({ context: "c", tags: "bug", project: "web" });
+    const deleted = insertExp({ context: "d", tags: "ts", project: "web" });
+    db.prepare(`UPDATE experiences SET deleted_at = datetime('now') WHERE id = ?`).run(deleted);
+
+    const tags = listTagCounts(db);
+    expect(tags).toEqual([
+      { name: "bug", total: 3, projects: [{ project: "api", count: 2 }, { project: "web", count: 1 }] },
+      { name: "ts", total: 1, projects: [{ project: "api", count: 1 }] },
+    ]);
+    expect(listTagCounts(db, "web").map((t) => t.name)).toEqual(["bug"]);
+
+    expect(formatTagList(tags)).toContain("- bug: 3 — api: 2, web: 1");
+    expect(formatTagList([], "web")).toBe('No tags in use for project "web".');
+  });
+});
+
+describe("renameTag", () => {
+  it("renames a tag and rewrites the stored strings", () => {
+    const id = insertExp({ context: "a", tags: "ts,bug" });
+    expect(renameTag(db, { from: "TS", to: "typescript" })).toEqual({
+      ok: true,
+      from: "ts",
+      to: "typescript",
+      merged: false,
+      experiences: 1,
+    });
+    expect(tagsOf(id)).toBe("typescript,bug");
+    expect(idsWithTag("typescript")).toEqual([id]);
+    expect(idsWithTag("ts")).toEqual([]);
+  });
+
+  it("merges into an existing tag without duplicating it", () => {
+    const both = insertExp({ context: "a", tags: "js,javascript" });
+    const onlyOld = insertExp({ context: "b", tags: "js" });
+    const result = renameTag(db, { from: "js", to: "javascript" });
+    expect(result).toMatchObject({ ok: true, merged: true, experiences: 2 });
+
+    expect(tagsOf(both)).toBe("javascript");
+    expect(tagsOf(onlyOld)).toBe("javascript");
+    expect(idsWithTag("javascript")).toEqual([both, onlyOld]);
+    expect(db.prepare(`SELECT 1 FROM tags WHERE name = 'js'`).get()).toBeUndefined();
+  });
+
+  it("re-indexes renamed rows in FTS", () => {
+    insertExp({ context: "a", tags: "legacyname" });
+    renameTag(db, { from: "legacyname", to: "freshname" });
+    const hits = (name: string) =>
+      db.prepare(`SELECT rowid FROM experiences_fts WHERE experiences_fts MATCH ?`).all(name).length;
+    expect(hits("freshname")).toBe(1);
+    expect(hits("legacyname")).toBe(0);
+  });
+
+  it("rejects unknown and invalid names", () => {
+    insertExp({ context: "a", tags: "x" });
+    expect(renameTag(db, { from: "nope", to: "y" })).toEqual({ ok: false, reason: "not_found" });
+    expect(renameTag(db, { from: "x", to: " X " })).toEqual({ ok: false, reason: "invalid" });
+    expect(renameTag(db, { from: "x", to: "a,b" })).toEqual({ ok: false, reason: "invalid" });
+  });
+});
+
+describe("normalized_tags migration", () => {
+  it("backfills links from existing comma-separated tags", () => {
+    const fresh = new Database(":memory:");
+    runMigrations(fresh, MIGRATIONS.filter((m) => m.version < 4));
+    fresh
+      .prepare(`INSERT INTO experiences (type, context, action, result, tags) VALUES ('experience', 'c', 'a', 'r', ?)`)
+      .run("TypeScript, bug,typescript");
+
+    runMigrations(fresh);
+
+    expect((fresh.prepare(`SELECT tags FROM experiences`).get() as any).tags).toBe("typescript,bug");
+    const names = (fresh.prepare(`SELECT name FROM tags ORDER BY name`).all() as any[]).map((r) => r.name);
+    expect(names).toEqual(["bug", "typescript"]);
+    expect((fresh.prepare(`SELECT COUNT(*) AS c FROM experience_tags`).get() as any).c).toBe(2);
+  });
+});
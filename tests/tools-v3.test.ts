@@ -1,6 +1,6 @@
 /**
  * Tests for the v3 tool-surface consolidation and telemetry:
- *   - tool registration: 9 tools, get_experience/get_patterns/get_timeline gone
+ *   - tool registration: expected tool set, get_experience/get_patterns/get_timeline gone
  *   - get_memory batch formatting (detail blocks, timeline, missing ids)
  *   - telemetry: record + 30-day summary (avg / p95 / items) + formatting
  *
@@ -44,18 +44,34 @@ describe("v3 tool surface", () => {
   const source = readFileSync(path.join(testDir, "..", "src", "index.ts"), "utf8");
   const registered = [...source.matchAll(/server\.registerTool\(\s*"([^"]+)"/g)].map((m) => m[1]);
 
-  it("registers exactly the 9 consolidated tools", () => {
+  it("registers exactly the expected tools", () => {
     expect(registered.sort()).toEqual(
       [
+        "contradict_preference",
         "forget_memory",
         "get_memory",
         "get_preferences",
+        "invalidate_experience",
         "learn_preference",
+        "link_memories",
+        "list_invalidated_preferences",
+        "list_tags",
+        "list_trash",
         "memory_stats",
+        "pin_memory",
         "prune_memory",
         "query_memory",
+        "rate_memory",
         "record_correction",
         "record_experience",
+        "rename_tag",
+        "resolve_conflict",
+        "restore_memory",
+        "restore_preference",
+        "revalidate_experience",
+        "rollback_preference",
+        "rollback_topic",
+        "unpin_memory",
       ].sort()
     );
   });
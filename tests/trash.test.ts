@@ -0,0 +1,154 @@
+/**
+ * Tests for the trash (trash.ts): listing soft-deleted experiences by
+ * project / tag / batch / date, restoring them with FTS re-indexing, and
+ * detecting restored rows that need a vector. Schema from the real
+ * migrations plus a float[4] vec0 table (same fixture style as
+ * data-quality.test.ts).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+
+import { runMigrations } from "../src/migrations";
+import {
+  newDeletionBatch,
+  isEmptyTrashFilter,
+  listTrash,
+  restoreFromTrash,
+  findExperiencesWithoutVector,
+  formatTrashListing,
+} from "../src/trash";
+import { syncExperienceTags } from "../src/tags";
+
+let db: BetterSqlite3.Database;
+
+function insertExp(params: { context: string; project?: string; tags?: string }): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, tags, project)
+       VALUES ('experience', @context, 'act', 'res', @tags, @project)`
+    )
+    .run({ context: params.context, tags: params.tags ?? "", project: params.project ?? "" });
+  const id = Number(info.lastInsertRowid);
+  syncExperienceTags(db, id, params.tags ?? "");
+  return id;
+}
+
+// Mirror of the soft-delete statements in database.ts
+function softDelete(id: number, batch: string, daysAgo = 0) {
+  db.prepare(
+    `UPDATE experiences SET deleted_at = datetime('now', '-' || @days || ' days'), deleted_batch = @batch
+     WHERE id = @id AND deleted_at IS NULL`
+  ).run({ id, batch, days: daysAgo });
+}
+
+function ftsHits(term: string): number {
+  return db
+    .prepare(
+      `SELECT e.id FROM experiences e JOIN experiences_fts f ON e.id = f.rowid
+       WHERE experiences_fts MATCH ? AND e.deleted_at IS NULL`
+    )
+    .all(term).length;
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  sqliteVec.load(db);
+  runMigrations(db);
+  db.exec(`
+    CREATE VIRTUAL TABLE vec_experiences USING vec0(
+      experience_id INTEGER PRIMARY KEY,
+      embedding float[4] distance_metric=cosine
+    );
+  `);
+});
+
+describe("listTrash", () => {
+  it("filters by project, exact tag, batch and deletion date", () => {
+    const a = insertExp({ context: "api timeout", project: "api", tags: "api,http" });
+    const b = insertExp({ context: "rapid prototyping", project: "web", tags: "rapid" });
+    const c = insertExp({ context: "old note", project: "api", tags: "notes" });
+    insertExp({ context: "still active", project: "api" });
+
+    const batch = newDeletionBatch();
+    softDelete(a, batch);
+    softDelete(b, batch);
+    softDelete(c, "oldbatch", 40);
+
+    expect(listTrash(db).total).toBe(3);
+    expect(listTrash(db, { project: "api" }).items.map((i) => i.id)).toEqual([a, c]);
+    expect(listTrash(db, { tag: "api" }).items.map((i) => i.id)).toEqual([a]); // not "rapid"
+    expect(listTrash(db, { batch }).total).toBe(2);
+    expect(listTrash(db, { deletedBefore: "2000-01-01" }).total).toBe(0);
+    const recent = listTrash(db, { deletedSince: new Date(Date.now() - 86400000).toISOString().slice(0, 10) });
+    expect(recent.items.map((i) => i.id).sort()).toEqual([a, b]);
+  });
+
+  it("summarizes batches and respects the limit", () => {
+    const batch = newDeletionBatch();
+    for (let i = 0; i < 5; i++) softDelete(insertExp({ context: `row ${i}` }), batch);
+
+    const listing = listTrash(db, {}, 2);
+    expect(listing.items).toHaveLength(2);
+    expect(listing.total).toBe(5);
+    expect(listing.batches).toEqual([expect.objectContaining({ batch, count: 5 })]);
+
+    const text = formatTrashListing(listing);
+    expect(text).toContain(`- ${batch}: 5 item(s)`);
+    expect(text).toContain("(+3 more");
+  });
+
+  it("formats an empty trash", () => {
+    expect(formatTrashListing(listTrash(db))).toBe("Trash is empty for this filter.");
+  });
+});
+
+describe("restoreFromTrash", () => {
+  it("restores a whole batch and re-indexes it in FTS", () => {
+    const a = insertExp({ context: "docker compose fix", project: "api" });
+    const b = insertExp({ context: "docker build cache", project: "api" });
+    const other = insertExp({ context: "docker unrelated", project: "web" });
+    const batch = newDeletionBatch();
+    softDelete(a, batch);
+    softDelete(b, batch);
+    softDelete(other, newDeletionBatch());
+    expect(ftsHits("docker")).toBe(0);
+
+    expect(restoreFromTrash(db, { batch })).toEqual([a, b]);
+    expect(ftsHits("docker")).toBe(2);
+
+    const row = db.prepare(`SELECT deleted_at, deleted_batch FROM experiences WHERE id = ?`).get(a);
+    expect(row).toEqual({ deleted_at: null, deleted_batch: null });
+    expect(listTrash(db).items.map((i) => i.id)).toEqual([other]);
+  });
+
+  it("refuses an empty filter", () => {
+    softDelete(insertExp({ context: "x" }), newDeletionBatch());
+    expect(isEmptyTrashFilter({})).toBe(true);
+    expect(isEmptyTrashFilter({ ids: [] })).toBe(true);
+    expect(restoreFromTrash(db, {})).toEqual([]);
+    expect(listTrash(db).total).toBe(1);
+  });
+
+  it("restores by id without touching active rows", () => {
+    const a = insertExp({ context: "a" });
+    const active = insertExp({ context: "b" });
+    softDelete(a, newDeletionBatch());
+    expect(restoreFromTrash(db, { ids: [a, active] })).toEqual([a]);
+  });
+});
+
+describe("findExperiencesWithoutVector", () => {
+  it("returns restored rows that have no vector", () => {
+    const withVec = insertExp({ context: "a" });
+    const withoutVec = insertExp({ context: "b" });
+    db.prepare(`INSERT INTO vec_experiences(experience_id, embedding) VALUES (?, ?)`).run(
+      BigInt(withVec),
+      new Float32Array([1, 0, 0, 0])
+    );
+    expect(findExperiencesWithoutVector(db, [withVec, withoutVec])).toEqual([withoutVec]);
+    expect(findExperiencesWithoutVector(db, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for experience validity (validity.ts): ending and reopening a
+ * fact's validity, hiding no-longer-true experiences from automatic paths,
+ * as_of visibility across both time axes, historical topic content and the
+ * get_memory detail. Schema from the real migrations.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import type BetterSqlite3 from "better-sqlite3";
+
+import { runMigrations } from "../src/migrations";
+import {
+  parseDateParam,
+  endValidity,
+  reopenValidity,
+  findHiddenExperienceIds,
+  getExperienceAsOf,
+  formatValidity,
+} from "../src/validity";
+import { snapshotExperience } from "../src/revisions";
+import { getNeighbours } from "../src/links";
+import { setPinned, listPinnedExperiences } from "../src/pins";
+import { formatExperienceDetail, formatMemoryBatch } from "../src/context-format";
+
+let db: BetterSqlite3.Database;
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+function insertExp(context: string, createdAt = "2025-01-10 00:00:00"): number {
+  const info = db
+    .prepare(
+      `INSERT INTO experiences (type, context, action, result, created_at, valid_from)
+       VALUES ('decision', ?, 'a', 'r', ?, ?)`
+    )
+    .run(context, createdAt, createdAt);
+  return Number(info.lastInsertRowid);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  runMigrations(db);
+});
+
+describe("parseDateParam", () => {
+  it("stores UTC datetime('now') format and rejects bad or future dates when asked", () => {
+    expect(parseDateParam("as_of", "2025-06-01", { nowMs: NOW })).toEqual({ ok: true, value: "2025-06-01 00:00:00" });
+    expect(parseDateParam("as_of", "2027-01-01", { nowMs: NOW }).ok).toBe(true);
+    expect(parseDateParam("valid_to", "2027-01-01", { notFuture: true, nowMs: NOW })).toEqual({
+      ok: false,
+      error: 'valid_to "2027-01-01" is in the future',
+    });
+    expect(parseDateParam("as_of", "last spring").ok).toBe(false);
+  });
+});
+
+describe("endValidity / reopenValidity", () => {
+  it("ends a fact once, links its successor and can reopen it", () => {
+    const redis = insertExp("sessions live in Redis");
+    const postgres = insertExp("sessions moved to Postgres", "2026-03-01 00:00:00");
+
+    expect(endValidity(db, { id: redis, validTo: "2026-03-01 00:00:00", supersededBy: postgres })).toEqual({
+      ok: true,
+      changed: true,
+      validTo: "2026-03-01 00:00:00",
+    });
+    expect(endValidity(db, { id: redis })).toEqual({ ok: true, changed: false, validTo: "2026-03-01 00:00:00" });
+    expect(getNeighbours(db, { kind: "experience", id: redis })).toMatchObject([
+      { relation: "supersedes", direction: "in", neighbour: { kind: "experience", id: postgres } },
+    ]);
+
+    expect(reopenValidity(db, redis)).toEqual({ ok: true, changed: true, validTo: null });
+    expect(reopenValidity(db, redis)).toEqual({ ok: true, changed: false, validTo: null });
+  });
+
+  it("rejects missing experiences, ends before valid_from and bad successors", () => {
+    const id = insertExp("c");
+    expect(endValidity(db, { id: 99 })).toEqual({ ok: false, reason: "not_found" });
+    expect(endValidity(db, { id, validTo: "2024-01-01 00:00:00" })).toEqual({ ok: false, reason: "before_valid_from" });
+    expect(endValidity(db, { id, supersededBy: id })).toEqual({ ok: false, reason: "self_supersede" });
+    expect(endValidity(db, { id, supersededBy: 99 })).toEqual({ ok: false, reason: "successor_not_found" });
+    expect(db.prepare(`SELECT valid_to FROM experiences WHERE id = ?`).get(id)).toEqual({ valid_to: null });
+  });
+});
+
+describe("hiding and as_of", () => {
+  it("hides no-longer-true experiences now but shows them as of a date they held", () => {
+    const ended = insertExp("sessions live in Redis");
+    const current = insertExp("deploys go through CI");
+    const later = insertExp("feature flags in LaunchDarkly", "2026-05-01 00:00:00");
+    const deleted = insertExp("old lint setup");
+    endValidity(db, { id: ended, validTo: "2026-03-01 00:00:00" });
+    db.prepare(`UPDATE experiences SET deleted_at = '2026-04-01 00:00:00' WHERE id = ?`).run(deleted);
+    const ids = [ended, current, later, deleted];
+
+    expect([...findHiddenExperienceIds(db, ids)]).toEqual([ended]);
+    expect([...findHiddenExperienceIds(db, ids, "2026-02-01 00:00:00")].sort()).toEqual([later]);
+    expect([...findHiddenExperienceIds(db, ids, "2026-06-01 00:00:00")].sort()).toEqual([ended, deleted]);
+    expect([...findHiddenExperienceIds(db, ids, "2024-12-31 00:00:00")].sort()).toEqual(ids);
+  });
+
+  it("drops no-longer-true pins from the session index", () => {
+    const id = insertExp("c");
+    setPinned(db, id, true);
+    endValidity(db, { id });
+    expect(listPinnedExperiences(db, "")).toEqual([]);
+  });
+
+  it("returns the topic revision that was live at the date", () => {
+    const id = insertExp("schema v1");
+    db.prepare(`UPDATE experiences SET topic_key = 'arch:schema' WHERE id = ?`).run(id);
+    snapshotExperience(db, id);
+    db.prepare(`UPDATE experience_revisions SET replaced_at = '2026-02-01 00:00:00' WHERE experience_id = ?`).run(id);
+    db.prepare(`UPDATE experiences SET context = 'schema v2', revision_count = 2 WHERE id = ?`).run(id);
+
+    expect(getExperienceAsOf(db, id, "2026-01-01 00:00:00")).toMatchObject({ context: "schema v1", revision_count: 1 });
+    expect(getExperienceAsOf(db, id, "2026-03-01 00:00:00")).toMatchObject({ context: "schema v2", revision_count: 2 });
+    expect(getExperienceAsOf(db, id, "2024-01-01 00:00:00")).toBeUndefined();
+  });
+});
+
+describe("formatting validity", () => {
+  it("shows the interval in the get_memory detail and the as_of batch header", () => {
+    const base = { id: 1, type: "decision", success: 1, created_at: "2025-01-10 00:00:00" };
+    expect(formatExperienceDetail(base)).not.toContain("Valid:");
+    expect(formatExperienceDetail({ ...base, valid_from: base.created_at, valid_to: "2026-03-01 00:00:00" })).toContain(
+      "Valid:      2025-01-10 00:00:00 → 2026-03-01 00:00:00 (no longer true)"
+    );
+    expect(formatValidity("2024-06-01 00:00:00", null, NOW)).toBe("since 2024-06-01 00:00:00");
+
+    const batch = formatMemoryBatch({ blocks: ["block"], missingIds: [7], asOf: "2026-01-01 00:00:00" });
+    expect(batch.startsWith("Memory as of 2026-01-01 00:00:00 UTC:")).toBe(true);
+    expect(batch).toContain("Not found (not recorded yet, deleted or not valid at that date): #7");
+  });
+});